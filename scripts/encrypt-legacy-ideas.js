@@ -0,0 +1,201 @@
+#!/usr/bin/env node
+
+/**
+ * One-off migration that encrypts the confidential fields of ideas stored before
+ * at-rest encryption was introduced. Every idea without a content key gets one, and its
+ * plaintext problem_statement, solution and required_resources (including those of its
+ * revisions) and its attachment contents are encrypted with it, so a database dump no longer
+ * exposes them.
+ *
+ * The ciphertext format must stay identical to src/app/utils/ideaEncryption.ts.
+ *
+ * Usage: IDEA_SUBMITTER_URL=... IDEA_CONTENT_ENCRYPTION_KEY=... node scripts/encrypt-legacy-ideas.js
+ * The script is idempotent: ideas that already have a content key are skipped.
+ */
+
+const { Client } = require('pg');
+const { webcrypto } = require('crypto');
+
+const CONFIDENTIAL_IDEA_FIELDS = ['problem_statement', 'solution', 'required_resources'];
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+
+const DRY_RUN = process.argv.includes('--dry-run');
+
+const toBase64 = (bytes) => Buffer.from(bytes).toString('base64');
+const fromBase64 = (value) => new Uint8Array(Buffer.from(value, 'base64'));
+
+const isEncryptedIdeaContent = (value) =>
+  typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+
+const ENCRYPTED_ATTACHMENT_PREFIX = Buffer.from(ENCRYPTED_PREFIX);
+
+const isEncryptedIdeaAttachment = (content) =>
+  content.length > ENCRYPTED_ATTACHMENT_PREFIX.length + IV_LENGTH &&
+  content.subarray(0, ENCRYPTED_ATTACHMENT_PREFIX.length).equals(ENCRYPTED_ATTACHMENT_PREFIX);
+
+/**
+ * Encrypts a value with AES-256-GCM under a base64 key
+ * @param {string} plaintext The value to encrypt
+ * @param {string} keyBase64 The base64 encoded key
+ * @returns {Promise<string>} The prefixed ciphertext
+ */
+async function encryptIdeaContent(plaintext, keyBase64) {
+  const key = await webcrypto.subtle.importKey('raw', fromBase64(keyBase64), 'AES-GCM', false, [
+    'encrypt',
+  ]);
+  const iv = webcrypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await webcrypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+/**
+ * Encrypts attachment bytes as the prefix, the IV and the AES-256-GCM ciphertext
+ * @param {Buffer} content The file contents
+ * @param {string} keyBase64 The base64 encoded key
+ * @returns {Promise<Buffer>} The encrypted contents
+ */
+async function encryptIdeaAttachment(content, keyBase64) {
+  const key = await webcrypto.subtle.importKey('raw', fromBase64(keyBase64), 'AES-GCM', false, [
+    'encrypt',
+  ]);
+  const iv = webcrypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await webcrypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, content);
+  return Buffer.concat([ENCRYPTED_ATTACHMENT_PREFIX, iv, new Uint8Array(ciphertext)]);
+}
+
+/**
+ * Returns the confidential fields of a row encrypted, leaving empty and encrypted values as-is
+ * @param {Object} row The idea or revision row
+ * @param {string} contentKey The idea's content key
+ * @returns {Promise<Object>} The encrypted confidential fields
+ */
+async function encryptConfidentialFields(row, contentKey) {
+  const encrypted = {};
+  for (const field of CONFIDENTIAL_IDEA_FIELDS) {
+    const value = row[field];
+    encrypted[field] =
+      typeof value === 'string' && value && !isEncryptedIdeaContent(value)
+        ? await encryptIdeaContent(value, contentKey)
+        : value;
+  }
+  return encrypted;
+}
+
+async function encryptIdea(client, ideaId, masterKey) {
+  const confidentialColumns = CONFIDENTIAL_IDEA_FIELDS.join(', ');
+
+  await client.query('BEGIN');
+  try {
+    // Re-check under lock in case the app encrypted the idea since the scan
+    const ideaResult = await client.query(
+      `SELECT content_key_wrapped, ${confidentialColumns} FROM ideas WHERE id = $1 FOR UPDATE`,
+      [ideaId]
+    );
+    const idea = ideaResult.rows[0];
+    if (!idea || idea.content_key_wrapped) {
+      await client.query('ROLLBACK');
+      return false;
+    }
+
+    const contentKey = toBase64(webcrypto.getRandomValues(new Uint8Array(KEY_LENGTH)));
+    const wrappedKey = await encryptIdeaContent(contentKey, masterKey);
+
+    const encryptedIdea = await encryptConfidentialFields(idea, contentKey);
+    await client.query(
+      `UPDATE ideas
+       SET problem_statement = $1, solution = $2, required_resources = $3, content_key_wrapped = $4
+       WHERE id = $5`,
+      [
+        encryptedIdea.problem_statement,
+        encryptedIdea.solution,
+        encryptedIdea.required_resources,
+        wrappedKey,
+        ideaId,
+      ]
+    );
+
+    const revisionsResult = await client.query(
+      `SELECT revision_number, ${confidentialColumns} FROM idea_revisions WHERE idea_id = $1`,
+      [ideaId]
+    );
+    for (const revision of revisionsResult.rows) {
+      const encryptedRevision = await encryptConfidentialFields(revision, contentKey);
+      await client.query(
+        `UPDATE idea_revisions
+         SET problem_statement = $1, solution = $2, required_resources = $3
+         WHERE idea_id = $4 AND revision_number = $5`,
+        [
+          encryptedRevision.problem_statement,
+          encryptedRevision.solution,
+          encryptedRevision.required_resources,
+          ideaId,
+          revision.revision_number,
+        ]
+      );
+    }
+
+    const attachmentsResult = await client.query(
+      'SELECT id, content FROM idea_attachments WHERE idea_id = $1',
+      [ideaId]
+    );
+    for (const attachment of attachmentsResult.rows) {
+      if (isEncryptedIdeaAttachment(attachment.content)) continue;
+      await client.query('UPDATE idea_attachments SET content = $1 WHERE id = $2', [
+        await encryptIdeaAttachment(attachment.content, contentKey),
+        attachment.id,
+      ]);
+    }
+
+    await client.query(DRY_RUN ? 'ROLLBACK' : 'COMMIT');
+    return true;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+async function migrate() {
+  const masterKey = process.env.IDEA_CONTENT_ENCRYPTION_KEY;
+  if (!process.env.IDEA_SUBMITTER_URL || !masterKey) {
+    throw new Error('IDEA_SUBMITTER_URL and IDEA_CONTENT_ENCRYPTION_KEY must be set.');
+  }
+
+  const client = new Client({
+    connectionString: process.env.IDEA_SUBMITTER_URL,
+    ssl: { rejectUnauthorized: false },
+  });
+  await client.connect();
+
+  try {
+    const result = await client.query(
+      'SELECT id FROM ideas WHERE content_key_wrapped IS NULL ORDER BY id'
+    );
+    console.log(`Found ${result.rows.length} idea(s) without a content key${DRY_RUN ? ' (dry run)' : ''}`);
+
+    let encryptedCount = 0;
+    for (const { id } of result.rows) {
+      if (await encryptIdea(client, id, masterKey)) {
+        encryptedCount++;
+        console.log(`Encrypted confidential content of idea ${id}`);
+      }
+    }
+
+    console.log(
+      `${DRY_RUN ? 'Would have encrypted' : 'Encrypted'} ${encryptedCount} idea(s)`
+    );
+  } finally {
+    await client.end();
+  }
+}
+
+// Run the script
+migrate().catch(error => {
+  console.error('Error encrypting legacy ideas:', error);
+  process.exit(1);
+});
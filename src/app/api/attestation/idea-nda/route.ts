@@ -0,0 +1,10 @@
+import { NextRequest } from 'next/server';
+import { handleAttestationRequest } from '@/app/utils/attestationUtils';
+
+/**
+ * Records a user's on-chain attestation to the idea-specific NDA after verifying the EIP-712
+ * signature, the completed DocuSign envelope and the attestation transaction.
+ */
+export async function POST(request: NextRequest) {
+  return handleAttestationRequest(request, 'IDEA_NDA');
+}
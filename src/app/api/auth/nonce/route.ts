@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { issueRequestNonce } from '@/app/utils/requestNonces';
+
+/**
+ * Issues a single-use nonce that the wallet signs into the SignIn message of a
+ * signed request (see verifySignedRequest).
+ */
+export async function POST(request: NextRequest) {
+  let address: unknown;
+  try {
+    ({ address } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (typeof address !== 'string' || !/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return NextResponse.json({ error: 'Invalid address.' }, { status: 400 });
+  }
+
+  try {
+    const nonce = await issueRequestNonce(address);
+    return NextResponse.json({ nonce });
+  } catch (error) {
+    console.error('[Auth API] Error issuing request nonce:', error);
+    return NextResponse.json({ error: 'Failed to issue nonce' }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDocusignApiClient, getDocuSignClasses } from '@/app/utils/docusignClient';
+import { getEnvelopeDocumentHash } from '@/app/utils/attestationUtils';
 
 // Updated environment variables to match DocuSign's actual terminology
 const DOCUSIGN_ACCOUNT_ID = process.env.DOCUSIGN_ACCOUNT_ID;
@@ -38,11 +39,15 @@ export async function GET(request: NextRequest) {
     // Get recipients to check individual signing status
     const recipients = await envelopesApi.listRecipients(DOCUSIGN_ACCOUNT_ID!, envelopeId);
 
+    const completed = envelope.status === 'completed';
+
     const response = {
       envelopeId: envelope.envelopeId,
       status: envelope.status,
       statusDateTime: envelope.statusChangedDateTime,
-      completed: envelope.status === 'completed',
+      completed,
+      // Hash of the signed document, which users sign over for their on-chain attestation
+      documentHash: completed ? await getEnvelopeDocumentHash(envelopeId) : null,
       recipients: recipients.signers?.map(signer => ({
         email: signer.email,
         name: signer.name,
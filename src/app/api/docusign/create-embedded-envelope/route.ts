@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDocusignApiClient, getDocuSignClasses } from '@/app/utils/docusignClient';
+import {
+  type AttestationAgreementType,
+  ENVELOPE_AGREEMENT_TYPE_FIELD,
+  ENVELOPE_IDEA_ID_FIELD,
+} from '@/app/utils/attestationUtils';
+import { toBytes32IdeaId } from '@/app/components/spark/auth/utils/attestation-checks';
 
 const DOCUSIGN_ACCOUNT_ID = process.env.DOCUSIGN_ACCOUNT_ID;
 
@@ -14,6 +20,57 @@ interface DocuSignError {
   message: string;
 }
 
+const AGREEMENT_LABELS: Record<AttestationAgreementType, string> = {
+  PLATFORM_NDA: 'Platform NDA',
+  PLATFORM_IDEATOR_TERMS: 'Platform Ideator Terms',
+  IDEA_NDA: 'Idea-Specific NDA',
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Platform agreements are the same for every signer, so the document is the agreement text
+// shown in the signing component
+const getPlatformAgreementHtml = (label: string, content: string, userAddress: string) => `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <title>${label}</title>
+      <style>
+        body { font-family: Arial, sans-serif; line-height: 1.6; margin: 40px; }
+        .header { text-align: center; margin-bottom: 30px; }
+        .form-field { margin: 10px 0; padding: 5px; border: 1px solid #ccc; background-color: #f9f9f9; }
+        .content { margin: 20px 0; white-space: pre-wrap; }
+        .signature-section { margin-top: 40px; }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>${label.toUpperCase()}</h1>
+      </div>
+
+      <h3>SIGNER INFORMATION</h3>
+      <p>Full Name: <span class="form-field">{{name_textbox}}</span></p>
+      <p>Email Address: <span class="form-field">{{email_textbox}}</span></p>
+      <p>Wallet Address: ${escapeHtml(userAddress)}</p>
+
+      <div class="content">${escapeHtml(content)}</div>
+
+      <div class="signature-section">
+        <p><strong>ELECTRONIC SIGNATURE REQUIRED</strong></p>
+        <p>By signing below, you acknowledge that you have read, understood, and agree to be bound by the terms of this agreement.</p>
+
+        <p>Signature: {{signature_anchor}}</p>
+        <p>Date: {{date_anchor}}</p>
+      </div>
+    </body>
+    </html>`;
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -21,13 +78,19 @@ export async function POST(request: NextRequest) {
       ideaId,
       userAddress,
       ndaContent,
+      // The idea NDA component predates agreement types and sends none
+      agreementType = 'IDEA_NDA',
     } = body;
 
-    if (!ideaId || !userAddress || !ndaContent) {
+    if (!(agreementType in AGREEMENT_LABELS)) {
+      return NextResponse.json({ error: 'Invalid agreementType' }, { status: 400 });
+    }
+    if ((agreementType === 'IDEA_NDA' && !ideaId) || !userAddress || !ndaContent) {
       return NextResponse.json({ 
-        error: 'Missing required fields: ideaId, userAddress, ndaContent' 
+        error: 'Missing required fields: ideaId (for idea NDAs), userAddress, ndaContent' 
       }, { status: 400 });
     }
+    const agreementLabel = AGREEMENT_LABELS[agreementType as AttestationAgreementType];
 
     if (!DOCUSIGN_ACCOUNT_ID) {
       return NextResponse.json({ 
@@ -40,7 +103,9 @@ export async function POST(request: NextRequest) {
     const envelopesApi = new EnvelopesApi(apiClient);
 
     // Create HTML document with embedded form fields for name and email
-    const documentHtml = `
+    const documentHtml = agreementType !== 'IDEA_NDA'
+      ? getPlatformAgreementHtml(agreementLabel, String(ndaContent), String(userAddress))
+      : `
     <!DOCTYPE html>
     <html>
     <head>
@@ -121,14 +186,25 @@ export async function POST(request: NextRequest) {
     </html>`;
 
     const documentBase64 = Buffer.from(documentHtml).toString('base64');
-    const clientUserId = `${userAddress}_${ideaId}_${Date.now()}`;
+    const clientUserId = `${userAddress}_${ideaId ?? agreementType}_${Date.now()}`;
 
     // Create envelope with embedded signer
     const envelopeDefinition = {
-      emailSubject: `Please Sign: Idea-Specific NDA for Idea #${ideaId}`,
+      emailSubject: agreementType === 'IDEA_NDA'
+        ? `Please Sign: Idea-Specific NDA for Idea #${ideaId}`
+        : `Please Sign: ${agreementLabel}`,
+      // Read back by the attestation routes to tie the envelope to the agreement being attested
+      customFields: {
+        textCustomFields: [
+          { name: ENVELOPE_AGREEMENT_TYPE_FIELD, value: agreementType, show: 'false', required: 'false' },
+          ...(agreementType === 'IDEA_NDA'
+            ? [{ name: ENVELOPE_IDEA_ID_FIELD, value: toBytes32IdeaId(String(ideaId)).toLowerCase(), show: 'false', required: 'false' }]
+            : []),
+        ],
+      },
       documents: [{
         documentBase64: documentBase64,
-        name: `Idea_NDA_${ideaId}.html`,
+        name: agreementType === 'IDEA_NDA' ? `Idea_NDA_${ideaId}.html` : `${agreementType}.html`,
         fileExtension: 'html',
         documentId: '1'
       }],
@@ -183,7 +259,7 @@ export async function POST(request: NextRequest) {
     };
 
     // Create the envelope
-    console.log(`[DocuSign] Creating embedded envelope for idea ${ideaId}`);
+    console.log(`[DocuSign] Creating embedded ${agreementLabel} envelope${ideaId ? ` for idea ${ideaId}` : ''}`);
     const envelopeResults = await envelopesApi.createEnvelope(DOCUSIGN_ACCOUNT_ID, {
       envelopeDefinition
     });
@@ -196,7 +272,7 @@ export async function POST(request: NextRequest) {
     console.log(`[DocuSign] Envelope created: ${envelopeId}`);
 
     // Create recipient view for embedded signing
-    const returnUrl = `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/spark/ideas/${ideaId}?docusign_complete=true`;
+    const returnUrl = `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}${ideaId ? `/spark/ideas/${ideaId}` : '/ideas'}?docusign_complete=true`;
     
     const viewRequest = {
       returnUrl: returnUrl,
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reviewerPool, submitterPool } from '@/app/db/db';
+import {
+  getAttestedIdeaNdaIds,
+  isIdeaReviewer,
+  verifySignedRequest,
+  type SignedRequestMessage,
+} from '@/app/utils/authUtils';
+import { parseIdeaId } from '@/app/utils/ideaUtils';
+import { getOrCreateIdeaContentKey } from '@/app/utils/ideaContentKeys';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Releases the key that decrypts an idea's confidential fields. Only the submitter, review
+ * committee members and wallets that have attested to the idea's NDA on the AttestationVault
+ * receive it. The request must be signed over a fresh server-issued nonce, which proves
+ * control of the requesting address.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const id = parseIdeaId((await params).id);
+  if (!id) {
+    return NextResponse.json({ error: 'Invalid idea ID' }, { status: 400 });
+  }
+
+  const requesterAddress = request.headers.get('x-eth-address');
+  const signature = request.headers.get('x-eth-signature');
+  if (!requesterAddress || !/^0x[a-fA-F0-9]{40}$/.test(requesterAddress) || !signature) {
+    return NextResponse.json({ error: 'Missing or invalid signature headers.' }, { status: 401 });
+  }
+
+  let signedMessage: SignedRequestMessage | undefined;
+  try {
+    ({ signedMessage } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (!(await verifySignedRequest(requesterAddress, signature, signedMessage))) {
+    return NextResponse.json({ error: 'Signature verification failed.' }, { status: 401 });
+  }
+
+  try {
+    const ideaResult = await reviewerPool.query(
+      'SELECT submitter_wallet_address, onchain_idea_id FROM ideas WHERE id = $1',
+      [id]
+    );
+    const idea = ideaResult.rows[0];
+    if (!idea) {
+      return NextResponse.json({ error: 'Idea not found' }, { status: 404 });
+    }
+
+    const isSubmitter =
+      idea.submitter_wallet_address?.toLowerCase() === requesterAddress.toLowerCase();
+    // Reviewers vote on ideas before finalization creates the idea NDA, so they need the key first
+    const isReviewer = !isSubmitter && (await isIdeaReviewer(requesterAddress));
+    const hasIdeaNda =
+      !isSubmitter &&
+      !isReviewer &&
+      !!idea.onchain_idea_id &&
+      (await getAttestedIdeaNdaIds(requesterAddress, [idea.onchain_idea_id])).has(
+        idea.onchain_idea_id.toLowerCase()
+      );
+    if (!isSubmitter && !isReviewer && !hasIdeaNda) {
+      return NextResponse.json(
+        { error: "Attest to this idea's NDA to access its confidential content." },
+        { status: 403 }
+      );
+    }
+  } catch (error) {
+    console.error(`[Ideas API] Error authorizing content key request for idea ${id}:`, error);
+    return NextResponse.json({ error: 'Failed to fetch content key' }, { status: 500 });
+  }
+
+  const client = await submitterPool.connect();
+  try {
+    await client.query('BEGIN');
+    const contentKey = await getOrCreateIdeaContentKey(client, id);
+    await client.query('COMMIT');
+
+    return NextResponse.json({ key: contentKey }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error(`[Ideas API] Error fetching content key for idea ${id}:`, error);
+    return NextResponse.json({ error: 'Failed to fetch content key' }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,291 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Address, Hex } from 'viem';
+import { reviewerPool, submitterPool } from '@/app/db/db';
+import { getVerifiedRequesterAddress, isIdeaReviewer } from '@/app/utils/authUtils';
+import { getNetworkInfo } from '@/app/utils/serverConfig';
+import { getCustomPublicClient } from '@/app/config/viem';
+import sparkIdeaRegistryAbi from '@/app/abi/SparkIdeaRegistry.json';
+import {
+  AMENDABLE_IDEA_FIELDS,
+  IDEA_COLUMNS,
+  computeIdeaContentHash,
+  parseIdeaId,
+} from '@/app/utils/ideaUtils';
+import { encryptConfidentialFields } from '@/app/utils/ideaEncryption';
+import { getOrCreateIdeaContentKey } from '@/app/utils/ideaContentKeys';
+
+const MAX_TEXT_FIELD_LENGTH = 20000;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const REVISION_COLUMNS = `
+  revision_number,
+  title,
+  description,
+  problem_statement,
+  solution,
+  target_audience,
+  impact,
+  required_resources,
+  patent_status,
+  technical_readiness_level,
+  content_hash,
+  onchain_tx_hash,
+  modified_by,
+  created_at
+`;
+
+/**
+ * Lists every stored revision of an idea, oldest first. Revision 0 is the original submission.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const id = parseIdeaId((await params).id);
+  if (!id) {
+    return NextResponse.json({ error: 'Invalid idea ID' }, { status: 400 });
+  }
+
+  const requesterAddress = await getVerifiedRequesterAddress(request);
+  if (!requesterAddress) {
+    return NextResponse.json(
+      { error: 'Authentication required. Please connect and verify your wallet.' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const ideaResult = await reviewerPool.query(
+      'SELECT submitter_wallet_address FROM ideas WHERE id = $1',
+      [id]
+    );
+    const idea = ideaResult.rows[0];
+    if (!idea) {
+      return NextResponse.json({ error: 'Idea not found' }, { status: 404 });
+    }
+
+    const isSubmitter =
+      idea.submitter_wallet_address?.toLowerCase() === requesterAddress.toLowerCase();
+    if (!isSubmitter && !(await isIdeaReviewer(requesterAddress))) {
+      return NextResponse.json({ error: 'You are not authorized to view this idea.' }, { status: 403 });
+    }
+
+    const revisionsResult = await reviewerPool.query(
+      `SELECT ${REVISION_COLUMNS}
+       FROM idea_revisions
+       WHERE idea_id = $1
+       ORDER BY revision_number ASC`,
+      [id]
+    );
+
+    return NextResponse.json({ revisions: revisionsResult.rows });
+  } catch (error) {
+    console.error(`[Ideas API] Error fetching revisions for idea ${id}:`, error);
+    return NextResponse.json({ error: 'Failed to fetch idea revisions' }, { status: 500 });
+  }
+}
+
+/**
+ * Records an amendment made through SparkIdeaRegistry.modifyIdeaDetails. The on-chain
+ * hash must match the hash of the amended content before the idea row is updated.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const id = parseIdeaId((await params).id);
+  if (!id) {
+    return NextResponse.json({ error: 'Invalid idea ID' }, { status: 400 });
+  }
+
+  const requesterAddress = await getVerifiedRequesterAddress(request);
+  if (!requesterAddress) {
+    return NextResponse.json(
+      { error: 'Authentication required. Please connect and verify your wallet.' },
+      { status: 401 }
+    );
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const fields: Record<string, string | null> = {};
+  for (const field of AMENDABLE_IDEA_FIELDS) {
+    if (field === 'technical_readiness_level') continue;
+    const value = typeof body[field] === 'string' ? (body[field] as string).trim() : '';
+    if (!value && field !== 'required_resources') {
+      return NextResponse.json({ error: `Missing required field: ${field}` }, { status: 400 });
+    }
+    if (value.length > MAX_TEXT_FIELD_LENGTH) {
+      return NextResponse.json({ error: `Field ${field} is too long.` }, { status: 400 });
+    }
+    fields[field] = value || null;
+  }
+
+  const trl = Number(body.technical_readiness_level);
+  if (!Number.isInteger(trl) || trl < 1 || trl > 9) {
+    return NextResponse.json(
+      { error: 'Technical readiness level must be between 1 and 9.' },
+      { status: 400 }
+    );
+  }
+
+  const onchainTxHash = typeof body.onchain_tx_hash === 'string' ? body.onchain_tx_hash : '';
+  if (!/^0x[a-fA-F0-9]{64}$/.test(onchainTxHash)) {
+    return NextResponse.json({ error: 'A valid modification transaction hash is required.' }, { status: 400 });
+  }
+
+  const client = await submitterPool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const ideaResult = await client.query(
+      `SELECT ${IDEA_COLUMNS} FROM ideas WHERE id = $1 FOR UPDATE`,
+      [id]
+    );
+    const idea = ideaResult.rows[0];
+    if (!idea) {
+      await client.query('ROLLBACK');
+      return NextResponse.json({ error: 'Idea not found' }, { status: 404 });
+    }
+    if (idea.submitter_wallet_address?.toLowerCase() !== requesterAddress.toLowerCase()) {
+      await client.query('ROLLBACK');
+      return NextResponse.json({ error: 'Only the ideator can amend this idea.' }, { status: 403 });
+    }
+    if (!idea.onchain_idea_id) {
+      await client.query('ROLLBACK');
+      return NextResponse.json({ error: 'This idea is not registered on-chain.' }, { status: 400 });
+    }
+
+    const attachmentsResult = await client.query(
+      'SELECT content_hash FROM idea_attachments WHERE idea_id = $1 ORDER BY id',
+      [id]
+    );
+    const contentHash = computeIdeaContentHash({
+      title: fields.title as string,
+      description: fields.description as string,
+      problem_statement: fields.problem_statement as string,
+      solution: fields.solution as string,
+      target_audience: fields.target_audience as string,
+      impact: fields.impact as string,
+      required_resources: fields.required_resources,
+      attachments_description: idea.attachments?.description ?? null,
+      patent_status: fields.patent_status as string,
+      technical_readiness_level: trl,
+      submitter_wallet_address: idea.submitter_wallet_address,
+      attachment_hashes: attachmentsResult.rows.map((row) => row.content_hash),
+    });
+
+    const networkInfo = await getNetworkInfo();
+    const customPublicClient = await getCustomPublicClient();
+    const [onchainIdea, modificationCount] = await Promise.all([
+      customPublicClient.readContract({
+        address: networkInfo.sparkIdeaRegistry as Address,
+        abi: sparkIdeaRegistryAbi,
+        functionName: 'getIdea',
+        args: [idea.onchain_idea_id as Hex],
+      }) as Promise<{ ipfsHash: string }>,
+      customPublicClient.readContract({
+        address: networkInfo.sparkIdeaRegistry as Address,
+        abi: sparkIdeaRegistryAbi,
+        functionName: 'getModificationCount',
+        args: [idea.onchain_idea_id as Hex],
+      }) as Promise<bigint>,
+    ]);
+
+    if (onchainIdea.ipfsHash !== contentHash) {
+      await client.query('ROLLBACK');
+      return NextResponse.json(
+        { error: 'The on-chain content hash does not match the amended idea.' },
+        { status: 400 }
+      );
+    }
+
+    // Encrypts legacy plaintext content first so the snapshot below copies ciphertext
+    const contentKey = await getOrCreateIdeaContentKey(client, id);
+    const encryptedFields = await encryptConfidentialFields(fields, contentKey!);
+
+    // Snapshot the original submission the first time an idea is amended
+    await client.query(
+      `INSERT INTO idea_revisions (
+         idea_id, revision_number, title, description, problem_statement, solution,
+         target_audience, impact, required_resources, patent_status,
+         technical_readiness_level, content_hash, onchain_tx_hash, modified_by, created_at
+       )
+       SELECT id, 0, title, description, problem_statement, solution,
+              target_audience, impact, required_resources, patent_status,
+              technical_readiness_level, content_hash, onchain_tx_hash,
+              submitter_wallet_address, submission_date
+       FROM ideas
+       WHERE id = $1
+         AND NOT EXISTS (SELECT 1 FROM idea_revisions WHERE idea_id = $1 AND revision_number = 0)`,
+      [id]
+    );
+
+    const revisionNumber = Number(modificationCount);
+    const existingRevision = await client.query(
+      'SELECT 1 FROM idea_revisions WHERE idea_id = $1 AND revision_number = $2',
+      [id, revisionNumber]
+    );
+    if (existingRevision.rowCount && existingRevision.rowCount > 0) {
+      await client.query('ROLLBACK');
+      return NextResponse.json({ error: 'This revision has already been recorded.' }, { status: 409 });
+    }
+
+    await client.query(
+      `INSERT INTO idea_revisions (
+         idea_id, revision_number, title, description, problem_statement, solution,
+         target_audience, impact, required_resources, patent_status,
+         technical_readiness_level, content_hash, onchain_tx_hash, modified_by
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+      [
+        id,
+        revisionNumber,
+        fields.title,
+        fields.description,
+        encryptedFields.problem_statement,
+        encryptedFields.solution,
+        fields.target_audience,
+        fields.impact,
+        encryptedFields.required_resources,
+        fields.patent_status,
+        trl,
+        contentHash,
+        onchainTxHash.toLowerCase(),
+        requesterAddress.toLowerCase(),
+      ]
+    );
+
+    const updateResult = await client.query(
+      `UPDATE ideas
+       SET title = $1, description = $2, problem_statement = $3, solution = $4,
+           target_audience = $5, impact = $6, required_resources = $7, patent_status = $8,
+           technical_readiness_level = $9, content_hash = $10
+       WHERE id = $11
+       RETURNING ${IDEA_COLUMNS}`,
+      [
+        fields.title,
+        fields.description,
+        encryptedFields.problem_statement,
+        encryptedFields.solution,
+        fields.target_audience,
+        fields.impact,
+        encryptedFields.required_resources,
+        fields.patent_status,
+        trl,
+        contentHash,
+        id,
+      ]
+    );
+
+    await client.query('COMMIT');
+    console.log(`[Ideas API] Idea ${id} amended to revision ${revisionNumber} by ${requesterAddress}.`);
+
+    return NextResponse.json({ idea: updateResult.rows[0], revisionNumber }, { status: 201 });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error(`[Ideas API] Error amending idea ${id}:`, error);
+    return NextResponse.json({ error: 'Failed to amend idea' }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reviewerPool } from '@/app/db/db';
+import {
+  getVerifiedRequesterAddress,
+  isIdeaReviewer,
+  verifySignedRequest,
+  type SignedRequestMessage,
+} from '@/app/utils/authUtils';
+import {
+  IDEA_COLUMNS,
+  isIdeaStatus,
+  isValidStatusTransition,
+  parseIdeaId,
+} from '@/app/utils/ideaUtils';
+
+const MAX_FEEDBACK_LENGTH = 10000;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Returns a single idea. Reviewers can read any idea, submitters only their own.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const id = parseIdeaId((await params).id);
+  if (!id) {
+    return NextResponse.json({ error: 'Invalid idea ID' }, { status: 400 });
+  }
+
+  const requesterAddress = await getVerifiedRequesterAddress(request);
+  if (!requesterAddress) {
+    return NextResponse.json(
+      { error: 'Authentication required. Please connect and verify your wallet.' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = await reviewerPool.query(`SELECT ${IDEA_COLUMNS} FROM ideas WHERE id = $1`, [id]);
+    const idea = result.rows[0];
+    if (!idea) {
+      return NextResponse.json({ error: 'Idea not found' }, { status: 404 });
+    }
+
+    const isSubmitter =
+      idea.submitter_wallet_address?.toLowerCase() === requesterAddress.toLowerCase();
+    if (!isSubmitter && !(await isIdeaReviewer(requesterAddress))) {
+      return NextResponse.json({ error: 'You are not authorized to view this idea.' }, { status: 403 });
+    }
+
+    // Attachment hashes are part of the on-chain content hash, so clients need them to amend an idea
+    const attachmentsResult = await reviewerPool.query(
+      'SELECT content_hash FROM idea_attachments WHERE idea_id = $1 ORDER BY id',
+      [id]
+    );
+    idea.attachment_hashes = attachmentsResult.rows.map((row) => row.content_hash);
+
+    return NextResponse.json({ idea });
+  } catch (error) {
+    console.error(`[Ideas API] Error fetching idea ${id}:`, error);
+    return NextResponse.json({ error: 'Failed to fetch idea' }, { status: 500 });
+  }
+}
+
+/**
+ * Updates the review status and committee feedback of an idea.
+ * Requires a reviewer signature over a fresh SignIn message and records every
+ * update in idea_status_history.
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const id = parseIdeaId((await params).id);
+  if (!id) {
+    return NextResponse.json({ error: 'Invalid idea ID' }, { status: 400 });
+  }
+
+  const address = request.headers.get('x-eth-address');
+  const signature = request.headers.get('x-eth-signature');
+  if (!address || !/^0x[a-fA-F0-9]{40}$/.test(address) || !signature) {
+    return NextResponse.json({ error: 'Missing or invalid signature headers.' }, { status: 401 });
+  }
+
+  let body: {
+    status?: unknown;
+    committee_feedback?: unknown;
+    signedMessage?: SignedRequestMessage;
+  };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { status, committee_feedback: feedback, signedMessage } = body;
+
+  if (!isIdeaStatus(status)) {
+    return NextResponse.json({ error: 'Invalid status value.' }, { status: 400 });
+  }
+  if (feedback !== undefined && feedback !== null && typeof feedback !== 'string') {
+    return NextResponse.json({ error: 'Committee feedback must be a string.' }, { status: 400 });
+  }
+  if (typeof feedback === 'string' && feedback.length > MAX_FEEDBACK_LENGTH) {
+    return NextResponse.json({ error: 'Committee feedback is too long.' }, { status: 400 });
+  }
+
+  const isValidSignature = await verifySignedRequest(address, signature, signedMessage);
+  if (!isValidSignature) {
+    return NextResponse.json({ error: 'Signature verification failed.' }, { status: 401 });
+  }
+
+  if (!(await isIdeaReviewer(address))) {
+    return NextResponse.json({ error: 'Only reviewers can update ideas.' }, { status: 403 });
+  }
+
+  const nonce = signedMessage!.message.nonce;
+  const client = await reviewerPool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const replayCheck = await client.query(
+      'SELECT 1 FROM idea_status_history WHERE signature_nonce = $1 LIMIT 1',
+      [nonce]
+    );
+    if (replayCheck.rowCount && replayCheck.rowCount > 0) {
+      await client.query('ROLLBACK');
+      return NextResponse.json({ error: 'This signature has already been used.' }, { status: 409 });
+    }
+
+    const current = await client.query('SELECT status FROM ideas WHERE id = $1 FOR UPDATE', [id]);
+    if (current.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return NextResponse.json({ error: 'Idea not found' }, { status: 404 });
+    }
+
+    const previousStatus = current.rows[0].status;
+    if (isIdeaStatus(previousStatus) && !isValidStatusTransition(previousStatus, status)) {
+      await client.query('ROLLBACK');
+      return NextResponse.json(
+        { error: `Cannot change status from '${previousStatus}' to '${status}'.` },
+        { status: 400 }
+      );
+    }
+
+    const updateResult = await client.query(
+      `UPDATE ideas
+       SET status = $1, committee_feedback = $2
+       WHERE id = $3
+       RETURNING ${IDEA_COLUMNS}`,
+      [status, feedback ?? null, id]
+    );
+
+    await client.query(
+      `INSERT INTO idea_status_history (
+         idea_id,
+         previous_status,
+         new_status,
+         committee_feedback,
+         changed_by,
+         signature,
+         signature_nonce
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [id, previousStatus, status, feedback ?? null, address.toLowerCase(), signature, nonce]
+    );
+
+    await client.query('COMMIT');
+    console.log(`[Ideas API] Idea ${id} status changed from '${previousStatus}' to '${status}' by ${address}.`);
+
+    return NextResponse.json({ idea: updateResult.rows[0] });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error(`[Ideas API] Error updating idea ${id}:`, error);
+    return NextResponse.json({ error: 'Failed to update idea' }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reviewerPool } from '@/app/db/db';
+import {
+  getAttestedIdeaNdaIds,
+  getVerifiedRequesterAddress,
+  hasPlatformNdaAttestation,
+} from '@/app/utils/authUtils';
+import { PATENT_STATUS_OPTIONS, PUBLIC_IDEA_STATUSES, parsePagination } from '@/app/utils/ideaUtils';
+import { CONFIDENTIAL_IDEA_FIELDS } from '@/app/utils/ideaEncryption';
+
+const MAX_AUDIENCE_QUERY_LENGTH = 100;
+
+// Public summary shown to every visitor
+const PUBLIC_COLUMNS = [
+  'id',
+  'title',
+  'status',
+  'submission_date',
+  'target_audience',
+  'technical_readiness_level',
+  'patent_status',
+  'onchain_idea_id',
+];
+// Revealed once the viewer has attested to the Platform NDA
+const PLATFORM_NDA_COLUMNS = ['description', 'impact'];
+// Revealed per idea once the viewer has attested to that idea's NDA. These are stored encrypted
+// and decrypted in the browser with the key from /api/ideas/[id]/content-key.
+const IDEA_NDA_COLUMNS = [...CONFIDENTIAL_IDEA_FIELDS];
+
+const SORT_OPTIONS: Record<string, string> = {
+  newest: 'submission_date DESC',
+  oldest: 'submission_date ASC',
+  trl_desc: 'technical_readiness_level DESC, submission_date DESC',
+  trl_asc: 'technical_readiness_level ASC, submission_date DESC',
+  title: 'title ASC',
+};
+
+type DiscoveryAccessLevel = 'none' | 'platform_nda' | 'idea_specific_nda';
+
+const splitParam = (searchParams: URLSearchParams, name: string) =>
+  searchParams
+    .getAll(name)
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+/**
+ * Public idea discovery of approved and finalized ideas. Anyone can browse idea summaries;
+ * descriptions require a Platform NDA attestation and the full content of an idea requires an
+ * attestation to that idea's NDA.
+ * Supports `trl`, `patent_status`, `status` (repeatable or comma-separated), `target_audience`
+ * (substring match), `sort`, `page` and `limit` search params.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const { page, limit, offset } = parsePagination(searchParams);
+
+  const trls = splitParam(searchParams, 'trl').map(Number);
+  if (trls.some((trl) => !Number.isInteger(trl) || trl < 1 || trl > 9)) {
+    return NextResponse.json({ error: 'Invalid TRL filter.' }, { status: 400 });
+  }
+
+  const patentStatuses = splitParam(searchParams, 'patent_status');
+  const invalidPatentStatus = patentStatuses.find(
+    (s) => !(PATENT_STATUS_OPTIONS as readonly string[]).includes(s)
+  );
+  if (invalidPatentStatus) {
+    return NextResponse.json(
+      { error: `Invalid patent status filter: ${invalidPatentStatus}` },
+      { status: 400 }
+    );
+  }
+
+  const statuses = splitParam(searchParams, 'status');
+  const invalidStatus = statuses.find(
+    (s) => !(PUBLIC_IDEA_STATUSES as readonly string[]).includes(s)
+  );
+  if (invalidStatus) {
+    return NextResponse.json({ error: `Invalid status filter: ${invalidStatus}` }, { status: 400 });
+  }
+
+  const audienceQuery = (searchParams.get('target_audience') ?? '').trim();
+  if (audienceQuery.length > MAX_AUDIENCE_QUERY_LENGTH) {
+    return NextResponse.json({ error: 'Target audience filter is too long.' }, { status: 400 });
+  }
+
+  const sort = searchParams.get('sort') ?? 'newest';
+  const orderBy = SORT_OPTIONS[sort];
+  if (!orderBy) {
+    return NextResponse.json({ error: `Invalid sort option: ${sort}` }, { status: 400 });
+  }
+
+  try {
+    // Anonymous visitors are allowed; an unverified address simply gets the public view
+    const viewerAddress = request.headers.get('X-User-Address')
+      ? await getVerifiedRequesterAddress(request)
+      : null;
+    const hasPlatformNda = viewerAddress ? await hasPlatformNdaAttestation(viewerAddress) : false;
+
+    // Pending and rejected submissions are never published
+    const params: unknown[] = [statuses.length > 0 ? statuses : [...PUBLIC_IDEA_STATUSES]];
+    const conditions: string[] = ['status = ANY($1)'];
+
+    if (trls.length > 0) {
+      params.push(trls);
+      conditions.push(`technical_readiness_level = ANY($${params.length})`);
+    }
+    if (patentStatuses.length > 0) {
+      params.push(patentStatuses);
+      conditions.push(`patent_status = ANY($${params.length})`);
+    }
+    if (audienceQuery) {
+      params.push(`%${audienceQuery.replace(/[\\%_]/g, '\\$&')}%`);
+      conditions.push(`target_audience ILIKE $${params.length}`);
+    }
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+    const countResult = await reviewerPool.query(
+      `SELECT COUNT(*)::int AS total FROM ideas ${whereClause}`,
+      params
+    );
+    const total: number = countResult.rows[0]?.total ?? 0;
+
+    const ideasResult = await reviewerPool.query(
+      `SELECT ${[...PUBLIC_COLUMNS, ...PLATFORM_NDA_COLUMNS, ...IDEA_NDA_COLUMNS].join(', ')}, submitter_wallet_address
+       FROM ideas
+       ${whereClause}
+       ORDER BY ${orderBy}
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+
+    const attestedIdeaIds =
+      viewerAddress && hasPlatformNda
+        ? await getAttestedIdeaNdaIds(
+            viewerAddress,
+            ideasResult.rows.map((row) => row.onchain_idea_id).filter(Boolean)
+          )
+        : new Set<string>();
+
+    const ideas = ideasResult.rows.map((row) => {
+      const isOwnIdea =
+        !!viewerAddress &&
+        row.submitter_wallet_address?.toLowerCase() === viewerAddress.toLowerCase();
+      const accessLevel: DiscoveryAccessLevel =
+        attestedIdeaIds.has(row.onchain_idea_id?.toLowerCase()) || isOwnIdea
+          ? 'idea_specific_nda'
+          : hasPlatformNda
+            ? 'platform_nda'
+            : 'none';
+
+      const visibleColumns = [
+        ...PUBLIC_COLUMNS,
+        ...(accessLevel !== 'none' ? PLATFORM_NDA_COLUMNS : []),
+        ...(accessLevel === 'idea_specific_nda' ? IDEA_NDA_COLUMNS : []),
+      ];
+      return {
+        ...Object.fromEntries(visibleColumns.map((column) => [column, row[column] ?? null])),
+        access_level: accessLevel,
+      };
+    });
+
+    return NextResponse.json({
+      ideas,
+      viewerAccessLevel: hasPlatformNda ? 'platform_nda' : 'none',
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('[Ideas API] Error listing ideas for discovery:', error);
+    return NextResponse.json({ error: 'Failed to fetch ideas' }, { status: 500 });
+  }
+}
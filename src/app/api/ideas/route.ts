@@ -0,0 +1,352 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Address, Hex } from 'viem';
+import { reviewerPool, submitterPool } from '@/app/db/db';
+import { getVerifiedRequesterAddress, isIdeaReviewer } from '@/app/utils/authUtils';
+import { getNetworkInfo } from '@/app/utils/serverConfig';
+import { getCustomPublicClient } from '@/app/config/viem';
+import sparkIdeaRegistryAbi from '@/app/abi/SparkIdeaRegistry.json';
+import {
+  DEFAULT_IDEA_STATUS,
+  IDEA_COLUMNS,
+  computeIdeaContentHash,
+  hashAttachment,
+  isIdeaStatus,
+  parsePagination,
+} from '@/app/utils/ideaUtils';
+import { encryptConfidentialFields, encryptIdeaAttachment } from '@/app/utils/ideaEncryption';
+import { createIdeaContentKey } from '@/app/utils/ideaContentKeys';
+
+const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024; // 5MB, mirrors the limit enforced by the submit form
+const MAX_ATTACHMENTS = 10;
+const MAX_TEXT_FIELD_LENGTH = 20000;
+
+const REQUIRED_TEXT_FIELDS = [
+  'fullname',
+  'title',
+  'description',
+  'problem_statement',
+  'solution',
+  'target_audience',
+  'impact',
+  'patent_status',
+  'contact_email',
+] as const;
+
+const OPTIONAL_TEXT_FIELDS = ['required_resources'] as const;
+
+interface OnchainIdea {
+  ideaId: Hex;
+  ideator: Address;
+  ipfsHash: string;
+  submissionTimestamp: bigint;
+}
+
+/**
+ * Reads an idea from SparkIdeaRegistry and checks that it was registered by the submitter
+ * with the content hash computed from the submitted form.
+ */
+async function verifyOnchainRegistration(
+  onchainIdeaId: Hex,
+  submitterAddress: string,
+  contentHash: Hex
+): Promise<string | null> {
+  try {
+    const networkInfo = await getNetworkInfo();
+    const customPublicClient = await getCustomPublicClient();
+    const onchainIdea = await customPublicClient.readContract({
+      address: networkInfo.sparkIdeaRegistry as Address,
+      abi: sparkIdeaRegistryAbi,
+      functionName: 'getIdea',
+      args: [onchainIdeaId],
+    }) as OnchainIdea;
+
+    if (onchainIdea.ideator.toLowerCase() !== submitterAddress.toLowerCase()) {
+      return 'The on-chain idea was registered by a different wallet.';
+    }
+    if (onchainIdea.ipfsHash !== contentHash) {
+      return 'The on-chain content hash does not match the submitted idea.';
+    }
+    return null;
+  } catch (error) {
+    console.error(`[Ideas API] Error reading on-chain idea ${onchainIdeaId}:`, error);
+    return 'The on-chain idea could not be found.';
+  }
+}
+
+/**
+ * Lists ideas. Reviewers see every submission, other verified wallets only see their own.
+ * Supports `page`, `limit`, one or more `status` search params and `mine=true` to restrict
+ * reviewers to their own submissions.
+ */
+export async function GET(request: NextRequest) {
+  const requesterAddress = await getVerifiedRequesterAddress(request);
+  if (!requesterAddress) {
+    return NextResponse.json(
+      { error: 'Authentication required. Please connect and verify your wallet.' },
+      { status: 401 }
+    );
+  }
+
+  const { searchParams } = request.nextUrl;
+  const { page, limit, offset } = parsePagination(searchParams);
+
+  const statuses = searchParams.getAll('status').flatMap((s) => s.split(','));
+  const invalidStatus = statuses.find((s) => !isIdeaStatus(s));
+  if (invalidStatus) {
+    return NextResponse.json({ error: `Invalid status filter: ${invalidStatus}` }, { status: 400 });
+  }
+
+  try {
+    const onlyOwnIdeas =
+      searchParams.get('mine') === 'true' || !(await isIdeaReviewer(requesterAddress));
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (onlyOwnIdeas) {
+      params.push(requesterAddress.toLowerCase());
+      conditions.push(`LOWER(submitter_wallet_address) = $${params.length}`);
+    }
+    if (statuses.length > 0) {
+      params.push(statuses);
+      conditions.push(`status = ANY($${params.length})`);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await reviewerPool.query(
+      `SELECT COUNT(*)::int AS total FROM ideas ${whereClause}`,
+      params
+    );
+    const total: number = countResult.rows[0]?.total ?? 0;
+
+    const ideasResult = await reviewerPool.query(
+      `SELECT ${IDEA_COLUMNS}
+       FROM ideas
+       ${whereClause}
+       ORDER BY submission_date DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+
+    return NextResponse.json({
+      ideas: ideasResult.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error('[Ideas API] Error listing ideas:', error);
+    return NextResponse.json({ error: 'Failed to fetch ideas' }, { status: 500 });
+  }
+}
+
+/**
+ * Creates a new idea from the multipart form posted by the submit-idea page.
+ * The submitter must be the verified wallet sending the request, and the idea must already
+ * be registered on SparkIdeaRegistry with the matching content hash.
+ */
+export async function POST(request: NextRequest) {
+  const requesterAddress = await getVerifiedRequesterAddress(request);
+  if (!requesterAddress) {
+    return NextResponse.json(
+      { error: 'Authentication required. Please connect and verify your wallet.' },
+      { status: 401 }
+    );
+  }
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch (error) {
+    console.error('[Ideas API] Error parsing form data:', error);
+    return NextResponse.json({ error: 'Invalid form data' }, { status: 400 });
+  }
+
+  const submitterAddress = String(formData.get('submitter_wallet_address') ?? '');
+  if (submitterAddress.toLowerCase() !== requesterAddress.toLowerCase()) {
+    return NextResponse.json(
+      { error: 'Submitter wallet address does not match the authenticated wallet.' },
+      { status: 403 }
+    );
+  }
+
+  const fields: Record<string, string | null> = {};
+  for (const field of REQUIRED_TEXT_FIELDS) {
+    const value = String(formData.get(field) ?? '').trim();
+    if (!value) {
+      return NextResponse.json({ error: `Missing required field: ${field}` }, { status: 400 });
+    }
+    fields[field] = value;
+  }
+  for (const field of OPTIONAL_TEXT_FIELDS) {
+    const value = String(formData.get(field) ?? '').trim();
+    fields[field] = value || null;
+  }
+
+  const tooLong = Object.entries(fields).find(
+    ([, value]) => value !== null && value.length > MAX_TEXT_FIELD_LENGTH
+  );
+  if (tooLong) {
+    return NextResponse.json({ error: `Field ${tooLong[0]} is too long.` }, { status: 400 });
+  }
+
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(fields.contact_email as string)) {
+    return NextResponse.json({ error: 'Invalid contact email.' }, { status: 400 });
+  }
+
+  const trl = Number.parseInt(String(formData.get('technical_readiness_level') ?? ''), 10);
+  if (Number.isNaN(trl) || trl < 1 || trl > 9) {
+    return NextResponse.json(
+      { error: 'Technical readiness level must be between 1 and 9.' },
+      { status: 400 }
+    );
+  }
+
+  let attachments: { description?: string } | null = null;
+  const rawAttachments = formData.get('attachments');
+  if (rawAttachments) {
+    try {
+      const parsed = JSON.parse(String(rawAttachments));
+      attachments = typeof parsed?.description === 'string' ? { description: parsed.description } : null;
+    } catch {
+      return NextResponse.json({ error: 'Invalid attachments field.' }, { status: 400 });
+    }
+  }
+
+  const files = formData.getAll('attachmentFile').filter((f): f is File => f instanceof File);
+  if (files.length > MAX_ATTACHMENTS) {
+    return NextResponse.json(
+      { error: `A maximum of ${MAX_ATTACHMENTS} attachments is allowed.` },
+      { status: 400 }
+    );
+  }
+  const oversized = files.find((file) => file.size > MAX_ATTACHMENT_SIZE);
+  if (oversized) {
+    return NextResponse.json({ error: `${oversized.name} exceeds the 5MB limit.` }, { status: 400 });
+  }
+
+  const onchainIdeaId = String(formData.get('onchain_idea_id') ?? '');
+  const onchainTxHash = String(formData.get('onchain_tx_hash') ?? '');
+  if (!/^0x[a-fA-F0-9]{64}$/.test(onchainIdeaId) || !/^0x[a-fA-F0-9]{64}$/.test(onchainTxHash)) {
+    return NextResponse.json(
+      { error: 'The idea must be registered on-chain before it can be submitted.' },
+      { status: 400 }
+    );
+  }
+
+  const attachmentHashes = await Promise.all(files.map(hashAttachment));
+  const contentHash = computeIdeaContentHash({
+    title: fields.title as string,
+    description: fields.description as string,
+    problem_statement: fields.problem_statement as string,
+    solution: fields.solution as string,
+    target_audience: fields.target_audience as string,
+    impact: fields.impact as string,
+    required_resources: fields.required_resources,
+    attachments_description: attachments?.description ?? null,
+    patent_status: fields.patent_status as string,
+    technical_readiness_level: trl,
+    submitter_wallet_address: requesterAddress,
+    attachment_hashes: attachmentHashes,
+  });
+
+  const registrationError = await verifyOnchainRegistration(
+    onchainIdeaId as Hex,
+    requesterAddress,
+    contentHash
+  );
+  if (registrationError) {
+    return NextResponse.json({ error: registrationError }, { status: 400 });
+  }
+
+  const client = await submitterPool.connect();
+  try {
+    await client.query('BEGIN');
+
+    // Confidential fields and attachments are stored encrypted; the content hash above covers the plaintext
+    const { contentKey, wrappedKey } = await createIdeaContentKey();
+    const encryptedFields = await encryptConfidentialFields(fields, contentKey);
+
+    const existing = await client.query('SELECT id FROM ideas WHERE onchain_idea_id = $1', [
+      onchainIdeaId.toLowerCase(),
+    ]);
+    if (existing.rowCount && existing.rowCount > 0) {
+      await client.query('ROLLBACK');
+      return NextResponse.json(
+        { error: 'This on-chain idea has already been submitted.' },
+        { status: 409 }
+      );
+    }
+
+    const insertResult = await client.query(
+      `INSERT INTO ideas (
+         fullname,
+         title,
+         description,
+         problem_statement,
+         solution,
+         target_audience,
+         impact,
+         required_resources,
+         attachments,
+         patent_status,
+         technical_readiness_level,
+         contact_email,
+         submitter_wallet_address,
+         status,
+         onchain_idea_id,
+         onchain_tx_hash,
+         content_hash,
+         content_key_wrapped
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+       RETURNING ${IDEA_COLUMNS}`,
+      [
+        fields.fullname,
+        fields.title,
+        fields.description,
+        encryptedFields.problem_statement,
+        encryptedFields.solution,
+        fields.target_audience,
+        fields.impact,
+        encryptedFields.required_resources,
+        attachments ? JSON.stringify(attachments) : null,
+        fields.patent_status,
+        trl,
+        fields.contact_email,
+        requesterAddress.toLowerCase(),
+        DEFAULT_IDEA_STATUS,
+        onchainIdeaId.toLowerCase(),
+        onchainTxHash.toLowerCase(),
+        contentHash,
+        wrappedKey,
+      ]
+    );
+    const idea = insertResult.rows[0];
+
+    for (const [index, file] of files.entries()) {
+      const content = Buffer.from(
+        await encryptIdeaAttachment(new Uint8Array(await file.arrayBuffer()), contentKey)
+      );
+      await client.query(
+        `INSERT INTO idea_attachments (idea_id, file_name, mime_type, size_bytes, content, content_hash)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [idea.id, file.name, file.type || 'application/octet-stream', file.size, content, attachmentHashes[index]]
+      );
+    }
+
+    await client.query('COMMIT');
+    console.log(`[Ideas API] Idea ${idea.id} submitted by ${requesterAddress} with ${files.length} attachment(s).`);
+
+    return NextResponse.json({ idea }, { status: 201 });
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('[Ideas API] Error creating idea:', error);
+    return NextResponse.json({ error: 'Failed to submit idea' }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
@@ -7,12 +7,12 @@ interface JsonFileData {
 /**
  * Validates the input for uploading to Pinata
  * @param jsonFile The JSON file to upload
- * @param indexGovRes The research proposal index (can be string or number)
+ * @param proposalIndex The research or operations proposal index (can be string or number)
  * @param recaptchaToken The recaptcha token for verification
  */
 function validateInput(
   jsonFile: JsonFileData,
-  indexGovRes: number | string,
+  proposalIndex: number | string,
   recaptchaToken: string
 ): { isValid: boolean; error?: string } {
   // Validate JSON file
@@ -20,17 +20,17 @@ function validateInput(
     return { isValid: false, error: 'JSON file is required and must be an object' };
   }
 
-  // Check if the research index is provided and valid
-  const parsedIndexGovRes = typeof indexGovRes === 'string'
-    ? parseInt(indexGovRes, 10)
-    : indexGovRes;
+  // Check if the proposal index is provided and valid
+  const parsedIndex = typeof proposalIndex === 'string'
+    ? parseInt(proposalIndex, 10)
+    : proposalIndex;
 
-  if (isNaN(parsedIndexGovRes)) {
+  if (isNaN(parsedIndex)) {
     return { isValid: false, error: 'Invalid number format for governance indices' };
   }
 
-  if (typeof parsedIndexGovRes !== 'number' || parsedIndexGovRes < 0) {
-    return { isValid: false, error: 'Invalid research governance index' };
+  if (typeof parsedIndex !== 'number' || parsedIndex < 0) {
+    return { isValid: false, error: 'Invalid governance index' };
   }
 
   // Validate recaptcha token
@@ -52,16 +52,19 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
     }
 
-    const { jsonFile, indexGovRes, recaptchaToken } = body;
+    const { jsonFile, isOperations, indexGovRes, indexGovOps, recaptchaToken } = body;
+    const proposalType = isOperations ? 'operations' : 'research';
+    const proposalIndex = isOperations ? indexGovOps : indexGovRes;
 
     console.log('Request body parsed:', {
       hasJsonFile: !!jsonFile,
-      indexGovRes: typeof indexGovRes,
+      proposalType,
+      proposalIndex: typeof proposalIndex,
       hasRecaptchaToken: !!recaptchaToken,
-      indexGovResValue: indexGovRes,
+      proposalIndexValue: proposalIndex,
     });
 
-    const validation = validateInput(jsonFile, indexGovRes, recaptchaToken);
+    const validation = validateInput(jsonFile, proposalIndex, recaptchaToken);
     if (!validation.isValid) {
       console.error('Validation failed:', validation.error);
       return NextResponse.json(
@@ -71,14 +74,14 @@ export async function POST(request: NextRequest) {
     }
 
     console.log('Input validation passed:', {
-      indexGovResType: typeof indexGovRes,
-      indexGovResValue: indexGovRes,
+      proposalIndexType: typeof proposalIndex,
+      proposalIndexValue: proposalIndex,
     });
 
-    // Parse the research governance index
-    const parsedIndexGovRes = typeof indexGovRes === 'string'
-      ? parseInt(indexGovRes, 10)
-      : indexGovRes;
+    // Parse the governance index of the proposal type being uploaded
+    const parsedIndex = typeof proposalIndex === 'string'
+      ? parseInt(proposalIndex, 10)
+      : proposalIndex;
 
     // Verify with Google reCAPTCHA
     const recaptchaResponse = await fetch(
@@ -99,7 +102,7 @@ export async function POST(request: NextRequest) {
 
     // Create file name with timestamp
     const timestamp = Date.now();
-    const fileName = `research-proposal-${parsedIndexGovRes}-${timestamp}`;
+    const fileName = `${proposalType}-proposal-${parsedIndex}-${timestamp}`;
 
     console.log('Generated filename:', fileName);
 
@@ -129,8 +132,8 @@ export async function POST(request: NextRequest) {
           pinataMetadata: {
             name: fileName,
             keyvalues: {
-              type: 'research',
-              index: parsedIndexGovRes,
+              type: proposalType,
+              index: parsedIndex,
             },
           },
         }),
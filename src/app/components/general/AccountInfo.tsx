@@ -21,6 +21,7 @@ import Image from 'next/image';
 import { base, baseSepolia } from 'viem/chains';
 import { useEcosystemBalances } from '@/app/components/hooks/UseEcosystemBalances';
 import { useCoinBalance } from '@/app/components/hooks/UseCoinBalance';
+import { usePoClaim } from '@/app/components/hooks/UsePoClaim';
 import { useVoucher } from '@/app/context/VoucherContext';
 
 // External verification URL - replace with actual URL when available
@@ -44,6 +45,16 @@ export default function AccountInfo({ disconnect, toggleAccountMenu }) {
     networkInfo?.sciManager || undefined
   );
   const ethBalance = useCoinBalance(wallet.state.address || undefined, 4);
+  const {
+    isAvailable: isPoClaimAvailable,
+    votingStreak,
+    maxVotingStreak,
+    totalPoClaimed,
+    eligibility: poClaimEligibility,
+    isLoading: isPoClaimLoading,
+    isClaiming: isClaimingPo,
+    claimPo,
+  } = usePoClaim();
 
   // Local loading states
   const [isLoadingVoucher, setIsLoadingVoucher] = useState(false);
@@ -637,6 +648,54 @@ export default function AccountInfo({ disconnect, toggleAccountMenu }) {
                 </TermModal>
               )}
             </div>
+            {isPoClaimAvailable && (
+              <>
+                <div className="relative flex w-full justify-between">
+                  <span>Voting streak:&nbsp;</span>
+                  {isPoClaimLoading ? (
+                    <div className="animate-pulse text-sm sm:text-base">
+                      Loading...
+                    </div>
+                  ) : (
+                    <TermModal term={`${votingStreak} / ${maxVotingStreak}`}>
+                      This is the number of consecutive operations proposals
+                      you have voted on. A longer streak earns more PO per vote,
+                      up to the maximum streak.
+                    </TermModal>
+                  )}
+                </div>
+                <div className="relative flex w-full justify-between">
+                  <span>PO claimed:&nbsp;</span>
+                  {isPoClaimLoading ? (
+                    <div className="animate-pulse text-sm sm:text-base">
+                      Loading...
+                    </div>
+                  ) : (
+                    <TermModal term={Number(totalPoClaimed).toLocaleString()}>
+                      This is the total amount of PO tokens you
+                      have claimed for voting on operations proposals.
+                    </TermModal>
+                  )}
+                </div>
+                <div className="relative flex w-full items-center justify-between">
+                  <span>Next PO claim:&nbsp;</span>
+                  {poClaimEligibility.eligible ? (
+                    <button
+                      className="rounded-lg border border-neonGreen px-3 py-1 text-sm text-neonGreen hover:bg-neonGreen/10 disabled:cursor-not-allowed disabled:opacity-60"
+                      onClick={claimPo}
+                      disabled={isClaimingPo}
+                    >
+                      {isClaimingPo ? 'Claiming...' : 'Claim PO'}
+                    </button>
+                  ) : (
+                    <TermModal term={isPoClaimLoading ? 'Checking...' : 'Not yet'}>
+                      {poClaimEligibility.reason ||
+                        'Vote on operations proposals to earn PO that you can claim here.'}
+                    </TermModal>
+                  )}
+                </div>
+              </>
+            )}
           </div>
           {!isOnBase ? (
             <div
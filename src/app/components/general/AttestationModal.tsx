@@ -10,9 +10,9 @@ import {
   EIP712_DOMAIN_NAME_SPARK_USER_AGREEMENTS,
   EIP712_DOMAIN_VERSION_SPARK_USER_AGREEMENTS,
   EIP712_TYPES,
-  PLATFORM_NDA_TYPE_HASH_BYTES32,
-  PLATFORM_IDEATOR_TERMS_TYPE_HASH_BYTES32
+  fetchAgreementTypeIds
 } from '@/app/constants/eip712';
+import { publicClient } from '@/app/config/viem';
 
 const AttestationVaultABI = AttestationVaultABIFile;
 
@@ -323,13 +323,15 @@ const AttestationModal: React.FC<AttestationModalProps> = ({
     onClose();
   }, [onClose, ideaTitle]);
 
-  const getAgreementTypeIdBytes32 = useCallback((): `0x${string}` | null => {
-    if (agreementType === "PLATFORM_NDA") return PLATFORM_NDA_TYPE_HASH_BYTES32 as `0x${string}`;
-    if (agreementType === "PLATFORM_IDEATOR_TERMS") return PLATFORM_IDEATOR_TERMS_TYPE_HASH_BYTES32 as `0x${string}`;
-    if (agreementType === "IDEA_SPECIFIC_NDA") return null; 
+  const getAgreementTypeIdBytes32 = useCallback(async (): Promise<`0x${string}` | null> => {
+    if (agreementType === "IDEA_SPECIFIC_NDA") return null;
+    if (!networkInfo?.attestationVault) return null;
+    const typeIds = await fetchAgreementTypeIds(publicClient, networkInfo.attestationVault);
+    if (agreementType === "PLATFORM_NDA") return typeIds.PLATFORM_NDA;
+    if (agreementType === "PLATFORM_IDEATOR_TERMS") return typeIds.PLATFORM_IDEATOR_TERMS;
     console.error("Unknown agreement type for ID generation:", agreementType);
     throw new Error("Unknown agreement type for ID generation");
-  }, [agreementType]);
+  }, [agreementType, networkInfo?.attestationVault]);
 
   const initiateDocusignSigning = async () => {
     if (!internalSignerEmail || !internalSignerName) {
@@ -480,7 +482,7 @@ const AttestationModal: React.FC<AttestationModalProps> = ({
         contractFunctionName = 'attestToIdeaNda';
       } else { 
         primaryEipType = 'SparkUserDocumentAttestation';
-        const currentAgreementTypeId = getAgreementTypeIdBytes32();
+        const currentAgreementTypeId = await getAgreementTypeIdBytes32();
         if (!currentAgreementTypeId) {
           throw new Error("Could not determine agreement type ID for platform agreement.");
         }
@@ -488,7 +490,7 @@ const AttestationModal: React.FC<AttestationModalProps> = ({
           userSignedDocumentHash: userSignedDocumentHash,
           agreementTypeId: currentAgreementTypeId,
         };
-        contractFunctionName = 'attestToUserDocument';
+        contractFunctionName = 'attestToSignedDocument';
       }
       
       const typesForSigning = { ...EIP712_TYPES }; 
@@ -508,12 +510,10 @@ const AttestationModal: React.FC<AttestationModalProps> = ({
         return;
       }
 
-      const { v, r, s } = ethers.utils.splitSignature(signature);
-
       if (agreementType === "IDEA_SPECIFIC_NDA") {
-        contractArgs = [userSignedDocumentHash, messagePayload.ideaId, v, r, s];
+        contractArgs = [messagePayload.ideaId, userSignedDocumentHash, signature];
       } else {
-        contractArgs = [userSignedDocumentHash, messagePayload.agreementTypeId, v, r, s];
+        contractArgs = [userSignedDocumentHash, messagePayload.agreementTypeId, signature];
       }
       
       addNotification("Submitting attestation to the blockchain...", "info");
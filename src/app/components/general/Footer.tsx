@@ -30,6 +30,13 @@ export default function Footer({ setIsOpen }) {
           <p className="whitespace-nowrap font-acuminSemiBold uppercase text-orange-500 md:text-sm lg:text-base">
             Platform
           </p>
+          <Link
+            className="text-left text-gray-300 hover:text-orange-500"
+            href="/ideas"
+            onClick={() => setIsOpen(false)}
+          >
+            Explore Ideas
+          </Link>
           <Link
             className="text-left text-gray-300 hover:text-orange-500"
             href="/submit-idea"
@@ -37,6 +44,13 @@ export default function Footer({ setIsOpen }) {
           >
             Submit Idea
           </Link>
+          <Link
+            className="text-left text-gray-300 hover:text-orange-500"
+            href="/my-ideas"
+            onClick={() => setIsOpen(false)}
+          >
+            My Ideas
+          </Link>
           <Link
             className="text-left text-gray-300 hover:text-orange-500"
             href="/review-ideas"
@@ -51,6 +65,13 @@ export default function Footer({ setIsOpen }) {
           >
             Governance
           </Link>
+          <Link
+            className="text-left text-gray-300 hover:text-orange-500"
+            href="/governance/operations"
+            onClick={() => setIsOpen(false)}
+          >
+            Operations
+          </Link>
           <Link
             className="text-left text-gray-300 hover:text-orange-500"
             href="/ip-portfolio"
@@ -58,6 +79,13 @@ export default function Footer({ setIsOpen }) {
           >
             Licensing & IP
           </Link>
+          <Link
+            className="text-left text-gray-300 hover:text-orange-500"
+            href="/my-licenses"
+            onClick={() => setIsOpen(false)}
+          >
+            My Licenses
+          </Link>
         </div>
 
         {/* Resources column */}
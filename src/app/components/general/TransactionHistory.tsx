@@ -66,7 +66,10 @@ const TransactionHistory = ({ contracts }) => {
       return 'Locked';
     } else if (event === 'Freed(address,address,uint256)') {
       return 'Freed';
-    } else if (event === 'Proposed(uint256,address,string,uint256,uint256,address,bool)') {
+    } else if (
+      event === 'Proposed(uint256,address,string,uint256,uint256,address,bool)' ||
+      event === 'Proposed(uint256,address,string,uint256,uint256,address,bool,bool)'
+    ) {
       return 'Proposed';
     } else if (event === 'Voted(uint256,address,bool,uint256)') {
       return 'Voted';
@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Address, getAddress, isAddress, zeroAddress } from 'viem';
+import { resolveEnsAddress, useEnsName } from '@/app/components/hooks/UseEnsName';
+import styles from './../general/Button.module.css';
+
+interface AddressListInputProps {
+  addresses: Address[];
+  onChange?: (addresses: Address[]) => void;
+  placeholder?: string;
+  readOnly?: boolean;
+}
+
+const AddressListEntry = ({ address }: { address: Address }) => {
+  const ensName = useEnsName(address);
+
+  return (
+    <span className="break-all">
+      {`${address.slice(0, 6)}...${address.slice(-4)}`}
+      {ensName && <span className="ml-2 text-seaBlue-300">({ensName})</span>}
+    </span>
+  );
+};
+
+// Collects a list of wallets, accepting either 0x addresses or ENS names
+export const AddressListInput: React.FC<AddressListInputProps> = ({
+  addresses,
+  onChange,
+  placeholder = '0x... or name.eth',
+  readOnly = false,
+}) => {
+  const [entry, setEntry] = useState('');
+  const [entryError, setEntryError] = useState('');
+  const [isResolving, setIsResolving] = useState(false);
+
+  const addEntry = async () => {
+    const value = entry.trim();
+    if (!value || !onChange) return;
+
+    let address: Address | null = null;
+    if (isAddress(value)) {
+      address = getAddress(value);
+    } else if (value.includes('.')) {
+      setIsResolving(true);
+      try {
+        address = await resolveEnsAddress(value);
+      } catch (err) {
+        console.error(`Error resolving ENS name ${value}:`, err);
+      } finally {
+        setIsResolving(false);
+      }
+      if (!address) {
+        setEntryError(`${value} does not resolve to an address`);
+        return;
+      }
+    } else {
+      setEntryError('Enter a valid EVM address or ENS name');
+      return;
+    }
+
+    const resolvedAddress = address;
+    if (resolvedAddress == zeroAddress) {
+      setEntryError('Cannot use zero address');
+      return;
+    }
+    if (addresses.some((existing) => existing.toLowerCase() == resolvedAddress.toLowerCase())) {
+      setEntryError('This wallet has already been added');
+      return;
+    }
+
+    setEntryError('');
+    setEntry('');
+    onChange([...addresses, resolvedAddress]);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {addresses.length > 0 && (
+        <ul className="flex flex-col gap-1 text-sm">
+          {addresses.map((address, index) => (
+            <li key={address} className="flex items-center justify-between gap-2">
+              <span>
+                {index + 1}. <AddressListEntry address={address} />
+              </span>
+              {!readOnly && (
+                <button
+                  type="button"
+                  onClick={() => onChange?.(addresses.filter((existing) => existing !== address))}
+                  className="text-highlightRed/80 transition-colors hover:text-highlightRed"
+                  aria-label={`Remove ${address}`}
+                >
+                  &times;
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {!readOnly && (
+        <>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={entry}
+              onChange={(e) => {
+                setEntry(e.target.value);
+                setEntryError('');
+              }}
+              onKeyDown={(e) => {
+                // Enter adds the wallet instead of submitting the proposal form
+                if (e.key == 'Enter') {
+                  e.preventDefault();
+                  addEntry();
+                }
+              }}
+              placeholder={placeholder}
+              className="w-full rounded-lg border bg-seaBlue-100 p-2 text-seaBlue-1050 ring-2 ring-transparent focus:ring-tropicalBlue"
+            />
+            <button
+              type="button"
+              onClick={addEntry}
+              disabled={!entry.trim() || isResolving}
+              className={`${styles.secondary} rounded-lg border-[1px] border-solid border-seaBlue-1025 bg-seaBlue-300 font-acuminSemiBold text-seaBlue-1025`}
+            >
+              {isResolving ? 'Resolving...' : 'Add'}
+            </button>
+          </div>
+          {entryError && <p className="text-sm text-highlightRed">{entryError}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AddressListInput;
@@ -0,0 +1,76 @@
+import { Address, Hex, encodeAbiParameters, parseAbiParameters } from 'viem';
+
+export interface TransactionActionParams {
+  researchFundingWallet: Address;
+  targetWallet: Address;
+  amountUsdc: bigint;
+  amountSci: bigint;
+  governorExecutor: Address;
+}
+
+export interface MintIpNftActionParams {
+  sparkIpNft: Address;
+  copyleftIpPool: Address;
+  patentIdentifier: string;
+  copyleftLicenseURI: string;
+  researchAgreementURI: string;
+  ideator: Address;
+  ideaId: Hex;
+  governorExecutor: Address;
+}
+
+/**
+ * Encodes the initialization parameters of a Transaction action clone
+ */
+export const encodeTransactionParams = (params: TransactionActionParams): Hex =>
+  encodeAbiParameters(parseAbiParameters('address, address, uint256, uint256, address'), [
+    params.researchFundingWallet,
+    params.targetWallet,
+    params.amountUsdc,
+    params.amountSci,
+    params.governorExecutor,
+  ]);
+
+/**
+ * Encodes the initialization parameters of a MintIPNFT action clone
+ */
+export const encodeMintIpNftParams = (params: MintIpNftActionParams): Hex =>
+  encodeAbiParameters(
+    parseAbiParameters('address, address, string, string, string, address, bytes32, address'),
+    [
+      params.sparkIpNft,
+      params.copyleftIpPool,
+      params.patentIdentifier,
+      params.copyleftLicenseURI,
+      params.researchAgreementURI,
+      params.ideator,
+      params.ideaId,
+      params.governorExecutor,
+    ]
+  );
+
+/**
+ * Encodes the initialization parameters of a FundAndMintIPNFT action clone
+ */
+export const encodeFundAndMintIpNftParams = (
+  params: TransactionActionParams & MintIpNftActionParams
+): Hex =>
+  encodeAbiParameters(
+    parseAbiParameters(
+      'address, address, uint256, uint256, address, address, string, string, string, address, bytes32, address'
+    ),
+    [
+      params.researchFundingWallet,
+      params.targetWallet,
+      params.amountUsdc,
+      params.amountSci,
+      params.sparkIpNft,
+      params.copyleftIpPool,
+      params.patentIdentifier,
+      params.copyleftLicenseURI,
+      params.researchAgreementURI,
+      params.ideator,
+      params.ideaId,
+      params.governorExecutor,
+    ]
+  );
@@ -9,6 +9,12 @@ export default function enumerateExecutionOptions(executionOption: string) {
     return ExecutionOptions.Impeachment;
   } else if (executionOption === 'ParameterChange') {
     return ExecutionOptions.ParameterChange;
+  } else if (executionOption === 'MintIPNFT') {
+    return ExecutionOptions.MintIPNFT;
+  } else if (executionOption === 'FundAndMintIPNFT') {
+    return ExecutionOptions.FundAndMintIPNFT;
+  } else if (executionOption === 'RevokeLicense') {
+    return ExecutionOptions.RevokeLicense;
   } else if (executionOption === 'NotExecutable') {
     return ExecutionOptions.NotExecutable;
   } else {
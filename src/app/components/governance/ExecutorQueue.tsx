@@ -0,0 +1,190 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faExternalLinkAlt } from '@fortawesome/free-solid-svg-icons';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { useWallet } from '@/app/context/WalletContext';
+import { useExecutorQueue } from '../hooks/UseExecutorQueue';
+import { ExecutorGovernor } from '@/app/utils/interfaces';
+import { convertSecondsToReadableTime } from '../general/ConvertSecondsToTime';
+import CountdownTimer from '../general/Countdown';
+import ErrorDisplay from '../general/ErrorDisplay';
+import ConnectWallet from '../general/ConnectWallet';
+import InfoToolTip from '../general/InfoToolTip';
+import styles from './../general/Button.module.css';
+
+const proposalLink = (governor: ExecutorGovernor, index: number) =>
+  governor === 'research'
+    ? { href: `/governance/research/proposals/${index}`, label: `RFP-${index}` }
+    : { href: `/governance/operations/proposals/${index}`, label: `OP-${index}` };
+
+const ProposalReference = ({
+  governor,
+  proposalIndex,
+}: {
+  governor: ExecutorGovernor | null;
+  proposalIndex: number | null;
+}) => {
+  if (governor === null || proposalIndex === null) {
+    return <span className="text-gray-400">Unknown proposal</span>;
+  }
+  const { href, label } = proposalLink(governor, proposalIndex);
+  return (
+    <Link href={href} className="text-[#2D7FEA] hover:text-[#4B9BFF]">
+      {label}
+    </Link>
+  );
+};
+
+export default function ExecutorQueue() {
+  const networkInfo = useNetworkInfo();
+  const wallet = useWallet();
+  const { delay, scheduled, history, isLoading, error, pendingAction, executeAction } =
+    useExecutorQueue();
+  const [now, setNow] = useState(Math.floor(Date.now() / 1000));
+
+  // Execute buttons unlock as soon as an ETA passes
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <span className="animate-pulse">Loading execution queue...</span>
+        <span className="mx-2 block h-6 w-6 animate-spin rounded-full border-2 border-[#2D7FEA] border-t-transparent"></span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <ErrorDisplay error={error} />;
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      <section className="rounded-2xl border border-seaBlue-1025 bg-seaBlue-1075 p-3 sm:p-8">
+        <h2 className="mb-4 flex items-center justify-center gap-2 text-center text-lg font-bold sm:text-2xl">
+          SCHEDULED ACTIONS
+          <InfoToolTip>
+            <p>
+              Passed proposals are scheduled on the executor and can be executed
+              once the timelock delay of {convertSecondsToReadableTime(delay)} has
+              passed.
+            </p>
+          </InfoToolTip>
+        </h2>
+        {scheduled.length === 0 ? (
+          <p className="text-center text-gray-400">No actions are currently scheduled.</p>
+        ) : (
+          <ul className="space-y-4">
+            {scheduled.map((entry) => (
+              <li
+                key={entry.action}
+                className="flex flex-col gap-3 rounded-xl border border-seaBlue-1025 bg-seaBlue-1100 p-4 sm:flex-row sm:items-center sm:justify-between"
+              >
+                <div className="flex flex-col gap-1">
+                  <div className="flex items-center gap-2">
+                    <ProposalReference
+                      governor={entry.governor}
+                      proposalIndex={entry.proposalIndex}
+                    />
+                    <span className="text-gray-400">·</span>
+                    <span>{entry.actionType}</span>
+                    <Link
+                      href={`${networkInfo?.explorerLink}/address/${entry.action}`}
+                      target="_blank"
+                      className="text-steelBlue hover:text-tropicalBlue"
+                    >
+                      <FontAwesomeIcon icon={faExternalLinkAlt} size="xs" />
+                    </Link>
+                  </div>
+                  {entry.params.map((param) => (
+                    <span key={param.label} className="text-sm text-gray-300">
+                      {param.label}: {param.value}
+                    </span>
+                  ))}
+                </div>
+                <div className="flex min-w-[12rem] flex-col items-center gap-2">
+                  {now >= entry.scheduledTime ? (
+                    wallet?.state?.isConnected && entry.proposalIndex !== null ? (
+                      <button
+                        className={styles.primary}
+                        onClick={() => executeAction(entry)}
+                        disabled={pendingAction !== null}
+                      >
+                        {pendingAction === entry.action ? 'Executing...' : 'Execute'}
+                      </button>
+                    ) : !wallet?.state?.isConnected ? (
+                      <ConnectWallet isNavBar={false} toggleAccountMenu={() => null} />
+                    ) : (
+                      <span className="text-neonGreen">Ready for execution</span>
+                    )
+                  ) : (
+                    <>
+                      <span className="text-sm text-gray-400">Executable in</span>
+                      <CountdownTimer
+                        endTimestamp={entry.scheduledTime}
+                        className="text-sm sm:text-base"
+                      />
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="rounded-2xl border border-seaBlue-1025 bg-seaBlue-1075 p-3 sm:p-8">
+        <h2 className="mb-4 text-center text-lg font-bold sm:text-2xl">RECENT ACTIVITY</h2>
+        {history.length === 0 ? (
+          <p className="text-center text-gray-400">No actions have been executed or canceled yet.</p>
+        ) : (
+          <ul className="divide-y divide-seaBlue-1025">
+            {history.map((entry) => (
+              <li
+                key={`${entry.transactionHash}-${entry.action}`}
+                className="flex items-center justify-between gap-4 py-3 text-sm sm:text-base"
+              >
+                <span
+                  className={
+                    entry.event === 'executed' ? 'text-neonGreen' : 'text-highlightRed'
+                  }
+                >
+                  {entry.event === 'executed' ? 'Executed' : 'Canceled'}
+                </span>
+                <span className="flex items-center gap-2">
+                  <ProposalReference
+                    governor={entry.governor}
+                    proposalIndex={entry.proposalIndex}
+                  />
+                  <span className="text-gray-400">{entry.actionType}</span>
+                </span>
+                <span className="text-gray-400">
+                  {new Date(entry.timestamp * 1000).toLocaleDateString('en-US', {
+                    year: 'numeric',
+                    month: 'short',
+                    day: 'numeric',
+                  })}
+                </span>
+                <Link
+                  href={`${networkInfo?.explorerLink}/tx/${entry.transactionHash}`}
+                  target="_blank"
+                  className="flex items-center text-steelBlue hover:text-tropicalBlue"
+                >
+                  {entry.transactionHash.slice(0, 3) + '...' + entry.transactionHash.slice(-3)}
+                  &nbsp;
+                  <FontAwesomeIcon icon={faExternalLinkAlt} size="xs" />
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -5,16 +5,18 @@ import {
 import { getNetworkInfo } from '@/app/utils/serverConfig';
 import { getCustomPublicClient } from '@/app/config/viem';
 export const fetchLatestTxHash = async (
-  index: number
+  index: number,
+  governorAddress?: Address
 ): Promise<string> => {
   try {
     const networkInfo = await getNetworkInfo();
     const customPublicClient = await getCustomPublicClient();
 
-    const contractAddress = networkInfo?.governorResearch as Address;
+    const contractAddress =
+      governorAddress ?? (networkInfo?.governorResearch as Address);
 
     if (!contractAddress) {
-      console.error('Governor Research contract address not found');
+      console.error('Governor contract address not found');
       return '';
     }
 
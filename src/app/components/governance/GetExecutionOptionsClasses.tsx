@@ -9,6 +9,7 @@ export default function getExecutionOptionsClasses(type: string) {
       return `${baseClasses} uppercase bg-gradient-to-r from-orange-500/20 to-orange-500/10 
         text-orange-400 border border-orange-500/30 shadow-glow-orange-faint`;
     case 'impeachment':
+    case 'revokelicense':
       return `${baseClasses} uppercase bg-gradient-to-r from-highlightRed/20 to-highlightRed/10 
         text-highlightRed border border-highlightRed/30 shadow-glow-red-faint`;
     case 'parameterchange':
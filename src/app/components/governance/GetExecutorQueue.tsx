@@ -0,0 +1,262 @@
+import {
+  Abi,
+  AbiEvent,
+  Address,
+  formatUnits,
+  getAbiItem,
+  parseAbiItem,
+  zeroAddress,
+} from 'viem';
+import { getNetworkInfo } from '@/app/utils/serverConfig';
+import { getCustomPublicClient } from '@/app/config/viem';
+import { getGovernorOperationsAddress } from './GetGovernorOperationsAddress';
+import abiMap from './AbiMap';
+import {
+  ExecutorActionParam,
+  ExecutorGovernor,
+  ExecutorHistoryEntry,
+  ExecutorQueueEntry,
+} from '@/app/utils/interfaces';
+import govExecAbi from '@/app/abi/GovernorExecutor.json';
+import govOpsAbi from '@/app/abi/GovernorOperations.json';
+import govResAbi from '@/app/abi/GovernorResearch.json';
+const govExecAbiViem = govExecAbi as Abi;
+
+const HISTORY_LIMIT = 10;
+
+const scheduledEvent = parseAbiItem('event Scheduled(address indexed action)');
+const executedEvent = parseAbiItem('event Executed(address indexed action)');
+const canceledEvent = parseAbiItem('event Canceled(address indexed action)');
+const actionCreatedEvent = parseAbiItem(
+  'event ActionCreated(address indexed action, string actionType)'
+);
+// The governors emit differently shaped Proposed events, so take each from its own ABI
+const resProposedEvent = getAbiItem({ abi: govResAbi as Abi, name: 'Proposed' }) as AbiEvent;
+const opsProposedEvent = getAbiItem({ abi: govOpsAbi as Abi, name: 'Proposed' }) as AbiEvent;
+
+// Both events share the fields the queue needs
+const proposedArgs = (log: { args: unknown }) => log.args as { index: bigint; action: Address };
+
+type CustomPublicClient = Awaited<ReturnType<typeof getCustomPublicClient>>;
+
+interface ProposalReference {
+  governor: ExecutorGovernor;
+  proposalIndex: number;
+}
+
+const shortenAddress = (address: string) =>
+  `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Reads the state of the action clone the same way useActionState does for a single proposal
+const decodeActionParams = async (
+  client: CustomPublicClient,
+  action: Address,
+  actionType: string
+): Promise<ExecutorActionParam[]> => {
+  const abi = abiMap[actionType]?.abi as Abi | undefined;
+  if (!abi) return [];
+
+  const read = (functionName: string) =>
+    client.readContract({ address: action, abi, functionName });
+
+  try {
+    switch (actionType) {
+      case 'Transaction': {
+        const [amountUsdc, amountSci, targetWallet] = await Promise.all([
+          read('amountUsdc') as Promise<bigint>,
+          read('amountSci') as Promise<bigint>,
+          read('targetWallet') as Promise<Address>,
+        ]);
+        return [
+          { label: 'Target wallet', value: shortenAddress(targetWallet) },
+          { label: 'USDC', value: Number(formatUnits(amountUsdc, 6)).toLocaleString() },
+          { label: 'SCI', value: Number(formatUnits(amountSci, 18)).toLocaleString() },
+        ];
+      }
+      case 'Election': {
+        const wallets = (await read('getAllElectedWallets')) as Address[];
+        return [{ label: 'Elected', value: wallets.map(shortenAddress).join(', ') }];
+      }
+      case 'Impeachment': {
+        const wallets = (await read('getAllImpeachedWallets')) as Address[];
+        return [{ label: 'Impeached', value: wallets.map(shortenAddress).join(', ') }];
+      }
+      case 'ParameterChange': {
+        const [param, data] = await Promise.all([
+          read('humanReadableParam') as Promise<string>,
+          read('data') as Promise<bigint>,
+        ]);
+        return [
+          { label: 'Parameter', value: param },
+          { label: 'New value', value: String(data) },
+        ];
+      }
+      default:
+        return [];
+    }
+  } catch (error) {
+    console.error(`Error decoding parameters of action ${action}:`, error);
+    return [];
+  }
+};
+
+export const getExecutorQueue = async (): Promise<{
+  delay: number;
+  scheduled: ExecutorQueueEntry[];
+  history: ExecutorHistoryEntry[];
+}> => {
+  const networkInfo = await getNetworkInfo();
+  const customPublicClient = await getCustomPublicClient();
+  const governorExecutor = networkInfo.governorExecutor as Address;
+  const governorOperations = await getGovernorOperationsAddress();
+
+  const operationsFactory = governorOperations
+    ? ((await customPublicClient
+        .readContract({
+          address: governorOperations,
+          abi: govOpsAbi as Abi,
+          functionName: 'getFactory',
+        })
+        .catch(() => zeroAddress)) as Address)
+    : zeroAddress;
+
+  const factories = [networkInfo.actionFactoryResearch as Address, operationsFactory].filter(
+    (factory) => factory !== zeroAddress
+  );
+
+  const [
+    delay,
+    scheduledLogs,
+    executedLogs,
+    canceledLogs,
+    actionCreatedLogs,
+    resProposedLogs,
+    opsProposedLogs,
+  ] = await Promise.all([
+    customPublicClient.readContract({
+      address: governorExecutor,
+      abi: govExecAbiViem,
+      functionName: 'delay',
+    }) as Promise<bigint>,
+    customPublicClient.getLogs({
+      address: governorExecutor,
+      event: scheduledEvent,
+      fromBlock: BigInt(0),
+      toBlock: 'latest',
+    }),
+    customPublicClient.getLogs({
+      address: governorExecutor,
+      event: executedEvent,
+      fromBlock: BigInt(0),
+      toBlock: 'latest',
+    }),
+    customPublicClient.getLogs({
+      address: governorExecutor,
+      event: canceledEvent,
+      fromBlock: BigInt(0),
+      toBlock: 'latest',
+    }),
+    customPublicClient.getLogs({
+      address: factories,
+      event: actionCreatedEvent,
+      fromBlock: BigInt(0),
+      toBlock: 'latest',
+    }),
+    customPublicClient.getLogs({
+      address: networkInfo.governorResearch as Address,
+      event: resProposedEvent,
+      fromBlock: BigInt(0),
+      toBlock: 'latest',
+    }),
+    governorOperations
+      ? customPublicClient.getLogs({
+          address: governorOperations,
+          event: opsProposedEvent,
+          fromBlock: BigInt(0),
+          toBlock: 'latest',
+        })
+      : Promise.resolve([]),
+  ]);
+
+  // Actions only know their type and proposal through the factory and governor events
+  const actionTypes = new Map<string, string>();
+  for (const log of actionCreatedLogs) {
+    actionTypes.set(String(log.args.action).toLowerCase(), String(log.args.actionType));
+  }
+
+  const proposals = new Map<string, ProposalReference>();
+  for (const log of resProposedLogs) {
+    const { action, index } = proposedArgs(log);
+    proposals.set(action.toLowerCase(), { governor: 'research', proposalIndex: Number(index) });
+  }
+  for (const log of opsProposedLogs) {
+    const { action, index } = proposedArgs(log);
+    proposals.set(action.toLowerCase(), { governor: 'operations', proposalIndex: Number(index) });
+  }
+
+  const describeAction = (action: string) => {
+    const key = action.toLowerCase();
+    const proposal = proposals.get(key);
+    return {
+      action,
+      actionType: actionTypes.get(key) ?? 'Unknown',
+      governor: proposal?.governor ?? null,
+      proposalIndex: proposal?.proposalIndex ?? null,
+    };
+  };
+
+  const settled = new Set(
+    [...executedLogs, ...canceledLogs].map((log) => String(log.args.action).toLowerCase())
+  );
+  const pendingActions = Array.from(
+    new Set(
+      scheduledLogs
+        .map((log) => String(log.args.action))
+        .filter((action) => !settled.has(action.toLowerCase()))
+    )
+  );
+
+  const scheduled = (
+    await Promise.all(
+      pendingActions.map(async (action) => {
+        const description = describeAction(action);
+        const [scheduledTime, params] = await Promise.all([
+          customPublicClient.readContract({
+            address: governorExecutor,
+            abi: govExecAbiViem,
+            functionName: 'scheduledTime',
+            args: [action as Address],
+          }) as Promise<bigint>,
+          decodeActionParams(customPublicClient, action as Address, description.actionType),
+        ]);
+        return { ...description, scheduledTime: Number(scheduledTime), params };
+      })
+    )
+  )
+    .filter((entry) => entry.scheduledTime > 0)
+    .sort((a, b) => a.scheduledTime - b.scheduledTime);
+
+  const recentLogs = [
+    ...executedLogs.map((log) => ({ log, event: 'executed' as const })),
+    ...canceledLogs.map((log) => ({ log, event: 'canceled' as const })),
+  ]
+    .sort(
+      (a, b) =>
+        Number(b.log.blockNumber - a.log.blockNumber) || b.log.logIndex - a.log.logIndex
+    )
+    .slice(0, HISTORY_LIMIT);
+
+  const history = await Promise.all(
+    recentLogs.map(async ({ log, event }) => {
+      const block = await customPublicClient.getBlock({ blockNumber: log.blockNumber });
+      return {
+        ...describeAction(String(log.args.action)),
+        event,
+        timestamp: Number(block.timestamp),
+        transactionHash: log.transactionHash,
+      };
+    })
+  );
+
+  return { delay: Number(delay), scheduled, history };
+};
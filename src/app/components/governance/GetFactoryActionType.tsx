@@ -0,0 +1,44 @@
+import { Abi, Address, PublicClient } from 'viem';
+import actionFactoryResearchAbi from '@/app/abi/ActionCloneFactoryResearch.json';
+
+type FactoryClient = Pick<PublicClient, 'readContract'>;
+
+/**
+ * Reads the name and enabled flag the action factory registered an action type with
+ */
+export const getFactoryActionConfig = async (
+  client: FactoryClient,
+  actionFactory: Address,
+  actionType: number | bigint
+) => {
+  const [name, enabled] = (await client.readContract({
+    address: actionFactory,
+    abi: actionFactoryResearchAbi as Abi,
+    functionName: 'actionConfigs',
+    args: [BigInt(actionType)],
+  })) as [string, boolean, Address];
+
+  return { name, enabled };
+};
+
+// Action type IDs follow the factory's registration order, so they are looked up by name
+export const getFactoryActionType = async (
+  client: FactoryClient,
+  actionFactory: Address,
+  name: string
+): Promise<number> => {
+  const actionTypesCount = (await client.readContract({
+    address: actionFactory,
+    abi: actionFactoryResearchAbi as Abi,
+    functionName: 'actionTypesCount',
+  })) as bigint;
+
+  for (let actionType = 1; actionType <= Number(actionTypesCount); actionType++) {
+    const config = await getFactoryActionConfig(client, actionFactory, actionType);
+    if (config.name == name && config.enabled) {
+      return actionType;
+    }
+  }
+
+  throw new Error(`No enabled ${name} action is registered on the action factory`);
+};
@@ -0,0 +1,33 @@
+import { getNetworkInfo } from '@/app/utils/serverConfig';
+import { Abi, Address, zeroAddress } from 'viem';
+import sciManagerAbi from '@/app/abi/SciManager.json';
+import { getCustomPublicClient } from '@/app/config/viem';
+
+let governorOperationsAddress: Address | undefined;
+
+// The operations governor is registered on SciManager, so it is read from there instead of the network config
+export const getGovernorOperationsAddress = async (): Promise<Address | undefined> => {
+  if (governorOperationsAddress) return governorOperationsAddress;
+
+  try {
+    const networkInfo = await getNetworkInfo();
+    const customPublicClient = await getCustomPublicClient();
+
+    const data = (await customPublicClient.readContract({
+      address: networkInfo?.sciManager as Address,
+      abi: sciManagerAbi as Abi,
+      functionName: 'govOpsContract',
+    })) as Address;
+
+    if (!data || data === zeroAddress) {
+      console.error('No operations governor is registered on SciManager');
+      return undefined;
+    }
+
+    governorOperationsAddress = data;
+    return data;
+  } catch (err) {
+    console.error('Error getting operations governor address:', err);
+    return undefined;
+  }
+};
@@ -0,0 +1,194 @@
+import {
+  Abi,
+  parseAbiItem,
+  decodeEventLog
+} from 'viem';
+import { fetchProposalDetails } from './FetchProposalDetails';
+import { returnProposalStatus } from '@/app/components/governance/';
+import checkEligibilityToScheduleOrCancel from './CheckEligibilityToScheduleOrCancel';
+import { getLatestBlockTimestamp } from '@/app/components/governance/GetLatestBlockTimestamp';
+import govOpsAbi from '@/app/abi/GovernorOperations.json';
+import { fetchEventDate } from './FetchEventDate';
+import { fetchLatestTxHash } from './FetchLatestTxHash';
+import { getGovernorOperationsAddress } from './GetGovernorOperationsAddress';
+import { CompleteProposalType } from '@/app/utils/interfaces';
+import { getCustomPublicClient } from '@/app/config/viem';
+const govOpsAbiViem = govOpsAbi as Abi;
+
+// Operations proposals additionally record whether they are decided by quadratic voting
+const opsProposedEventSignature =
+  'event Proposed(uint256 indexed index, address indexed user, string info, uint256 startTimestamp, uint256 endTimestamp, address action, bool executable, bool quadraticVoting)';
+
+const convertTimestampToDate = (
+  timestamp: number,
+  includeTime: boolean = false
+): string => {
+  const date = new Date(timestamp * 1000);
+  return date.toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    ...(includeTime && {
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }),
+    timeZone: 'GMT',
+    timeZoneName: 'short',
+  });
+};
+
+export const getOperationsProposal = async (
+  index: number
+): Promise<CompleteProposalType> => {
+  const proposalIndex = Number(index);
+  if (isNaN(proposalIndex)) {
+    console.error('Invalid index provided to getOperationsProposal:', index);
+    throw new Error(`Invalid proposal index: ${index}`);
+  }
+
+  const contractAddress = await getGovernorOperationsAddress();
+  if (!contractAddress) {
+    throw new Error('Operations governor is not available');
+  }
+
+  const customPublicClient = await getCustomPublicClient();
+  const abi = govOpsAbiViem;
+
+  const [
+    proposalIndexExistsBigInt,
+    latestBlockTimestampNumber,
+    proposerLogs,
+  ] = await Promise.all([
+    customPublicClient.readContract({
+      address: contractAddress,
+      abi,
+      functionName: 'getProposalIndex',
+    }) as Promise<bigint>,
+    getLatestBlockTimestamp().then(Number),
+    customPublicClient.getLogs({
+      address: contractAddress,
+      event: parseAbiItem(opsProposedEventSignature),
+      args: {
+        index: BigInt(proposalIndex),
+      },
+      fromBlock: BigInt(0),
+      toBlock: 'latest',
+    }),
+  ]);
+
+  let proposerAddress = '';
+  if (proposerLogs && proposerLogs.length > 0) {
+    try {
+      const decodedProposalLog = decodeEventLog({
+        abi: [parseAbiItem(opsProposedEventSignature)],
+        data: proposerLogs[0].data,
+        topics: proposerLogs[0].topics,
+      });
+      proposerAddress = decodedProposalLog.args.user as string;
+    } catch (error) {
+      console.error('Error decoding operations proposer event log:', error);
+    }
+  }
+
+  const latestAvailableIndex = Math.max(0, Number(proposalIndexExistsBigInt) - 1);
+  if (proposalIndex > latestAvailableIndex) {
+    throw new Error(
+      `Operations proposal index ${proposalIndex} does not exist. Latest proposal index is ${latestAvailableIndex}`
+    );
+  }
+
+  const proposalInfo = (await customPublicClient.readContract({
+    address: contractAddress,
+    abi,
+    functionName: 'getProposal',
+    args: [BigInt(proposalIndex)],
+  })) as {
+    info: string;
+    startTimestamp: bigint;
+    endTimestamp: bigint;
+    status: number;
+    action: string;
+    votesFor: bigint;
+    votesAgainst: bigint;
+    votesTotal: bigint;
+    quorumSnapshot: bigint;
+    executable: boolean;
+    quadraticVoting: boolean;
+  };
+
+  if (!proposalInfo) {
+    throw new Error(`Failed to fetch operations proposal ${proposalIndex}`);
+  }
+
+  const ipfsGateway = process.env.NEXT_PUBLIC_PINATA_GATEWAY_URL;
+  const ipfsLink = `${ipfsGateway}${proposalInfo.info}`;
+  const proposalDetails = await fetchProposalDetails(ipfsLink);
+
+  const currentStatusString = returnProposalStatus(proposalInfo.status);
+
+  const [executionTxHash, eventDate] = await Promise.all([
+    currentStatusString === 'executed'
+      ? fetchLatestTxHash(proposalIndex, contractAddress)
+      : Promise.resolve(''),
+    fetchEventDate(currentStatusString, proposalIndex, contractAddress),
+  ]);
+
+  let schedulable = false,
+    cancelable = false,
+    proposalInvalid = false,
+    proposalRejected = false;
+
+  try {
+    ({ schedulable, cancelable, proposalInvalid, proposalRejected } =
+      checkEligibilityToScheduleOrCancel(
+        latestBlockTimestampNumber,
+        Number(proposalInfo.endTimestamp),
+        currentStatusString,
+        Number(proposalInfo.votesTotal),
+        Number(proposalInfo.votesFor),
+        Number(proposalInfo.quorumSnapshot)
+      ));
+  } catch (error) {
+    console.error('Error checking eligibility for operations proposal:', error);
+    proposalInvalid = true;
+  }
+
+  return {
+    index: proposalIndex,
+    info: String(ipfsLink),
+    title: String(proposalDetails?.title || 'N/A'),
+    body: String(proposalDetails?.body || 'No body available'),
+    summary: String(proposalDetails?.summary || 'No summary available'),
+    executionOption: String(proposalDetails?.executionOption),
+    startTimestamp: Number(proposalInfo.startTimestamp),
+    endTimestamp: Number(proposalInfo.endTimestamp),
+    status: currentStatusString,
+    action: proposalInfo.action,
+    votesFor: String(proposalInfo.votesFor),
+    votesAgainst: String(proposalInfo.votesAgainst),
+    votesTotal: String(proposalInfo.votesTotal),
+    quorumSnapshot: String(proposalInfo.quorumSnapshot),
+    executable: Boolean(proposalInfo.executable),
+    quadraticVoting: Boolean(proposalInfo.quadraticVoting),
+    proposalStartDate: convertTimestampToDate(
+      Number(proposalInfo.startTimestamp)
+    ),
+    proposalEndDate: convertTimestampToDate(Number(proposalInfo.endTimestamp)),
+    startDateWithTime: convertTimestampToDate(
+      Number(proposalInfo.startTimestamp),
+      true
+    ),
+    endDateWithTime: convertTimestampToDate(
+      Number(proposalInfo.endTimestamp),
+      true
+    ),
+    executionTxHash,
+    schedulable,
+    cancelable,
+    proposalInvalid,
+    proposalRejected,
+    eventDate,
+    proposer: proposerAddress,
+  };
+};
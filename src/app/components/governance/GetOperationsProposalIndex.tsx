@@ -0,0 +1,26 @@
+import { Address } from 'viem';
+import govOpsAbi from '@/app/abi/GovernorOperations.json';
+import { getCustomPublicClient } from '@/app/config/viem';
+import { getGovernorOperationsAddress } from './GetGovernorOperationsAddress';
+
+export const getOperationsProposalIndex = async (
+): Promise<number> => {
+  try {
+    const contractAddress = await getGovernorOperationsAddress();
+    if (!contractAddress) return 0;
+
+    const abi = govOpsAbi;
+    const customPublicClient = await getCustomPublicClient();
+
+    const data = (await customPublicClient.readContract({
+      address: contractAddress as Address,
+      abi,
+      functionName: 'getProposalIndex',
+    })) as bigint;
+
+    return Number(data);
+  } catch (err) {
+    console.error('Error getting next operations proposal index:', err);
+    return 0;
+  }
+};
@@ -1,7 +1,8 @@
 import {
   Address,
   Abi,
-  parseAbiItem,
+  AbiEvent,
+  getAbiItem,
   decodeEventLog
 } from 'viem';
 import { fetchProposalDetails } from './FetchProposalDetails';
@@ -14,6 +15,7 @@ import { fetchLatestTxHash } from './FetchLatestTxHash';
 import { getNetworkInfo } from '@/app/utils/serverConfig';
 import { CompleteProposalType } from '@/app/utils/interfaces';
 import { getCustomPublicClient } from '@/app/config/viem';
+import { getRevokedLicenseId } from './GetRevokedLicenseId';
 const govResAbiViem = govResAbi as Abi;
 
 // Helper function to convert string to bytes32
@@ -50,9 +52,8 @@ export const getProposal = async (
   const contractAddress = networkInfo?.governorResearch as Address;
   const abi = govResAbiViem;
 
-  // Define event signatures for Proposed event
-  const resProposedEventSignature = 'event Proposed(uint256 indexed index, address indexed user, string info, uint256 startTimestamp, uint256 endTimestamp, address action, bool executable)';
-  const eventSignatureForProposer = resProposedEventSignature;
+  // Taken from the ABI so the event signature matches the deployed governor
+  const proposedEvent = getAbiItem({ abi, name: 'Proposed' }) as AbiEvent;
 
   // Concurrently fetch initial data
   const [
@@ -68,7 +69,7 @@ export const getProposal = async (
     getLatestBlockTimestamp().then(Number), // Convert to number directly
     customPublicClient.getLogs({
       address: contractAddress,
-      event: parseAbiItem(eventSignatureForProposer),
+      event: proposedEvent,
       args: {
         index: BigInt(proposalIndex),
       },
@@ -82,11 +83,11 @@ export const getProposal = async (
   if (proposerLogs && proposerLogs.length > 0) {
     try {
       const decodedProposalLog = decodeEventLog({
-        abi: [parseAbiItem(eventSignatureForProposer)],
+        abi: [proposedEvent],
         data: proposerLogs[0].data,
         topics: proposerLogs[0].topics,
       });
-      proposerAddress = decodedProposalLog.args.user as string;
+      proposerAddress = (decodedProposalLog.args as { user: string }).user;
     } catch (error) {
       console.error('Error decoding proposer event log:', error);
       // Continue with empty proposer address if there's an error
@@ -132,8 +133,8 @@ export const getProposal = async (
   // Determine proposal status for conditional fetching
   const currentStatusString = returnProposalStatus(proposalInfo.status);
 
-  // Concurrently fetch execution hash and event date
-  const [executionTxHash, eventDate] = await Promise.all([
+  // Concurrently fetch execution hash, event date and the license a revocation targets
+  const [executionTxHash, eventDate, actionLicenseNftId] = await Promise.all([
     currentStatusString === 'executed' // status 2 maps to 'executed'
       ? fetchLatestTxHash(proposalIndex)
       : Promise.resolve(''), // Resolve with empty string if not executed
@@ -142,6 +143,13 @@ export const getProposal = async (
       proposalIndex,
       contractAddress
     ),
+    proposalDetails?.licenseRevocation && proposerLogs.length > 0
+      ? getRevokedLicenseId(
+          customPublicClient,
+          networkInfo.actionFactoryResearch as Address,
+          proposerLogs[0].transactionHash
+        )
+      : Promise.resolve(null),
   ]);
 
   let schedulable = false,
@@ -246,6 +254,10 @@ export const getProposal = async (
     proposalRejected,
     eventDate, // Assign from concurrently fetched value
     proposer: proposerAddress, // Assign from concurrently fetched value
+    licenseRevocation: proposalDetails?.licenseRevocation && {
+      ...proposalDetails.licenseRevocation,
+      actionLicenseNftId: actionLicenseNftId?.toString() ?? null,
+    },
   };
 
   // Add detailed logging before return
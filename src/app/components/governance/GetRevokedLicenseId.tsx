@@ -0,0 +1,51 @@
+import {
+  Abi,
+  Address,
+  Hash,
+  decodeAbiParameters,
+  decodeFunctionData,
+  parseAbiParameters,
+} from 'viem';
+import { getCustomPublicClient } from '@/app/config/viem';
+import { getFactoryActionConfig } from './GetFactoryActionType';
+import govResAbi from '@/app/abi/GovernorResearch.json';
+
+type CustomPublicClient = Awaited<ReturnType<typeof getCustomPublicClient>>;
+
+/**
+ * Reads the LicenseNFT a RevokeLicense proposal revokes from the action params it was proposed
+ * with, rather than trusting the proposer-written IPFS metadata. Returns null when the proposal
+ * transaction is not a direct propose call with a RevokeLicense action.
+ */
+export const getRevokedLicenseId = async (
+  client: CustomPublicClient,
+  actionFactory: Address,
+  proposeTxHash: Hash
+): Promise<bigint | null> => {
+  try {
+    const transaction = await client.getTransaction({ hash: proposeTxHash });
+    const { functionName, args } = decodeFunctionData({
+      abi: govResAbi as Abi,
+      data: transaction.input,
+    });
+    if (functionName !== 'propose' || !args) {
+      return null;
+    }
+
+    const [, actionType, actionParams] = args as [string, bigint, `0x${string}`];
+    const { name } = await getFactoryActionConfig(client, actionFactory, actionType);
+    if (name !== 'RevokeLicense') {
+      return null;
+    }
+
+    // Same layout as the params Propose encodes: (sparkIpNft, licenseId, governorExecutor)
+    const [, licenseId] = decodeAbiParameters(
+      parseAbiParameters('address, uint256, address'),
+      actionParams
+    );
+    return licenseId;
+  } catch (error) {
+    console.error(`Error reading revoked license from transaction ${proposeTxHash}:`, error);
+    return null;
+  }
+};
@@ -0,0 +1,352 @@
+'use client';
+
+import styles from './../general/Button.module.css';
+import Link from 'next/link';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faExternalLinkAlt } from '@fortawesome/free-solid-svg-icons';
+import { zeroAddress } from 'viem';
+import { useNetworkInfo } from '../../context/NetworkInfoContext';
+import { useWallet } from '@/app/context/WalletContext';
+import { useProposals } from '@/app/context/ProposalsContext';
+import { CompleteProposalType } from '@/app/utils/interfaces';
+import ConnectWallet from '../general/ConnectWallet';
+import InfoToolTip from '../general/InfoToolTip';
+import CountdownTimer from '../general/Countdown';
+import MetadataCard from './MetadataCard';
+import ProposalContent from './ProposalContent';
+
+interface OperationsProposalPageProps {
+  proposal: CompleteProposalType;
+  currentTimestamp: number;
+  votingStart: number;
+  scheduledTime: number;
+  eligibleToVote: boolean;
+  isLoadingAction: boolean;
+  loadingActionLabel: string;
+  onVote: () => void;
+  onSchedule: () => void;
+  onExecute: () => void;
+  onComplete: () => void;
+  onCancel: () => void;
+}
+
+export default function OperationsProposalPage({
+  proposal,
+  currentTimestamp,
+  votingStart,
+  scheduledTime,
+  eligibleToVote,
+  isLoadingAction,
+  loadingActionLabel,
+  onVote,
+  onSchedule,
+  onExecute,
+  onComplete,
+  onCancel,
+}: OperationsProposalPageProps) {
+  const networkInfo = useNetworkInfo();
+  const wallet = useWallet();
+  const { operationsProposals } = useProposals();
+
+  const {
+    index,
+    info,
+    title,
+    summary,
+    body,
+    status,
+    action,
+    proposer,
+    executable,
+    quadraticVoting,
+    votesFor,
+    votesAgainst,
+    votesTotal,
+    quorumSnapshot,
+    startDateWithTime,
+    endDateWithTime,
+    endTimestamp,
+    schedulable,
+    cancelable,
+    proposalInvalid,
+    proposalRejected,
+    executionTxHash,
+  } = proposal;
+
+  const latestIndex = (operationsProposals?.length ?? 0) - 1;
+  const quorumReached = Number(votesTotal) >= Number(quorumSnapshot);
+
+  const renderActionButton = () => {
+    if (isLoadingAction) {
+      return (
+        <button className={styles.primary} disabled>
+          <span className="mr-2">{loadingActionLabel}</span>
+          <span className="inline-block h-5 w-5 animate-spin rounded-full border-2 border-white border-t-transparent"></span>
+        </button>
+      );
+    }
+    if (schedulable && status !== 'scheduled' && currentTimestamp > Number(endTimestamp)) {
+      return (
+        <button className={styles.primary} onClick={onSchedule}>
+          Schedule
+        </button>
+      );
+    }
+    if (status === 'scheduled' && executable) {
+      return scheduledTime > 0 && currentTimestamp >= scheduledTime ? (
+        <button className={styles.primary} onClick={onExecute}>
+          Execute
+        </button>
+      ) : (
+        <div className="flex flex-col items-center gap-4 text-center">
+          <span className="text-sm sm:text-base">
+            Time until execution is available:
+          </span>
+          <CountdownTimer
+            endTimestamp={scheduledTime}
+            className="w-full text-sm sm:text-base"
+          />
+        </div>
+      );
+    }
+    if (status === 'scheduled' && !executable) {
+      return (
+        <button className={styles.primary} onClick={onComplete}>
+          Complete
+        </button>
+      );
+    }
+    if (cancelable && (proposalInvalid || proposalRejected)) {
+      return (
+        <button className={styles.primary} onClick={onCancel}>
+          {proposalInvalid ? 'Cancel Invalid Proposal' : 'Cancel Rejected Proposal'}
+        </button>
+      );
+    }
+    if (status === 'active' && currentTimestamp < votingStart) {
+      return (
+        <div className="flex flex-col items-center gap-4 text-center">
+          <span className="text-sm sm:text-base">Voting opens in:</span>
+          <CountdownTimer
+            endTimestamp={votingStart}
+            className="w-full text-sm sm:text-base"
+          />
+        </div>
+      );
+    }
+    if (status === 'active' && currentTimestamp <= Number(endTimestamp)) {
+      return (
+        <button
+          className={styles.primary}
+          onClick={onVote}
+          disabled={!eligibleToVote}
+        >
+          {eligibleToVote ? 'Vote' : 'Not eligible to vote'}
+        </button>
+      );
+    }
+    return (
+      <button className={styles.primary} disabled>
+        {status === 'active' ? 'Voting Period Ended' : status.toUpperCase()}
+      </button>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-seaBlue-1100 text-white">
+      <nav className="mx-auto flex max-w-7xl items-center justify-between px-4 py-4 sm:px-6 sm:py-8">
+        <Link
+          className="group inline-flex items-center text-[#2D7FEA] transition-all duration-200 hover:text-[#4B9BFF]"
+          href="/governance/operations"
+        >
+          <span className="mr-2 transform transition-transform group-hover:-translate-x-1">
+            ←
+          </span>
+          <span>All operations proposals</span>
+        </Link>
+        <div className="flex items-center gap-4 sm:gap-8">
+          {index > 0 && (
+            <Link
+              className="group inline-flex items-center text-[#2D7FEA] transition-all duration-200 hover:text-[#4B9BFF]"
+              href={`/governance/operations/proposals/${index - 1}`}
+            >
+              <span className="mr-2 transform transition-transform group-hover:-translate-x-1">
+                ←
+              </span>
+              <span>Previous</span>
+            </Link>
+          )}
+          {index < latestIndex && (
+            <Link
+              className="group inline-flex items-center text-[#2D7FEA] transition-all duration-200 hover:text-[#4B9BFF]"
+              href={`/governance/operations/proposals/${index + 1}`}
+            >
+              <span>Next</span>
+              <span className="ml-2 transform transition-transform group-hover:translate-x-1">
+                →
+              </span>
+            </Link>
+          )}
+        </div>
+      </nav>
+
+      <div className="mx-auto mb-4 flex max-w-7xl flex-col items-center justify-center gap-2 px-4 sm:mb-8 sm:px-6">
+        <h1 className="font-acuminSemiBold text-lg uppercase sm:text-2xl md:text-4xl lg:text-5xl xl:text-6xl">
+          {`Operations Proposal-${index}`}
+        </h1>
+        {quadraticVoting && (
+          <span className="rounded-full border border-tropicalBlue px-3 py-1 text-xs uppercase text-tropicalBlue sm:text-sm">
+            Quadratic voting
+          </span>
+        )}
+      </div>
+
+      <main className="mx-auto max-w-7xl space-y-4 px-1 pb-16 sm:space-y-8 sm:px-6 sm:pb-24">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <MetadataCard label="STATUS" value={status.toUpperCase()} />
+          <MetadataCard label="START DATE" value={startDateWithTime} />
+          <MetadataCard label="END DATE" value={endDateWithTime} />
+          <MetadataCard
+            label="PROPOSER"
+            value={
+              <Link
+                href={`${networkInfo?.explorerLink}/address/${proposer}`}
+                target="_blank"
+                className="flex items-center gap-2 text-[#2D7FEA] hover:text-[#4B9BFF]"
+              >
+                {`${proposer?.slice(0, 6)}...${proposer?.slice(-4)}`}
+                <FontAwesomeIcon icon={faExternalLinkAlt} className="h-3 w-3" />
+              </Link>
+            }
+          />
+          {action !== zeroAddress && (
+            <MetadataCard
+              label="ACTION ADDRESS"
+              value={
+                <Link
+                  href={`${networkInfo?.explorerLink}/address/${action}`}
+                  target="_blank"
+                  className="flex items-center gap-2 text-[#2D7FEA] hover:text-[#4B9BFF]"
+                >
+                  {`${action.slice(0, 6)}...${action.slice(-4)}`}
+                  <FontAwesomeIcon icon={faExternalLinkAlt} className="h-3 w-3" />
+                </Link>
+              }
+            />
+          )}
+          <MetadataCard
+            label="IPFS LINK"
+            value={
+              <Link
+                href={`${info}`}
+                target="_blank"
+                className="flex items-center gap-2 text-[#2D7FEA] hover:text-[#4B9BFF]"
+              >
+                View on IPFS
+                <FontAwesomeIcon icon={faExternalLinkAlt} className="h-3 w-3" />
+              </Link>
+            }
+          />
+          {executionTxHash && (
+            <MetadataCard
+              label="EXECUTION"
+              value={
+                <Link
+                  href={`${networkInfo?.explorerLink}/tx/${executionTxHash}`}
+                  target="_blank"
+                  className="flex items-center gap-2 text-[#2D7FEA] hover:text-[#4B9BFF]"
+                >
+                  View transaction
+                  <FontAwesomeIcon icon={faExternalLinkAlt} className="h-3 w-3" />
+                </Link>
+              }
+            />
+          )}
+        </div>
+
+        <div className="rounded-2xl border border-seaBlue-1025 bg-seaBlue-1075 p-3 sm:p-8">
+          <h2 className="mb-4 flex items-center justify-center gap-2 text-center text-lg font-bold sm:mb-8 sm:text-2xl">
+            VOTES
+            <InfoToolTip>
+              <p>
+                {quadraticVoting
+                  ? 'Votes are counted as the square root of the voting rights each member commits. The quorum was square-rooted at proposal creation.'
+                  : 'Votes are counted one-to-one with the voting rights each member commits.'}
+              </p>
+            </InfoToolTip>
+          </h2>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <MetadataCard
+              label="FOR"
+              value={
+                <span className="text-neonGreen">
+                  {Number(votesFor).toLocaleString()}
+                </span>
+              }
+            />
+            <MetadataCard
+              label="AGAINST"
+              value={
+                <span className="text-highlightRed">
+                  {Number(votesAgainst).toLocaleString()}
+                </span>
+              }
+            />
+            <MetadataCard
+              label="TOTAL / QUORUM"
+              value={
+                <span className={quorumReached ? 'text-neonGreen' : 'text-orange-400'}>
+                  {Number(votesTotal).toLocaleString()} /{' '}
+                  {Number(quorumSnapshot).toLocaleString()}
+                </span>
+              }
+            />
+          </div>
+          <div className="mt-6 flex w-full justify-center">
+            {wallet?.state?.isConnected ? (
+              renderActionButton()
+            ) : (
+              <ConnectWallet isNavBar={false} toggleAccountMenu={() => null} />
+            )}
+          </div>
+        </div>
+
+        <div className="rounded-2xl border border-seaBlue-1025 bg-seaBlue-1075 p-3 sm:p-8">
+          <h2 className="mb-4 flex items-center justify-center text-center text-lg font-bold sm:mb-8 sm:text-2xl">
+            PROPOSAL DETAILS
+          </h2>
+          <div className="space-y-4 sm:space-y-8">
+            <div>
+              <h3 className="mb-2 text-center text-xs font-medium text-gray-400 sm:text-sm">
+                TITLE
+              </h3>
+              <ProposalContent content={title} type="title" className="w-full" />
+            </div>
+            {summary && (
+              <div>
+                <h3 className="mb-2 text-center text-xs font-medium text-gray-400 sm:text-sm">
+                  SUMMARY
+                </h3>
+                <ProposalContent
+                  content={summary}
+                  type="summary"
+                  className="prose prose-sm prose-invert w-full sm:prose lg:prose-lg prose-p:text-white"
+                />
+              </div>
+            )}
+            <div>
+              <h3 className="mb-2 text-center text-xs font-medium text-gray-400 sm:text-sm">
+                CONTENT
+              </h3>
+              <ProposalContent
+                content={body}
+                type="body"
+                className="prose prose-sm prose-invert w-full sm:prose lg:prose-lg prose-p:text-white"
+              />
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { formatEther, formatUnits } from 'viem';
 import './proposal-content.css';
 import {
   prepareHtmlForDisplay,
@@ -6,13 +8,88 @@ import {
 } from '@/app/utils/securityUtils';
 import { processGoogleDocsHtml } from '@/app/utils/googleDocsProcessor';
 import DOMPurify from 'dompurify';
+import { LicenseRevocation } from '@/app/utils/interfaces';
+import { useIpNftLicense } from '@/app/components/hooks/UseIpNftLicenses';
 
 interface ProposalContentProps {
   content: string;
   type: 'title' | 'summary' | 'body';
   className?: string;
+  licenseRevocation?: LicenseRevocation;
 }
 
+/**
+ * Shows the LicenseNFT a RevokeLicense proposal targets, with its current licensee and term.
+ * The license comes from the action params when they could be read, since the metadata is
+ * written by the proposer.
+ */
+const RevokedLicenseDetails: React.FC<{ licenseRevocation: LicenseRevocation }> = ({
+  licenseRevocation,
+}) => {
+  const { licenseNftId: metadataLicenseNftId, actionLicenseNftId } = licenseRevocation;
+  const licenseNftId = actionLicenseNftId ?? metadataLicenseNftId;
+  const { license, isLoading, error } = useIpNftLicense(BigInt(licenseNftId));
+
+  return (
+    <div className="mb-4 rounded-lg border border-highlightRed/30 bg-seaBlue-1100/50 p-4 text-sm">
+      <h4 className="mb-2 font-semibold text-highlightRed">
+        License #{licenseNftId} to be revoked
+      </h4>
+      {actionLicenseNftId === null ? (
+        <p className="mb-2 text-orange-400">
+          The license could not be verified against the proposal&apos;s action. The number
+          shown is taken from the proposal description.
+        </p>
+      ) : (
+        actionLicenseNftId !== undefined &&
+        actionLicenseNftId !== metadataLicenseNftId && (
+          <p className="mb-2 text-orange-400">
+            Warning: the proposal description names license #{metadataLicenseNftId}, but its
+            action revokes license #{actionLicenseNftId}.
+          </p>
+        )
+      )}
+      {isLoading ? (
+        <p className="text-gray-400">Loading license...</p>
+      ) : error || !license ? (
+        <p className="text-gray-400">{error ?? 'License details unavailable.'}</p>
+      ) : (
+        <div className="space-y-1">
+          <p>
+            <span className="text-gray-400">IP-NFT: </span>
+            <Link
+              href={`/ip-portfolio/${license.ipNftId.toString()}`}
+              className="text-steelBlue hover:text-tropicalBlue"
+            >
+              #{license.ipNftId.toString()}
+            </Link>
+          </p>
+          <p className="break-all">
+            <span className="text-gray-400">Licensee: </span>
+            {license.licensee}
+          </p>
+          <p>
+            <span className="text-gray-400">Term: </span>
+            {license.isActive ? 'Active' : 'Inactive'}, expires{' '}
+            {new Date(license.expiresAt * 1000).toLocaleString()}
+          </p>
+          <p>
+            <span className="text-gray-400">Paid: </span>
+            {formatUnits(license.usdcFeePaid, 6)} USDC,{' '}
+            {formatEther(license.sciAmountLocked)} SCI locked
+          </p>
+        </div>
+      )}
+      {licenseRevocation.grounds && (
+        <p className="mt-2 whitespace-pre-wrap">
+          <span className="text-gray-400">Grounds: </span>
+          {licenseRevocation.grounds}
+        </p>
+      )}
+    </div>
+  );
+};
+
 /**
  * Extracts plain text from HTML content
  * @param html HTML content to extract text from
@@ -55,6 +132,7 @@ const ProposalContent: React.FC<ProposalContentProps> = ({
   content,
   type,
   className = '',
+  licenseRevocation,
 }) => {
   const [processedContent, setProcessedContent] = useState<string>('');
 
@@ -116,10 +194,15 @@ const ProposalContent: React.FC<ProposalContentProps> = ({
   const combinedClassName = `${baseClassName} ${typeClassName} ${className}`.trim();
 
   return (
-    <div
-      className={combinedClassName}
-      dangerouslySetInnerHTML={{ __html: processedContent }}
-    />
+    <>
+      {licenseRevocation && (
+        <RevokedLicenseDetails licenseRevocation={licenseRevocation} />
+      )}
+      <div
+        className={combinedClassName}
+        dangerouslySetInnerHTML={{ __html: processedContent }}
+      />
+    </>
   );
 };
 
@@ -20,6 +20,7 @@ import currentGovernanceParameterValue from './GetCurrentParameterValue';
 import getDescriptiveParamNames from '@/app/components/governance/GetDescriptiveParamNames';
 import { useEnsName } from '../hooks/UseEnsName';
 import useActionState from '../hooks/UseActionState';
+import { useFactoryAction } from '../hooks/UseFactoryAction';
 import Comments from '../general/Comments';
 import MetadataCard from './MetadataCard';
 import ProposalContent from './ProposalContent';
@@ -123,6 +124,7 @@ export default function ProposalPage({
   votesFor,
   votesTotal,
   executionOption,
+  licenseRevocation,
   quadraticVoting,
   currentTimestamp,
   executionTransactionHash,
@@ -166,6 +168,7 @@ export default function ProposalPage({
     impeachmentDetails,
     parameterChangeDetails: actionParameterChangeDetails,
   } = useActionState(action, executionOption);
+  const { isFactoryAction } = useFactoryAction(action);
   const [timestamp, setTimestamp] = useState(currentTimestamp);
   const [dynamicTimestamp, setDynamicTimestamp] = useState(currentTimestamp);
   // Debug flag to control logging verbosity
@@ -691,6 +694,22 @@ export default function ProposalPage({
                       that will be executed if the proposal is passed.
                     </p>
                   </InfoToolTip>
+                  {isFactoryAction === false && (
+                    <>
+                      <span
+                        className={`${getExecutionOptionsClasses('impeachment')} rounded-md p-1 text-xs`}
+                      >
+                        UNVERIFIED
+                      </span>
+                      <InfoToolTip>
+                        <p>
+                          This action contract was not deployed by the research
+                          action factory, so it may not run the code of any
+                          registered action type. Review it before voting.
+                        </p>
+                      </InfoToolTip>
+                    </>
+                  )}
                 </div>
               }
             />
@@ -766,6 +785,11 @@ export default function ProposalPage({
                       This proposal will modify governance parameters if passed
                     </p>
                   )}
+                  {executionOption.toLowerCase() == 'revokelicense' && (
+                    <p>
+                      This proposal will revoke an IP-NFT license if passed
+                    </p>
+                  )}
                   {executionOption.toLowerCase() == 'notexecutable' && (
                     <p>
                       This proposal will result in an off-chain action if passed
@@ -962,6 +986,7 @@ export default function ProposalPage({
               <ProposalContent
                 content={body}
                 type="body"
+                licenseRevocation={licenseRevocation}
                 className="prose prose-sm prose-invert w-full sm:prose lg:prose-lg prose-p:text-white"
               />
             </div>
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useEffect, useState, useMemo } from 'react';
-import { useProposals } from '@/app/context/ProposalsContext';
+import { ProposalsType, useProposals } from '@/app/context/ProposalsContext';
 import { CompleteProposalType } from '@/app/utils/interfaces';
 import { useWallet } from '@/app/context/WalletContext';
 import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
@@ -112,11 +112,28 @@ const datePickerStyles = `
   }
 `;
 
-export const Proposals = () => {
+interface ProposalsProps {
+  type?: ProposalsType;
+}
+
+export const Proposals = ({ type = 'research' }: ProposalsProps) => {
   const router = useRouter();
   const { state } = useWallet();
-  const { getFilteredProposals, isLoading, error, refreshProposals } = useProposals();
+  const {
+    getFilteredProposals,
+    isLoading: isLoadingResearch,
+    isLoadingOperations,
+    error,
+    refreshProposals: refreshResearchProposals,
+    refreshOperationsProposals,
+    governorOperations,
+  } = useProposals();
   const networkInfo = useNetworkInfo();
+  const isOperations = type === 'operations';
+  const isLoading = isOperations ? isLoadingOperations : isLoadingResearch;
+  const refreshProposals = isOperations
+    ? refreshOperationsProposals
+    : refreshResearchProposals;
 
   // State for filters and pagination
   const [page, setPage] = useState(1);
@@ -182,7 +199,8 @@ export const Proposals = () => {
     typeFilter,
     startDate ? startDate.toISOString() : null,
     endDate ? endDate.toISOString() : null,
-    contentSearchTerm
+    contentSearchTerm,
+    type
   );
 
   // Clear local error when proposals are successfully loaded
@@ -235,7 +253,11 @@ export const Proposals = () => {
   }, [refreshCooldown]);
 
   const handleProposalClick = (proposal: CompleteProposalType) => {
-    router.push(`/governance/research/proposals/${proposal.index}`);
+    router.push(
+      isOperations
+        ? `/governance/operations/proposals/${proposal.index}`
+        : `/governance/research/proposals/${proposal.index}`
+    );
   };
 
   const handleClearFilters = () => {
@@ -303,7 +325,9 @@ export const Proposals = () => {
   };
 
   // Check if refresh is available (network info and contract address)
-  const isRefreshAvailable = Boolean(networkInfo?.governorResearch);
+  const isRefreshAvailable = Boolean(
+    isOperations ? governorOperations : networkInfo?.governorResearch
+  );
 
   // Render error state with retry button
   if (displayError && !isLoading && (!proposals || proposals.length === 0)) {
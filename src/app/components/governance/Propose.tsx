@@ -13,7 +13,9 @@ import {
   parseAbiParameters,
   encodeAbiParameters,
   parseUnits,
+  parseEventLogs,
   zeroAddress,
+  zeroHash,
   formatUnits,
 } from 'viem';
 import { CustomError } from '@/app/utils/rpcErrorInterfaces';
@@ -23,12 +25,16 @@ import {
   Payment,
   ExecutionOptions,
   GovernanceResearchParameters,
+  LicenseRevocation,
 } from '@/app/utils/interfaces';
 import { useGovernance } from '@/app/context/GovernanceContext';
 import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
 import { useEcosystemBalances } from '@/app/components/hooks/UseEcosystemBalances';
 import InfoToolTip from '@/app/components/general/InfoToolTip';
 import { useTokenBalance } from '@/app/components/hooks/UseTokenBalance';
+import { useFinalizedIdeas } from '@/app/components/hooks/UseFinalizedIdeas';
+import { useIpNftPortfolio } from '@/app/components/hooks/UseIpNftPortfolio';
+import { useIpNftLicenses } from '@/app/components/hooks/UseIpNftLicenses';
 import { useGoogleReCaptcha } from 'react-google-recaptcha-v3';
 import { convertSecondsToReadableTime } from '../general/ConvertSecondsToTime';
 import enumerateExecutionOptions from './EnumerateExecutionOptions';
@@ -36,10 +42,13 @@ import styles from './../general/Button.module.css';
 import Link from 'next/link';
 import ConnectWallet from '../general/ConnectWallet';
 import Modal from '../modals/Modal';
+import ModalPreview from '../modals/ModalPreview';
 import ErrorDisplay from '../general/ErrorDisplay';
 import sciAbi from '@/app/abi/Sci.json';
 import usdcAbi from '@/app/abi/Usdc.json';
 import govResAbi from '@/app/abi/GovernorResearch.json';
+import sciManagerAbi from '@/app/abi/SciManager.json';
+import actionFactoryResearchAbi from '@/app/abi/ActionCloneFactoryResearch.json';
 import ProposalConfirmationModal from '../modals/ProposalConfirmationModal';
 import ErrorBoundary from '../ErrorBoundary';
 import {
@@ -58,6 +67,17 @@ import TitleEditor from '@/app/components/general/TitleEditor';
 import './proposal-content.css';
 import TiptapEditor from '@/app/components/text-editor/components/TiptapEditor';
 import ProposalContent from './ProposalContent';
+import AddressListInput from './AddressListInput';
+import getDescriptiveParamNames from './GetDescriptiveParamNames';
+import currentGovernanceParameterValue from './GetCurrentParameterValue';
+import { isValidParameter } from './IsValidParameter';
+import { getFactoryActionType as getFactoryActionTypeByName } from './GetFactoryActionType';
+import { publicClient } from '@/app/config/viem';
+import {
+  encodeFundAndMintIpNftParams,
+  encodeMintIpNftParams,
+  encodeTransactionParams,
+} from './EncodeActionParams';
 import { getLatestBlockTimestamp } from '@/app/components/governance/GetLatestBlockTimestamp';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { faExternalLinkAlt } from '@fortawesome/free-solid-svg-icons';
@@ -67,6 +87,19 @@ interface EncodedActionParams {
   encodedParams: string;
 }
 
+// Proposed parameter values are entered in these units and stored on-chain in seconds
+const TIME_UNIT_SECONDS = {
+  minutes: 60,
+  hours: 3600,
+  days: 86400,
+};
+
+type TimeUnit = keyof typeof TIME_UNIT_SECONDS;
+
+// quorum is a number of votes, ddThreshold an SCI amount, the rest are durations
+const getParameterKind = (parameter: string) =>
+  parameter == 'quorum' ? 'votes' : parameter == 'ddThreshold' ? 'sci' : 'time';
+
 interface CountdownTimerForProposalProps {
   governance: {
     indexGovRes: number;
@@ -224,6 +257,18 @@ export default function Propose({}: ProposeProps) {
   const [paymentOption, setPaymentOption] = useState<Payment>(Payment.None);
   const [transactionAmountSci, setTransactionAmountSci] = useState('0');
   const [transactionAmountUsdc, setTransactionAmountUsdc] = useState('0');
+  const [sparkIdeaId, setSparkIdeaId] = useState('');
+  const [patentIdentifier, setPatentIdentifier] = useState('');
+  const [researchAgreementURI, setResearchAgreementURI] = useState('');
+  const [copyleftLicenseURI, setCopyleftLicenseURI] = useState('');
+  const [mintPreview, setMintPreview] = useState(false);
+  const [revokeIpNftId, setRevokeIpNftId] = useState('');
+  const [revokeLicenseId, setRevokeLicenseId] = useState('');
+  const [revocationGrounds, setRevocationGrounds] = useState('');
+  const [scientistWallets, setScientistWallets] = useState<Address[]>([]);
+  const [selectedParameter, setSelectedParameter] = useState('');
+  const [proposedParameterValue, setProposedParameterValue] = useState('');
+  const [parameterTimeUnit, setParameterTimeUnit] = useState<TimeUnit>('days');
   const [proposalInitiated, setProposalInitiated] = useState(false);
   const [lockingThresholdError, setLockingThresholdError] = useState('');
   const [lockingThresholdReached, setLockingThresholdReached] = useState(false);
@@ -231,11 +276,55 @@ export default function Propose({}: ProposeProps) {
   const [isLoadingProposalForm, setIsLoadingProposalForm] = useState(false);
   const [isLoadingDeployment, setIsLoadingDeployment] = useState(false);
   const [transactionHash, setTransactionHash] = useState('');
+  const [createdAction, setCreatedAction] = useState<Address | null>(null);
   const [isSlowConnection, setIsSlowConnection] = useState(false);
   const [copySuccess, setCopySuccess] = useState('');
   const networkInfo = useNetworkInfo();
   const wallet = useWallet();
   const governance = useGovernance();
+  const { ideas: finalizedIdeas, isLoading: isLoadingFinalizedIdeas } =
+    useFinalizedIdeas();
+
+  // Transaction and FundAndMintIPNFT both pay out of the research funding wallet
+  const isFundingOption =
+    executionOption == 'Transaction' || executionOption == 'FundAndMintIPNFT';
+  const isMintOption =
+    executionOption == 'MintIPNFT' || executionOption == 'FundAndMintIPNFT';
+  const mintableIdeas = finalizedIdeas.filter((idea) => idea.ipNftId === null);
+  const selectedIdea = finalizedIdeas.find(
+    (idea) => idea.ideaId == sparkIdeaId
+  );
+
+  const isRevokeOption = executionOption == 'RevokeLicense';
+  // There is no built-in RevokeLicense action, so it is only offered once the factory has one enabled
+  const [isRevokeLicenseEnabled, setIsRevokeLicenseEnabled] = useState(false);
+  useEffect(() => {
+    if (!networkInfo?.actionFactoryResearch) return;
+    getFactoryActionTypeByName(
+      publicClient,
+      networkInfo.actionFactoryResearch,
+      'RevokeLicense'
+    )
+      .then(() => setIsRevokeLicenseEnabled(true))
+      .catch(() => setIsRevokeLicenseEnabled(false));
+  }, [networkInfo?.actionFactoryResearch]);
+  const { ipNfts, isLoading: isLoadingIpNfts } = useIpNftPortfolio();
+  const { licenses: ipNftLicenses, isLoading: isLoadingIpNftLicenses } =
+    useIpNftLicenses(revokeIpNftId ? BigInt(revokeIpNftId) : undefined);
+  const activeIpNftLicenses = ipNftLicenses.filter(
+    (license) => license.isActive
+  );
+  const selectedLicense = activeIpNftLicenses.find(
+    (license) => license.licenseId.toString() == revokeLicenseId
+  );
+
+  const isElectionOption = executionOption == 'Election';
+  const isImpeachmentOption = executionOption == 'Impeachment';
+  const isScientistsOption = isElectionOption || isImpeachmentOption;
+  const isParameterChangeOption = executionOption == 'ParameterChange';
+  const researchParameters = Object.keys(governance?.govResParams ?? {}).filter(
+    (parameter) => isValidParameter(parameter)
+  );
 
   const [currentStep, setCurrentStep] = useState(1);
   const { addNotification } = useNotification();
@@ -302,22 +391,6 @@ export default function Propose({}: ProposeProps) {
     networkInfo?.sciManager
   );
 
-  // Update getParamTypes to return proper types
-  function getParamTypes(actionType: number) {
-    switch (actionType) {
-      case 0: // NotExecutable
-        return [];
-
-      case 1: // Transaction
-        return parseAbiParameters(
-          'address, address, uint256, uint256, address'
-        );
-
-      default:
-        throw new Error('Invalid action type for parameter encoding');
-    }
-  }
-
   const sciBalanceTreasury = useTokenBalance(
     18,
     0,
@@ -334,7 +407,6 @@ export default function Propose({}: ProposeProps) {
     usdcAbi as Abi
   );
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   function convertTime(seconds: string | number): string {
     const timeInSeconds = Number(seconds);
     const isSmallScreen = window.innerWidth < 450;
@@ -368,11 +440,74 @@ export default function Propose({}: ProposeProps) {
     }
   }
 
+  // The value the ParameterChange action stores, or null while the input is incomplete
+  const getProposedParameterData = (): bigint | null => {
+    const value = proposedParameterValue.trim();
+    if (!selectedParameter || !value) return null;
+
+    switch (getParameterKind(selectedParameter)) {
+      case 'sci':
+        return /^\d+(\.\d+)?$/.test(value) ? parseUnits(value, 18) : null;
+      case 'votes':
+        return /^\d+$/.test(value) ? BigInt(value) : null;
+      default:
+        return /^\d+$/.test(value)
+          ? BigInt(value) * BigInt(TIME_UNIT_SECONDS[parameterTimeUnit])
+          : null;
+    }
+  };
+
+  const getCurrentParameterData = (): bigint | null => {
+    const currentValue =
+      governance?.govResParams?.[
+        selectedParameter as keyof GovernanceResearchParameters
+      ];
+    if (currentValue === undefined) return null;
+    // ddThreshold is read from the governor already formatted as SCI
+    return getParameterKind(selectedParameter) == 'sci'
+      ? parseUnits(currentValue, 18)
+      : BigInt(currentValue);
+  };
+
+  const formatProposedParameterValue = () => {
+    const data = getProposedParameterData();
+    if (data === null) return '-';
+
+    switch (getParameterKind(selectedParameter)) {
+      case 'sci':
+        return `${Number(proposedParameterValue).toLocaleString()} SCI`;
+      case 'votes':
+        return `${data.toString()} vote(s)`;
+      default:
+        return convertTime(data.toString());
+    }
+  };
+
+  const getFactoryActionType = async (name: string) => {
+    if (!networkInfo?.actionFactoryResearch || !wallet.state.publicClient) {
+      throw new Error('Action factory is not configured for this network');
+    }
+
+    return getFactoryActionTypeByName(
+      wallet.state.publicClient,
+      networkInfo.actionFactoryResearch,
+      name
+    );
+  };
+
+  const getMintIpNftActionParams = () => ({
+    sparkIpNft: networkInfo?.sparkIpNft as `0x${string}`,
+    copyleftIpPool: networkInfo?.copyleftIpPool as `0x${string}`,
+    patentIdentifier: patentIdentifier.trim(),
+    copyleftLicenseURI: copyleftLicenseURI.trim(),
+    researchAgreementURI: researchAgreementURI.trim(),
+    ideator: selectedIdea?.ideator as `0x${string}`,
+    ideaId: sparkIdeaId as `0x${string}`,
+    governorExecutor: networkInfo?.governorExecutor as `0x${string}`,
+  });
+
   const handleActionParams = async () => {
     let actionType: number;
-    let params:
-      | [`0x${string}`, `0x${string}`, bigint, bigint, `0x${string}`]
-      | never[] = [];
 
     switch (enumerateExecutionOptions(executionOption)) {
       case ExecutionOptions.NotExecutable:
@@ -381,26 +516,90 @@ export default function Propose({}: ProposeProps) {
 
       case ExecutionOptions.Transaction:
         actionType = 1;
-        params = [
-          networkInfo?.researchFundingWallet as `0x${string}`,
-          targetWallet as `0x${string}`,
-          parseUnits(transactionAmountUsdc || '0', 6),
-          parseUnits(transactionAmountSci || '0', 18),
-          networkInfo?.governorExecutor as `0x${string}`,
-        ];
-        break;
+        return {
+          actionType,
+          encodedParams: encodeTransactionParams({
+            researchFundingWallet: networkInfo?.researchFundingWallet as `0x${string}`,
+            targetWallet: targetWallet as `0x${string}`,
+            amountUsdc: parseUnits(transactionAmountUsdc || '0', 6),
+            amountSci: parseUnits(transactionAmountSci || '0', 18),
+            governorExecutor: networkInfo?.governorExecutor as `0x${string}`,
+          }),
+        };
+
+      case ExecutionOptions.MintIPNFT:
+        actionType = await getFactoryActionType('MintIPNFT');
+        return {
+          actionType,
+          encodedParams: encodeMintIpNftParams(getMintIpNftActionParams()),
+        };
+
+      case ExecutionOptions.FundAndMintIPNFT:
+        actionType = await getFactoryActionType('FundAndMintIPNFT');
+        return {
+          actionType,
+          encodedParams: encodeFundAndMintIpNftParams({
+            researchFundingWallet: networkInfo?.researchFundingWallet as `0x${string}`,
+            targetWallet: targetWallet as `0x${string}`,
+            amountUsdc: parseUnits(transactionAmountUsdc || '0', 6),
+            amountSci: parseUnits(transactionAmountSci || '0', 18),
+            ...getMintIpNftActionParams(),
+          }),
+        };
+
+      case ExecutionOptions.Election:
+      case ExecutionOptions.Impeachment:
+        actionType = await getFactoryActionType(executionOption);
+        return {
+          actionType,
+          encodedParams: encodeAbiParameters(
+            parseAbiParameters('address[], address, address'),
+            [
+              scientistWallets,
+              networkInfo?.governorResearch as `0x${string}`,
+              networkInfo?.governorExecutor as `0x${string}`,
+            ]
+          ),
+        };
+
+      case ExecutionOptions.ParameterChange: {
+        const proposedData = getProposedParameterData();
+        if (proposedData === null) {
+          throw new Error('Enter a valid proposed parameter value');
+        }
+        actionType = await getFactoryActionType('ParameterChange');
+        return {
+          actionType,
+          encodedParams: encodeAbiParameters(
+            parseAbiParameters('address, string, uint256, address'),
+            [
+              networkInfo?.governorResearch as `0x${string}`,
+              selectedParameter,
+              proposedData,
+              networkInfo?.governorExecutor as `0x${string}`,
+            ]
+          ),
+        };
+      }
+
+      case ExecutionOptions.RevokeLicense:
+        // Revocation is not a built-in action, so its type is whatever the factory registered it as
+        actionType = await getFactoryActionType('RevokeLicense');
+        return {
+          actionType,
+          encodedParams: encodeAbiParameters(
+            parseAbiParameters('address, uint256, address'),
+            [
+              networkInfo?.sparkIpNft as `0x${string}`,
+              BigInt(revokeLicenseId),
+              networkInfo?.governorExecutor as `0x${string}`,
+            ]
+          ),
+        };
 
       default:
         throw new Error('Invalid execution option');
     }
-
-    const paramTypes = getParamTypes(actionType);
-    const encodedParams = encodeAbiParameters(paramTypes, params);
-
-    return {
-      actionType,
-      encodedParams,
-    };
   };
 
   useEffect(() => {
@@ -452,6 +651,26 @@ export default function Propose({}: ProposeProps) {
       });
   };
 
+  // Catches the values the mint actions reject on initialization before anything is uploaded
+  const getMintDetailsError = () => {
+    if (!networkInfo?.sparkIpNft || !networkInfo?.copyleftIpPool) {
+      return 'IP-NFT contracts are not configured for this network';
+    }
+    if (!selectedIdea) {
+      return 'Select a finalized Spark idea to mint';
+    }
+    if (selectedIdea.ipNftId !== null) {
+      return `IP-NFT #${selectedIdea.ipNftId} has already been minted from this idea`;
+    }
+    if (!patentIdentifier.trim()) {
+      return 'Patent identifier is required';
+    }
+    if (!copyleftLicenseURI.trim()) {
+      return 'Copyleft license URI is required';
+    }
+    return '';
+  };
+
   const checkEligibilityToExecute = async () => {
     if (!networkInfo || !wallet.state.publicClient) return;
 
@@ -460,10 +679,108 @@ export default function Propose({}: ProposeProps) {
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
       let contractGovRes;
 
-      if (
-        enumerateExecutionOptions(executionOption) ==
-        ExecutionOptions.Transaction
-      ) {
+      if (isScientistsOption) {
+        if (scientistWallets.length == 0) {
+          handlePreviewError('Add at least one scientist wallet');
+          return false;
+        }
+        const walletsValidation = validateEvmAddressArray(scientistWallets);
+        if (!walletsValidation.isValid) {
+          handlePreviewError(walletsValidation.error);
+          return false;
+        }
+
+        for (const scientistWallet of scientistWallets) {
+          const hasDueDiligenceRole =
+            (await wallet.state.publicClient.readContract({
+              address: networkInfo.governorResearch as `0x${string}`,
+              abi: govResAbi as Abi,
+              functionName: 'checkDueDiligenceRole',
+              args: [scientistWallet],
+            })) as boolean;
+
+          if (isElectionOption && hasDueDiligenceRole) {
+            handlePreviewError(
+              `${scientistWallet} already has the due diligence role`
+            );
+            return false;
+          }
+          if (isImpeachmentOption && !hasDueDiligenceRole) {
+            handlePreviewError(
+              `${scientistWallet} does not have the due diligence role`
+            );
+            return false;
+          }
+
+          // Execution requires elected scientists to lock more than the threshold, which they can still do while the vote runs
+          if (isElectionOption && networkInfo.sciManager) {
+            const scientistLockedSci =
+              (await wallet.state.publicClient.readContract({
+                address: networkInfo.sciManager as `0x${string}`,
+                abi: sciManagerAbi as Abi,
+                functionName: 'getLockedSci',
+                args: [scientistWallet],
+              })) as bigint;
+            if (
+              Number(formatUnits(scientistLockedSci, 18)) <=
+              Number(governance?.govResParams?.ddThreshold)
+            ) {
+              addNotification(
+                `${scientistWallet} must lock more than ${governance?.govResParams?.ddThreshold} SCI before this election can be executed.`,
+                'warning'
+              );
+            }
+          }
+        }
+        return true;
+      }
+
+      if (isParameterChangeOption) {
+        if (!isValidParameter(selectedParameter)) {
+          handlePreviewError('Select a governance parameter to change');
+          return false;
+        }
+        const proposedData = getProposedParameterData();
+        if (proposedData === null || proposedData == BigInt(0)) {
+          handlePreviewError('Enter a proposed value greater than 0');
+          return false;
+        }
+        if (proposedData == getCurrentParameterData()) {
+          handlePreviewError(
+            'The proposed value is the same as the current value'
+          );
+          return false;
+        }
+        return true;
+      }
+
+      if (isRevokeOption) {
+        if (!selectedLicense) {
+          handlePreviewError('Select an active license to revoke');
+          return false;
+        }
+        if (!revocationGrounds.trim()) {
+          handlePreviewError('State the grounds for revoking the license');
+          return false;
+        }
+        return true;
+      }
+
+      if (isMintOption) {
+        const mintDetailsError = getMintDetailsError();
+        if (mintDetailsError) {
+          handlePreviewError(mintDetailsError);
+          return false;
+        }
+        if (
+          enumerateExecutionOptions(executionOption) ==
+          ExecutionOptions.MintIPNFT
+        ) {
+          return true;
+        }
+      }
+
+      if (isFundingOption) {
         // SCI uses 18 decimals
         const requestedBalanceSci = parseUnits(transactionAmountSci || '0', 18);
         // USDC uses 6 decimals
@@ -678,6 +995,9 @@ export default function Propose({}: ProposeProps) {
             info,
             BigInt(encodedActionParams.actionType),
             encodedActionParams.encodedParams,
+            // Mint proposals are linked to the Spark idea the IP-NFT is minted from
+            isMintOption ? (sparkIdeaId as `0x${string}`) : zeroHash,
+            false,
           ],
           account: wallet.state.address as Address,
         });
@@ -685,6 +1005,31 @@ export default function Propose({}: ProposeProps) {
         const hash = await wallet.state.walletClient.writeContract(request);
 
         setTransactionHash(`${networkInfo?.explorerLink}/tx/${hash}`);
+        setCreatedAction(null);
+
+        // The governor deploys the action clone through the factory while proposing
+        if (encodedActionParams.actionType != 0) {
+          const receipt =
+            await wallet.state.publicClient.waitForTransactionReceipt({ hash });
+          if (receipt.status !== 'success') {
+            throw new Error('Transaction failed.');
+          }
+
+          const [actionCreated] = parseEventLogs({
+            abi: actionFactoryResearchAbi as Abi,
+            logs: receipt.logs.filter(
+              (log) =>
+                log.address.toLowerCase() ==
+                networkInfo.actionFactoryResearch.toLowerCase()
+            ),
+            eventName: 'ActionCreated',
+          });
+          setCreatedAction(
+            actionCreated
+              ? (actionCreated.args as unknown as { action: Address }).action
+              : null
+          );
+        }
         setProposalInitiated(true);
 
         // Add optimized cache invalidation for new proposal
@@ -969,12 +1314,32 @@ export default function Propose({}: ProposeProps) {
       return null;
     }
 
+    let licenseRevocation: LicenseRevocation | undefined;
+    if (isRevokeOption) {
+      const groundsResult = await enhancedSanitizeInput(revocationGrounds, {
+        maxLength: GROUNDS_MAX_LENGTH,
+        allowHtml: false,
+      });
+      if (!groundsResult.isValid) {
+        handlePreviewError(
+          `Grounds validation failed: ${groundsResult.issues.join(', ')}`
+        );
+        return null;
+      }
+      licenseRevocation = {
+        ipNftId: revokeIpNftId,
+        licenseNftId: revokeLicenseId,
+        grounds: groundsResult.sanitizedInput,
+      };
+    }
+
     return {
       title: titleResult.sanitizedInput,
       body: bodyResult.sanitizedInput,
       summary: summaryResult.sanitizedInput,
       executionOption: executionOption,
       quadraticVoting: false, // Research governance doesn't use quadratic voting
+      ...(licenseRevocation && { licenseRevocation }),
     };
   };
 
@@ -982,6 +1347,7 @@ export default function Propose({}: ProposeProps) {
   const TITLE_MAX_LENGTH = 130;
   const SUMMARY_MAX_LENGTH = 5000; // Maximum length for summary (approximately 250 words)
   const BODY_MAX_LENGTH = 30000;
+  const GROUNDS_MAX_LENGTH = 2000;
   const MIN_LENGTH = 10;
 
   const validateEvmAddress = (
@@ -1019,7 +1385,6 @@ export default function Propose({}: ProposeProps) {
     return { isValid: true, error: '' };
   };
 
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const validateEvmAddressArray = (
     addresses: string[]
   ): { isValid: boolean; error: string } => {
@@ -1184,6 +1549,9 @@ export default function Propose({}: ProposeProps) {
     [ExecutionOptions.ParameterChange]: 'Change Governance Parameter',
     [ExecutionOptions.Election]: 'Elect Scientist(s)',
     [ExecutionOptions.Impeachment]: 'Impeach Scientist(s)',
+    [ExecutionOptions.MintIPNFT]: 'Mint IP-NFT',
+    [ExecutionOptions.FundAndMintIPNFT]: 'Fund and Mint IP-NFT',
+    [ExecutionOptions.RevokeLicense]: 'Revoke License',
   };
 
   // Update the AddressWithEns component to use cached ENS names
@@ -1929,32 +2297,54 @@ export default function Propose({}: ProposeProps) {
 
                     <div className="flex w-full flex-col space-y-2">
                       <label className="">
-                        Is it a transaction?
+                        What should the proposal execute?
                         <span className="py-2 text-highlightRed">*</span>{' '}
                         <InfoToolTip>
-                          Research Funding governance has two proposal action
-                          types: Transaction and Not Executable. Transaction
-                          proposals transfer funds from the research funding
-                          wallet to the target wallet address which is the
-                          address provided by the scientists used for their
-                          research proposal. NotExecutable proposals address the
-                          Due Diligence process, deal source process and more.
+                          Research Funding governance has eight proposal action
+                          types. Transaction proposals transfer funds from the
+                          research funding wallet to the target wallet address
+                          which is the address provided by the scientists used
+                          for their research proposal. Election and Impeachment
+                          proposals grant or revoke the due diligence role of
+                          one or more scientists. Parameter Change proposals
+                          change a research governance parameter. Mint IP-NFT
+                          proposals mint an IP-NFT from a finalized Spark idea,
+                          and Fund and Mint IP-NFT proposals do both. Revoke
+                          License proposals revoke an active IP-NFT license on
+                          behalf of the DAO. NotExecutable
+                          proposals address the Due Diligence process, deal
+                          source process and more.
                         </InfoToolTip>
                       </label>
                       <select
                         name="executionOption"
                         value={executionOption}
-                        onChange={(e) => setExecutionOption(e.target.value)}
+                        onChange={(e) => {
+                          setExecutionOption(e.target.value);
+                          setScientistWallets([]);
+                        }}
                         required
                         className="w-full rounded-lg border bg-seaBlue-100 px-2 py-3 text-seaBlue-1050 ring-2 ring-transparent focus:ring-tropicalBlue"
                       >
                         <option value="">Select option</option>
-                        <option value="Transaction">Yes</option>
-                        <option value="NotExecutable">No</option>
+                        <option value="Transaction">Transaction</option>
+                        <option value="Election">Election</option>
+                        <option value="Impeachment">Impeachment</option>
+                        <option value="ParameterChange">
+                          Parameter Change
+                        </option>
+                        <option value="MintIPNFT">Mint IP-NFT</option>
+                        <option value="FundAndMintIPNFT">
+                          Fund and Mint IP-NFT
+                        </option>
+                        {isRevokeLicenseEnabled && (
+                          <option value="RevokeLicense">Revoke License</option>
+                        )}
+                        <option value="NotExecutable">Not executable</option>
                       </select>
                     </div>
 
-                    {executionOption == 'Transaction' ? (
+                    {isFundingOption ? (
                       <div className="flex flex-col space-y-2">
                         <label className="">
                           Payment Option
@@ -1987,7 +2377,7 @@ export default function Propose({}: ProposeProps) {
                         </select>
                       </div>
                     ) : null}
-                    {executionOption == 'Transaction' &&
+                    {isFundingOption &&
                       paymentOption == Payment.Sci && (
                         <div className="flex flex-1 flex-col gap-2">
                           <label>
@@ -2019,7 +2409,7 @@ export default function Propose({}: ProposeProps) {
                           />
                         </div>
                       )}
-                    {executionOption == 'Transaction' &&
+                    {isFundingOption &&
                       paymentOption == Payment.Usdc && (
                         <div className="flex flex-1 flex-col gap-2">
                           <label>
@@ -2051,7 +2441,7 @@ export default function Propose({}: ProposeProps) {
                           />
                         </div>
                       )}
-                    {executionOption == 'Transaction' &&
+                    {isFundingOption &&
                       paymentOption == Payment.SciUsdc && (
                         <div className="flex flex-1 flex-col gap-6">
                           <div className="flex flex-col gap-2">
@@ -2114,7 +2504,7 @@ export default function Propose({}: ProposeProps) {
                           </div>
                         </div>
                       )}
-                    {executionOption == 'Transaction' && (
+                    {isFundingOption && (
                       <div className="flex flex-1 flex-col gap-2">
                         <label className="flex items-center justify-between">
                           <div className="flex items-center">
@@ -2153,6 +2543,403 @@ export default function Propose({}: ProposeProps) {
                         />
                       </div>
                     )}
+                    {isMintOption && (
+                      <>
+                        <div className="flex flex-1 flex-col gap-2">
+                          <label>
+                            Finalized Spark Idea
+                            <span className="py-2 text-highlightRed">
+                              *
+                            </span>{' '}
+                            <InfoToolTip>
+                              The finalized Spark idea the IP-NFT is minted
+                              from. The ideator becomes the original creator of
+                              the IP-NFT. Ideas that already have an IP-NFT are
+                              not listed.
+                            </InfoToolTip>
+                          </label>
+                          <select
+                            name="sparkIdeaId"
+                            value={sparkIdeaId}
+                            onChange={(e) => {
+                              const idea = finalizedIdeas.find(
+                                (finalizedIdea) =>
+                                  finalizedIdea.ideaId == e.target.value
+                              );
+                              setSparkIdeaId(e.target.value);
+                              setPatentIdentifier(
+                                idea?.provisionalPatentId ?? ''
+                              );
+                              setCopyleftLicenseURI(
+                                idea?.copyleftLicenseURI ?? ''
+                              );
+                            }}
+                            required
+                            disabled={isLoadingFinalizedIdeas}
+                            className="w-full rounded-lg border bg-seaBlue-100 px-2 py-3 text-seaBlue-1050 ring-2 ring-transparent focus:ring-tropicalBlue"
+                          >
+                            <option value="">
+                              {isLoadingFinalizedIdeas
+                                ? 'Loading finalized ideas...'
+                                : mintableIdeas.length == 0
+                                  ? 'No finalized ideas without an IP-NFT'
+                                  : 'Select a finalized idea'}
+                            </option>
+                            {mintableIdeas.map((idea) => (
+                              <option key={idea.ideaId} value={idea.ideaId}>
+                                {idea.ideaId.slice(0, 10)}... by{' '}
+                                {idea.ideator.slice(0, 6)}...
+                                {idea.ideator.slice(-4)} (finalized{' '}
+                                {new Date(
+                                  idea.finalizedAt * 1000
+                                ).toLocaleDateString()}
+                                )
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div className="flex flex-1 flex-col gap-2">
+                          <label>
+                            Patent Identifier
+                            <span className="py-2 text-highlightRed">
+                              *
+                            </span>{' '}
+                            <InfoToolTip>
+                              The patent or provisional patent application
+                              number covering the idea. Prefilled from the
+                              idea&apos;s provisional patent ID.
+                            </InfoToolTip>
+                          </label>
+                          <input
+                            type="text"
+                            name="patentIdentifier"
+                            placeholder="e.g. US 63/123,456"
+                            value={patentIdentifier}
+                            onChange={(e) =>
+                              setPatentIdentifier(e.target.value)
+                            }
+                            required
+                            className="w-full rounded-lg border bg-seaBlue-100 p-2 text-seaBlue-1050 ring-2 ring-transparent focus:ring-tropicalBlue"
+                          />
+                        </div>
+                        <div className="flex flex-1 flex-col gap-2">
+                          <label>
+                            Research Agreement URI{' '}
+                            <InfoToolTip>
+                              Link to the research agreement between the DAO
+                              and the researchers, usually an IPFS URI.
+                            </InfoToolTip>
+                          </label>
+                          <input
+                            type="text"
+                            name="researchAgreementURI"
+                            placeholder="ipfs://..."
+                            value={researchAgreementURI}
+                            onChange={(e) =>
+                              setResearchAgreementURI(e.target.value)
+                            }
+                            className="w-full rounded-lg border bg-seaBlue-100 p-2 text-seaBlue-1050 ring-2 ring-transparent focus:ring-tropicalBlue"
+                          />
+                        </div>
+                        <div className="flex flex-1 flex-col gap-2">
+                          <label>
+                            Copyleft License URI
+                            <span className="py-2 text-highlightRed">
+                              *
+                            </span>{' '}
+                            <InfoToolTip>
+                              The copyleft license the IP-NFT is published
+                              under. Prefilled from the idea&apos;s copyleft
+                              license.
+                            </InfoToolTip>
+                          </label>
+                          <input
+                            type="text"
+                            name="copyleftLicenseURI"
+                            placeholder="ipfs://..."
+                            value={copyleftLicenseURI}
+                            onChange={(e) =>
+                              setCopyleftLicenseURI(e.target.value)
+                            }
+                            required
+                            className="w-full rounded-lg border bg-seaBlue-100 p-2 text-seaBlue-1050 ring-2 ring-transparent focus:ring-tropicalBlue"
+                          />
+                        </div>
+                        <p className="text-sm">
+                          Copyleft pool:{' '}
+                          {networkInfo?.copyleftIpPool ? (
+                            <AddressWithEns
+                              address={networkInfo.copyleftIpPool}
+                            />
+                          ) : (
+                            'Not configured'
+                          )}
+                        </p>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            const mintDetailsError = getMintDetailsError();
+                            if (mintDetailsError) {
+                              handlePreviewError(mintDetailsError);
+                              return;
+                            }
+                            setMintPreview(true);
+                          }}
+                          className={`${styles.secondary} w-full rounded-lg border-[1px] border-solid border-seaBlue-1025 bg-seaBlue-300 font-acuminSemiBold text-seaBlue-1025`}
+                        >
+                          Preview IP-NFT Mint
+                        </button>
+                      </>
+                    )}
+                    {isScientistsOption && (
+                      <div className="flex flex-1 flex-col gap-2">
+                        <label>
+                          {isElectionOption
+                            ? 'Candidate Wallets'
+                            : 'Scientist Wallets'}
+                          <span className="py-2 text-highlightRed">*</span>{' '}
+                          <InfoToolTip>
+                            {isElectionOption
+                              ? 'The wallets that receive the due diligence role once the proposal is executed. Candidates must lock more SCI than the proposal threshold before execution.'
+                              : 'The wallets whose due diligence role is revoked once the proposal is executed.'}{' '}
+                            Enter a Base wallet address or an ENS name.
+                          </InfoToolTip>
+                        </label>
+                        <AddressListInput
+                          addresses={scientistWallets}
+                          onChange={setScientistWallets}
+                        />
+                      </div>
+                    )}
+                    {isParameterChangeOption && (
+                      <>
+                        <div className="flex flex-1 flex-col gap-2">
+                          <label>
+                            Governance Parameter
+                            <span className="py-2 text-highlightRed">
+                              *
+                            </span>{' '}
+                            <InfoToolTip>
+                              The research governance parameter that changes
+                              once the proposal is executed.
+                            </InfoToolTip>
+                          </label>
+                          <select
+                            name="selectedParameter"
+                            value={selectedParameter}
+                            onChange={(e) => {
+                              setSelectedParameter(e.target.value);
+                              setProposedParameterValue('');
+                            }}
+                            required
+                            className="w-full rounded-lg border bg-seaBlue-100 px-2 py-3 text-seaBlue-1050 ring-2 ring-transparent focus:ring-tropicalBlue"
+                          >
+                            <option value="">Select a parameter</option>
+                            {researchParameters.map((parameter) => (
+                              <option key={parameter} value={parameter}>
+                                {
+                                  // Only the name part of "Name — description"
+                                  getDescriptiveParamNames(parameter).split(
+                                    ' — '
+                                  )[0]
+                                }
+                              </option>
+                            ))}
+                          </select>
+                          {selectedParameter && (
+                            <p className="text-sm text-seaBlue-100">
+                              {getDescriptiveParamNames(selectedParameter)}
+                            </p>
+                          )}
+                        </div>
+                        {selectedParameter && (
+                          <div className="flex flex-1 flex-col gap-2">
+                            <label>
+                              Proposed Value
+                              <span className="py-2 text-highlightRed">
+                                *
+                              </span>{' '}
+                              <InfoToolTip>
+                                {getParameterKind(selectedParameter) == 'sci'
+                                  ? 'The new amount of SCI.'
+                                  : getParameterKind(selectedParameter) ==
+                                      'votes'
+                                    ? 'The new number of votes.'
+                                    : 'The new duration, in the selected unit.'}
+                              </InfoToolTip>
+                            </label>
+                            <div className="flex gap-2">
+                              <input
+                                type="text"
+                                inputMode="decimal"
+                                name="proposedParameterValue"
+                                value={proposedParameterValue}
+                                onChange={(e) => {
+                                  const value = e.target.value;
+                                  const isValid =
+                                    getParameterKind(selectedParameter) ==
+                                    'sci'
+                                      ? /^\d*\.?\d*$/.test(value)
+                                      : /^\d*$/.test(value);
+                                  if (isValid) {
+                                    setProposedParameterValue(value);
+                                  }
+                                }}
+                                required
+                                className="w-full rounded-lg border bg-seaBlue-100 p-2 text-seaBlue-1050 ring-2 ring-transparent focus:ring-tropicalBlue"
+                              />
+                              {getParameterKind(selectedParameter) ==
+                                'time' && (
+                                <select
+                                  value={parameterTimeUnit}
+                                  onChange={(e) =>
+                                    setParameterTimeUnit(
+                                      e.target.value as TimeUnit
+                                    )
+                                  }
+                                  aria-label="Time unit"
+                                  className="rounded-lg border bg-seaBlue-100 px-2 py-2 text-seaBlue-1050 ring-2 ring-transparent focus:ring-tropicalBlue"
+                                >
+                                  {Object.keys(TIME_UNIT_SECONDS).map(
+                                    (unit) => (
+                                      <option key={unit} value={unit}>
+                                        {unit}
+                                      </option>
+                                    )
+                                  )}
+                                </select>
+                              )}
+                            </div>
+                            <div className="grid grid-cols-2 gap-2 text-sm">
+                              <p>
+                                <strong>Current:</strong> &nbsp;
+                                {currentGovernanceParameterValue(
+                                  selectedParameter,
+                                  governance?.govResParams
+                                )}
+                              </p>
+                              <p>
+                                <strong>Proposed:</strong> &nbsp;
+                                {formatProposedParameterValue()}
+                              </p>
+                            </div>
+                          </div>
+                        )}
+                      </>
+                    )}
+                    {isRevokeOption && (
+                      <>
+                        <div className="flex flex-1 flex-col gap-2">
+                          <label>
+                            IP-NFT
+                            <span className="py-2 text-highlightRed">
+                              *
+                            </span>{' '}
+                            <InfoToolTip>
+                              The IP-NFT whose license should be revoked.
+                            </InfoToolTip>
+                          </label>
+                          <select
+                            name="revokeIpNftId"
+                            value={revokeIpNftId}
+                            onChange={(e) => {
+                              setRevokeIpNftId(e.target.value);
+                              setRevokeLicenseId('');
+                            }}
+                            required
+                            disabled={isLoadingIpNfts}
+                            className="w-full rounded-lg border bg-seaBlue-100 px-2 py-3 text-seaBlue-1050 ring-2 ring-transparent focus:ring-tropicalBlue"
+                          >
+                            <option value="">
+                              {isLoadingIpNfts
+                                ? 'Loading IP-NFTs...'
+                                : 'Select an IP-NFT'}
+                            </option>
+                            {ipNfts.map((ipNft) => (
+                              <option
+                                key={ipNft.tokenId.toString()}
+                                value={ipNft.tokenId.toString()}
+                              >
+                                #{ipNft.tokenId.toString()}
+                                {ipNft.metadata?.name
+                                  ? ` ${ipNft.metadata.name}`
+                                  : ''}{' '}
+                                ({ipNft.patentIdentifier})
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        {revokeIpNftId && (
+                          <div className="flex flex-1 flex-col gap-2">
+                            <label>
+                              License
+                              <span className="py-2 text-highlightRed">
+                                *
+                              </span>{' '}
+                              <InfoToolTip>
+                                Only licenses that are still active can be
+                                revoked.
+                              </InfoToolTip>
+                            </label>
+                            <select
+                              name="revokeLicenseId"
+                              value={revokeLicenseId}
+                              onChange={(e) =>
+                                setRevokeLicenseId(e.target.value)
+                              }
+                              required
+                              disabled={isLoadingIpNftLicenses}
+                              className="w-full rounded-lg border bg-seaBlue-100 px-2 py-3 text-seaBlue-1050 ring-2 ring-transparent focus:ring-tropicalBlue"
+                            >
+                              <option value="">
+                                {isLoadingIpNftLicenses
+                                  ? 'Loading licenses...'
+                                  : activeIpNftLicenses.length == 0
+                                    ? 'No active licenses'
+                                    : 'Select a license'}
+                              </option>
+                              {activeIpNftLicenses.map((license) => (
+                                <option
+                                  key={license.licenseId.toString()}
+                                  value={license.licenseId.toString()}
+                                >
+                                  License #{license.licenseId.toString()} -{' '}
+                                  {license.licensee.slice(0, 6)}...
+                                  {license.licensee.slice(-4)}, expires{' '}
+                                  {new Date(
+                                    license.expiresAt * 1000
+                                  ).toLocaleDateString()}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        )}
+                        <div className="flex flex-1 flex-col gap-2">
+                          <label>
+                            Grounds for Revocation
+                            <span className="py-2 text-highlightRed">
+                              *
+                            </span>{' '}
+                            <InfoToolTip>
+                              Why the DAO should revoke this license, for
+                              example a breach of the license terms. Shown to
+                              voters next to the license.
+                            </InfoToolTip>
+                          </label>
+                          <textarea
+                            name="revocationGrounds"
+                            rows={4}
+                            value={revocationGrounds}
+                            maxLength={GROUNDS_MAX_LENGTH}
+                            onChange={(e) =>
+                              setRevocationGrounds(e.target.value)
+                            }
+                            required
+                            className="w-full rounded-lg border bg-seaBlue-100 p-2 text-seaBlue-1050 ring-2 ring-transparent focus:ring-tropicalBlue"
+                          />
+                        </div>
+                      </>
+                    )}
                     {isLoadingDeployment ? (
                       <div className={styles.primary}>
                         <span className="animate-pulse">Deploying...</span>
@@ -2193,7 +2980,19 @@ export default function Propose({}: ProposeProps) {
                               !summary ||
                               !body ||
                               !executionOption ||
-                              (executionOption == 'Transaction' &&
+                              (isScientistsOption &&
+                                scientistWallets.length == 0) ||
+                              (isParameterChangeOption &&
+                                (!selectedParameter ||
+                                  !proposedParameterValue)) ||
+                              (isRevokeOption &&
+                                (!revokeLicenseId ||
+                                  !revocationGrounds.trim())) ||
+                              (isMintOption &&
+                                (!sparkIdeaId ||
+                                  !patentIdentifier.trim() ||
+                                  !copyleftLicenseURI.trim())) ||
+                              (isFundingOption &&
                                 (paymentOption == Payment.None ||
                                   (paymentOption == Payment.Sci &&
                                     !transactionAmountSci) ||
@@ -2286,7 +3085,19 @@ export default function Propose({}: ProposeProps) {
                             </strong>{' '}
                             &nbsp;
                             <span className="inline-block">
-                              <ProposalContent content={body} type="body" />
+                              <ProposalContent
+                                content={body}
+                                type="body"
+                                licenseRevocation={
+                                  isRevokeOption && revokeLicenseId
+                                    ? {
+                                        ipNftId: revokeIpNftId,
+                                        licenseNftId: revokeLicenseId,
+                                        grounds: revocationGrounds,
+                                      }
+                                    : undefined
+                                }
+                              />
                             </span>
                           </div>
                         </div>
@@ -2294,7 +3105,7 @@ export default function Propose({}: ProposeProps) {
                           <strong>Execution Option: </strong> &nbsp;
                           {executionOption}
                         </p>
-                        {executionOption == 'Transaction' ? (
+                        {isFundingOption ? (
                           <>
                             <p>
                               <strong>Target Wallet:</strong> &nbsp;
@@ -2320,6 +3131,65 @@ export default function Propose({}: ProposeProps) {
                             )}
                           </>
                         ) : null}
+                        {isScientistsOption ? (
+                          <div>
+                            <strong>
+                              {isElectionOption
+                                ? 'Candidates:'
+                                : 'Scientists to Impeach:'}
+                            </strong>
+                            <AddressListInput
+                              addresses={scientistWallets}
+                              readOnly
+                            />
+                          </div>
+                        ) : null}
+                        {isParameterChangeOption && selectedParameter ? (
+                          <>
+                            <p>
+                              <strong>Parameter:</strong> &nbsp;
+                              {getDescriptiveParamNames(selectedParameter)}
+                            </p>
+                            <p>
+                              <strong>Current Value:</strong> &nbsp;
+                              {currentGovernanceParameterValue(
+                                selectedParameter,
+                                governance?.govResParams
+                              )}
+                            </p>
+                            <p>
+                              <strong>Proposed Value:</strong> &nbsp;
+                              {formatProposedParameterValue()}
+                            </p>
+                          </>
+                        ) : null}
+                        {isMintOption && selectedIdea ? (
+                          <>
+                            <p>
+                              <strong>Spark Idea:</strong> &nbsp;
+                              {selectedIdea.ideaId.slice(0, 10)}...
+                              {selectedIdea.ideaId.slice(-8)}
+                            </p>
+                            <p>
+                              <strong>Original Creator:</strong> &nbsp;
+                              <AddressWithEns address={selectedIdea.ideator} />
+                            </p>
+                            <p>
+                              <strong>Patent Identifier:</strong> &nbsp;
+                              {patentIdentifier}
+                            </p>
+                            {researchAgreementURI && (
+                              <p className="break-all">
+                                <strong>Research Agreement:</strong> &nbsp;
+                                {researchAgreementURI}
+                              </p>
+                            )}
+                            <p className="break-all">
+                              <strong>Copyleft License:</strong> &nbsp;
+                              {copyleftLicenseURI}
+                            </p>
+                          </>
+                        ) : null}
                       </div>
                     </div>
 
@@ -2363,7 +3233,19 @@ export default function Propose({}: ProposeProps) {
                             !summary ||
                             !body ||
                             !executionOption ||
-                            (executionOption == 'Transaction' &&
+                            (isScientistsOption &&
+                              scientistWallets.length == 0) ||
+                            (isParameterChangeOption &&
+                              (!selectedParameter ||
+                                !proposedParameterValue)) ||
+                            (isRevokeOption &&
+                              (!revokeLicenseId ||
+                                !revocationGrounds.trim())) ||
+                            (isMintOption &&
+                              (!sparkIdeaId ||
+                                !patentIdentifier.trim() ||
+                                !copyleftLicenseURI.trim())) ||
+                            (isFundingOption &&
                               (paymentOption == Payment.None ||
                                 (paymentOption == Payment.Sci &&
                                   !transactionAmountSci) ||
@@ -2425,12 +3307,78 @@ export default function Propose({}: ProposeProps) {
                 </Link>{' '}
                 to incentivize others to vote on your proposal!
               </div>
+              {createdAction && (
+                <div>
+                  Action contract:{' '}
+                  <Link
+                    className="text-steelBlue hover:text-tropicalBlue"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    href={`${networkInfo?.explorerLink}/address/${createdAction}`}
+                  >
+                    {createdAction.slice(0, 6)}...{createdAction.slice(-4)}{' '}
+                    <FontAwesomeIcon icon={faExternalLinkAlt} size="xs" />
+                  </Link>
+                </div>
+              )}
               <div>
                 <CountdownTimerForProposal governance={governance} />
               </div>
             </Modal>
           )}
 
+          {mintPreview && (
+            <ModalPreview
+              handler={setMintPreview}
+              func={null}
+              amount={null}
+              asset={'IP-NFT'}
+              gasFee={null}
+              approved={true}
+              message={
+                'Once the proposal passes and is executed, the IP-NFT below is minted.'
+              }
+              purpose={'Mint'}
+              feeCurrency={'ETH'}
+              interactingContract={
+                executionOption == 'FundAndMintIPNFT'
+                  ? (networkInfo?.fundAndMintIpNft ?? '')
+                  : (networkInfo?.mintIpNft ?? '')
+              }
+              explorerLink={networkInfo?.explorerLink}
+              loading={false}
+              details={[
+                {
+                  label: 'Spark idea',
+                  value: `${sparkIdeaId.slice(0, 10)}...${sparkIdeaId.slice(-8)}`,
+                },
+                {
+                  label: 'Original creator',
+                  value: selectedIdea?.ideator ?? '',
+                },
+                { label: 'Patent identifier', value: patentIdentifier },
+                {
+                  label: 'Research agreement',
+                  value: researchAgreementURI || 'None',
+                },
+                { label: 'Copyleft license', value: copyleftLicenseURI },
+                {
+                  label: 'Copyleft pool',
+                  value: networkInfo?.copyleftIpPool ?? '',
+                },
+                ...(executionOption == 'FundAndMintIPNFT'
+                  ? [
+                      { label: 'Funding recipient', value: targetWallet },
+                      {
+                        label: 'Funding',
+                        value: `${Number(transactionAmountUsdc || 0).toLocaleString()} USDC, ${Number(transactionAmountSci || 0).toLocaleString()} SCI`,
+                      },
+                    ]
+                  : []),
+              ]}
+            />
+          )}
+
           {showConfirmationModal && (
             <ErrorBoundary>
               <ProposalConfirmationModal
@@ -0,0 +1,524 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import {
+  Address,
+  Abi,
+  parseAbiParameters,
+  encodeAbiParameters,
+  parseUnits,
+  formatUnits,
+} from 'viem';
+import { useGoogleReCaptcha } from 'react-google-recaptcha-v3';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faExternalLinkAlt } from '@fortawesome/free-solid-svg-icons';
+import { useWallet } from '@/app/context/WalletContext';
+import { useNotification } from '@/app/context/NotificationContext';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { useProposals } from '@/app/context/ProposalsContext';
+import { useEcosystemBalances } from '@/app/components/hooks/UseEcosystemBalances';
+import { publicClient } from '@/app/config/viem';
+import {
+  enhancedSanitizeInput,
+  generateCsrfToken,
+  validateCsrfToken,
+  stripColorStyling,
+} from '@/app/utils/securityUtils';
+import { enhancedScamCheck } from '@/app/utils/securityChecks';
+import {
+  SecurityEventType,
+  logSecurityEvent,
+} from '@/app/utils/securityMonitoring';
+import { calculateCharacterCount } from '@/app/utils/textUtils';
+import TitleEditor from '@/app/components/general/TitleEditor';
+import TiptapEditor from '@/app/components/text-editor/components/TiptapEditor';
+import InfoToolTip from '@/app/components/general/InfoToolTip';
+import ConnectWallet from '../general/ConnectWallet';
+import ErrorDisplay from '../general/ErrorDisplay';
+import Modal from '../modals/Modal';
+import styles from './../general/Button.module.css';
+import govOpsAbi from '@/app/abi/GovernorOperations.json';
+import './proposal-content.css';
+
+type OperationsExecutionOption = 'NotExecutable' | 'Transaction';
+
+const TITLE_MAX_LENGTH = 130;
+const SUMMARY_MAX_LENGTH = 5000;
+const BODY_MAX_LENGTH = 30000;
+const MIN_LENGTH = 10;
+
+const inputClassName =
+  'w-full rounded-lg border bg-seaBlue-100 p-2 text-seaBlue-1050 ring-2 ring-transparent focus:ring-tropicalBlue';
+
+export default function ProposeOperations() {
+  const wallet = useWallet();
+  const networkInfo = useNetworkInfo();
+  const { addNotification } = useNotification();
+  const { governorOperations, operationsProposals } = useProposals();
+  const { executeRecaptcha } = useGoogleReCaptcha();
+  const { lockedSci } = useEcosystemBalances(
+    wallet?.state?.address || undefined,
+    '',
+    '',
+    networkInfo?.sciManager
+  );
+
+  const [title, setTitle] = useState('');
+  const [summary, setSummary] = useState('');
+  const [body, setBody] = useState('');
+  const [executionOption, setExecutionOption] =
+    useState<OperationsExecutionOption>('NotExecutable');
+  const [targetWallet, setTargetWallet] = useState('');
+  const [transactionAmountSci, setTransactionAmountSci] = useState('');
+  const [transactionAmountUsdc, setTransactionAmountUsdc] = useState('');
+  const [quadraticVoting, setQuadraticVoting] = useState(false);
+  const [opThreshold, setOpThreshold] = useState('0');
+  const [csrfToken, setCsrfToken] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [proposalInitiated, setProposalInitiated] = useState(false);
+  const [transactionHash, setTransactionHash] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setCsrfToken(generateCsrfToken());
+  }, []);
+
+  // Proposing requires at least opThreshold SCI locked in SciManager
+  useEffect(() => {
+    if (!governorOperations) return;
+
+    publicClient
+      .readContract({
+        address: governorOperations,
+        abi: govOpsAbi as Abi,
+        functionName: 'getGovernanceParameters',
+      })
+      .then((params) =>
+        setOpThreshold(formatUnits((params as { opThreshold: bigint }).opThreshold, 18))
+      )
+      .catch((err) => console.error('Error fetching operations governance parameters:', err));
+  }, [governorOperations]);
+
+  const handlePreviewError = (message: string) => {
+    setError(message);
+    addNotification(message, 'error');
+  };
+
+  const checkForScams = async () => {
+    for (const [content, text] of [
+      ['proposal_title', title],
+      ['proposal_summary', summary],
+      ['proposal_body', body],
+    ]) {
+      const scamCheck = enhancedScamCheck(text);
+      if (scamCheck.detected && scamCheck.severity !== 'low') {
+        handlePreviewError(
+          `Potential scam detected in ${content.replace('proposal_', '')}: ${scamCheck.patterns.join(', ')}`
+        );
+        await logSecurityEvent(
+          SecurityEventType.SCAM_DETECTED,
+          {
+            content,
+            patterns: scamCheck.patterns,
+            proposalType: 'operations',
+          },
+          scamCheck.severity
+        );
+        return false;
+      }
+    }
+    return true;
+  };
+
+  const generateProposalJson = async () => {
+    if (!(await checkForScams())) return null;
+
+    const [titleResult, summaryResult, bodyResult] = await Promise.all([
+      enhancedSanitizeInput(stripColorStyling(title), {
+        maxLength: TITLE_MAX_LENGTH,
+        allowHtml: false,
+      }),
+      enhancedSanitizeInput(stripColorStyling(summary), {
+        maxLength: SUMMARY_MAX_LENGTH,
+        allowHtml: true,
+        allowUrls: false,
+      }),
+      enhancedSanitizeInput(stripColorStyling(body), {
+        maxLength: BODY_MAX_LENGTH,
+        allowHtml: true,
+        allowUrls: true,
+      }),
+    ]);
+
+    for (const [field, result] of [
+      ['Title', titleResult],
+      ['Summary', summaryResult],
+      ['Body', bodyResult],
+    ] as const) {
+      if (!result.isValid) {
+        handlePreviewError(`${field} validation failed: ${result.issues.join(', ')}`);
+        return null;
+      }
+    }
+
+    return {
+      title: titleResult.sanitizedInput,
+      body: bodyResult.sanitizedInput,
+      summary: summaryResult.sanitizedInput,
+      executionOption,
+      quadraticVoting,
+    };
+  };
+
+  // Operations transactions are paid out of the DAO treasury
+  const handleActionParams = () => {
+    if (executionOption === 'NotExecutable') {
+      return { actionType: 0, encodedParams: '0x' as `0x${string}` };
+    }
+
+    return {
+      actionType: 1,
+      encodedParams: encodeAbiParameters(
+        parseAbiParameters('address, address, uint256, uint256, address'),
+        [
+          networkInfo?.admin as Address,
+          targetWallet as Address,
+          parseUnits(transactionAmountUsdc || '0', 6),
+          parseUnits(transactionAmountSci || '0', 18),
+          networkInfo?.governorExecutor as Address,
+        ]
+      ),
+    };
+  };
+
+  const validateForm = () => {
+    if (calculateCharacterCount(title, true) < MIN_LENGTH) {
+      return `Title must be at least ${MIN_LENGTH} characters`;
+    }
+    if (calculateCharacterCount(summary, true) < MIN_LENGTH) {
+      return `Summary must be at least ${MIN_LENGTH} characters`;
+    }
+    if (calculateCharacterCount(body, true) < MIN_LENGTH) {
+      return `Body must be at least ${MIN_LENGTH} characters`;
+    }
+    if (executionOption === 'Transaction') {
+      if (!/^0x[0-9a-fA-F]{40}$/.test(targetWallet)) {
+        return 'Please enter a valid target wallet address';
+      }
+      if (!Number(transactionAmountSci) && !Number(transactionAmountUsdc)) {
+        return 'Please enter an amount of SCI and/or USDC to transfer';
+      }
+    }
+    if (Number(lockedSci) < Number(opThreshold)) {
+      return `You need at least ${Number(opThreshold).toLocaleString()} locked SCI to create an operations proposal`;
+    }
+    return '';
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError('');
+
+    const formData = new FormData(event.target as HTMLFormElement);
+    if (!validateCsrfToken(formData.get('csrf_token') as string, csrfToken)) {
+      addNotification('Security validation failed. Please try again.', 'error');
+      await logSecurityEvent(
+        SecurityEventType.UNAUTHORIZED_ACCESS,
+        {
+          action: 'operations_proposal_submission',
+          error: 'CSRF token validation failed',
+        },
+        'high',
+        wallet?.state?.address || undefined
+      );
+      return;
+    }
+
+    const validationError = validateForm();
+    if (validationError) {
+      handlePreviewError(validationError);
+      return;
+    }
+
+    if (!executeRecaptcha) {
+      addNotification('Please wait for security verification to initialize.', 'error');
+      return;
+    }
+
+    if (
+      !governorOperations ||
+      !wallet?.state?.walletClient ||
+      !wallet?.state?.publicClient ||
+      !wallet?.state?.address
+    ) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const recaptchaToken = await executeRecaptcha('operations_proposal_submission');
+      const jsonFile = await generateProposalJson();
+      if (!jsonFile) return;
+
+      const nextIndex = operationsProposals?.length ?? 0;
+      const response = await fetch('/api/upload-pinata', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jsonFile,
+          isOperations: true,
+          indexGovOps: nextIndex.toString(),
+          recaptchaToken,
+        }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        handlePreviewError(
+          errorData.error || `Failed to upload proposal to IPFS (${response.status})`
+        );
+        return;
+      }
+      const { ipfsHash } = await response.json();
+
+      const { actionType, encodedParams } = handleActionParams();
+      const { request } = await wallet.state.publicClient.simulateContract({
+        address: governorOperations,
+        abi: govOpsAbi as Abi,
+        functionName: 'propose',
+        args: [ipfsHash, BigInt(actionType), encodedParams, quadraticVoting],
+        account: wallet.state.address as Address,
+      });
+
+      const hash = await wallet.state.walletClient.writeContract(request);
+      const receipt = await wallet.state.publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'success') {
+        throw new Error('Transaction failed.');
+      }
+
+      setTransactionHash(`${networkInfo?.explorerLink}/tx/${hash}`);
+      setProposalInitiated(true);
+
+      try {
+        await fetch('/api/invalidate-cache', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            type: 'operations',
+            action: 'newProposal',
+            newIndex: nextIndex,
+          }),
+        });
+      } catch (invalidationError) {
+        console.warn('Failed to invalidate operations proposal cache:', invalidationError);
+      }
+    } catch (err) {
+      console.error('Error creating operations proposal:', err);
+      handlePreviewError(err?.shortMessage || err?.message || 'Failed to create proposal');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!wallet?.state?.isConnected) {
+    return (
+      <div className="flex flex-col items-center gap-4">
+        <p>Connect your wallet to create an operations proposal.</p>
+        <ConnectWallet isNavBar={false} toggleAccountMenu={() => null} />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <form
+        onSubmit={handleSubmit}
+        className="
+          mx-auto
+          flex
+          w-full
+          flex-col
+          space-y-4
+          overflow-hidden
+          rounded-lg
+          border-2
+          border-tropicalBlue
+          bg-seaBlue-1075
+          p-4
+          shadow-glow-tropicalBlue-intermediate
+          sm:space-y-8
+          sm:p-8
+        "
+      >
+        <input type="hidden" name="csrf_token" value={csrfToken} />
+        <h2 className="text-center text-xl font-bold">Create operations proposal</h2>
+
+        <div className="flex flex-col space-y-2">
+          <label>
+            Title<span className="py-2 text-highlightRed">*</span>
+          </label>
+          <TitleEditor
+            content={title}
+            onChange={(text) => {
+              if (calculateCharacterCount(text, true) <= TITLE_MAX_LENGTH) {
+                setTitle(text);
+              }
+            }}
+            maxLength={TITLE_MAX_LENGTH}
+            height="20px"
+          />
+        </div>
+
+        <div className="flex flex-col space-y-2">
+          <label>
+            Summary<span className="py-2 text-highlightRed">*</span>
+          </label>
+          <TiptapEditor
+            initialContent={summary}
+            onContentChange={(content) => setSummary(content ? content.toString() : '')}
+            placeholder={{ paragraph: 'Provide a brief summary...' }}
+            contentMinHeight={120}
+          />
+        </div>
+
+        <div className="flex flex-col space-y-2">
+          <label>
+            Body<span className="py-2 text-highlightRed">*</span>
+          </label>
+          <div className="body-editor" style={{ width: '100%', maxWidth: '100%' }}>
+            <TiptapEditor
+              initialContent={body}
+              onContentChange={(content) => setBody(content ? content.toString() : '')}
+              placeholder={{ paragraph: 'Write your proposal details here...' }}
+              contentMinHeight={200}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-col space-y-2">
+          <label>
+            What should the proposal execute?
+            <span className="py-2 text-highlightRed">*</span>{' '}
+            <InfoToolTip>
+              Transaction proposals transfer SCI and/or USDC from the DAO
+              treasury to the target wallet address. Not executable proposals
+              record a decision of the DAO without an onchain action.
+            </InfoToolTip>
+          </label>
+          <select
+            name="executionOption"
+            value={executionOption}
+            onChange={(e) =>
+              setExecutionOption(e.target.value as OperationsExecutionOption)
+            }
+            className="w-full rounded-lg border bg-seaBlue-100 px-2 py-3 text-seaBlue-1050 ring-2 ring-transparent focus:ring-tropicalBlue"
+          >
+            <option value="NotExecutable">Not executable</option>
+            <option value="Transaction">Transaction</option>
+          </select>
+        </div>
+
+        {executionOption === 'Transaction' && (
+          <div className="flex flex-col gap-4">
+            <div className="flex flex-col gap-2">
+              <label>
+                Target wallet<span className="py-2 text-highlightRed">*</span>
+              </label>
+              <input
+                type="text"
+                placeholder="0x..."
+                value={targetWallet}
+                onChange={(e) => setTargetWallet(e.target.value.trim())}
+                className={inputClassName}
+              />
+            </div>
+            <div className="flex flex-col gap-4 sm:flex-row">
+              <div className="flex flex-1 flex-col gap-2">
+                <label>Amount SCI</label>
+                <input
+                  type="number"
+                  placeholder="Enter SCI amount"
+                  value={transactionAmountSci}
+                  onChange={(e) => {
+                    if (/^\d*\.?\d*$/.test(e.target.value)) {
+                      setTransactionAmountSci(e.target.value);
+                    }
+                  }}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex flex-1 flex-col gap-2">
+                <label>Amount USDC</label>
+                <input
+                  type="number"
+                  placeholder="Enter USDC amount"
+                  value={transactionAmountUsdc}
+                  onChange={(e) => {
+                    if (/^\d*\.?\d*$/.test(e.target.value)) {
+                      setTransactionAmountUsdc(e.target.value);
+                    }
+                  }}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center text-left text-sm sm:text-base">
+          <input
+            type="checkbox"
+            id="quadraticVoting"
+            checked={quadraticVoting}
+            onChange={() => setQuadraticVoting(!quadraticVoting)}
+          />
+          <label htmlFor="quadraticVoting" className="ml-2">
+            Use quadratic voting{' '}
+            <InfoToolTip>
+              With quadratic voting, each member&apos;s votes equal the square
+              root of their voting rights, which limits the influence of large
+              holders.
+            </InfoToolTip>
+          </label>
+        </div>
+
+        <p className="text-sm text-gray-400">
+          Locked SCI: {Number(lockedSci).toLocaleString()} / required:{' '}
+          {Number(opThreshold).toLocaleString()}
+        </p>
+
+        {error && <ErrorDisplay error={error} />}
+
+        <button
+          type="submit"
+          disabled={isSubmitting || !governorOperations}
+          className={`${styles.primary} w-full bg-[#1B2885] hover:bg-[#263AAD] ${isSubmitting ? 'cursor-not-allowed opacity-50' : ''}`}
+        >
+          {isSubmitting ? 'Submitting proposal...' : 'Submit proposal'}
+        </button>
+      </form>
+
+      {proposalInitiated && (
+        <Modal
+          transactionHash={transactionHash}
+          handler={setProposalInitiated}
+          title={`Proposal successful!`}
+          subtitle={''}
+        >
+          <div>
+            <Link
+              className="text-steelBlue hover:text-tropicalBlue"
+              target="_blank"
+              rel="noopener noreferrer"
+              href="https://discord.gg/75SrHpcNSZ"
+            >
+              Join the PoSciDonDAO discord{' '}
+              <FontAwesomeIcon icon={faExternalLinkAlt} size="xs" />
+            </Link>{' '}
+            to incentivize others to vote on your proposal!
+          </div>
+        </Modal>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState, useEffect, useCallback } from 'react';
+import { type Abi, type Address, type Hex } from 'viem';
+import { publicClient } from '@/app/config/viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { useWallet } from '@/app/context/WalletContext';
+import { useNotification } from '@/app/context/NotificationContext';
+import copyleftIpPoolAbi from '@/app/abi/CopyleftIPPool.json';
+
+const poolAbi = copyleftIpPoolAbi as Abi;
+
+interface IPNFTAddedToPoolArgs {
+  nftContract: Address;
+  tokenId: bigint;
+  from: Address;
+}
+
+interface IPNFTRemovedFromPoolArgs {
+  nftContract: Address;
+  tokenId: bigint;
+  to: Address;
+}
+
+interface IPNFTTransferredFromPoolArgs {
+  tokenContract: Address;
+  tokenId: bigint;
+  to: Address;
+}
+
+export type PoolEventType = 'added' | 'removed' | 'transferred';
+
+export interface PoolEvent {
+  type: PoolEventType;
+  nftContract: Address;
+  tokenId: bigint;
+  // Depositor for additions, recipient otherwise
+  account: Address;
+  timestamp: number;
+  transactionHash: Hex;
+}
+
+export type PoolAction = 'licenseUri' | 'transfer';
+
+/**
+ * Loads the copyleft IP pool's license URI, size and add/remove history, and lets the pool
+ * admin update the license or transfer an IP-NFT out of the pool.
+ */
+export const useCopyleftPool = () => {
+  const [licenseUri, setLicenseUri] = useState('');
+  const [totalPooled, setTotalPooled] = useState<bigint>(BigInt(0));
+  const [history, setHistory] = useState<PoolEvent[]>([]);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<PoolAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const networkInfo = useNetworkInfo();
+  const { state, writeContractGeneric, waitForTransactionGeneric } = useWallet();
+  const { addNotification } = useNotification();
+
+  const poolAddress = networkInfo?.copyleftIpPool;
+
+  const fetchPool = useCallback(async () => {
+    if (!poolAddress) {
+      return;
+    }
+
+    try {
+      setError(null);
+      const readPool = (functionName: string, args: unknown[] = []) =>
+        publicClient.readContract({
+          address: poolAddress,
+          abi: poolAbi,
+          functionName,
+          args,
+        });
+      const getPoolEvents = (eventName: string) =>
+        publicClient.getContractEvents({
+          address: poolAddress,
+          abi: poolAbi,
+          eventName,
+          fromBlock: BigInt(0),
+          toBlock: 'latest',
+        });
+
+      const [uri, total, admin, defaultAdminRole, addedLogs, removedLogs, transferredLogs] = await Promise.all([
+        readPool('poolCopyleftLicenseURI') as Promise<string>,
+        readPool('getTotalPooledNFTs') as Promise<bigint>,
+        readPool('admin') as Promise<Address>,
+        readPool('DEFAULT_ADMIN_ROLE') as Promise<Hex>,
+        getPoolEvents('IPNFTAddedToPool'),
+        getPoolEvents('IPNFTRemovedFromPool'),
+        getPoolEvents('IPNFTTransferredFromPool'),
+      ]);
+
+      const hasAdminRole = state.address
+        ? ((await readPool('hasRole', [defaultAdminRole, state.address])) as boolean)
+        : false;
+
+      const logs = [...addedLogs, ...removedLogs, ...transferredLogs];
+      // Events carry no timestamp, so each distinct block is read once
+      const blockNumbers = Array.from(new Set(logs.map((log) => log.blockNumber)));
+      const blocks = await Promise.all(
+        blockNumbers.map((blockNumber) => publicClient.getBlock({ blockNumber }))
+      );
+      const timestampByBlock = new Map(blocks.map((block) => [block.number, Number(block.timestamp)]));
+
+      const events: PoolEvent[] = [
+        ...addedLogs.map((log) => {
+          const args = log.args as unknown as IPNFTAddedToPoolArgs;
+          return {
+            type: 'added' as const,
+            nftContract: args.nftContract,
+            tokenId: args.tokenId,
+            account: args.from,
+            timestamp: timestampByBlock.get(log.blockNumber) ?? 0,
+            transactionHash: log.transactionHash,
+          };
+        }),
+        ...removedLogs.map((log) => {
+          const args = log.args as unknown as IPNFTRemovedFromPoolArgs;
+          return {
+            type: 'removed' as const,
+            nftContract: args.nftContract,
+            tokenId: args.tokenId,
+            account: args.to,
+            timestamp: timestampByBlock.get(log.blockNumber) ?? 0,
+            transactionHash: log.transactionHash,
+          };
+        }),
+        ...transferredLogs.map((log) => {
+          const args = log.args as unknown as IPNFTTransferredFromPoolArgs;
+          return {
+            type: 'transferred' as const,
+            nftContract: args.tokenContract,
+            tokenId: args.tokenId,
+            account: args.to,
+            timestamp: timestampByBlock.get(log.blockNumber) ?? 0,
+            transactionHash: log.transactionHash,
+          };
+        }),
+      ];
+
+      setLicenseUri(uri);
+      setTotalPooled(total);
+      setIsAdmin(
+        hasAdminRole || (!!state.address && admin.toLowerCase() === state.address.toLowerCase())
+      );
+      setHistory(events.sort((a, b) => b.timestamp - a.timestamp));
+    } catch (err) {
+      console.error('Error fetching copyleft pool:', err);
+      setError('Failed to load the copyleft IP pool.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [poolAddress, state.address]);
+
+  useEffect(() => {
+    fetchPool();
+  }, [fetchPool]);
+
+  const runAction = useCallback(
+    async (action: PoolAction, functionName: string, args: unknown[], successMessage: string) => {
+      if (!poolAddress) return false;
+      if (!state.isConnected || !state.address) {
+        addNotification('Please connect your wallet to continue.', 'error');
+        return false;
+      }
+
+      setPendingAction(action);
+      try {
+        const hash = await writeContractGeneric({
+          address: poolAddress,
+          abi: poolAbi,
+          functionName,
+          args,
+        });
+        if (!hash) {
+          throw new Error('Transaction was rejected or failed to submit.');
+        }
+
+        const receipt = await waitForTransactionGeneric({ hash });
+        if (!receipt || receipt.status !== 'success') {
+          throw new Error('Transaction failed.');
+        }
+
+        addNotification(successMessage, 'success');
+        await fetchPool();
+        return true;
+      } catch (err) {
+        console.error(`Error running ${functionName} on copyleft pool:`, err);
+        addNotification(err instanceof Error ? err.message : 'Transaction failed.', 'error');
+        return false;
+      } finally {
+        setPendingAction(null);
+      }
+    },
+    [
+      poolAddress,
+      state.isConnected,
+      state.address,
+      writeContractGeneric,
+      waitForTransactionGeneric,
+      addNotification,
+      fetchPool,
+    ]
+  );
+
+  const setPoolLicenseUri = useCallback(
+    (newLicenseUri: string) =>
+      runAction('licenseUri', 'setPoolCopyleftLicenseURI', [newLicenseUri], 'Pool copyleft license updated.'),
+    [runAction]
+  );
+
+  const transferFromPool = useCallback(
+    (tokenContract: Address, tokenId: bigint, recipient: Address) =>
+      runAction(
+        'transfer',
+        'transferIPNFTFromPool',
+        [tokenContract, tokenId, recipient],
+        `IP-NFT #${tokenId} transferred out of the pool.`
+      ),
+    [runAction]
+  );
+
+  return {
+    licenseUri,
+    totalPooled,
+    history,
+    isAdmin,
+    isLoading,
+    pendingAction,
+    error,
+    setPoolLicenseUri,
+    transferFromPool,
+    refresh: fetchPool,
+  };
+};
@@ -1,12 +1,14 @@
 import { useState, useEffect } from 'react';
-import { createPublicClient, http } from 'viem';
+import { Address, createPublicClient, http } from 'viem';
 import { mainnet } from 'viem/chains';
+import { normalize } from 'viem/ens';
 import { publicClient } from '@/app/config/viem';
 
 // Global cache and queue management
 const ensCache: { [address: string]: { name: string | null; timestamp: number } } = {};
 const ENS_CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
 const GLOBAL_ENS_MAP = new Map<string, string | null>();
+const ENS_ADDRESS_MAP = new Map<string, Address | null>();
 
 // Create a single shared mainnet client
 const mainnetClient = createPublicClient({
@@ -14,6 +16,22 @@ const mainnetClient = createPublicClient({
   transport: http(process.env.NEXT_PUBLIC_RPC_URL_ETHEREUM)
 });
 
+// Resolves an ENS name such as "vitalik.eth" to its address, or null when it has none
+export async function resolveEnsAddress(name: string): Promise<Address | null> {
+  const normalizedName = normalize(name.trim());
+  const cached = ENS_ADDRESS_MAP.get(normalizedName);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const address = await mainnetClient.getEnsAddress({ name: normalizedName });
+  ENS_ADDRESS_MAP.set(normalizedName, address);
+  if (address) {
+    GLOBAL_ENS_MAP.set(address, normalizedName);
+  }
+  return address;
+}
+
 // Batch ENS resolution hook
 export function useBatchEnsNames(addresses: string[]) {
   const [ensNames, setEnsNames] = useState<Record<string, string | null>>({});
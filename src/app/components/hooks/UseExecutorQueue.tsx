@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback } from 'react';
+import { type Abi, type Address, BaseError } from 'viem';
+import { publicClient } from '@/app/config/viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { useWallet } from '@/app/context/WalletContext';
+import { useNotification } from '@/app/context/NotificationContext';
+import { getExecutorQueue } from '../governance/GetExecutorQueue';
+import { getGovernorOperationsAddress } from '../governance/GetGovernorOperationsAddress';
+import { ExecutorHistoryEntry, ExecutorQueueEntry } from '@/app/utils/interfaces';
+import governorResearchAbi from '@/app/abi/GovernorResearch.json';
+import governorOperationsAbi from '@/app/abi/GovernorOperations.json';
+
+/**
+ * Loads the GovernorExecutor timelock queue and lets the connected user execute
+ * scheduled actions through the governor of the proposal that created them.
+ */
+export const useExecutorQueue = () => {
+  const [delay, setDelay] = useState(0);
+  const [scheduled, setScheduled] = useState<ExecutorQueueEntry[]>([]);
+  const [history, setHistory] = useState<ExecutorHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const networkInfo = useNetworkInfo();
+  const { state, writeContractGeneric, waitForTransactionGeneric } = useWallet();
+  const { addNotification } = useNotification();
+
+  const fetchQueue = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const queue = await getExecutorQueue();
+      setDelay(queue.delay);
+      setScheduled(queue.scheduled);
+      setHistory(queue.history);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching executor queue:', err);
+      setError('Failed to load the execution queue.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const executeAction = useCallback(
+    async (entry: ExecutorQueueEntry) => {
+      if (!state.address || entry.governor === null || entry.proposalIndex === null) {
+        return false;
+      }
+
+      const governor =
+        entry.governor === 'research'
+          ? {
+              address: networkInfo?.governorResearch as Address | undefined,
+              abi: governorResearchAbi as Abi,
+            }
+          : {
+              address: await getGovernorOperationsAddress(),
+              abi: governorOperationsAbi as Abi,
+            };
+      if (!governor.address) return false;
+
+      setPendingAction(entry.action);
+      try {
+        // A dry run surfaces the governor's eligibility checks before the wallet prompt
+        await publicClient.simulateContract({
+          address: governor.address,
+          abi: governor.abi,
+          functionName: 'execute',
+          args: [BigInt(entry.proposalIndex)],
+          account: state.address as Address,
+        });
+
+        const hash = await writeContractGeneric({
+          address: governor.address,
+          abi: governor.abi,
+          functionName: 'execute',
+          args: [BigInt(entry.proposalIndex)],
+        });
+        if (!hash) {
+          throw new Error('Transaction was rejected or failed to submit.');
+        }
+
+        const receipt = await waitForTransactionGeneric({ hash });
+        if (!receipt || receipt.status !== 'success') {
+          throw new Error('Transaction failed.');
+        }
+
+        addNotification('Action executed successfully.', 'success');
+        await fetchQueue();
+        return true;
+      } catch (err) {
+        console.error(`Error executing action ${entry.action}:`, err);
+        addNotification(
+          err instanceof BaseError
+            ? err.shortMessage
+            : err instanceof Error
+              ? err.message
+              : 'Failed to execute action.',
+          'error'
+        );
+        return false;
+      } finally {
+        setPendingAction(null);
+      }
+    },
+    [
+      state.address,
+      networkInfo?.governorResearch,
+      writeContractGeneric,
+      waitForTransactionGeneric,
+      addNotification,
+      fetchQueue,
+    ]
+  );
+
+  return {
+    delay,
+    scheduled,
+    history,
+    isLoading,
+    error,
+    pendingAction,
+    executeAction,
+    refresh: fetchQueue,
+  };
+};
@@ -0,0 +1,294 @@
+import { useState, useEffect, useCallback } from 'react';
+import { type Abi, type Address, type Hex, parseEventLogs } from 'viem';
+import { publicClient } from '@/app/config/viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { useWallet } from '@/app/context/WalletContext';
+import { useNotification } from '@/app/context/NotificationContext';
+import sparkIpNftAbi from '@/app/abi/SparkIPNFT.json';
+import licenseNftAbi from '@/app/abi/LicenseNFT.json';
+
+const ipNftAbi = sparkIpNftAbi as Abi;
+const licenseAbi = licenseNftAbi as Abi;
+
+// License details are read through multicall in chunks of this many calls
+const LICENSE_DETAILS_CHUNK_SIZE = 100;
+
+interface LicenseIssuedArgs {
+  ipNftId: bigint;
+  licenseNftId: bigint;
+  licensee: Address;
+  expirationTimestamp: bigint;
+}
+
+// Shared by LicenseProcessedOnExpiry and LicenseRevokedByDAO
+interface LicenseClosedArgs {
+  licenseNftId: bigint;
+}
+
+interface LicenseProcessedOnExpiryArgs {
+  licenseNftId: bigint;
+  licensee: Address;
+  processor: Address;
+}
+
+interface BatchLicenseProcessingCompletedArgs {
+  processedCount: bigint;
+  processor: Address;
+  totalReward: bigint;
+}
+
+interface LicenseDetails {
+  licensee: Address;
+  ipNftId: bigint;
+  expirationTimestamp: bigint;
+  sciAmountLocked: bigint;
+  usdcFeePaid: bigint;
+  active: boolean;
+}
+
+export interface ExpiredLicense {
+  licenseId: bigint;
+  ipNftId: bigint;
+  licensee: Address;
+  expiresAt: number;
+}
+
+export interface ProcessingSettings {
+  maxBatchSize: bigint;
+  expiryBufferTime: bigint;
+  poRewardAmount: bigint;
+}
+
+export interface ProcessingReport {
+  processed: { licenseId: bigint; licensee: Address }[];
+  processedCount: bigint;
+  totalReward: bigint;
+  transactionHashes: Hex[];
+  // Licenses left unprocessed because their batch failed or was never sent
+  unprocessedLicenseIds: bigint[];
+}
+
+/**
+ * Scans every license issued by SparkIPNFT for ones that are still active but past their
+ * expiration plus `expiryBufferTime`, and lets any wallet process them for PO rewards.
+ * Batches are split to `MAX_BATCH_PROCESS_SIZE` and sent one after another.
+ */
+export const useExpiredLicenseProcessing = () => {
+  const [expiredLicenses, setExpiredLicenses] = useState<ExpiredLicense[]>([]);
+  const [settings, setSettings] = useState<ProcessingSettings | null>(null);
+  const [report, setReport] = useState<ProcessingReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const networkInfo = useNetworkInfo();
+  const { state, writeContractGeneric, waitForTransactionGeneric } = useWallet();
+  const { addNotification } = useNotification();
+
+  const ipNftAddress = networkInfo?.sparkIpNft;
+
+  const fetchExpiredLicenses = useCallback(async () => {
+    if (!ipNftAddress) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [maxBatchSize, expiryBufferTime, poRewardAmount, licenseNftAddress] = await Promise.all([
+        publicClient.readContract({
+          address: ipNftAddress,
+          abi: ipNftAbi,
+          functionName: 'MAX_BATCH_PROCESS_SIZE',
+        }) as Promise<bigint>,
+        publicClient.readContract({
+          address: ipNftAddress,
+          abi: ipNftAbi,
+          functionName: 'expiryBufferTime',
+        }) as Promise<bigint>,
+        publicClient.readContract({
+          address: ipNftAddress,
+          abi: ipNftAbi,
+          functionName: 'poTokenRewardAmount',
+        }) as Promise<bigint>,
+        publicClient.readContract({
+          address: ipNftAddress,
+          abi: ipNftAbi,
+          functionName: 'licenseNftContractAddress',
+        }) as Promise<Address>,
+      ]);
+      setSettings({ maxBatchSize, expiryBufferTime, poRewardAmount });
+
+      const [issuedLogs, processedLogs, revokedLogs] = await Promise.all(
+        (['LicenseIssued', 'LicenseProcessedOnExpiry', 'LicenseRevokedByDAO'] as const).map((eventName) =>
+          publicClient.getContractEvents({
+            address: ipNftAddress,
+            abi: ipNftAbi,
+            eventName,
+            fromBlock: BigInt(0),
+            toBlock: 'latest',
+          })
+        )
+      );
+
+      // Processed and revoked licenses are inactive for good, so only the rest need their details read
+      const closedLicenseIds = new Set(
+        [...processedLogs, ...revokedLogs].map((log) =>
+          (log.args as unknown as LicenseClosedArgs).licenseNftId.toString()
+        )
+      );
+      const licenseIds = issuedLogs
+        .map((log) => (log.args as unknown as LicenseIssuedArgs).licenseNftId)
+        .filter((licenseId) => !closedLicenseIds.has(licenseId.toString()));
+
+      // Renewals move the expiration, so the current details are authoritative rather than the event
+      const cutoff = BigInt(Math.floor(Date.now() / 1000)) - expiryBufferTime;
+      const candidates: ExpiredLicense[] = [];
+      for (let i = 0; i < licenseIds.length; i += LICENSE_DETAILS_CHUNK_SIZE) {
+        const chunk = licenseIds.slice(i, i + LICENSE_DETAILS_CHUNK_SIZE);
+        const results = await publicClient.multicall({
+          contracts: chunk.map((licenseId) => ({
+            address: licenseNftAddress,
+            abi: licenseAbi,
+            functionName: 'getLicenseDetails',
+            args: [licenseId],
+          })),
+        });
+
+        results.forEach((result, index) => {
+          // Burned licenses no longer have details
+          if (result.status !== 'success') return;
+          const details = result.result as LicenseDetails;
+          if (!details.active || details.expirationTimestamp > cutoff) return;
+
+          candidates.push({
+            licenseId: chunk[index],
+            ipNftId: details.ipNftId,
+            licensee: details.licensee,
+            expiresAt: Number(details.expirationTimestamp),
+          });
+        });
+      }
+
+      setExpiredLicenses(candidates.sort((a, b) => a.expiresAt - b.expiresAt));
+    } catch (err) {
+      console.error('Error scanning for expired licenses:', err);
+      setError('Failed to scan for expired licenses.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ipNftAddress]);
+
+  useEffect(() => {
+    fetchExpiredLicenses();
+  }, [fetchExpiredLicenses]);
+
+  const processLicenses = useCallback(
+    async (licenseIds: bigint[]) => {
+      if (!ipNftAddress || !settings || licenseIds.length === 0) return;
+      if (!state.isConnected || !state.address) {
+        addNotification('Please connect your wallet to continue.', 'error');
+        return;
+      }
+
+      const batchSize = Number(settings.maxBatchSize) || licenseIds.length;
+      const batches: bigint[][] = [];
+      for (let i = 0; i < licenseIds.length; i += batchSize) {
+        batches.push(licenseIds.slice(i, i + batchSize));
+      }
+
+      const result: ProcessingReport = {
+        processed: [],
+        processedCount: BigInt(0),
+        totalReward: BigInt(0),
+        transactionHashes: [],
+        unprocessedLicenseIds: [],
+      };
+
+      setIsProcessing(true);
+      setReport(null);
+      try {
+        for (let index = 0; index < batches.length; index++) {
+          const batch = batches[index];
+          try {
+            const hash = await writeContractGeneric({
+              address: ipNftAddress,
+              abi: ipNftAbi,
+              functionName: 'batchProcessExpiredLicenses',
+              args: [batch],
+            });
+            if (!hash) {
+              throw new Error('Transaction was rejected or failed to submit.');
+            }
+
+            const receipt = await waitForTransactionGeneric({ hash });
+            if (!receipt || receipt.status !== 'success') {
+              throw new Error('Transaction failed.');
+            }
+            result.transactionHashes.push(hash);
+
+            const ipNftLogs = receipt.logs.filter(
+              (log) => log.address.toLowerCase() === ipNftAddress.toLowerCase()
+            );
+            for (const log of parseEventLogs({
+              abi: ipNftAbi,
+              logs: ipNftLogs,
+              eventName: 'LicenseProcessedOnExpiry',
+            })) {
+              const { licenseNftId, licensee } = log.args as unknown as LicenseProcessedOnExpiryArgs;
+              result.processed.push({ licenseId: licenseNftId, licensee });
+            }
+            for (const log of parseEventLogs({
+              abi: ipNftAbi,
+              logs: ipNftLogs,
+              eventName: 'BatchLicenseProcessingCompleted',
+            })) {
+              const { processedCount, totalReward } = log.args as unknown as BatchLicenseProcessingCompletedArgs;
+              result.processedCount += processedCount;
+              result.totalReward += totalReward;
+            }
+          } catch (err) {
+            console.error(`Error processing expired license batch ${index + 1}:`, err);
+            addNotification(
+              `Batch ${index + 1} of ${batches.length} failed: ${err instanceof Error ? err.message : 'Transaction failed.'}`,
+              'error'
+            );
+            result.unprocessedLicenseIds = batches.slice(index).flat();
+            break;
+          }
+        }
+
+        if (result.transactionHashes.length > 0) {
+          addNotification(
+            `Processed ${result.processedCount.toString()} expired licenses for ${result.totalReward.toString()} PO.`,
+            'success'
+          );
+        }
+        setReport(result);
+        await fetchExpiredLicenses();
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    [
+      ipNftAddress,
+      settings,
+      state.isConnected,
+      state.address,
+      writeContractGeneric,
+      waitForTransactionGeneric,
+      addNotification,
+      fetchExpiredLicenses,
+    ]
+  );
+
+  return {
+    expiredLicenses,
+    settings,
+    report,
+    isLoading,
+    isProcessing,
+    error,
+    processLicenses,
+    refresh: fetchExpiredLicenses,
+  };
+};
@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from 'react';
+import { type Abi, type Address, zeroAddress } from 'viem';
+import { publicClient } from '@/app/config/viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import actionCloneFactoryResearchAbi from '@/app/abi/ActionCloneFactoryResearch.json';
+
+const factoryAbi = actionCloneFactoryResearchAbi as Abi;
+
+/**
+ * Checks whether a proposal's action contract was deployed by the research action clone factory.
+ * `isFactoryAction` stays null for proposals without an action or while the check is pending.
+ */
+export const useFactoryAction = (action: Address | undefined) => {
+  const [isFactoryAction, setIsFactoryAction] = useState<boolean | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const networkInfo = useNetworkInfo();
+
+  const factoryAddress = networkInfo?.actionFactoryResearch;
+
+  const fetchIsFactoryAction = useCallback(async () => {
+    if (!factoryAddress || !action || action === zeroAddress) {
+      setIsFactoryAction(null);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setIsFactoryAction(
+        (await publicClient.readContract({
+          address: factoryAddress,
+          abi: factoryAbi,
+          functionName: 'isFactoryAction',
+          args: [action],
+        })) as boolean
+      );
+    } catch (err) {
+      console.error(`Error checking whether ${action} is a factory action:`, err);
+      setIsFactoryAction(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [factoryAddress, action]);
+
+  useEffect(() => {
+    fetchIsFactoryAction();
+  }, [fetchIsFactoryAction]);
+
+  return { isFactoryAction, isLoading, refresh: fetchIsFactoryAction };
+};
@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback } from 'react';
+import { type Abi, type Address, type Hex } from 'viem';
+import { publicClient } from '@/app/config/viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import sparkIdeaRegistryAbi from '@/app/abi/SparkIdeaRegistry.json';
+import sparkIpNftAbi from '@/app/abi/SparkIPNFT.json';
+
+const registryAbi = sparkIdeaRegistryAbi as Abi;
+const ipNftAbi = sparkIpNftAbi as Abi;
+
+interface OnchainIdea {
+  ideator: Address;
+  provisionalPatentId: string;
+  copyleftLicenseURI: string;
+}
+
+interface IdeaFinalizedArgs {
+  ideaId: Hex;
+  ideator: Address;
+  finalIpfsHash: string;
+  timestamp: bigint;
+}
+
+interface IPNFTMintedArgs {
+  tokenId: bigint;
+  sparkIdeaId: Hex;
+}
+
+export interface FinalizedIdea {
+  ideaId: Hex;
+  ideator: Address;
+  finalContentHash: string;
+  finalizedAt: number;
+  provisionalPatentId: string;
+  copyleftLicenseURI: string;
+  // Set once an IP-NFT has been minted from the idea
+  ipNftId: bigint | null;
+}
+
+/**
+ * Lists every finalized Spark idea from the registry's IdeaFinalized events, newest first,
+ * with the IP-NFT minted from it if there is one.
+ */
+export const useFinalizedIdeas = () => {
+  const [ideas, setIdeas] = useState<FinalizedIdea[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const networkInfo = useNetworkInfo();
+
+  const registryAddress = networkInfo?.sparkIdeaRegistry;
+  const ipNftAddress = networkInfo?.sparkIpNft;
+
+  const fetchIdeas = useCallback(async () => {
+    if (!registryAddress || !ipNftAddress) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [finalizedLogs, mintedLogs] = await Promise.all([
+        publicClient.getContractEvents({
+          address: registryAddress,
+          abi: registryAbi,
+          eventName: 'IdeaFinalized',
+          fromBlock: BigInt(0),
+          toBlock: 'latest',
+        }),
+        publicClient.getContractEvents({
+          address: ipNftAddress,
+          abi: ipNftAbi,
+          eventName: 'IPNFTMinted',
+          fromBlock: BigInt(0),
+          toBlock: 'latest',
+        }),
+      ]);
+
+      const ipNftByIdea = new Map<string, bigint>();
+      for (const log of mintedLogs) {
+        const { tokenId, sparkIdeaId } = log.args as unknown as IPNFTMintedArgs;
+        ipNftByIdea.set(sparkIdeaId.toLowerCase(), tokenId);
+      }
+
+      const entries = await Promise.all(
+        finalizedLogs.map(async (log) => {
+          const args = log.args as unknown as IdeaFinalizedArgs;
+          const idea = (await publicClient.readContract({
+            address: registryAddress,
+            abi: registryAbi,
+            functionName: 'getIdea',
+            args: [args.ideaId],
+          })) as OnchainIdea;
+
+          const finalizedIdea: FinalizedIdea = {
+            ideaId: args.ideaId,
+            ideator: idea.ideator,
+            finalContentHash: args.finalIpfsHash,
+            finalizedAt: Number(args.timestamp),
+            provisionalPatentId: idea.provisionalPatentId,
+            copyleftLicenseURI: idea.copyleftLicenseURI,
+            ipNftId: ipNftByIdea.get(args.ideaId.toLowerCase()) ?? null,
+          };
+          return finalizedIdea;
+        })
+      );
+
+      setIdeas(entries.sort((a, b) => b.finalizedAt - a.finalizedAt));
+    } catch (err) {
+      console.error('Error fetching finalized ideas:', err);
+      setError('Failed to load finalized ideas.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [registryAddress, ipNftAddress]);
+
+  useEffect(() => {
+    fetchIdeas();
+  }, [fetchIdeas]);
+
+  return { ideas, isLoading, error, refresh: fetchIdeas };
+};
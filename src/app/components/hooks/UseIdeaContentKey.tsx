@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useWallet } from '@/app/context/WalletContext';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { createSignedRequest } from '@/app/utils/signedRequests';
+
+// Released keys are kept in memory for the session, keyed by `${address}:${ideaId}`, so every
+// component showing the same idea shares one signature
+const contentKeyCache = new Map<string, string>();
+const contentKeyListeners = new Set<() => void>();
+
+/**
+ * Requests the key that decrypts an idea's confidential fields. The key is only released to the
+ * submitter, reviewers and wallets that attested to the idea's NDA, and the request has to be
+ * signed, so nothing is fetched until `unlock` is called.
+ */
+export const useIdeaContentKey = (ideaId: number | null | undefined) => {
+  const { state, signMessage, generateSignInMessage } = useWallet();
+  const networkInfo = useNetworkInfo();
+  const cacheKey = ideaId && state.address ? `${state.address.toLowerCase()}:${ideaId}` : null;
+
+  const [contentKey, setContentKey] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    const syncFromCache = () => setContentKey(cacheKey ? contentKeyCache.get(cacheKey) ?? null : null);
+    syncFromCache();
+    contentKeyListeners.add(syncFromCache);
+    return () => {
+      contentKeyListeners.delete(syncFromCache);
+    };
+  }, [cacheKey]);
+
+  const unlock = useCallback(async () => {
+    if (!ideaId || !state.address || !cacheKey) {
+      setError('Please connect your wallet to decrypt this idea.');
+      return;
+    }
+    const chainId = state.chainId ? parseInt(state.chainId, 16) : networkInfo?.chainId;
+    if (!chainId) {
+      setError('Could not determine chain ID for signing. Please reconnect your wallet or refresh.');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { signature, signedMessage } = await createSignedRequest(
+        state.address,
+        chainId,
+        generateSignInMessage,
+        signMessage
+      );
+      const response = await fetch(`/api/ideas/${ideaId}/content-key`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-eth-address': state.address,
+          'x-eth-signature': signature,
+        },
+        body: JSON.stringify({ signedMessage }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch content key');
+      }
+
+      contentKeyCache.set(cacheKey, result.key);
+      contentKeyListeners.forEach((listener) => listener());
+    } catch (err) {
+      console.error(`Error fetching content key for idea ${ideaId}:`, err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch content key');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ideaId, cacheKey, state.address, state.chainId, networkInfo?.chainId, generateSignInMessage, signMessage]);
+
+  return { contentKey, isLoading, error, unlock };
+};
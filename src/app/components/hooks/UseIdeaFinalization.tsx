@@ -0,0 +1,285 @@
+import { useState, useEffect, useCallback } from 'react';
+import { type Abi, type Address, type Hex, zeroHash } from 'viem';
+import { publicClient } from '@/app/config/viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { useWallet } from '@/app/context/WalletContext';
+import { useNotification } from '@/app/context/NotificationContext';
+import sparkIdeaRegistryAbi from '@/app/abi/SparkIdeaRegistry.json';
+import attestationVaultAbi from '@/app/abi/AttestationVault.json';
+
+const registryAbi = sparkIdeaRegistryAbi as Abi;
+const vaultAbi = attestationVaultAbi as Abi;
+
+interface OnchainIdea {
+  ideaId: Hex;
+  ideator: Address;
+  ipfsHash: string;
+  submissionTimestamp: bigint;
+  approvalCount: bigint;
+  approvalStatus: number;
+  provisionalPatentId: string;
+  copyleftLicenseURI: string;
+  lastModifiedTimestamp: bigint;
+}
+
+interface IdeaFinalizedArgs {
+  ideaId: Hex;
+  ideator: Address;
+  finalIpfsHash: string;
+  timestamp: bigint;
+}
+
+interface IdeaNdaHashRegisteredArgs {
+  ideaId: Hex;
+  ndaHash: Hex;
+}
+
+export interface IdeaFinalizationState {
+  ideator: Address | null;
+  isApproved: boolean;
+  isFinalized: boolean;
+  finalContentHash: string | null;
+  finalizedAt: number | null;
+  registryNdaHash: Hex | null;
+  vaultNdaHash: Hex | null;
+  licenseUri: string;
+  provisionalPatentId: string;
+  isIdeator: boolean;
+  isAdmin: boolean;
+}
+
+const emptyFinalizationState: IdeaFinalizationState = {
+  ideator: null,
+  isApproved: false,
+  isFinalized: false,
+  finalContentHash: null,
+  finalizedAt: null,
+  registryNdaHash: null,
+  vaultNdaHash: null,
+  licenseUri: '',
+  provisionalPatentId: '',
+  isIdeator: false,
+  isAdmin: false,
+};
+
+type FinalizationAction = 'finalize' | 'registryNda' | 'vaultNda' | 'licenseUri' | 'patentId';
+
+export const useIdeaFinalization = (ideaId: Hex | undefined) => {
+  const [finalizationState, setFinalizationState] =
+    useState<IdeaFinalizationState>(emptyFinalizationState);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<FinalizationAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const networkInfo = useNetworkInfo();
+  const { state, writeContractGeneric, waitForTransactionGeneric } = useWallet();
+  const { addNotification } = useNotification();
+
+  const registryAddress = networkInfo?.sparkIdeaRegistry;
+  const vaultAddress = networkInfo?.attestationVault;
+
+  const fetchFinalizationState = useCallback(async () => {
+    if (!registryAddress || !vaultAddress || !ideaId) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setError(null);
+      const readRegistry = (functionName: string, args: unknown[] = []) =>
+        publicClient.readContract({
+          address: registryAddress,
+          abi: registryAbi,
+          functionName,
+          args,
+        });
+
+      const adminRole = (await readRegistry('DEFAULT_ADMIN_ROLE')) as Hex;
+      const [idea, isApproved, isFinalized, vaultNdaHash, isAdmin, finalizedLogs, ndaLogs] =
+        await Promise.all([
+          readRegistry('getIdea', [ideaId]) as Promise<OnchainIdea>,
+          readRegistry('isIdeaApprovedByReviewers', [ideaId]) as Promise<boolean>,
+          readRegistry('isIdeaFinalized', [ideaId]) as Promise<boolean>,
+          publicClient.readContract({
+            address: vaultAddress,
+            abi: vaultAbi,
+            functionName: 'getIdeaNdaHash',
+            args: [ideaId],
+          }) as Promise<Hex>,
+          state.address
+            ? (readRegistry('hasRole', [adminRole, state.address]) as Promise<boolean>)
+            : Promise.resolve(false),
+          publicClient.getContractEvents({
+            address: registryAddress,
+            abi: registryAbi,
+            eventName: 'IdeaFinalized',
+            args: { ideaId },
+            fromBlock: BigInt(0),
+            toBlock: 'latest',
+          }),
+          // The registry has no getter for the NDA hash, so the latest registration event is used
+          publicClient.getContractEvents({
+            address: registryAddress,
+            abi: registryAbi,
+            eventName: 'IdeaNdaHashRegistered',
+            args: { ideaId },
+            fromBlock: BigInt(0),
+            toBlock: 'latest',
+          }),
+        ]);
+
+      const finalized = finalizedLogs.at(-1)?.args as unknown as IdeaFinalizedArgs | undefined;
+      const registeredNda = ndaLogs.at(-1)?.args as unknown as IdeaNdaHashRegisteredArgs | undefined;
+
+      setFinalizationState({
+        ideator: idea.ideator,
+        isApproved,
+        isFinalized,
+        finalContentHash: finalized?.finalIpfsHash ?? null,
+        finalizedAt: finalized ? Number(finalized.timestamp) : null,
+        registryNdaHash: registeredNda?.ndaHash ?? null,
+        vaultNdaHash: vaultNdaHash && vaultNdaHash !== zeroHash ? vaultNdaHash : null,
+        licenseUri: idea.copyleftLicenseURI,
+        provisionalPatentId: idea.provisionalPatentId,
+        isIdeator: idea.ideator.toLowerCase() === state.address?.toLowerCase(),
+        isAdmin,
+      });
+    } catch (err) {
+      console.error('Error fetching idea finalization state:', err);
+      setError('Failed to load the on-chain finalization state.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [registryAddress, vaultAddress, ideaId, state.address]);
+
+  useEffect(() => {
+    fetchFinalizationState();
+  }, [fetchFinalizationState]);
+
+  // Sends one wizard transaction, waits for it and reloads the on-chain state.
+  const runAction = useCallback(
+    async (
+      action: FinalizationAction,
+      request: { address: Address; abi: Abi; functionName: string; args: unknown[] },
+      successMessage: string
+    ) => {
+      if (!state.isConnected || !state.address) {
+        addNotification('Please connect your wallet to continue.', 'error');
+        return false;
+      }
+
+      setPendingAction(action);
+      try {
+        const hash = await writeContractGeneric(request);
+        if (!hash) {
+          throw new Error('Transaction was rejected or failed to submit.');
+        }
+
+        const receipt = await waitForTransactionGeneric({ hash });
+        if (!receipt || receipt.status !== 'success') {
+          throw new Error('Transaction failed.');
+        }
+
+        addNotification(successMessage, 'success');
+        await fetchFinalizationState();
+        return true;
+      } catch (err) {
+        console.error(`Error running finalization step ${action}:`, err);
+        addNotification(err instanceof Error ? err.message : 'Transaction failed.', 'error');
+        return false;
+      } finally {
+        setPendingAction(null);
+      }
+    },
+    [
+      state.isConnected,
+      state.address,
+      writeContractGeneric,
+      waitForTransactionGeneric,
+      addNotification,
+      fetchFinalizationState,
+    ]
+  );
+
+  const finalizeIdea = useCallback(async () => {
+    if (!registryAddress || !ideaId) return false;
+    return runAction(
+      'finalize',
+      { address: registryAddress, abi: registryAbi, functionName: 'finalizeIdea', args: [ideaId] },
+      'Idea finalized on-chain.'
+    );
+  }, [registryAddress, ideaId, runAction]);
+
+  const registerNdaHash = useCallback(
+    async (target: 'registry' | 'vault', ndaHash: Hex) => {
+      if (!registryAddress || !vaultAddress || !ideaId) return false;
+      return target === 'registry'
+        ? runAction(
+            'registryNda',
+            {
+              address: registryAddress,
+              abi: registryAbi,
+              functionName: 'setIdeaNdaHash',
+              args: [ideaId, ndaHash],
+            },
+            'NDA hash registered on SparkIdeaRegistry.'
+          )
+        : runAction(
+            'vaultNda',
+            {
+              address: vaultAddress,
+              abi: vaultAbi,
+              functionName: 'setIdeaNdaHash',
+              args: [ideaId, ndaHash],
+            },
+            'NDA hash registered on AttestationVault.'
+          );
+    },
+    [registryAddress, vaultAddress, ideaId, runAction]
+  );
+
+  const setLicenseUri = useCallback(
+    async (licenseUri: string) => {
+      if (!registryAddress || !ideaId) return false;
+      return runAction(
+        'licenseUri',
+        {
+          address: registryAddress,
+          abi: registryAbi,
+          functionName: 'setIdeaLicenseURI',
+          args: [ideaId, licenseUri],
+        },
+        'License URI attached to the idea.'
+      );
+    },
+    [registryAddress, ideaId, runAction]
+  );
+
+  const setProvisionalPatentId = useCallback(
+    async (patentId: string) => {
+      if (!registryAddress || !ideaId) return false;
+      return runAction(
+        'patentId',
+        {
+          address: registryAddress,
+          abi: registryAbi,
+          functionName: 'setProvisionalPatentId',
+          args: [ideaId, patentId],
+        },
+        'Provisional patent ID recorded.'
+      );
+    },
+    [registryAddress, ideaId, runAction]
+  );
+
+  return {
+    ...finalizationState,
+    isLoading,
+    pendingAction,
+    error,
+    finalizeIdea,
+    registerNdaHash,
+    setLicenseUri,
+    setProvisionalPatentId,
+    refresh: fetchFinalizationState,
+  };
+};
@@ -0,0 +1,184 @@
+import { useState, useEffect, useCallback } from 'react';
+import { type Abi, type Address, type Hex } from 'viem';
+import { publicClient } from '@/app/config/viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import sparkIdeaRegistryAbi from '@/app/abi/SparkIdeaRegistry.json';
+import sparkIpNftAbi from '@/app/abi/SparkIPNFT.json';
+import licenseNftAbi from '@/app/abi/LicenseNFT.json';
+
+const registryAbi = sparkIdeaRegistryAbi as Abi;
+const ipNftAbi = sparkIpNftAbi as Abi;
+const licenseAbi = licenseNftAbi as Abi;
+
+interface OnchainIdea {
+  ideator: Address;
+  submissionTimestamp: bigint;
+  approvalCount: bigint;
+  approvalStatus: number;
+  lastModifiedTimestamp: bigint;
+}
+
+interface IdeaFinalizedArgs {
+  ideaId: Hex;
+  timestamp: bigint;
+}
+
+interface IPNFTMintedArgs {
+  tokenId: bigint;
+  sparkIdeaId: Hex;
+}
+
+interface IPNFTDetails {
+  creationTimestamp: bigint;
+}
+
+export interface IdeaLifecycle {
+  submittedAt: number;
+  approvalCount: number;
+  approvalStatus: number;
+  modificationCount: number;
+  lastModifiedAt: number | null;
+  isFinalized: boolean;
+  finalizedAt: number | null;
+  ipNftId: bigint | null;
+  ipNftMintedAt: number | null;
+  licenseCount: number;
+}
+
+/**
+ * Loads the on-chain lifecycle of a set of Spark ideas: review approvals, amendments,
+ * finalization, the IP-NFT minted from the idea and the licenses issued on it.
+ * Results are keyed by lowercased on-chain idea ID.
+ */
+export const useIdeaLifecycle = (onchainIdeaIds: string[]) => {
+  const [lifecycles, setLifecycles] = useState<Record<string, IdeaLifecycle>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const networkInfo = useNetworkInfo();
+
+  const registryAddress = networkInfo?.sparkIdeaRegistry;
+  const ipNftAddress = networkInfo?.sparkIpNft;
+  const idsKey = onchainIdeaIds.map((id) => id.toLowerCase()).join(',');
+
+  const fetchLifecycles = useCallback(async () => {
+    const ideaIds = idsKey ? (idsKey.split(',') as Hex[]) : [];
+    if (!registryAddress || !ipNftAddress || ideaIds.length === 0) {
+      setLifecycles({});
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      // sparkIdeaId is not indexed on IPNFTMinted, so all mints are read once and matched locally
+      const [mintedLogs, finalizedLogs, licenseNftAddress] = await Promise.all([
+        publicClient.getContractEvents({
+          address: ipNftAddress,
+          abi: ipNftAbi,
+          eventName: 'IPNFTMinted',
+          fromBlock: BigInt(0),
+          toBlock: 'latest',
+        }),
+        publicClient.getContractEvents({
+          address: registryAddress,
+          abi: registryAbi,
+          eventName: 'IdeaFinalized',
+          args: { ideaId: ideaIds },
+          fromBlock: BigInt(0),
+          toBlock: 'latest',
+        }),
+        publicClient.readContract({
+          address: ipNftAddress,
+          abi: ipNftAbi,
+          functionName: 'licenseNftContractAddress',
+        }) as Promise<Address>,
+      ]);
+
+      const ipNftByIdea = new Map<string, bigint>();
+      for (const log of mintedLogs) {
+        const { tokenId, sparkIdeaId } = log.args as unknown as IPNFTMintedArgs;
+        ipNftByIdea.set(sparkIdeaId.toLowerCase(), tokenId);
+      }
+      const finalizedAtByIdea = new Map<string, number>();
+      for (const log of finalizedLogs) {
+        const { ideaId, timestamp } = log.args as unknown as IdeaFinalizedArgs;
+        finalizedAtByIdea.set(ideaId.toLowerCase(), Number(timestamp));
+      }
+
+      const entries = await Promise.all(
+        ideaIds.map(async (ideaId) => {
+          const [idea, isFinalized, modificationCount] = await Promise.all([
+            publicClient.readContract({
+              address: registryAddress,
+              abi: registryAbi,
+              functionName: 'getIdea',
+              args: [ideaId],
+            }) as Promise<OnchainIdea>,
+            publicClient.readContract({
+              address: registryAddress,
+              abi: registryAbi,
+              functionName: 'isIdeaFinalized',
+              args: [ideaId],
+            }) as Promise<boolean>,
+            publicClient.readContract({
+              address: registryAddress,
+              abi: registryAbi,
+              functionName: 'getModificationCount',
+              args: [ideaId],
+            }) as Promise<bigint>,
+          ]);
+
+          const ipNftId = ipNftByIdea.get(ideaId) ?? null;
+          let ipNftMintedAt: number | null = null;
+          let licenseCount = 0;
+          if (ipNftId !== null) {
+            const [details, count] = await Promise.all([
+              publicClient.readContract({
+                address: ipNftAddress,
+                abi: ipNftAbi,
+                functionName: 'getIPNFTDetails',
+                args: [ipNftId],
+              }) as Promise<IPNFTDetails>,
+              publicClient.readContract({
+                address: licenseNftAddress,
+                abi: licenseAbi,
+                functionName: 'getLicenseCountByIpNft',
+                args: [ipNftId],
+              }) as Promise<bigint>,
+            ]);
+            ipNftMintedAt = Number(details.creationTimestamp);
+            licenseCount = Number(count);
+          }
+
+          const lifecycle: IdeaLifecycle = {
+            submittedAt: Number(idea.submissionTimestamp),
+            approvalCount: Number(idea.approvalCount),
+            approvalStatus: Number(idea.approvalStatus),
+            modificationCount: Number(modificationCount),
+            lastModifiedAt:
+              Number(modificationCount) > 0 ? Number(idea.lastModifiedTimestamp) : null,
+            isFinalized,
+            finalizedAt: finalizedAtByIdea.get(ideaId) ?? null,
+            ipNftId,
+            ipNftMintedAt,
+            licenseCount,
+          };
+          return [ideaId, lifecycle] as const;
+        })
+      );
+
+      setLifecycles(Object.fromEntries(entries));
+    } catch (err) {
+      console.error('Error fetching idea lifecycle:', err);
+      setError('Failed to load on-chain idea data.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [registryAddress, ipNftAddress, idsKey]);
+
+  useEffect(() => {
+    fetchLifecycles();
+  }, [fetchLifecycles]);
+
+  return { lifecycles, isLoading, error, refresh: fetchLifecycles };
+};
@@ -0,0 +1,257 @@
+import { useState, useEffect, useCallback } from 'react';
+import { type Abi, type Address, type Hex, decodeEventLog } from 'viem';
+import { publicClient } from '@/app/config/viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { useWallet } from '@/app/context/WalletContext';
+import { useNotification } from '@/app/context/NotificationContext';
+import sparkIdeaRegistryAbi from '@/app/abi/SparkIdeaRegistry.json';
+
+const registryAbi = sparkIdeaRegistryAbi as Abi;
+
+export interface ReviewerVote {
+  reviewer: Address;
+  hasVoted: boolean;
+  support: boolean;
+}
+
+export interface IdeaReviewVoteState {
+  reviewerVotes: ReviewerVote[];
+  approvalCount: number;
+  totalReviewers: number;
+  thresholdPercent: number;
+  requiredApprovals: number;
+  isApproved: boolean;
+  approvalStatus: number;
+  isReviewer: boolean;
+}
+
+const emptyVoteState: IdeaReviewVoteState = {
+  reviewerVotes: [],
+  approvalCount: 0,
+  totalReviewers: 0,
+  thresholdPercent: 0,
+  requiredApprovals: 0,
+  isApproved: false,
+  approvalStatus: 0,
+  isReviewer: false,
+};
+
+interface RoleEventArgs {
+  role: Hex;
+  account: Address;
+}
+
+interface IdeaReviewVoteCastArgs {
+  ideaId: Hex;
+  reviewer: Address;
+  support: boolean;
+}
+
+export const useIdeaReviewVotes = (ideaId: Hex | undefined) => {
+  const [voteState, setVoteState] = useState<IdeaReviewVoteState>(emptyVoteState);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isVoting, setIsVoting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const networkInfo = useNetworkInfo();
+  const { state, writeContractGeneric, waitForTransactionGeneric } = useWallet();
+  const { addNotification } = useNotification();
+
+  const registryAddress = networkInfo?.sparkIdeaRegistry;
+
+  // Rebuilds the current reviewer set by replaying REVIEWER_ROLE grants and revocations.
+  const fetchReviewers = useCallback(async (): Promise<Address[]> => {
+    if (!registryAddress) return [];
+
+    const reviewerRole = (await publicClient.readContract({
+      address: registryAddress,
+      abi: registryAbi,
+      functionName: 'REVIEWER_ROLE',
+    })) as Hex;
+
+    const [granted, revoked] = await Promise.all([
+      publicClient.getContractEvents({
+        address: registryAddress,
+        abi: registryAbi,
+        eventName: 'RoleGranted',
+        args: { role: reviewerRole },
+        fromBlock: BigInt(0),
+        toBlock: 'latest',
+      }),
+      publicClient.getContractEvents({
+        address: registryAddress,
+        abi: registryAbi,
+        eventName: 'RoleRevoked',
+        args: { role: reviewerRole },
+        fromBlock: BigInt(0),
+        toBlock: 'latest',
+      }),
+    ]);
+
+    const ordered = [...granted, ...revoked].sort((a, b) =>
+      a.blockNumber === b.blockNumber
+        ? a.logIndex - b.logIndex
+        : Number(a.blockNumber - b.blockNumber)
+    );
+
+    const reviewers = new Map<string, Address>();
+    for (const log of ordered) {
+      const { account } = log.args as unknown as RoleEventArgs;
+      if (log.eventName === 'RoleGranted') {
+        reviewers.set(account.toLowerCase(), account);
+      } else {
+        reviewers.delete(account.toLowerCase());
+      }
+    }
+    return Array.from(reviewers.values());
+  }, [registryAddress]);
+
+  const fetchVoteState = useCallback(async () => {
+    if (!registryAddress || !ideaId) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setError(null);
+      const readRegistry = (functionName: string, args: unknown[] = []) =>
+        publicClient.readContract({
+          address: registryAddress,
+          abi: registryAbi,
+          functionName,
+          args,
+        });
+
+      const [reviewers, approvalCount, totalReviewers, thresholdPercent, isApproved, approvalStatus] =
+        await Promise.all([
+          fetchReviewers(),
+          readRegistry('getApprovalCount', [ideaId]) as Promise<bigint>,
+          readRegistry('totalReviewers') as Promise<bigint>,
+          readRegistry('reviewerApprovalThresholdPercent') as Promise<bigint>,
+          readRegistry('isIdeaApprovedByReviewers', [ideaId]) as Promise<boolean>,
+          readRegistry('getIdeaApprovalStatus', [ideaId]) as Promise<number>,
+        ]);
+
+      const reviewerVotes = await Promise.all(
+        reviewers.map(async (reviewer) => {
+          const [hasVoted, support] = (await readRegistry('getReviewerVote', [
+            ideaId,
+            reviewer,
+          ])) as [boolean, boolean];
+          return { reviewer, hasVoted, support };
+        })
+      );
+
+      const total = Number(totalReviewers);
+      const threshold = Number(thresholdPercent);
+
+      setVoteState({
+        reviewerVotes,
+        approvalCount: Number(approvalCount),
+        totalReviewers: total,
+        thresholdPercent: threshold,
+        requiredApprovals: Math.ceil((total * threshold) / 100),
+        isApproved,
+        approvalStatus: Number(approvalStatus),
+        isReviewer: reviewers.some(
+          (reviewer) => reviewer.toLowerCase() === state.address?.toLowerCase()
+        ),
+      });
+    } catch (err) {
+      console.error('Error fetching idea review votes:', err);
+      setError('Failed to load on-chain review votes.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [registryAddress, ideaId, fetchReviewers, state.address]);
+
+  useEffect(() => {
+    fetchVoteState();
+  }, [fetchVoteState]);
+
+  // Reflect votes cast by any reviewer as soon as they are mined
+  useEffect(() => {
+    if (!registryAddress || !ideaId) return;
+
+    const unwatch = publicClient.watchContractEvent({
+      address: registryAddress,
+      abi: registryAbi,
+      eventName: 'IdeaReviewVoteCast',
+      args: { ideaId },
+      onLogs: (logs) => {
+        for (const log of logs) {
+          const decodedLog = decodeEventLog({
+            abi: registryAbi,
+            data: log.data,
+            topics: log.topics,
+          });
+          const args = decodedLog.args as unknown as IdeaReviewVoteCastArgs;
+          if (args?.ideaId?.toLowerCase() === ideaId.toLowerCase()) {
+            fetchVoteState();
+            break;
+          }
+        }
+      },
+    });
+
+    return () => {
+      unwatch();
+    };
+  }, [registryAddress, ideaId, fetchVoteState]);
+
+  const castVote = useCallback(
+    async (support: boolean) => {
+      if (!registryAddress || !ideaId) return false;
+      if (!state.isConnected || !state.address) {
+        addNotification('Please connect your wallet to vote.', 'error');
+        return false;
+      }
+
+      setIsVoting(true);
+      try {
+        const hash = await writeContractGeneric({
+          address: registryAddress,
+          abi: registryAbi,
+          functionName: 'voteOnIdea',
+          args: [ideaId, support],
+        });
+        if (!hash) {
+          throw new Error('Vote transaction was rejected or failed to submit.');
+        }
+
+        const receipt = await waitForTransactionGeneric({ hash });
+        if (!receipt || receipt.status !== 'success') {
+          throw new Error('Vote transaction failed.');
+        }
+
+        addNotification(`Your ${support ? 'approval' : 'rejection'} vote was recorded on-chain.`, 'success');
+        await fetchVoteState();
+        return true;
+      } catch (err) {
+        console.error('Error casting idea review vote:', err);
+        addNotification(err instanceof Error ? err.message : 'Failed to cast vote.', 'error');
+        return false;
+      } finally {
+        setIsVoting(false);
+      }
+    },
+    [
+      registryAddress,
+      ideaId,
+      state.isConnected,
+      state.address,
+      writeContractGeneric,
+      waitForTransactionGeneric,
+      addNotification,
+      fetchVoteState,
+    ]
+  );
+
+  return {
+    ...voteState,
+    isLoading,
+    isVoting,
+    error,
+    castVote,
+    refresh: fetchVoteState,
+  };
+};
@@ -0,0 +1,352 @@
+import { useState, useEffect, useCallback } from 'react';
+import { type Abi, type Address, type Hex } from 'viem';
+import { publicClient } from '@/app/config/viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { useWallet } from '@/app/context/WalletContext';
+import { useNotification } from '@/app/context/NotificationContext';
+import { type LicenseTermsLimits } from '@/app/components/hooks/UseIpNftLicenseTerms';
+import sparkIpNftAbi from '@/app/abi/SparkIPNFT.json';
+
+const ipNftAbi = sparkIpNftAbi as Abi;
+
+export type AdminSetting =
+  | 'pause'
+  | 'expiryBuffer'
+  | 'termsLimits'
+  | 'processingReward'
+  | 'poToken'
+  | 'licenseNft'
+  | 'sciLocker'
+  | 'patentIdentifier'
+  | 'admin';
+
+// Events that record a change to each setting
+const settingEvents: Record<AdminSetting, string[]> = {
+  pause: ['ContractPaused', 'ContractUnpaused'],
+  expiryBuffer: ['ExpiryBufferTimeUpdated'],
+  termsLimits: ['LicenseTermsLimitsUpdated'],
+  processingReward: ['LicenseProcessingRewardUpdated', 'POTokenRewardAmountUpdated'],
+  poToken: ['POTokenContractUpdated', 'PoTokenUpdated'],
+  licenseNft: ['LicenseNFTContractUpdated'],
+  sciLocker: ['LicenseSciLockerUpdated'],
+  patentIdentifier: ['PatentIdentifierUpdated'],
+  admin: ['AdminTransferInitiated', 'AdminTransferAccepted'],
+};
+
+export interface AdminEvent {
+  setting: AdminSetting;
+  eventName: string;
+  args: Record<string, unknown>;
+  timestamp: number;
+  transactionHash: Hex;
+}
+
+export interface IpNftAdminSettings {
+  admin: Address;
+  pendingAdmin: Address;
+  paused: boolean;
+  // Seconds past expiration before a license may be processed
+  expiryBufferTime: bigint;
+  termsLimits: LicenseTermsLimits;
+  // PO tokens minted per processed license
+  processingReward: bigint;
+  poTokenAddress: Address;
+  licenseNftAddress: Address;
+  sciLockerAddress: Address;
+}
+
+/**
+ * Loads the SparkIPNFT admin settings and the events that changed them, and lets the
+ * contract admin update them. The pending admin can accept an admin transfer.
+ */
+export const useIpNftAdmin = () => {
+  const [settings, setSettings] = useState<IpNftAdminSettings | null>(null);
+  const [history, setHistory] = useState<AdminEvent[]>([]);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<AdminSetting | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const networkInfo = useNetworkInfo();
+  const { state, writeContractGeneric, waitForTransactionGeneric } = useWallet();
+  const { addNotification } = useNotification();
+
+  const ipNftAddress = networkInfo?.sparkIpNft;
+
+  const fetchAdminState = useCallback(async () => {
+    if (!ipNftAddress) {
+      return;
+    }
+
+    try {
+      setError(null);
+      const readIpNft = (functionName: string, args: unknown[] = []) =>
+        publicClient.readContract({
+          address: ipNftAddress,
+          abi: ipNftAbi,
+          functionName,
+          args,
+        });
+
+      const [
+        admin,
+        pendingAdmin,
+        paused,
+        expiryBufferTime,
+        limits,
+        processingReward,
+        poTokenAddress,
+        licenseNftAddress,
+        sciLockerAddress,
+        defaultAdminRole,
+      ] = await Promise.all([
+        readIpNft('admin') as Promise<Address>,
+        readIpNft('pendingAdmin') as Promise<Address>,
+        readIpNft('paused') as Promise<boolean>,
+        readIpNft('expiryBufferTime') as Promise<bigint>,
+        readIpNft('licenseTermsLimits') as Promise<
+          readonly [bigint, bigint, bigint, bigint, bigint, bigint]
+        >,
+        readIpNft('poTokenRewardAmount') as Promise<bigint>,
+        readIpNft('poTokenAddress') as Promise<Address>,
+        readIpNft('licenseNftContractAddress') as Promise<Address>,
+        readIpNft('licenseSciLockerAddress') as Promise<Address>,
+        readIpNft('DEFAULT_ADMIN_ROLE') as Promise<Hex>,
+      ]);
+
+      const hasAdminRole = state.address
+        ? ((await readIpNft('hasRole', [defaultAdminRole, state.address])) as boolean)
+        : false;
+
+      const settingLogs = await Promise.all(
+        (Object.keys(settingEvents) as AdminSetting[]).flatMap((setting) =>
+          settingEvents[setting].map(async (eventName) => {
+            const logs = await publicClient.getContractEvents({
+              address: ipNftAddress,
+              abi: ipNftAbi,
+              eventName,
+              fromBlock: BigInt(0),
+              toBlock: 'latest',
+            });
+            return logs.map((log) => ({ setting, eventName, log }));
+          })
+        )
+      );
+      const logs = settingLogs.flat();
+
+      // Events carry no timestamp, so each distinct block is read once
+      const blockNumbers = Array.from(new Set(logs.map(({ log }) => log.blockNumber)));
+      const blocks = await Promise.all(
+        blockNumbers.map((blockNumber) => publicClient.getBlock({ blockNumber }))
+      );
+      const timestampByBlock = new Map(blocks.map((block) => [block.number, Number(block.timestamp)]));
+
+      const [
+        minFeePerPeriodUSD,
+        maxFeePerPeriodUSD,
+        minPeriodLengthInDays,
+        maxPeriodLengthInDays,
+        minSciAmountToLock,
+        maxSciAmountToLock,
+      ] = limits;
+
+      setSettings({
+        admin,
+        pendingAdmin,
+        paused,
+        expiryBufferTime,
+        termsLimits: {
+          minFeePerPeriodUSD,
+          maxFeePerPeriodUSD,
+          minPeriodLengthInDays,
+          maxPeriodLengthInDays,
+          minSciAmountToLock,
+          maxSciAmountToLock,
+        },
+        processingReward,
+        poTokenAddress,
+        licenseNftAddress,
+        sciLockerAddress,
+      });
+      setIsAdmin(
+        hasAdminRole || (!!state.address && admin.toLowerCase() === state.address.toLowerCase())
+      );
+      setHistory(
+        logs
+          .map(({ setting, eventName, log }) => ({
+            setting,
+            eventName,
+            args: log.args as unknown as Record<string, unknown>,
+            timestamp: timestampByBlock.get(log.blockNumber) ?? 0,
+            transactionHash: log.transactionHash,
+          }))
+          .sort((a, b) => b.timestamp - a.timestamp)
+      );
+    } catch (err) {
+      console.error('Error fetching SparkIPNFT admin state:', err);
+      setError('Failed to load the IP-NFT admin settings.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ipNftAddress, state.address]);
+
+  useEffect(() => {
+    fetchAdminState();
+  }, [fetchAdminState]);
+
+  const runAction = useCallback(
+    async (setting: AdminSetting, functionName: string, args: unknown[], successMessage: string) => {
+      if (!ipNftAddress) return false;
+      if (!state.isConnected || !state.address) {
+        addNotification('Please connect your wallet to continue.', 'error');
+        return false;
+      }
+
+      setPendingAction(setting);
+      try {
+        const hash = await writeContractGeneric({
+          address: ipNftAddress,
+          abi: ipNftAbi,
+          functionName,
+          args,
+        });
+        if (!hash) {
+          throw new Error('Transaction was rejected or failed to submit.');
+        }
+
+        const receipt = await waitForTransactionGeneric({ hash });
+        if (!receipt || receipt.status !== 'success') {
+          throw new Error('Transaction failed.');
+        }
+
+        addNotification(successMessage, 'success');
+        await fetchAdminState();
+        return true;
+      } catch (err) {
+        console.error(`Error running ${functionName} on SparkIPNFT:`, err);
+        addNotification(err instanceof Error ? err.message : 'Transaction failed.', 'error');
+        return false;
+      } finally {
+        setPendingAction(null);
+      }
+    },
+    [
+      ipNftAddress,
+      state.isConnected,
+      state.address,
+      writeContractGeneric,
+      waitForTransactionGeneric,
+      addNotification,
+      fetchAdminState,
+    ]
+  );
+
+  const pause = useCallback(
+    (reason: string) => runAction('pause', 'pause', [reason], 'SparkIPNFT paused.'),
+    [runAction]
+  );
+
+  const unpause = useCallback(
+    () => runAction('pause', 'unpause', [], 'SparkIPNFT unpaused.'),
+    [runAction]
+  );
+
+  const setExpiryBufferTime = useCallback(
+    (bufferTime: bigint) =>
+      runAction('expiryBuffer', 'setExpiryBufferTime', [bufferTime], 'Expiry buffer time updated.'),
+    [runAction]
+  );
+
+  const setLicenseTermsLimits = useCallback(
+    (limits: LicenseTermsLimits) =>
+      runAction(
+        'termsLimits',
+        'setLicenseTermsLimits',
+        [
+          limits.minFeePerPeriodUSD,
+          limits.maxFeePerPeriodUSD,
+          limits.minPeriodLengthInDays,
+          limits.maxPeriodLengthInDays,
+          limits.minSciAmountToLock,
+          limits.maxSciAmountToLock,
+        ],
+        'License terms limits updated.'
+      ),
+    [runAction]
+  );
+
+  const setLicenseProcessingReward = useCallback(
+    (amount: bigint) =>
+      runAction(
+        'processingReward',
+        'setLicenseProcessingReward',
+        [amount],
+        'License processing reward updated.'
+      ),
+    [runAction]
+  );
+
+  const setPoTokenContract = useCallback(
+    (address: Address) =>
+      runAction('poToken', 'setPOTokenContract', [address], 'PO token contract updated.'),
+    [runAction]
+  );
+
+  const setLicenseNftContract = useCallback(
+    (address: Address) =>
+      runAction('licenseNft', 'setLicenseNFTContract', [address], 'LicenseNFT contract updated.'),
+    [runAction]
+  );
+
+  const setLicenseSciLocker = useCallback(
+    (address: Address) =>
+      runAction('sciLocker', 'setLicenseSciLockerAddress', [address], 'License SCI locker updated.'),
+    [runAction]
+  );
+
+  const updatePatentIdentifier = useCallback(
+    (tokenId: bigint, patentIdentifier: string) =>
+      runAction(
+        'patentIdentifier',
+        'updatePatentIdentifier',
+        [tokenId, patentIdentifier],
+        `Patent identifier of IP-NFT #${tokenId} updated.`
+      ),
+    [runAction]
+  );
+
+  const transferAdmin = useCallback(
+    (newAdmin: Address) =>
+      runAction('admin', 'transferAdmin', [newAdmin], 'Admin transfer initiated.'),
+    [runAction]
+  );
+
+  const acceptAdmin = useCallback(
+    () => runAction('admin', 'acceptAdmin', [], 'Admin role accepted.'),
+    [runAction]
+  );
+
+  const isPendingAdmin =
+    !!settings && !!state.address && settings.pendingAdmin.toLowerCase() === state.address.toLowerCase();
+
+  return {
+    settings,
+    history,
+    isAdmin,
+    isPendingAdmin,
+    isLoading,
+    pendingAction,
+    error,
+    pause,
+    unpause,
+    setExpiryBufferTime,
+    setLicenseTermsLimits,
+    setLicenseProcessingReward,
+    setPoTokenContract,
+    setLicenseNftContract,
+    setLicenseSciLocker,
+    updatePatentIdentifier,
+    transferAdmin,
+    acceptAdmin,
+    refresh: fetchAdminState,
+  };
+};
@@ -0,0 +1,210 @@
+import { useState, useEffect, useCallback } from 'react';
+import { type Abi, type Address, type Hex } from 'viem';
+import { publicClient } from '@/app/config/viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { useWallet } from '@/app/context/WalletContext';
+import { useNotification } from '@/app/context/NotificationContext';
+import sparkIpNftAbi from '@/app/abi/SparkIPNFT.json';
+
+const ipNftAbi = sparkIpNftAbi as Abi;
+
+interface LicenseTermsSetArgs {
+  ipNftId: bigint;
+  feePerPeriodUSD: bigint;
+  periodLengthInDays: bigint;
+  sciAmountToLock: bigint;
+}
+
+export interface LicenseTerms {
+  // USDC, 6 decimals
+  feePerPeriodUSD: bigint;
+  periodLengthInDays: bigint;
+  // SCI, 18 decimals
+  sciAmountToLock: bigint;
+  termsSet: boolean;
+}
+
+export interface LicenseTermsLimits {
+  minFeePerPeriodUSD: bigint;
+  maxFeePerPeriodUSD: bigint;
+  minPeriodLengthInDays: bigint;
+  maxPeriodLengthInDays: bigint;
+  minSciAmountToLock: bigint;
+  maxSciAmountToLock: bigint;
+}
+
+export interface LicenseTermsChange {
+  feePerPeriodUSD: bigint;
+  periodLengthInDays: bigint;
+  sciAmountToLock: bigint;
+  timestamp: number;
+  transactionHash: Hex;
+}
+
+/**
+ * Loads the license terms of an IP-NFT, the global limits they must respect and their change
+ * history, and lets the token owner or a LICENSE_ADMIN_ROLE holder update them.
+ */
+export const useIpNftLicenseTerms = (ipNftId: bigint | undefined, owner: Address | undefined) => {
+  const [terms, setTerms] = useState<LicenseTerms | null>(null);
+  const [limits, setLimits] = useState<LicenseTermsLimits | null>(null);
+  const [history, setHistory] = useState<LicenseTermsChange[]>([]);
+  const [isLicenseAdmin, setIsLicenseAdmin] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const networkInfo = useNetworkInfo();
+  const { state, writeContractGeneric, waitForTransactionGeneric } = useWallet();
+  const { addNotification } = useNotification();
+
+  const ipNftAddress = networkInfo?.sparkIpNft;
+
+  const fetchLicenseTerms = useCallback(async () => {
+    if (!ipNftAddress || ipNftId === undefined) {
+      return;
+    }
+
+    try {
+      setError(null);
+      const readIpNft = (functionName: string, args: unknown[] = []) =>
+        publicClient.readContract({
+          address: ipNftAddress,
+          abi: ipNftAbi,
+          functionName,
+          args,
+        });
+
+      const licenseAdminRole = (await readIpNft('LICENSE_ADMIN_ROLE')) as Hex;
+      const [termsResult, limitsResult, hasLicenseAdminRole, termsLogs] = await Promise.all([
+        readIpNft('ipNftLicenseTerms', [ipNftId]) as Promise<readonly [bigint, bigint, bigint, boolean]>,
+        readIpNft('licenseTermsLimits') as Promise<
+          readonly [bigint, bigint, bigint, bigint, bigint, bigint]
+        >,
+        state.address
+          ? (readIpNft('hasRole', [licenseAdminRole, state.address]) as Promise<boolean>)
+          : Promise.resolve(false),
+        publicClient.getContractEvents({
+          address: ipNftAddress,
+          abi: ipNftAbi,
+          eventName: 'LicenseTermsSet',
+          args: { ipNftId },
+          fromBlock: BigInt(0),
+          toBlock: 'latest',
+        }),
+      ]);
+
+      // Events carry no timestamp, so each distinct block is read once
+      const blockNumbers = Array.from(new Set(termsLogs.map((log) => log.blockNumber)));
+      const blocks = await Promise.all(
+        blockNumbers.map((blockNumber) => publicClient.getBlock({ blockNumber }))
+      );
+      const timestampByBlock = new Map(blocks.map((block) => [block.number, Number(block.timestamp)]));
+
+      const [feePerPeriodUSD, periodLengthInDays, sciAmountToLock, termsSet] = termsResult;
+      const [
+        minFeePerPeriodUSD,
+        maxFeePerPeriodUSD,
+        minPeriodLengthInDays,
+        maxPeriodLengthInDays,
+        minSciAmountToLock,
+        maxSciAmountToLock,
+      ] = limitsResult;
+
+      setTerms({ feePerPeriodUSD, periodLengthInDays, sciAmountToLock, termsSet });
+      setLimits({
+        minFeePerPeriodUSD,
+        maxFeePerPeriodUSD,
+        minPeriodLengthInDays,
+        maxPeriodLengthInDays,
+        minSciAmountToLock,
+        maxSciAmountToLock,
+      });
+      setIsLicenseAdmin(hasLicenseAdminRole);
+      setHistory(
+        termsLogs
+          .map((log) => {
+            const args = log.args as unknown as LicenseTermsSetArgs;
+            return {
+              feePerPeriodUSD: args.feePerPeriodUSD,
+              periodLengthInDays: args.periodLengthInDays,
+              sciAmountToLock: args.sciAmountToLock,
+              timestamp: timestampByBlock.get(log.blockNumber) ?? 0,
+              transactionHash: log.transactionHash,
+            };
+          })
+          .reverse()
+      );
+    } catch (err) {
+      console.error(`Error fetching license terms for IP-NFT ${ipNftId}:`, err);
+      setError('Failed to load license terms.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ipNftAddress, ipNftId, state.address]);
+
+  useEffect(() => {
+    fetchLicenseTerms();
+  }, [fetchLicenseTerms]);
+
+  const setLicenseTerms = useCallback(
+    async (feePerPeriodUSD: bigint, periodLengthInDays: bigint, sciAmountToLock: bigint) => {
+      if (!ipNftAddress || ipNftId === undefined) return false;
+      if (!state.isConnected || !state.address) {
+        addNotification('Please connect your wallet to continue.', 'error');
+        return false;
+      }
+
+      setIsSubmitting(true);
+      try {
+        const hash = await writeContractGeneric({
+          address: ipNftAddress,
+          abi: ipNftAbi,
+          functionName: 'setIpNftLicenseTerms',
+          args: [ipNftId, feePerPeriodUSD, periodLengthInDays, sciAmountToLock],
+        });
+        if (!hash) {
+          throw new Error('Transaction was rejected or failed to submit.');
+        }
+
+        const receipt = await waitForTransactionGeneric({ hash });
+        if (!receipt || receipt.status !== 'success') {
+          throw new Error('Transaction failed.');
+        }
+
+        addNotification('License terms updated.', 'success');
+        await fetchLicenseTerms();
+        return true;
+      } catch (err) {
+        console.error(`Error setting license terms for IP-NFT ${ipNftId}:`, err);
+        addNotification(err instanceof Error ? err.message : 'Transaction failed.', 'error');
+        return false;
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [
+      ipNftAddress,
+      ipNftId,
+      state.isConnected,
+      state.address,
+      writeContractGeneric,
+      waitForTransactionGeneric,
+      addNotification,
+      fetchLicenseTerms,
+    ]
+  );
+
+  const isOwner = !!owner && !!state.address && owner.toLowerCase() === state.address.toLowerCase();
+
+  return {
+    terms,
+    limits,
+    history,
+    canManage: isOwner || isLicenseAdmin,
+    isLoading,
+    isSubmitting,
+    error,
+    setLicenseTerms,
+    refresh: fetchLicenseTerms,
+  };
+};
@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback } from 'react';
+import { type Abi, type Address } from 'viem';
+import { publicClient } from '@/app/config/viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import sparkIpNftAbi from '@/app/abi/SparkIPNFT.json';
+import licenseNftAbi from '@/app/abi/LicenseNFT.json';
+
+const ipNftAbi = sparkIpNftAbi as Abi;
+const licenseAbi = licenseNftAbi as Abi;
+
+interface LicenseDetails {
+  licensee: Address;
+  ipNftId: bigint;
+  expirationTimestamp: bigint;
+  sciAmountLocked: bigint;
+  usdcFeePaid: bigint;
+  active: boolean;
+}
+
+export interface IpNftLicense {
+  licenseId: bigint;
+  ipNftId: bigint;
+  licensee: Address;
+  expiresAt: number;
+  sciAmountLocked: bigint;
+  usdcFeePaid: bigint;
+  isActive: boolean;
+}
+
+const loadLicense = async (licenseNftAddress: Address, licenseId: bigint): Promise<IpNftLicense> => {
+  const details = (await publicClient.readContract({
+    address: licenseNftAddress,
+    abi: licenseAbi,
+    functionName: 'getLicenseDetails',
+    args: [licenseId],
+  })) as LicenseDetails;
+
+  return {
+    licenseId,
+    ipNftId: details.ipNftId,
+    licensee: details.licensee,
+    expiresAt: Number(details.expirationTimestamp),
+    sciAmountLocked: details.sciAmountLocked,
+    usdcFeePaid: details.usdcFeePaid,
+    isActive: details.active,
+  };
+};
+
+const getLicenseNftAddress = (ipNftAddress: Address) =>
+  publicClient.readContract({
+    address: ipNftAddress,
+    abi: ipNftAbi,
+    functionName: 'licenseNftContractAddress',
+  }) as Promise<Address>;
+
+/**
+ * Lists every LicenseNFT issued for an IP-NFT, newest first.
+ */
+export const useIpNftLicenses = (ipNftId: bigint | undefined) => {
+  const [licenses, setLicenses] = useState<IpNftLicense[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const networkInfo = useNetworkInfo();
+
+  const ipNftAddress = networkInfo?.sparkIpNft;
+
+  const fetchLicenses = useCallback(async () => {
+    if (!ipNftAddress || ipNftId === undefined) {
+      setLicenses([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const licenseNftAddress = await getLicenseNftAddress(ipNftAddress);
+      const licenseIds = (await publicClient.readContract({
+        address: licenseNftAddress,
+        abi: licenseAbi,
+        functionName: 'getLicensesByIpNft',
+        args: [ipNftId],
+      })) as bigint[];
+
+      const entries = await Promise.all(
+        licenseIds.map((licenseId) => loadLicense(licenseNftAddress, licenseId))
+      );
+      setLicenses(entries.sort((a, b) => (a.licenseId > b.licenseId ? -1 : 1)));
+    } catch (err) {
+      console.error(`Error fetching licenses for IP-NFT ${ipNftId}:`, err);
+      setError('Failed to load the licenses of this IP-NFT.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ipNftAddress, ipNftId]);
+
+  useEffect(() => {
+    fetchLicenses();
+  }, [fetchLicenses]);
+
+  return { licenses, isLoading, error, refresh: fetchLicenses };
+};
+
+/**
+ * Loads a single LicenseNFT by id.
+ */
+export const useIpNftLicense = (licenseId: bigint | undefined) => {
+  const [license, setLicense] = useState<IpNftLicense | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const networkInfo = useNetworkInfo();
+
+  const ipNftAddress = networkInfo?.sparkIpNft;
+
+  const fetchLicense = useCallback(async () => {
+    if (!ipNftAddress || licenseId === undefined) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const licenseNftAddress = await getLicenseNftAddress(ipNftAddress);
+      setLicense(await loadLicense(licenseNftAddress, licenseId));
+    } catch (err) {
+      console.error(`Error fetching license ${licenseId}:`, err);
+      setError('Failed to load the license.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ipNftAddress, licenseId]);
+
+  useEffect(() => {
+    fetchLicense();
+  }, [fetchLicense]);
+
+  return { license, isLoading, error, refresh: fetchLicense };
+};
@@ -0,0 +1,199 @@
+import { useState, useEffect, useCallback } from 'react';
+import { type Abi, type Address, type Hex } from 'viem';
+import { publicClient } from '@/app/config/viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { fetchTokenMetadata, type TokenMetadata } from '@/app/utils/ipfsUtils';
+import sparkIpNftAbi from '@/app/abi/SparkIPNFT.json';
+import copyleftIpPoolAbi from '@/app/abi/CopyleftIPPool.json';
+
+const ipNftAbi = sparkIpNftAbi as Abi;
+const poolAbi = copyleftIpPoolAbi as Abi;
+
+interface IPNFTMintedArgs {
+  tokenId: bigint;
+  to: Address;
+}
+
+interface IPNFTDetails {
+  patentIdentifier: string;
+  copyleftLicenseURI: string;
+  researchAgreementURI: string;
+  originalCreator: Address;
+  creationTimestamp: bigint;
+  sparkIdeaId: Hex;
+}
+
+export interface IpNft {
+  tokenId: bigint;
+  patentIdentifier: string;
+  copyleftLicenseURI: string;
+  researchAgreementURI: string;
+  originalCreator: Address;
+  createdAt: number;
+  sparkIdeaId: Hex;
+  owner: Address;
+  isInCopyleftPool: boolean;
+  tokenUri: string;
+  metadata: TokenMetadata | null;
+  mintTransactionHash: Hex | null;
+}
+
+// Reads the on-chain state and token URI metadata of one IP-NFT
+const loadIpNft = async (
+  ipNftAddress: Address,
+  poolAddress: Address,
+  tokenId: bigint,
+  mintTransactionHash: Hex | null
+): Promise<IpNft> => {
+  const [details, tokenUri, owner, isInCopyleftPool] = await Promise.all([
+    publicClient.readContract({
+      address: ipNftAddress,
+      abi: ipNftAbi,
+      functionName: 'getIPNFTDetails',
+      args: [tokenId],
+    }) as Promise<IPNFTDetails>,
+    publicClient.readContract({
+      address: ipNftAddress,
+      abi: ipNftAbi,
+      functionName: 'tokenURI',
+      args: [tokenId],
+    }) as Promise<string>,
+    publicClient.readContract({
+      address: ipNftAddress,
+      abi: ipNftAbi,
+      functionName: 'ownerOf',
+      args: [tokenId],
+    }) as Promise<Address>,
+    publicClient.readContract({
+      address: poolAddress,
+      abi: poolAbi,
+      functionName: 'isTokenInPool',
+      args: [tokenId],
+    }) as Promise<boolean>,
+  ]);
+
+  // Unreachable metadata should not hide the token itself
+  let metadata: TokenMetadata | null = null;
+  try {
+    metadata = await fetchTokenMetadata(tokenUri);
+  } catch (err) {
+    console.error(`Error fetching metadata for IP-NFT ${tokenId}:`, err);
+  }
+
+  return {
+    tokenId,
+    patentIdentifier: details.patentIdentifier,
+    copyleftLicenseURI: details.copyleftLicenseURI,
+    researchAgreementURI: details.researchAgreementURI,
+    originalCreator: details.originalCreator,
+    createdAt: Number(details.creationTimestamp),
+    sparkIdeaId: details.sparkIdeaId,
+    owner,
+    isInCopyleftPool,
+    tokenUri,
+    metadata,
+    mintTransactionHash,
+  };
+};
+
+/**
+ * Enumerates every SparkIPNFT from its IPNFTMinted events and resolves the current on-chain
+ * details, owner, copyleft pool membership and token URI metadata of each. Tokens are
+ * returned newest first.
+ */
+export const useIpNftPortfolio = () => {
+  const [ipNfts, setIpNfts] = useState<IpNft[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const networkInfo = useNetworkInfo();
+
+  const ipNftAddress = networkInfo?.sparkIpNft;
+  const poolAddress = networkInfo?.copyleftIpPool;
+
+  const fetchPortfolio = useCallback(async () => {
+    if (!ipNftAddress || !poolAddress) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const mintedLogs = await publicClient.getContractEvents({
+        address: ipNftAddress,
+        abi: ipNftAbi,
+        eventName: 'IPNFTMinted',
+        fromBlock: BigInt(0),
+        toBlock: 'latest',
+      });
+
+      const tokens = await Promise.all(
+        mintedLogs.map((log) => {
+          const { tokenId } = log.args as unknown as IPNFTMintedArgs;
+          return loadIpNft(ipNftAddress, poolAddress, tokenId, log.transactionHash);
+        })
+      );
+
+      setIpNfts(tokens.sort((a, b) => (a.tokenId > b.tokenId ? -1 : 1)));
+    } catch (err) {
+      console.error('Error fetching IP-NFT portfolio:', err);
+      setError('Failed to load IP-NFTs.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ipNftAddress, poolAddress]);
+
+  useEffect(() => {
+    fetchPortfolio();
+  }, [fetchPortfolio]);
+
+  return { ipNfts, isLoading, error, refresh: fetchPortfolio };
+};
+
+/**
+ * Loads a single SparkIPNFT by token ID. `ipNft` stays null when the token was never minted.
+ */
+export const useIpNft = (tokenId: bigint | undefined) => {
+  const [ipNft, setIpNft] = useState<IpNft | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const networkInfo = useNetworkInfo();
+
+  const ipNftAddress = networkInfo?.sparkIpNft;
+  const poolAddress = networkInfo?.copyleftIpPool;
+
+  const fetchIpNft = useCallback(async () => {
+    if (!ipNftAddress || !poolAddress || tokenId === undefined) {
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const mintedLogs = await publicClient.getContractEvents({
+        address: ipNftAddress,
+        abi: ipNftAbi,
+        eventName: 'IPNFTMinted',
+        args: { tokenId },
+        fromBlock: BigInt(0),
+        toBlock: 'latest',
+      });
+      if (mintedLogs.length === 0) {
+        setIpNft(null);
+        return;
+      }
+
+      setIpNft(await loadIpNft(ipNftAddress, poolAddress, tokenId, mintedLogs[0].transactionHash));
+    } catch (err) {
+      console.error(`Error fetching IP-NFT ${tokenId}:`, err);
+      setError('Failed to load this IP-NFT.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ipNftAddress, poolAddress, tokenId]);
+
+  useEffect(() => {
+    fetchIpNft();
+  }, [fetchIpNft]);
+
+  return { ipNft, isLoading, error, refresh: fetchIpNft };
+};
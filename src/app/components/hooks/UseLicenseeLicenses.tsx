@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback } from 'react';
+import { type Abi, type Address } from 'viem';
+import { publicClient } from '@/app/config/viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { useWallet } from '@/app/context/WalletContext';
+import { useNotification } from '@/app/context/NotificationContext';
+import sparkIpNftAbi from '@/app/abi/SparkIPNFT.json';
+import licenseNftAbi from '@/app/abi/LicenseNFT.json';
+import licenseSciLockerAbi from '@/app/abi/LicenseSCILocker.json';
+
+const ipNftAbi = sparkIpNftAbi as Abi;
+const licenseAbi = licenseNftAbi as Abi;
+const lockerAbi = licenseSciLockerAbi as Abi;
+
+interface LicenseDetails {
+  licensee: Address;
+  ipNftId: bigint;
+  expirationTimestamp: bigint;
+  sciAmountLocked: bigint;
+  usdcFeePaid: bigint;
+  active: boolean;
+}
+
+interface LicenseLockInfo {
+  user: Address;
+  ipNftId: bigint;
+  licenseNftId: bigint;
+  amount: bigint;
+  unlockTimestamp: bigint;
+  active: boolean;
+}
+
+export interface License {
+  licenseId: bigint;
+  ipNftId: bigint;
+  expiresAt: number;
+  sciAmountLocked: bigint;
+  usdcFeePaid: bigint;
+  // Not yet expired and not revoked
+  isActive: boolean;
+  // SCI still held by LicenseSCILocker for this license
+  lockedSci: bigint;
+  unlockAt: number;
+  isLocked: boolean;
+}
+
+/**
+ * Loads the LicenseNFTs held by `licensee`, newest first, with the SCI locked for each, and
+ * lets the licensee unlock that SCI once a lock has run out.
+ */
+export const useLicenseeLicenses = (licensee: string | null | undefined) => {
+  const [licenses, setLicenses] = useState<License[]>([]);
+  const [totalLockedSci, setTotalLockedSci] = useState<bigint>(BigInt(0));
+  const [isLoading, setIsLoading] = useState(false);
+  const [unlockingLicenseId, setUnlockingLicenseId] = useState<bigint | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const networkInfo = useNetworkInfo();
+  const { state, writeContractGeneric, waitForTransactionGeneric } = useWallet();
+  const { addNotification } = useNotification();
+
+  const ipNftAddress = networkInfo?.sparkIpNft;
+
+  const fetchLicenses = useCallback(async () => {
+    if (!ipNftAddress || !licensee) {
+      setLicenses([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [licenseNftAddress, lockerAddress] = await Promise.all([
+        publicClient.readContract({
+          address: ipNftAddress,
+          abi: ipNftAbi,
+          functionName: 'licenseNftContractAddress',
+        }) as Promise<Address>,
+        publicClient.readContract({
+          address: ipNftAddress,
+          abi: ipNftAbi,
+          functionName: 'licenseSciLockerAddress',
+        }) as Promise<Address>,
+      ]);
+
+      const [licenseIds, totalLocked] = await Promise.all([
+        publicClient.readContract({
+          address: licenseNftAddress,
+          abi: licenseAbi,
+          functionName: 'getLicensesByLicensee',
+          args: [licensee],
+        }) as Promise<readonly bigint[]>,
+        publicClient.readContract({
+          address: lockerAddress,
+          abi: lockerAbi,
+          functionName: 'getUserTotalLockedForLicenses',
+          args: [licensee],
+        }) as Promise<bigint>,
+      ]);
+
+      const entries = await Promise.all(
+        licenseIds.map(async (licenseId) => {
+          const [details, isActive, lock] = await Promise.all([
+            publicClient.readContract({
+              address: licenseNftAddress,
+              abi: licenseAbi,
+              functionName: 'getLicenseDetails',
+              args: [licenseId],
+            }) as Promise<LicenseDetails>,
+            publicClient.readContract({
+              address: licenseNftAddress,
+              abi: licenseAbi,
+              functionName: 'isLicenseActive',
+              args: [licenseId],
+            }) as Promise<boolean>,
+            publicClient.readContract({
+              address: lockerAddress,
+              abi: lockerAbi,
+              functionName: 'getLicenseLockDetails',
+              args: [licenseId],
+            }) as Promise<LicenseLockInfo>,
+          ]);
+
+          const license: License = {
+            licenseId,
+            ipNftId: details.ipNftId,
+            expiresAt: Number(details.expirationTimestamp),
+            sciAmountLocked: details.sciAmountLocked,
+            usdcFeePaid: details.usdcFeePaid,
+            isActive,
+            lockedSci: lock.active ? lock.amount : BigInt(0),
+            unlockAt: Number(lock.unlockTimestamp),
+            isLocked: lock.active,
+          };
+          return license;
+        })
+      );
+
+      setLicenses(entries.sort((a, b) => (a.licenseId > b.licenseId ? -1 : 1)));
+      setTotalLockedSci(totalLocked);
+    } catch (err) {
+      console.error('Error fetching licenses:', err);
+      setError('Failed to load licenses.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ipNftAddress, licensee]);
+
+  useEffect(() => {
+    fetchLicenses();
+  }, [fetchLicenses]);
+
+  const unlockSci = useCallback(
+    async (licenseId: bigint) => {
+      if (!ipNftAddress) return false;
+      if (!state.isConnected || !state.address) {
+        addNotification('Please connect your wallet to continue.', 'error');
+        return false;
+      }
+
+      setUnlockingLicenseId(licenseId);
+      try {
+        const lockerAddress = (await publicClient.readContract({
+          address: ipNftAddress,
+          abi: ipNftAbi,
+          functionName: 'licenseSciLockerAddress',
+        })) as Address;
+
+        const hash = await writeContractGeneric({
+          address: lockerAddress,
+          abi: lockerAbi,
+          functionName: 'unlockFromLicense',
+          args: [licenseId],
+        });
+        if (!hash) {
+          throw new Error('Transaction was rejected or failed to submit.');
+        }
+
+        const receipt = await waitForTransactionGeneric({ hash });
+        if (!receipt || receipt.status !== 'success') {
+          throw new Error('Transaction failed.');
+        }
+
+        addNotification(`SCI locked for license #${licenseId} unlocked.`, 'success');
+        await fetchLicenses();
+        return true;
+      } catch (err) {
+        console.error(`Error unlocking SCI for license ${licenseId}:`, err);
+        addNotification(err instanceof Error ? err.message : 'Transaction failed.', 'error');
+        return false;
+      } finally {
+        setUnlockingLicenseId(null);
+      }
+    },
+    [
+      ipNftAddress,
+      state.isConnected,
+      state.address,
+      writeContractGeneric,
+      waitForTransactionGeneric,
+      addNotification,
+      fetchLicenses,
+    ]
+  );
+
+  return {
+    licenses,
+    totalLockedSci,
+    isLoading,
+    unlockingLicenseId,
+    error,
+    unlockSci,
+    refresh: fetchLicenses,
+  };
+};
@@ -0,0 +1,279 @@
+import { useState, useEffect, useCallback } from 'react';
+import { type Abi, type Address, type Hex, formatUnits } from 'viem';
+import { publicClient } from '@/app/config/viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { useWallet } from '@/app/context/WalletContext';
+import { useNotification } from '@/app/context/NotificationContext';
+import { useProposals } from '@/app/context/ProposalsContext';
+import { useEcosystemBalances } from './UseEcosystemBalances';
+import { getLatestBlockTimestamp } from '../governance/GetLatestBlockTimestamp';
+import {
+  CompleteProposalType,
+  GovernanceOperationsParameters,
+  UserVoteDataGovOps,
+} from '@/app/utils/interfaces';
+import governorOperationsAbi from '@/app/abi/GovernorOperations.json';
+
+const govOpsAbi = governorOperationsAbi as Abi;
+
+export type OperationsProposalAction = 'vote' | 'execute';
+
+// SCI amounts in the operations governor parameters carry 18 decimals
+const TOKEN_PARAMETERS: (keyof GovernanceOperationsParameters)[] = [
+  'opThreshold',
+  'votingRightsThreshold',
+];
+
+// Quadratic voting counts the square root of the voting rights a member commits
+export const getQuadraticVotes = (votingRights: number) =>
+  Math.floor(Math.sqrt(Math.max(0, votingRights)));
+
+export const getQuadraticCost = (votes: number) => votes * votes;
+
+interface UniquenessSignature {
+  isUnique: boolean;
+  timestamp: number;
+  signature: Hex;
+}
+
+/**
+ * Loads an operations proposal together with the connected member's vote data and
+ * lets them vote on it, either with their standard voting rights or quadratically.
+ */
+export const useOperationsProposal = (index: number) => {
+  const [governanceParams, setGovernanceParams] = useState<GovernanceOperationsParameters>();
+  const [userVoteData, setUserVoteData] = useState<UserVoteDataGovOps>();
+  const [currentTimestamp, setCurrentTimestamp] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<OperationsProposalAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [transactionHash, setTransactionHash] = useState('');
+
+  const networkInfo = useNetworkInfo();
+  const { state, writeContractGeneric, waitForTransactionGeneric } = useWallet();
+  const { addNotification } = useNotification();
+  const { operationsProposals, governorOperations, fetchSingleOperationsProposal } = useProposals();
+  const { votingRights } = useEcosystemBalances(
+    state.address || undefined,
+    '',
+    '',
+    networkInfo?.sciManager
+  );
+
+  const proposal: CompleteProposalType | undefined = operationsProposals?.find(
+    (p) => p.index === index
+  );
+
+  const fetchVotingState = useCallback(async () => {
+    if (!governorOperations) return;
+
+    setIsLoading(true);
+    try {
+      const [params, latestTimestamp] = await Promise.all([
+        publicClient.readContract({
+          address: governorOperations,
+          abi: govOpsAbi,
+          functionName: 'getGovernanceParameters',
+        }) as Promise<Record<keyof GovernanceOperationsParameters, bigint>>,
+        getLatestBlockTimestamp(),
+      ]);
+
+      setGovernanceParams(
+        Object.keys(params).reduce((formatted, key) => {
+          const param = key as keyof GovernanceOperationsParameters;
+          formatted[param] = TOKEN_PARAMETERS.includes(param)
+            ? formatUnits(params[param], 18)
+            : params[param].toString();
+          return formatted;
+        }, {} as GovernanceOperationsParameters)
+      );
+      setCurrentTimestamp(Number(latestTimestamp));
+
+      if (state.address) {
+        const voteData = (await publicClient.readContract({
+          address: governorOperations,
+          abi: govOpsAbi,
+          functionName: 'getUserVoteData',
+          args: [state.address as Address, BigInt(index)],
+        })) as {
+          voted: boolean;
+          initialVoteTimestamp: bigint;
+          previousSupport: boolean;
+          previousVoteAmount: bigint;
+          poClaimed: boolean;
+          votingStreakAtVote: bigint;
+        };
+
+        setUserVoteData({
+          type: 'operations',
+          voted: voteData.voted,
+          initialVoteTimestamp: Number(voteData.initialVoteTimestamp),
+          previousSupport: voteData.previousSupport,
+          previousVoteAmount: Number(voteData.previousVoteAmount),
+          poClaimed: voteData.poClaimed,
+          votingStreakAtVote: Number(voteData.votingStreakAtVote),
+        });
+      } else {
+        setUserVoteData(undefined);
+      }
+      setError(null);
+    } catch (err) {
+      console.error(`Error loading voting state of operations proposal ${index}:`, err);
+      setError('Failed to load voting data for this proposal.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [governorOperations, index, state.address]);
+
+  useEffect(() => {
+    fetchVotingState();
+  }, [fetchVotingState]);
+
+  useEffect(() => {
+    if (governorOperations && !proposal) {
+      fetchSingleOperationsProposal(index, true);
+    }
+  }, [governorOperations, proposal, index, fetchSingleOperationsProposal]);
+
+  const endTimestamp = Number(proposal?.endTimestamp ?? 0);
+  const voteChangeTime = Number(governanceParams?.voteChangeTime ?? 0);
+  const voteChangeCutOff = Number(governanceParams?.voteChangeCutOff ?? 0);
+  const votingStart = Number(proposal?.startTimestamp ?? 0) + Number(governanceParams?.votingDelay ?? 0);
+
+  const timeLeftToChangeVote = userVoteData?.voted
+    ? Math.max(0, userVoteData.initialVoteTimestamp + voteChangeTime - currentTimestamp)
+    : 0;
+  const votingRightsThresholdReached =
+    Number(votingRights) >= Number(governanceParams?.votingRightsThreshold ?? 0);
+  const isVotingOpen =
+    proposal?.status === 'active' &&
+    currentTimestamp >= votingStart &&
+    currentTimestamp <= endTimestamp;
+
+  // Same windows as research voting: first votes until the end, changes only before the cut-off
+  const eligibleToVote =
+    isVotingOpen &&
+    votingRightsThresholdReached &&
+    (!userVoteData?.voted ||
+      (currentTimestamp <= endTimestamp - voteChangeCutOff && timeLeftToChangeVote > 0));
+
+  const standardVotes = Math.floor(Number(votingRights));
+  const quadraticVotes = getQuadraticVotes(Number(votingRights));
+
+  // The governor only accepts votes carrying a fresh uniqueness attestation from the platform signer
+  const fetchUniquenessSignature = useCallback(async (): Promise<UniquenessSignature> => {
+    const type = state.isUniqueGovId && !state.isUniquePhone ? 'govId' : 'phone';
+    const response = await fetch('/api/check-uniqueness', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userAddress: state.address, type }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to verify your uniqueness. Please try again.');
+    }
+
+    const data = await response.json();
+    return type === 'govId'
+      ? { isUnique: data.isUniqueGovId, timestamp: data.timestampGovId, signature: data.signatureGovId }
+      : { isUnique: data.isUniquePhone, timestamp: data.timestampPhone, signature: data.signaturePhone };
+  }, [state.address, state.isUniquePhone, state.isUniqueGovId]);
+
+  const runAction = useCallback(
+    async (
+      action: OperationsProposalAction,
+      functionName: string,
+      getArgs: () => Promise<unknown[]>,
+      successMessage: string
+    ) => {
+      if (!governorOperations) return false;
+      if (!state.isConnected || !state.address) {
+        addNotification('Please connect your wallet to continue.', 'error');
+        return false;
+      }
+
+      setPendingAction(action);
+      try {
+        const hash = await writeContractGeneric({
+          address: governorOperations,
+          abi: govOpsAbi,
+          functionName,
+          args: await getArgs(),
+        });
+        if (!hash) {
+          throw new Error('Transaction was rejected or failed to submit.');
+        }
+
+        const receipt = await waitForTransactionGeneric({ hash });
+        if (!receipt || receipt.status !== 'success') {
+          throw new Error('Transaction failed.');
+        }
+
+        setTransactionHash(`${networkInfo?.explorerLink}/tx/${hash}`);
+        addNotification(successMessage, 'success');
+        await Promise.all([fetchVotingState(), fetchSingleOperationsProposal(index, true)]);
+        return true;
+      } catch (err) {
+        console.error(`Error running ${functionName} on operations proposal ${index}:`, err);
+        addNotification(err instanceof Error ? err.message : 'Transaction failed.', 'error');
+        return false;
+      } finally {
+        setPendingAction(null);
+      }
+    },
+    [
+      governorOperations,
+      index,
+      networkInfo?.explorerLink,
+      state.isConnected,
+      state.address,
+      writeContractGeneric,
+      waitForTransactionGeneric,
+      addNotification,
+      fetchVotingState,
+      fetchSingleOperationsProposal,
+    ]
+  );
+
+  const vote = useCallback(
+    (support: boolean) => {
+      const functionName = proposal?.quadraticVoting ? 'voteQV' : 'voteStandard';
+      return runAction(
+        'vote',
+        functionName,
+        async () => {
+          const { isUnique, timestamp, signature } = await fetchUniquenessSignature();
+          return [BigInt(index), support, isUnique, BigInt(timestamp), signature];
+        },
+        `Voted ${support ? 'for' : 'against'} OP-${index}.`
+      );
+    },
+    [proposal?.quadraticVoting, index, runAction, fetchUniquenessSignature]
+  );
+
+  const execute = useCallback(
+    () =>
+      runAction('execute', 'execute', async () => [BigInt(index)], `OP-${index} executed.`),
+    [index, runAction]
+  );
+
+  return {
+    proposal,
+    governanceParams,
+    userVoteData,
+    currentTimestamp,
+    votingStart,
+    votingRights: Number(votingRights),
+    standardVotes,
+    quadraticVotes,
+    eligibleToVote,
+    votingRightsThresholdReached,
+    timeLeftToChangeVote,
+    isLoading,
+    pendingAction,
+    error,
+    transactionHash,
+    vote,
+    execute,
+    refresh: fetchVotingState,
+  };
+};
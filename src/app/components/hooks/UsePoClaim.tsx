@@ -0,0 +1,204 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  type Abi,
+  type Address,
+  BaseError,
+  ContractFunctionRevertedError,
+  parseAbiItem,
+} from 'viem';
+import { publicClient } from '@/app/config/viem';
+import { useWallet } from '@/app/context/WalletContext';
+import { useNotification } from '@/app/context/NotificationContext';
+import { getGovernorOperationsAddress } from '../governance/GetGovernorOperationsAddress';
+import governorOperationsAbi from '@/app/abi/GovernorOperations.json';
+
+const govOpsAbi = governorOperationsAbi as Abi;
+
+const votingStreakUpdatedEvent = parseAbiItem(
+  'event VotingStreakUpdated(address indexed user, uint256 oldStreak, uint256 newStreak)'
+);
+
+interface ClaimEligibility {
+  eligible: boolean;
+  reason: string | null;
+}
+
+// claimPo() takes no arguments and only checks the caller's own earnings, so a dry run from the
+// user's address is the whole eligibility check
+const checkClaimEligibility = async (
+  governorOperations: Address,
+  user: Address
+): Promise<ClaimEligibility> => {
+  try {
+    await publicClient.simulateContract({
+      address: governorOperations,
+      abi: govOpsAbi,
+      functionName: 'claimPo',
+      args: [],
+      account: user,
+    });
+    return { eligible: true, reason: null };
+  } catch (err) {
+    const revertError =
+      err instanceof BaseError
+        ? err.walk((e) => e instanceof ContractFunctionRevertedError)
+        : null;
+    if (
+      revertError instanceof ContractFunctionRevertedError &&
+      revertError.data?.errorName === 'NoTokensToClaim'
+    ) {
+      return {
+        eligible: false,
+        reason: 'No PO to claim yet. Vote on operations proposals to earn PO.',
+      };
+    }
+    console.error('Error checking PO claim eligibility:', err);
+    return { eligible: false, reason: 'Failed to check PO claim eligibility' };
+  }
+};
+
+/**
+ * Tracks the connected member's PO earned through operations voting: their voting streak,
+ * lifetime PO claimed and whether they can currently claim.
+ */
+export const usePoClaim = () => {
+  const [governorOperations, setGovernorOperations] = useState<Address>();
+  const [votingStreak, setVotingStreak] = useState(0);
+  const [maxVotingStreak, setMaxVotingStreak] = useState(0);
+  const [totalPoClaimed, setTotalPoClaimed] = useState('0');
+  const [latestVoteTimestamp, setLatestVoteTimestamp] = useState(0);
+  const [eligibility, setEligibility] = useState<ClaimEligibility>({
+    eligible: false,
+    reason: null,
+  });
+  const [isLoading, setIsLoading] = useState(false);
+  const [isClaiming, setIsClaiming] = useState(false);
+
+  const { state, writeContractGeneric, waitForTransactionGeneric } = useWallet();
+  const { addNotification } = useNotification();
+
+  useEffect(() => {
+    getGovernorOperationsAddress().then(setGovernorOperations);
+  }, []);
+
+  const fetchClaimData = useCallback(async () => {
+    if (!governorOperations || !state.address) return;
+
+    const user = state.address as Address;
+    setIsLoading(true);
+    try {
+      const [totalClaimed, latestVote, params, streakLogs, claimEligibility] = await Promise.all([
+        publicClient.readContract({
+          address: governorOperations,
+          abi: govOpsAbi,
+          functionName: 'getTotalPoClaimed',
+          args: [user],
+        }) as Promise<bigint>,
+        publicClient.readContract({
+          address: governorOperations,
+          abi: govOpsAbi,
+          functionName: 'getLatestVoteTimestamp',
+          args: [user],
+        }) as Promise<bigint>,
+        publicClient.readContract({
+          address: governorOperations,
+          abi: govOpsAbi,
+          functionName: 'getGovernanceParameters',
+        }) as Promise<{ maxVotingStreak: bigint }>,
+        publicClient.getLogs({
+          address: governorOperations,
+          event: votingStreakUpdatedEvent,
+          args: { user },
+          fromBlock: BigInt(0),
+          toBlock: 'latest',
+        }),
+        checkClaimEligibility(governorOperations, user),
+      ]);
+
+      // The contract keeps no streak getter, so the latest update event is the current streak
+      const latestStreak = streakLogs[streakLogs.length - 1];
+
+      setTotalPoClaimed(totalClaimed.toString());
+      setLatestVoteTimestamp(Number(latestVote));
+      setMaxVotingStreak(Number(params.maxVotingStreak));
+      setVotingStreak(latestStreak ? Number(latestStreak.args.newStreak) : 0);
+      setEligibility(claimEligibility);
+    } catch (err) {
+      console.error('Error fetching PO claim data:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [governorOperations, state.address]);
+
+  useEffect(() => {
+    fetchClaimData();
+  }, [fetchClaimData]);
+
+  const claimPo = useCallback(async () => {
+    if (!governorOperations || !state.address) return false;
+
+    setIsClaiming(true);
+    try {
+      // A dry run surfaces ineligibility before the wallet prompt
+      await publicClient.simulateContract({
+        address: governorOperations,
+        abi: govOpsAbi,
+        functionName: 'claimPo',
+        args: [],
+        account: state.address as Address,
+      });
+
+      const hash = await writeContractGeneric({
+        address: governorOperations,
+        abi: govOpsAbi,
+        functionName: 'claimPo',
+        args: [],
+      });
+      if (!hash) {
+        throw new Error('Transaction was rejected or failed to submit.');
+      }
+
+      const receipt = await waitForTransactionGeneric({ hash });
+      if (!receipt || receipt.status !== 'success') {
+        throw new Error('Transaction failed.');
+      }
+
+      addNotification('PO claimed successfully.', 'success');
+      await fetchClaimData();
+      return true;
+    } catch (err) {
+      console.error('Error claiming PO:', err);
+      addNotification(
+        err instanceof BaseError
+          ? err.shortMessage
+          : err instanceof Error
+            ? err.message
+            : 'Failed to claim PO.',
+        'error'
+      );
+      return false;
+    } finally {
+      setIsClaiming(false);
+    }
+  }, [
+    governorOperations,
+    state.address,
+    writeContractGeneric,
+    waitForTransactionGeneric,
+    addNotification,
+    fetchClaimData,
+  ]);
+
+  return {
+    isAvailable: Boolean(governorOperations),
+    votingStreak,
+    maxVotingStreak,
+    totalPoClaimed,
+    latestVoteTimestamp,
+    eligibility,
+    isLoading,
+    isClaiming,
+    claimPo,
+    refresh: fetchClaimData,
+  };
+};
@@ -0,0 +1,245 @@
+import { useState, useEffect, useCallback } from 'react';
+import { type Abi, type Address, type Hex, parseEventLogs } from 'viem';
+import { publicClient } from '@/app/config/viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { useWallet } from '@/app/context/WalletContext';
+import { useNotification } from '@/app/context/NotificationContext';
+import { getFactoryActionConfig } from '../governance/GetFactoryActionType';
+import sparkBridgeAbi from '@/app/abi/SparkBridge.json';
+import sparkIdeaRegistryAbi from '@/app/abi/SparkIdeaRegistry.json';
+
+const bridgeAbi = sparkBridgeAbi as Abi;
+const registryAbi = sparkIdeaRegistryAbi as Abi;
+
+interface OnchainIdea {
+  ideator: Address;
+  provisionalPatentId: string;
+  copyleftLicenseURI: string;
+}
+
+interface ProposalLaunchedArgs {
+  ideaId: Hex;
+  proposalId: bigint;
+  launcher: Address;
+  info: string;
+  actionTypeUsed: bigint;
+}
+
+export interface LaunchedProposal {
+  proposalId: bigint;
+  launcher: Address;
+  info: string;
+  actionType: bigint;
+  transactionHash: Hex;
+}
+
+// An IP-NFT action type the bridge accepts, with the name the action factory registered it under
+export interface IpNftAction {
+  actionType: bigint;
+  name: string;
+  enabled: boolean;
+}
+
+export interface SparkBridgeState {
+  ideator: Address | null;
+  provisionalPatentId: string;
+  copyleftLicenseURI: string;
+  isApproved: boolean;
+  isLauncher: boolean;
+  isIdeator: boolean;
+  isSetupValid: boolean;
+  missingSetup: string[];
+  ipNftActions: IpNftAction[];
+  launchedProposals: LaunchedProposal[];
+}
+
+const emptyBridgeState: SparkBridgeState = {
+  ideator: null,
+  provisionalPatentId: '',
+  copyleftLicenseURI: '',
+  isApproved: false,
+  isLauncher: false,
+  isIdeator: false,
+  isSetupValid: false,
+  missingSetup: [],
+  ipNftActions: [],
+  launchedProposals: [],
+};
+
+/**
+ * Loads what the SparkBridge needs to launch a research proposal for an idea and the proposals
+ * already launched for it, and launches new ones on behalf of launchers and the ideator.
+ */
+export const useSparkBridge = (ideaId: Hex | undefined) => {
+  const [bridgeState, setBridgeState] = useState<SparkBridgeState>(emptyBridgeState);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLaunching, setIsLaunching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const networkInfo = useNetworkInfo();
+  const { state, writeContractGeneric, waitForTransactionGeneric } = useWallet();
+  const { addNotification } = useNotification();
+
+  const bridgeAddress = networkInfo?.sparkBridge;
+  const registryAddress = networkInfo?.sparkIdeaRegistry;
+  const actionFactoryAddress = networkInfo?.actionFactoryResearch;
+
+  const fetchBridgeState = useCallback(async () => {
+    if (!bridgeAddress || !registryAddress || !actionFactoryAddress || !ideaId) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setError(null);
+      const readBridge = (functionName: string, args: unknown[] = []) =>
+        publicClient.readContract({
+          address: bridgeAddress,
+          abi: bridgeAbi,
+          functionName,
+          args,
+        });
+
+      const launcherRole = (await readBridge('PROPOSAL_LAUNCHER_ROLE')) as Hex;
+      const [idea, isApproved, isLauncher, setup, ipNftActionTypes, launchedLogs] = await Promise.all([
+        publicClient.readContract({
+          address: registryAddress,
+          abi: registryAbi,
+          functionName: 'getIdea',
+          args: [ideaId],
+        }) as Promise<OnchainIdea>,
+        publicClient.readContract({
+          address: registryAddress,
+          abi: registryAbi,
+          functionName: 'isIdeaApprovedByReviewers',
+          args: [ideaId],
+        }) as Promise<boolean>,
+        state.address
+          ? (readBridge('hasRole', [launcherRole, state.address]) as Promise<boolean>)
+          : Promise.resolve(false),
+        readBridge('validateSetup') as Promise<readonly [boolean, readonly string[]]>,
+        readBridge('getAllIpNftActionTypes') as Promise<readonly bigint[]>,
+        publicClient.getContractEvents({
+          address: bridgeAddress,
+          abi: bridgeAbi,
+          eventName: 'ProposalLaunched',
+          args: { ideaId },
+          fromBlock: BigInt(0),
+          toBlock: 'latest',
+        }),
+      ]);
+
+      // Type IDs are only meaningful through the factory's config, so they are resolved to names
+      const ipNftActions = await Promise.all(
+        ipNftActionTypes.map(async (actionType) => ({
+          actionType,
+          ...(await getFactoryActionConfig(publicClient, actionFactoryAddress, actionType)),
+        }))
+      );
+
+      const launchedProposals = launchedLogs
+        .map((log) => {
+          const args = log.args as unknown as ProposalLaunchedArgs;
+          return {
+            proposalId: args.proposalId,
+            launcher: args.launcher,
+            info: args.info,
+            actionType: args.actionTypeUsed,
+            transactionHash: log.transactionHash,
+          };
+        })
+        .reverse();
+
+      setBridgeState({
+        ideator: idea.ideator,
+        provisionalPatentId: idea.provisionalPatentId,
+        copyleftLicenseURI: idea.copyleftLicenseURI,
+        isApproved,
+        isLauncher,
+        isIdeator: idea.ideator.toLowerCase() === state.address?.toLowerCase(),
+        isSetupValid: setup[0],
+        missingSetup: [...setup[1]],
+        ipNftActions,
+        launchedProposals,
+      });
+    } catch (err) {
+      console.error('Error fetching SparkBridge state:', err);
+      setError('Failed to load the proposal launcher.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [bridgeAddress, registryAddress, actionFactoryAddress, ideaId, state.address]);
+
+  useEffect(() => {
+    fetchBridgeState();
+  }, [fetchBridgeState]);
+
+  // Resolves to the new proposal's index, or null when the launch failed
+  const launchProposal = useCallback(
+    async (actionType: bigint, actionParams: Hex) => {
+      if (!bridgeAddress || !ideaId) return null;
+      if (!state.isConnected || !state.address) {
+        addNotification('Please connect your wallet to continue.', 'error');
+        return null;
+      }
+
+      setIsLaunching(true);
+      try {
+        const hash = await writeContractGeneric({
+          address: bridgeAddress,
+          abi: bridgeAbi,
+          functionName: 'launchProposal',
+          args: [ideaId, actionType, actionParams],
+        });
+        if (!hash) {
+          throw new Error('Transaction was rejected or failed to submit.');
+        }
+
+        const receipt = await waitForTransactionGeneric({ hash });
+        if (!receipt || receipt.status !== 'success') {
+          throw new Error('Transaction failed.');
+        }
+
+        const [launched] = parseEventLogs({
+          abi: bridgeAbi,
+          logs: receipt.logs.filter((log) => log.address.toLowerCase() === bridgeAddress.toLowerCase()),
+          eventName: 'ProposalLaunched',
+        });
+        const proposalId = launched
+          ? (launched.args as unknown as ProposalLaunchedArgs).proposalId
+          : null;
+
+        addNotification(
+          proposalId !== null ? `Proposal #${proposalId} launched.` : 'Proposal launched.',
+          'success'
+        );
+        await fetchBridgeState();
+        return proposalId;
+      } catch (err) {
+        console.error('Error launching proposal through SparkBridge:', err);
+        addNotification(err instanceof Error ? err.message : 'Transaction failed.', 'error');
+        return null;
+      } finally {
+        setIsLaunching(false);
+      }
+    },
+    [
+      bridgeAddress,
+      ideaId,
+      state.isConnected,
+      state.address,
+      writeContractGeneric,
+      waitForTransactionGeneric,
+      addNotification,
+      fetchBridgeState,
+    ]
+  );
+
+  return {
+    ...bridgeState,
+    isLoading,
+    isLaunching,
+    error,
+    launchProposal,
+    refresh: fetchBridgeState,
+  };
+};
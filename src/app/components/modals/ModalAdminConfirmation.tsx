@@ -0,0 +1,82 @@
+import styles from './../general/Button.module.css';
+
+export interface AdminChange {
+  label: string;
+  current: string;
+  proposed: string;
+}
+
+interface AdminConfirmationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: () => void;
+  isLoading: boolean;
+  title: string;
+  changes: AdminChange[];
+}
+
+export function ModalAdminConfirmation({
+  isOpen,
+  onClose,
+  onConfirm,
+  isLoading,
+  title,
+  changes,
+}: AdminConfirmationModalProps) {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-75">
+      <div className="w-full max-w-lg rounded-lg border-[1px] border-tropicalBlue bg-seaBlue-1075 p-6 shadow-glow-tropicalBlue-intermediate sm:max-w-[36rem]">
+        <div className="flex items-center justify-between pb-4">
+          <h2 className="text-lg font-semibold sm:text-xl">{title}</h2>
+          <button
+            className="text-2xl font-bold text-highlightRed/80 transition-colors hover:text-highlightRed"
+            onClick={onClose}
+            aria-label="Close"
+            disabled={isLoading}
+          >
+            &times;
+          </button>
+        </div>
+
+        <div className="space-y-3 pb-6">
+          <p className="text-sm text-seaBlue-100 sm:text-base">
+            This change is applied on-chain as soon as the transaction is confirmed:
+          </p>
+          {changes.map((change) => (
+            <div key={change.label} className="text-sm">
+              <p className="font-semibold text-seaBlue-100">{change.label}</p>
+              <p className="break-all text-seaBlue-300">
+                Current: <span className="font-mono">{change.current}</span>
+              </p>
+              <p className="break-all text-highlightRed">
+                New: <span className="font-mono">{change.proposed}</span>
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-col items-center justify-end gap-4 sm:flex-row">
+          <button onClick={onClose} className={`${styles.secondary} w-full sm:w-auto`} disabled={isLoading}>
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className={`${styles.primary} w-full sm:w-auto ${isLoading ? 'cursor-not-allowed opacity-50' : ''}`}
+            disabled={isLoading}
+          >
+            {isLoading ? (
+              <>
+                <span className="mr-2 block h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent"></span>
+                Submitting...
+              </>
+            ) : (
+              'Confirm'
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
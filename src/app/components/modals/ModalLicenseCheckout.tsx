@@ -0,0 +1,469 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { type Abi, type Address, type Hex, formatEther, formatUnits, parseEventLogs } from 'viem';
+import { useWallet } from '@/app/context/WalletContext';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { useNotification } from '@/app/context/NotificationContext';
+import { CustomError } from '@/app/utils/rpcErrorInterfaces';
+import ModalUI from './ModalUI';
+import Modal from './Modal';
+import ConnectWallet from '../general/ConnectWallet';
+import styles from '../general/Button.module.css';
+import sparkIpNftJson from '@/app/abi/SparkIPNFT.json';
+import licenseSciLockerJson from '@/app/abi/LicenseSCILocker.json';
+import usdcJson from '@/app/abi/Usdc.json';
+import sciJson from '@/app/abi/Sci.json';
+
+const sparkIpNftAbi = sparkIpNftJson as Abi;
+const licenseSciLockerAbi = licenseSciLockerJson as Abi;
+const usdcAbi = usdcJson as Abi;
+const sciAbi = sciJson as Abi;
+
+interface ModalLicenseCheckoutProps {
+  handler: (value: boolean) => void;
+  ipNftId: bigint;
+  // Renews this license instead of requesting a new one
+  licenseNftId?: bigint;
+  onComplete?: () => void;
+}
+
+interface CheckoutState {
+  usdcToken: Address;
+  sciToken: Address;
+  locker: Address;
+  feePerPeriodUSD: bigint;
+  periodLengthInDays: bigint;
+  sciAmountToLock: bigint;
+  termsSet: boolean;
+  currentlyLocked: bigint;
+  usdcBalance: bigint;
+  sciBalance: bigint;
+  usdcAllowance: bigint;
+  sciAllowance: bigint;
+}
+
+interface LicenseLockInfo {
+  amount: bigint;
+}
+
+interface LicenseIssuedArgs {
+  licenseNftId: bigint;
+  licensee: Address;
+  expirationTimestamp: bigint;
+}
+
+interface LicenseRenewedArgs {
+  licenseNftId: bigint;
+  licensee: Address;
+  newExpirationTimestamp: bigint;
+}
+
+type CheckoutStep = 'usdc' | 'sci' | 'submit';
+
+const formatUsdc = (amount: bigint) => Number(formatUnits(amount, 6)).toLocaleString();
+const formatSci = (amount: bigint) => Number(formatEther(amount)).toLocaleString();
+
+/**
+ * Checkout for licensing an IP-NFT. `requestLicense` / `renewLicense` pull the USDC fee into
+ * SparkIPNFT and have LicenseSCILocker lock the SCI through `lockForLicense` /
+ * `extendLicenseLock`, so USDC is approved to SparkIPNFT and SCI to the locker first.
+ */
+export default function ModalLicenseCheckout({
+  handler,
+  ipNftId,
+  licenseNftId,
+  onComplete,
+}: ModalLicenseCheckoutProps) {
+  const wallet = useWallet();
+  const networkInfo = useNetworkInfo();
+  const { addNotification } = useNotification();
+  const [periods, setPeriods] = useState('1');
+  const [checkout, setCheckout] = useState<CheckoutState | null>(null);
+  const [isLoadingCheckout, setIsLoadingCheckout] = useState(true);
+  const [pendingStep, setPendingStep] = useState<CheckoutStep | null>(null);
+  const [transactionHash, setTransactionHash] = useState('');
+  const [licenseInitiated, setLicenseInitiated] = useState(false);
+  const [issuedLicense, setIssuedLicense] = useState<{ id: bigint; expiresAt: number } | null>(null);
+
+  const isRenewal = licenseNftId !== undefined;
+  const ipNftAddress = networkInfo?.sparkIpNft;
+  const userAddress = wallet?.state?.address;
+  const publicClient = wallet?.state?.publicClient;
+
+  const handleRpcError = useCallback(
+    (errorObj: CustomError | Error) => {
+      if ('shortMessage' in errorObj && errorObj.shortMessage) {
+        addNotification(errorObj.shortMessage, 'error');
+      } else {
+        addNotification(
+          errorObj instanceof Error ? errorObj.message : 'An error occurred',
+          'error'
+        );
+      }
+    },
+    [addNotification]
+  );
+
+  const fetchCheckoutState = useCallback(async () => {
+    if (!ipNftAddress || !userAddress || !publicClient) {
+      setIsLoadingCheckout(false);
+      return;
+    }
+
+    try {
+      // SparkIPNFT pulls payment from the tokens it was configured with, so those are used
+      // rather than the ecosystem token addresses
+      const [usdcToken, sciToken, locker, termsResult] = await Promise.all([
+        publicClient.readContract({
+          address: ipNftAddress,
+          abi: sparkIpNftAbi,
+          functionName: 'usdcTokenAddress',
+        }) as Promise<Address>,
+        publicClient.readContract({
+          address: ipNftAddress,
+          abi: sparkIpNftAbi,
+          functionName: 'sciTokenAddress',
+        }) as Promise<Address>,
+        publicClient.readContract({
+          address: ipNftAddress,
+          abi: sparkIpNftAbi,
+          functionName: 'licenseSciLockerAddress',
+        }) as Promise<Address>,
+        publicClient.readContract({
+          address: ipNftAddress,
+          abi: sparkIpNftAbi,
+          functionName: 'ipNftLicenseTerms',
+          args: [ipNftId],
+        }) as Promise<readonly [bigint, bigint, bigint, boolean]>,
+      ]);
+
+      const [usdcBalance, sciBalance, usdcAllowance, sciAllowance, lockInfo] = await Promise.all([
+        publicClient.readContract({
+          address: usdcToken,
+          abi: usdcAbi,
+          functionName: 'balanceOf',
+          args: [userAddress],
+        }) as Promise<bigint>,
+        publicClient.readContract({
+          address: sciToken,
+          abi: sciAbi,
+          functionName: 'balanceOf',
+          args: [userAddress],
+        }) as Promise<bigint>,
+        publicClient.readContract({
+          address: usdcToken,
+          abi: usdcAbi,
+          functionName: 'allowance',
+          args: [userAddress, ipNftAddress],
+        }) as Promise<bigint>,
+        publicClient.readContract({
+          address: sciToken,
+          abi: sciAbi,
+          functionName: 'allowance',
+          args: [userAddress, locker],
+        }) as Promise<bigint>,
+        isRenewal
+          ? (publicClient.readContract({
+              address: locker,
+              abi: licenseSciLockerAbi,
+              functionName: 'getLicenseLockDetails',
+              args: [licenseNftId],
+            }) as Promise<LicenseLockInfo>)
+          : Promise.resolve(null),
+      ]);
+
+      const [feePerPeriodUSD, periodLengthInDays, sciAmountToLock, termsSet] = termsResult;
+      setCheckout({
+        usdcToken,
+        sciToken,
+        locker,
+        feePerPeriodUSD,
+        periodLengthInDays,
+        sciAmountToLock,
+        termsSet,
+        currentlyLocked: lockInfo?.amount ?? BigInt(0),
+        usdcBalance,
+        sciBalance,
+        usdcAllowance,
+        sciAllowance,
+      });
+    } catch (err) {
+      console.error('Error fetching license checkout state:', err);
+      addNotification('Failed to load license terms. Please try again.', 'error');
+    } finally {
+      setIsLoadingCheckout(false);
+    }
+  }, [ipNftAddress, userAddress, publicClient, ipNftId, licenseNftId, isRenewal, addNotification]);
+
+  useEffect(() => {
+    fetchCheckoutState();
+  }, [fetchCheckoutState]);
+
+  const numberOfPeriods = /^\d+$/.test(periods) ? BigInt(periods) : BigInt(0);
+  const isValidPeriods = numberOfPeriods > BigInt(0);
+  const usdcRequired = checkout ? checkout.feePerPeriodUSD * numberOfPeriods : BigInt(0);
+  // A renewal only locks the difference when the terms now require more SCI than is locked
+  const sciRequired = checkout
+    ? isRenewal
+      ? checkout.sciAmountToLock > checkout.currentlyLocked
+        ? checkout.sciAmountToLock - checkout.currentlyLocked
+        : BigInt(0)
+      : checkout.sciAmountToLock
+    : BigInt(0);
+  const needsUsdcApproval = !!checkout && checkout.usdcAllowance < usdcRequired;
+  const needsSciApproval = !!checkout && checkout.sciAllowance < sciRequired;
+  const hasInsufficientBalance =
+    !!checkout && (checkout.usdcBalance < usdcRequired || checkout.sciBalance < sciRequired);
+
+  async function approve(step: 'usdc' | 'sci') {
+    if (!checkout || !ipNftAddress || !wallet?.state?.walletClient || !userAddress || !publicClient) {
+      return;
+    }
+
+    try {
+      setPendingStep(step);
+      const { request } = await publicClient.simulateContract({
+        address: step === 'usdc' ? checkout.usdcToken : checkout.sciToken,
+        abi: step === 'usdc' ? usdcAbi : sciAbi,
+        functionName: 'approve',
+        args: step === 'usdc' ? [ipNftAddress, usdcRequired] : [checkout.locker, sciRequired],
+        account: userAddress as Address,
+      });
+      const hash = await wallet.state.walletClient.writeContract(request);
+
+      if (wallet?.state?.isSmartContractWallet && hash) {
+        // Smart contract wallets may execute the approval later, so the allowance is re-read
+        // instead of waiting for a receipt
+        addNotification(
+          `${step === 'usdc' ? 'USDC' : 'SCI'} approval submitted. Continue once your wallet has executed it.`,
+          'success'
+        );
+      } else {
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== 'success') {
+          throw new Error('Approval transaction failed.');
+        }
+        addNotification(`${step === 'usdc' ? 'USDC' : 'SCI'} approval successful!`, 'success');
+      }
+      await fetchCheckoutState();
+    } catch (err) {
+      handleRpcError(err instanceof Error ? err : new Error(String(err)));
+      console.error('Approval error:', err);
+    } finally {
+      setPendingStep(null);
+    }
+  }
+
+  async function submitLicense() {
+    if (!ipNftAddress || !wallet?.state?.walletClient || !userAddress || !publicClient) {
+      return;
+    }
+
+    try {
+      setPendingStep('submit');
+      const { request } = await publicClient.simulateContract({
+        address: ipNftAddress,
+        abi: sparkIpNftAbi,
+        functionName: isRenewal ? 'renewLicense' : 'requestLicense',
+        args: isRenewal ? [licenseNftId, numberOfPeriods] : [ipNftId, numberOfPeriods],
+        account: userAddress as Address,
+      });
+      const hash: Hex = await wallet.state.walletClient.writeContract(request);
+
+      if (wallet?.state?.isSmartContractWallet && hash) {
+        setTransactionHash(`${networkInfo?.explorerLink}/tx/${hash}`);
+        setLicenseInitiated(true);
+      } else {
+        const receipt = await publicClient.waitForTransactionReceipt({ hash });
+        if (receipt.status !== 'success') {
+          throw new Error('License transaction failed.');
+        }
+
+        const logs = parseEventLogs({
+          abi: sparkIpNftAbi,
+          logs: receipt.logs.filter((log) => log.address.toLowerCase() === ipNftAddress.toLowerCase()),
+          eventName: isRenewal ? 'LicenseRenewed' : 'LicenseIssued',
+        });
+        if (logs[0]) {
+          if (isRenewal) {
+            const args = logs[0].args as unknown as LicenseRenewedArgs;
+            setIssuedLicense({ id: args.licenseNftId, expiresAt: Number(args.newExpirationTimestamp) });
+          } else {
+            const args = logs[0].args as unknown as LicenseIssuedArgs;
+            setIssuedLicense({ id: args.licenseNftId, expiresAt: Number(args.expirationTimestamp) });
+          }
+        }
+        setTransactionHash(`${networkInfo?.explorerLink}/tx/${hash}`);
+        setLicenseInitiated(true);
+      }
+      onComplete?.();
+    } catch (err) {
+      handleRpcError(err instanceof Error ? err : new Error(String(err)));
+      console.error('License checkout error:', err);
+    } finally {
+      setPendingStep(null);
+    }
+  }
+
+  if (licenseInitiated) {
+    return (
+      <div className="z-40">
+        <Modal
+          transactionHash={transactionHash}
+          handler={handler}
+          title={isRenewal ? 'License renewed!' : 'License issued!'}
+          subtitle={
+            issuedLicense
+              ? `LicenseNFT #${issuedLicense.id.toString()} is valid until ${new Date(
+                  issuedLicense.expiresAt * 1000
+                ).toLocaleString()}.`
+              : 'Your LicenseNFT will appear in your licenses once the transaction is executed.'
+          }
+        >
+          <></>
+        </Modal>
+      </div>
+    );
+  }
+
+  const stepButtonClass = `${styles.primary} w-full xs:px-2 xs:py-2 xs:text-sm sm:px-6 sm:py-4 sm:text-base`;
+
+  return (
+    <ModalUI
+      handler={handler}
+      glowColorAndBorder={
+        'border-tropicalBlue border-[1px] hover:shadow-glow-tropicalBlue-intermediate'
+      }
+    >
+      <div className="flex w-full flex-col sm:w-[32rem]">
+        <section className="mb-6 flex flex-col items-center">
+          <h2 className="text-center">
+            {licenseNftId !== undefined
+              ? `Renew License #${licenseNftId.toString()}`
+              : `License IP-NFT #${ipNftId.toString()}`}
+          </h2>
+        </section>
+
+        {!wallet?.state?.walletClient ? (
+          <ConnectWallet isNavBar={false} toggleAccountMenu={() => null} />
+        ) : isLoadingCheckout ? (
+          <p className="animate-pulse text-gray-400">Loading license terms...</p>
+        ) : !checkout ? (
+          <p className="text-highlightRed">License terms could not be loaded.</p>
+        ) : !checkout.termsSet ? (
+          <p className="text-gray-400">The owner has not set license terms for this IP-NFT yet.</p>
+        ) : (
+          <div className="space-y-4 text-left text-sm sm:text-base">
+            <label className="flex items-center justify-between gap-4">
+              <span>{isRenewal ? 'Additional periods' : 'Number of periods'}</span>
+              <input
+                type="number"
+                min={1}
+                value={periods}
+                onChange={(e) => setPeriods(e.target.value)}
+                disabled={pendingStep !== null}
+                className="w-24 rounded-md border border-seaBlue-700 bg-seaBlue-1100 px-3 py-1 text-right"
+              />
+            </label>
+
+            <dl className="space-y-1 rounded-lg border border-seaBlue-700 p-4">
+              <div className="flex justify-between">
+                <dt className="text-gray-400">Period length</dt>
+                <dd>{checkout.periodLengthInDays.toString()} days</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-400">Fee per period</dt>
+                <dd>{formatUsdc(checkout.feePerPeriodUSD)} USDC</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-400">Total duration</dt>
+                <dd>{(checkout.periodLengthInDays * numberOfPeriods).toString()} days</dd>
+              </div>
+              <div className="flex justify-between font-acuminSemiBold">
+                <dt>USDC to pay</dt>
+                <dd>{formatUsdc(usdcRequired)} USDC</dd>
+              </div>
+              <div className="flex justify-between font-acuminSemiBold">
+                <dt>SCI to lock</dt>
+                <dd>{formatSci(sciRequired)} SCI</dd>
+              </div>
+              {isRenewal && (
+                <div className="flex justify-between text-xs text-gray-400">
+                  <dt>Currently locked</dt>
+                  <dd>{formatSci(checkout.currentlyLocked)} SCI</dd>
+                </div>
+              )}
+            </dl>
+
+            <p className="text-xs text-gray-400">
+              Locked SCI is returned once the license expires and has been processed.
+            </p>
+
+            {!isValidPeriods && (
+              <p className="text-highlightRed">Enter at least one period.</p>
+            )}
+            {hasInsufficientBalance && (
+              <p className="text-highlightRed">
+                Insufficient balance: you hold {formatUsdc(checkout.usdcBalance)} USDC and{' '}
+                {formatSci(checkout.sciBalance)} SCI.
+              </p>
+            )}
+
+            <div className="flex flex-col gap-3 pt-2">
+              {needsUsdcApproval && (
+                <button
+                  type="button"
+                  className={stepButtonClass}
+                  onClick={() => approve('usdc')}
+                  disabled={!isValidPeriods || hasInsufficientBalance || pendingStep !== null}
+                >
+                  {pendingStep === 'usdc' ? 'Approving USDC...' : `1. Approve ${formatUsdc(usdcRequired)} USDC`}
+                </button>
+              )}
+              {needsSciApproval && (
+                <button
+                  type="button"
+                  className={stepButtonClass}
+                  onClick={() => approve('sci')}
+                  disabled={
+                    !isValidPeriods || hasInsufficientBalance || needsUsdcApproval || pendingStep !== null
+                  }
+                >
+                  {pendingStep === 'sci' ? 'Approving SCI...' : `${needsUsdcApproval ? '2' : '1'}. Approve ${formatSci(sciRequired)} SCI`}
+                </button>
+              )}
+              <button
+                type="button"
+                className={stepButtonClass}
+                onClick={submitLicense}
+                disabled={
+                  !isValidPeriods ||
+                  hasInsufficientBalance ||
+                  needsUsdcApproval ||
+                  needsSciApproval ||
+                  pendingStep !== null
+                }
+              >
+                {pendingStep === 'submit'
+                  ? 'Submitting...'
+                  : isRenewal
+                    ? 'Renew License'
+                    : 'Request License'}
+              </button>
+              {wallet?.state?.isSmartContractWallet && (needsUsdcApproval || needsSciApproval) && (
+                <button
+                  type="button"
+                  onClick={fetchCheckoutState}
+                  className="text-xs text-steelBlue hover:text-tropicalBlue"
+                >
+                  Refresh approvals
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </ModalUI>
+  );
+}
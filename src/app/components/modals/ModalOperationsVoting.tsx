@@ -0,0 +1,263 @@
+'use client';
+
+import { useState } from 'react';
+import { useWallet } from '@/app/context/WalletContext';
+import { UserVoteDataGovOps } from '@/app/utils/interfaces';
+import {
+  getQuadraticCost,
+  getQuadraticVotes,
+} from '../hooks/UseOperationsProposal';
+import styles from '../general/Button.module.css';
+import Modal from './Modal';
+import ModalUI from './ModalUI';
+import ErrorDisplay from '../general/ErrorDisplay';
+import ConnectWallet from '../general/ConnectWallet';
+
+interface ModalOperationsVotingProps {
+  handler: (open: boolean) => void;
+  index: number;
+  quadraticVoting: boolean;
+  votingRights: number;
+  eligibleToVote: boolean;
+  votingRightsThresholdReached: boolean;
+  timeLeftToChangeVote: number;
+  userVoteData: UserVoteDataGovOps | undefined;
+  isLoadingEligibility: boolean;
+  isVoting: boolean;
+  transactionHash: string;
+  vote: (support: boolean) => Promise<boolean>;
+}
+
+const formatTimeLeft = (timeLeft: number) => {
+  const hours = Math.floor(timeLeft / 3600);
+  const minutes = Math.floor((timeLeft % 3600) / 60);
+  const seconds = timeLeft % 60;
+  return `${hours > 0 ? `${hours}h ` : ''}${minutes}m ${seconds < 10 ? `0${seconds}` : seconds}s`;
+};
+
+export default function ModalOperationsVoting({
+  handler,
+  index,
+  quadraticVoting,
+  votingRights,
+  eligibleToVote,
+  votingRightsThresholdReached,
+  timeLeftToChangeVote,
+  userVoteData,
+  isLoadingEligibility,
+  isVoting,
+  transactionHash,
+  vote,
+}: ModalOperationsVotingProps) {
+  const wallet = useWallet();
+  const [voteInitiated, setVoteInitiated] = useState(false);
+  const maxQuadraticVotes = getQuadraticVotes(votingRights);
+  const [desiredVotes, setDesiredVotes] = useState(maxQuadraticVotes);
+
+  const standardVotes = Math.floor(votingRights);
+  const desiredCost = getQuadraticCost(desiredVotes);
+  const exceedsVotingRights = desiredCost > votingRights;
+
+  const handleVote = async (support: boolean) => {
+    if (await vote(support)) {
+      setVoteInitiated(true);
+    }
+  };
+
+  const voteButtonClass = (borderColor: string, glow: string) => `
+    flex
+    h-12
+    w-full
+    items-center
+    justify-center
+    whitespace-nowrap
+    rounded-lg
+    border-[1px]
+    ${borderColor}
+    bg-seaBlue-700
+    transition-all
+    duration-300
+    ease-in-out
+    hover:bg-seaBlue-500
+    ${glow}
+    disabled:cursor-not-allowed
+    disabled:border-gray-400
+    disabled:bg-gray-400
+    disabled:opacity-60
+    xs:px-2
+    xs:py-2
+    xs:text-sm
+    sm:px-6
+    sm:py-8
+    sm:text-base
+    md:text-lg
+    xl:text-xl
+  `;
+
+  return (
+    <ModalUI
+      handler={handler}
+      glowColorAndBorder={
+        'border-tropicalBlue border-[1px] hover:shadow-glow-tropicalBlue-intermediate'
+      }
+    >
+      <div className="flex w-full flex-col sm:w-[36rem]">
+        <section className="mb-6 flex flex-col items-center justify-between">
+          <h2 className="max-w-11/12 mx-2 flex min-w-[17rem] items-center justify-center whitespace-nowrap text-center">
+            Vote on OP-{index}
+          </h2>
+          <p className="pt-4 text-center text-gray-400 xs:text-2xs xs+:text-sm sm:text-base">
+            {quadraticVoting
+              ? 'This proposal uses quadratic voting: your votes equal the square root of your voting rights.'
+              : 'Your votes equal your voting rights.'}
+          </p>
+        </section>
+
+        <div className="space-y-4">
+          <div className="flex flex-col gap-2 rounded-lg border border-seaBlue-700 p-4 text-sm sm:text-base">
+            <span>
+              Voting rights:{' '}
+              <span className="font-acuminSemiBold">
+                {votingRights.toLocaleString()} SCI
+              </span>
+            </span>
+            <span>
+              Votes cast:{' '}
+              <span className="font-acuminSemiBold text-tropicalBlue">
+                {(quadraticVoting ? maxQuadraticVotes : standardVotes).toLocaleString()}
+              </span>
+              {quadraticVoting && (
+                <span className="text-gray-400">
+                  {' '}
+                  (standard: {standardVotes.toLocaleString()})
+                </span>
+              )}
+            </span>
+          </div>
+
+          {quadraticVoting && (
+            <div className="flex flex-col gap-2 rounded-lg border border-seaBlue-700 p-4 text-sm sm:text-base">
+              <label htmlFor="desiredVotes">Quadratic cost preview</label>
+              <input
+                id="desiredVotes"
+                type="number"
+                min={0}
+                step={1}
+                value={desiredVotes}
+                onChange={(e) =>
+                  setDesiredVotes(Math.max(0, Math.floor(Number(e.target.value) || 0)))
+                }
+                className="w-full rounded-lg border border-seaBlue-700 bg-seaBlue-1100 px-3 py-2"
+              />
+              <span>
+                {desiredVotes.toLocaleString()} vote{desiredVotes === 1 ? '' : 's'} cost{' '}
+                <span
+                  className={`font-acuminSemiBold ${exceedsVotingRights ? 'text-highlightRed' : 'text-seafoamGreen'}`}
+                >
+                  {desiredCost.toLocaleString()} SCI
+                </span>{' '}
+                of voting rights.
+              </span>
+              {exceedsVotingRights && (
+                <span className="text-highlightRed">
+                  You need more voting rights for this many votes.
+                </span>
+              )}
+            </div>
+          )}
+
+          {userVoteData?.voted && timeLeftToChangeVote > 0 && (
+            <div className="flex flex-col gap-2">
+              <span>
+                Current choice:{' '}
+                {userVoteData.previousSupport ? (
+                  <span className="font-acuminSemiBold text-seafoamGreen">
+                    For
+                  </span>
+                ) : (
+                  <span className="font-acuminSemiBold text-highlightRed">
+                    Against
+                  </span>
+                )}
+              </span>
+              <span>
+                Time left to change vote:
+                <span className="font-acuminSemiBold text-orange-500">
+                  &nbsp;
+                  {formatTimeLeft(timeLeftToChangeVote)}
+                </span>
+              </span>
+            </div>
+          )}
+
+          {!wallet?.state?.walletClient ? (
+            <div className="mt-6">
+              <ConnectWallet
+                isNavBar={false}
+                toggleAccountMenu={() => null}
+              />
+            </div>
+          ) : (
+            <section className="mt-6">
+              {isVoting ? (
+                <button
+                  className={`${styles.primary} xs:px-2 xs:py-2 xs:text-sm sm:px-6 sm:py-8 sm:text-base md:text-lg xl:text-xl`}
+                >
+                  <span className="animate-pulse">Awaiting vote...</span>
+                  <span className="mx-2 block h-6 w-6 animate-spin rounded-full border-2 border-[#2D7FEA] border-t-transparent"></span>
+                </button>
+              ) : isLoadingEligibility ? (
+                <p className="animate-pulse text-highlightRed">
+                  Checking voting eligibility...
+                </p>
+              ) : eligibleToVote ? (
+                <div className="flex w-full items-center justify-between gap-4 sm:gap-6">
+                  <button
+                    className={voteButtonClass(
+                      'border-neonGreen',
+                      'hover:shadow-glow-neonGreen-limited'
+                    )}
+                    onClick={() => handleVote(true)}
+                  >
+                    Vote For
+                  </button>
+                  <button
+                    className={voteButtonClass(
+                      'border-highlightRed',
+                      'hover:shadow-glow-highlightRed-limited'
+                    )}
+                    onClick={() => handleVote(false)}
+                  >
+                    Vote Against
+                  </button>
+                </div>
+              ) : (
+                <div className="w-full">
+                  <ErrorDisplay
+                    error={
+                      votingRightsThresholdReached
+                        ? 'You cannot vote on this proposal right now'
+                        : 'You do not hold enough voting rights to vote'
+                    }
+                  />
+                </div>
+              )}
+            </section>
+          )}
+        </div>
+      </div>
+      {voteInitiated && (
+        <div className="z-40">
+          <Modal
+            transactionHash={transactionHash}
+            handler={setVoteInitiated}
+            title={`Vote successful!`}
+            subtitle={''}
+          >
+            <></>
+          </Modal>
+        </div>
+      )}
+    </ModalUI>
+  );
+}
@@ -28,6 +28,7 @@ export default function ModalPreview({
   interactingContract,
   explorerLink,
   loading,
+  details = [] as { label: string; value: string }[],
 }) {
   const wallet = useWallet();
   const [isSmallScreen, setIsSmallScreen] = useState(window.innerWidth <= 2600);
@@ -165,6 +166,14 @@ export default function ModalPreview({
           </button>
         );
       default:
+        // Read-only previews have nothing to submit
+        if (!func) {
+          return (
+            <button className={styles.primary} onClick={() => handler(false)}>
+              Close preview
+            </button>
+          );
+        }
         return (
           <button 
             className={styles.primary} 
@@ -307,27 +316,39 @@ export default function ModalPreview({
                 />
               </Link>
             </div>
-            <div className="flex justify-between">
-              <span>Est. gas fees:</span>
-              <TermModal term={`${Number(gasFee).toFixed(9)} ${feeCurrency}`}>
-                These are the fees that need to be paid to network validators to
-                ensure network security.
-              </TermModal>
-            </div>
-            <div className="flex justify-between">
-              <span>Amount:</span>
-              {purpose == 'Donation' ? (
-                <TermModal term={`${Number(amount).toLocaleString()} ${asset}`}>
-                  Of your total donated amount, 95% will be used to fund
-                  personalized medicine research directly, and 5% will be sent
-                  to PoSciDonDAO&apos;s treasury.
+            {details.map(({ label, value }) => (
+              <div key={label} className="flex justify-between gap-4">
+                <span className="whitespace-nowrap">{label}:</span>
+                <span className="break-all text-right">{value}</span>
+              </div>
+            ))}
+            {gasFee != null && (
+              <div className="flex justify-between">
+                <span>Est. gas fees:</span>
+                <TermModal term={`${Number(gasFee).toFixed(9)} ${feeCurrency}`}>
+                  These are the fees that need to be paid to network validators
+                  to ensure network security.
                 </TermModal>
-              ) : (
-                <span>
-                  {Number(amount).toLocaleString()} {asset}
-                </span>
-              )}
-            </div>
+              </div>
+            )}
+            {amount != null && (
+              <div className="flex justify-between">
+                <span>Amount:</span>
+                {purpose == 'Donation' ? (
+                  <TermModal
+                    term={`${Number(amount).toLocaleString()} ${asset}`}
+                  >
+                    Of your total donated amount, 95% will be used to fund
+                    personalized medicine research directly, and 5% will be
+                    sent to PoSciDonDAO&apos;s treasury.
+                  </TermModal>
+                ) : (
+                  <span>
+                    {Number(amount).toLocaleString()} {asset}
+                  </span>
+                )}
+              </div>
+            )}
             <hr className="border-b-[1px]" />
           </section>
           <div className="my-2 flex w-full flex-col items-center justify-center">
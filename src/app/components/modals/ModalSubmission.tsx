@@ -8,9 +8,10 @@ interface ModalSubmissionProps {
   onClose: () => void;
   title: string;
   ideaId: string | number;
+  onchainIdeaId?: string;
 }
 
-const ModalSubmission: React.FC<ModalSubmissionProps> = ({ isOpen, onClose, title, ideaId }) => {
+const ModalSubmission: React.FC<ModalSubmissionProps> = ({ isOpen, onClose, title, ideaId, onchainIdeaId }) => {
   if (!isOpen) {
     return null;
   }
@@ -39,6 +40,11 @@ const ModalSubmission: React.FC<ModalSubmissionProps> = ({ isOpen, onClose, titl
           <p className="mb-6 text-sm text-seaBlue-300">
             Reference ID: <span className="font-mono text-seaBlue-100">{ideaId}</span>
           </p>
+          {onchainIdeaId && (
+            <p className="-mt-4 mb-6 break-all text-xs text-seaBlue-300">
+              On-chain ID: <span className="font-mono text-seaBlue-100">{onchainIdeaId}</span>
+            </p>
+          )}
           <button
             onClick={onClose}
             className="group relative w-full sm:w-auto px-8 py-3 bg-gradient-to-r from-orange-600 to-orange-500 rounded-full text-white font-semibold text-base transition-all duration-300 hover:shadow-glow-fieryRed-limited overflow-hidden"
@@ -0,0 +1,68 @@
+/**
+ * Spark Platform - ProtectedContent Component
+ * 
+ * Renders confidential idea content that is stored encrypted. Content is decrypted in the
+ * browser with the idea's content key; without a key the viewer is sent through AccessGate.
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { AccessGate } from './AccessGate';
+import { ProtectedContentProps } from './types/access-control';
+import { decryptIdeaContent } from '@/app/utils/ideaEncryption';
+
+export const ProtectedContent: React.FC<ProtectedContentProps> = ({
+  children,
+  requiredAccess,
+  ideaId,
+  encryptedContent,
+  decryptionKey,
+  className
+}) => {
+  const [plaintext, setPlaintext] = useState<string | null>(null);
+  const [decryptionError, setDecryptionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPlaintext(null);
+    setDecryptionError(null);
+    if (encryptedContent === undefined || !decryptionKey) {
+      return;
+    }
+
+    let cancelled = false;
+    decryptIdeaContent(encryptedContent, decryptionKey)
+      .then((content) => {
+        if (!cancelled) setPlaintext(content);
+      })
+      .catch((error) => {
+        console.error('Failed to decrypt protected content:', error);
+        if (!cancelled) setDecryptionError('Unable to decrypt this content.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [encryptedContent, decryptionKey]);
+
+  // Holding the key means the server already verified access, so the gate is only needed without one
+  if (encryptedContent === undefined || !decryptionKey) {
+    return (
+      <AccessGate requiredAccess={requiredAccess} ideaId={ideaId}>
+        {children}
+      </AccessGate>
+    );
+  }
+
+  if (decryptionError) {
+    return <p className="text-sm text-red-400">{decryptionError}</p>;
+  }
+
+  if (plaintext === null) {
+    return <p className="text-sm text-slate-400">Decrypting...</p>;
+  }
+
+  return <div className={className}>{plaintext}</div>;
+};
+
+export default ProtectedContent;
@@ -11,6 +11,11 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { useAttestationVault } from '../../hooks/useAttestationVault';
 import { useWallet } from '@/app/context/WalletContext';
 import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { type Abi, type Hex } from 'viem';
+import { EIP712_TYPES, createSparkEIP712Domain } from '@/app/constants/eip712';
+import attestationVaultJson from '@/app/abi/AttestationVault.json';
+
+const attestationVaultAbi = attestationVaultJson as Abi;
 
 interface IdeaDetails {
   id: string;
@@ -32,7 +37,12 @@ const IdeaNDASignature: React.FC<IdeaNDASignatureProps> = ({
   onSuccess,
   onCancel
 }) => {
-  const { state: walletState } = useWallet();
+  const {
+    state: walletState,
+    signTypedDataGeneric,
+    writeContractGeneric,
+    waitForTransactionGeneric
+  } = useWallet();
   const networkInfo = useNetworkInfo();
   const { 
     isLoading: hookLoading,
@@ -163,11 +173,11 @@ IMPORTANT: Completion requires DocuSign signature followed by on-chain attestati
     const pollInterval = setInterval(async () => {
       try {
         const statusResponse = await fetch(`/api/docusign/check-status?envelopeId=${envelopeId}`);
-        const { status, completed } = await statusResponse.json();
+        const { status, completed, documentHash } = await statusResponse.json();
         
-        if (completed || status === 'completed') {
+        if ((completed || status === 'completed') && documentHash) {
           clearInterval(pollInterval);
-          await handleDocuSignComplete(`envelope_${envelopeId}_completed`);
+          await handleDocuSignComplete(envelopeId, documentHash);
         }
       } catch (error) {
         console.error('Error polling DocuSign status:', error);
@@ -186,7 +196,7 @@ IMPORTANT: Completion requires DocuSign signature followed by on-chain attestati
     }, 600000);
   };
 
-  const handleDocuSignComplete = async (docusignSignature: string) => {
+  const handleDocuSignComplete = async (envelopeId: string, documentHash: Hex) => {
     try {
       if (!networkInfo?.attestationVault || !walletState.address) {
         throw new Error('Wallet or network not properly configured');
@@ -195,12 +205,33 @@ IMPORTANT: Completion requires DocuSign signature followed by on-chain attestati
       console.log('DocuSign completed, submitting on-chain attestation');
       
       // Convert ideaId to bytes32 format
-      const ideaIdBytes32 = ideaId.startsWith('0x') 
+      const ideaIdBytes32 = (ideaId.startsWith('0x') 
         ? ideaId 
-        : `0x${ideaId.padStart(64, '0')}`;
-      
-      // Call the attestation function through API endpoint that handles contract interaction
-      // This avoids complex viem TypeScript issues while maintaining real functionality
+        : `0x${ideaId.padStart(64, '0')}`) as Hex;
+
+      const ethSignature = await signTypedDataGeneric({
+        domain: createSparkEIP712Domain(networkInfo.chainId, networkInfo.attestationVault),
+        types: { SparkIdeaNdaAttestation: EIP712_TYPES.SparkIdeaNdaAttestation },
+        primaryType: 'SparkIdeaNdaAttestation',
+        message: { userSignedDocumentHash: documentHash, ideaId: ideaIdBytes32 },
+      });
+      if (!ethSignature) {
+        throw new Error('Signature request was rejected');
+      }
+
+      // AttestationVault requires the signer to submit the attestation themselves
+      const attestationHash = await writeContractGeneric({
+        address: networkInfo.attestationVault,
+        abi: attestationVaultAbi,
+        functionName: 'attestToIdeaNda',
+        args: [ideaIdBytes32, documentHash, ethSignature],
+      });
+      if (!attestationHash) {
+        throw new Error('Attestation transaction was not submitted');
+      }
+      await waitForTransactionGeneric({ hash: attestationHash });
+
+      // Record the verified attestation
       const attestationResponse = await fetch('/api/attestation/idea-nda', {
         method: 'POST',
         headers: {
@@ -208,9 +239,11 @@ IMPORTANT: Completion requires DocuSign signature followed by on-chain attestati
         },
         body: JSON.stringify({
           ideaId: ideaIdBytes32,
-          signature: docusignSignature,
           walletAddress: walletState.address,
-          contractAddress: networkInfo.attestationVault,
+          envelopeId,
+          userSignedDocumentHash: documentHash,
+          signature: ethSignature,
+          transactionHash: attestationHash,
         }),
       });
 
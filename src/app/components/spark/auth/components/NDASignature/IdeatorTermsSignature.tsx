@@ -11,6 +11,12 @@ import React, { useState, useEffect } from 'react';
 import { useAttestationVault } from '../../hooks/useAttestationVault';
 import { useWallet } from '@/app/context/WalletContext';
 import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { type Abi, type Hex } from 'viem';
+import { publicClient } from '@/app/config/viem';
+import { EIP712_TYPES, createSparkEIP712Domain, fetchAgreementTypeIds } from '@/app/constants/eip712';
+import attestationVaultJson from '@/app/abi/AttestationVault.json';
+
+const attestationVaultAbi = attestationVaultJson as Abi;
 
 interface IdeatorTermsSignatureProps {
   onSuccess?: () => void;
@@ -21,7 +27,12 @@ const IdeatorTermsSignature: React.FC<IdeatorTermsSignatureProps> = ({
   onSuccess,
   onCancel
 }) => {
-  const { state: walletState } = useWallet();
+  const {
+    state: walletState,
+    signTypedDataGeneric,
+    writeContractGeneric,
+    waitForTransactionGeneric
+  } = useWallet();
   const networkInfo = useNetworkInfo();
   const { 
     isLoading: hookLoading,
@@ -152,11 +163,11 @@ IMPORTANT: Completion requires DocuSign signature followed by on-chain attestati
     const pollInterval = setInterval(async () => {
       try {
         const statusResponse = await fetch(`/api/docusign/check-status?envelopeId=${envelopeId}`);
-        const { status, completed } = await statusResponse.json();
+        const { status, completed, documentHash } = await statusResponse.json();
         
-        if (completed || status === 'completed') {
+        if ((completed || status === 'completed') && documentHash) {
           clearInterval(pollInterval);
-          await handleDocuSignComplete(`envelope_${envelopeId}_completed`);
+          await handleDocuSignComplete(envelopeId, documentHash);
         }
       } catch (error) {
         console.error('Error polling DocuSign status:', error);
@@ -175,7 +186,7 @@ IMPORTANT: Completion requires DocuSign signature followed by on-chain attestati
     }, 600000);
   };
 
-  const handleDocuSignComplete = async (docusignSignature: string) => {
+  const handleDocuSignComplete = async (envelopeId: string, documentHash: Hex) => {
     try {
       if (!networkInfo?.attestationVault || !walletState.address) {
         throw new Error('Wallet or network not properly configured');
@@ -183,16 +194,46 @@ IMPORTANT: Completion requires DocuSign signature followed by on-chain attestati
 
       console.log('DocuSign completed, submitting on-chain attestation');
       
-      // Call the attestation function through API endpoint
+      // The signed document hash is attested on-chain under the agreement type ID
+      const { PLATFORM_IDEATOR_TERMS: agreementTypeId } = await fetchAgreementTypeIds(
+        publicClient,
+        networkInfo.attestationVault
+      );
+
+      const ethSignature = await signTypedDataGeneric({
+        domain: createSparkEIP712Domain(networkInfo.chainId, networkInfo.attestationVault),
+        types: { SparkUserDocumentAttestation: EIP712_TYPES.SparkUserDocumentAttestation },
+        primaryType: 'SparkUserDocumentAttestation',
+        message: { userSignedDocumentHash: documentHash, agreementTypeId },
+      });
+      if (!ethSignature) {
+        throw new Error('Signature request was rejected');
+      }
+
+      // AttestationVault requires the signer to submit the attestation themselves
+      const attestationHash = await writeContractGeneric({
+        address: networkInfo.attestationVault,
+        abi: attestationVaultAbi,
+        functionName: 'attestToSignedDocument',
+        args: [documentHash, agreementTypeId, ethSignature],
+      });
+      if (!attestationHash) {
+        throw new Error('Attestation transaction was not submitted');
+      }
+      await waitForTransactionGeneric({ hash: attestationHash });
+
+      // Record the verified attestation
       const attestationResponse = await fetch('/api/attestation/ideator-terms', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          signature: docusignSignature,
           walletAddress: walletState.address,
-          contractAddress: networkInfo.attestationVault,
+          envelopeId,
+          userSignedDocumentHash: documentHash,
+          signature: ethSignature,
+          transactionHash: attestationHash,
         }),
       });
 
@@ -1,19 +1,19 @@
 /**
  * Spark Platform - useAttestationVault Hook
- * 
+ *
  * Custom hook for interacting with the AttestationVault smart contract.
  * Provides functions to check NDA attestations and verify user access levels.
  */
 
 import { useCallback, useState } from 'react';
-import { useWallet } from '@/app/context/WalletContext';
+import { publicClient } from '@/app/config/viem';
 import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
 import { useNotification } from '@/app/context/NotificationContext';
 import { NDAAthestationLevel } from '../types/access-control';
-import { readContract } from 'viem/actions';
-import AttestationVaultABIFile from '@/app/abi/AttestationVault.json';
-
-const AttestationVaultABI = AttestationVaultABIFile;
+import {
+  checkIdeaNdaAttestation as readIdeaNdaAttestation,
+  checkPlatformAttestations as readPlatformAttestations,
+} from '../utils/attestation-checks';
 
 export interface AttestationStatus {
   isValid: boolean;
@@ -38,90 +38,26 @@ export interface UseAttestationVaultReturn {
 export const useAttestationVault = (): UseAttestationVaultReturn => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { state: walletState } = useWallet();
   const networkInfo = useNetworkInfo();
   const { addNotification } = useNotification();
 
+  const vaultAddress = networkInfo?.attestationVault;
+
   const clearError = useCallback(() => {
     setError(null);
   }, []);
 
   /**
-   * Check if user has attested to platform NDA
-   */
-  const checkPlatformNdaAttestation = useCallback(
-    async (userAddress: string): Promise<boolean> => {
-      if (!networkInfo?.attestationVault || !walletState.publicClient) {
-        return false;
-      }
-
-      try {
-        const result = await readContract(walletState.publicClient, {
-          address: networkInfo.attestationVault as `0x${string}`,
-          abi: AttestationVaultABI,
-          functionName: 'hasAttestedToPlatformNda',
-          args: [userAddress as `0x${string}`],
-        });
-
-        return Boolean(result);
-      } catch (error) {
-        console.error('Error checking platform NDA attestation:', error);
-        return false;
-      }
-    },
-    [networkInfo?.attestationVault, walletState.publicClient]
-  );
-
-  /**
-   * Check if user has attested to ideator terms
-   */
-  const checkIdeatorTermsAttestation = useCallback(
-    async (userAddress: string): Promise<boolean> => {
-      if (!networkInfo?.attestationVault || !walletState.publicClient) {
-        return false;
-      }
-
-      try {
-        const result = await readContract(walletState.publicClient, {
-          address: networkInfo.attestationVault as `0x${string}`,
-          abi: AttestationVaultABI,
-          functionName: 'hasAttestedToIdeatorTerms',
-          args: [userAddress as `0x${string}`],
-        });
-
-        return Boolean(result);
-      } catch (error) {
-        console.error('Error checking ideator terms attestation:', error);
-        return false;
-      }
-    },
-    [networkInfo?.attestationVault, walletState.publicClient]
-  );
-
-  /**
-   * Check if user has both platform agreements
+   * Check which platform agreements the user has attested to
    */
-  const checkBothPlatformAttestations = useCallback(
-    async (userAddress: string): Promise<boolean> => {
-      if (!networkInfo?.attestationVault || !walletState.publicClient) {
-        return false;
-      }
-
-      try {
-        const result = await readContract(walletState.publicClient, {
-          address: networkInfo.attestationVault as `0x${string}`,
-          abi: AttestationVaultABI,
-          functionName: 'hasAttestedToBothPlatformAgreementTypes',
-          args: [userAddress as `0x${string}`],
-        });
-
-        return Boolean(result);
-      } catch (error) {
-        console.error('Error checking both platform attestations:', error);
-        return false;
+  const checkPlatformAttestations = useCallback(
+    async (userAddress: string) => {
+      if (!vaultAddress) {
+        return { hasPlatformNda: false, hasIdeatorTerms: false, hasBothPlatform: false };
       }
+      return readPlatformAttestations(publicClient, vaultAddress, userAddress);
     },
-    [networkInfo?.attestationVault, walletState.publicClient]
+    [vaultAddress]
   );
 
   /**
@@ -129,30 +65,12 @@ export const useAttestationVault = (): UseAttestationVaultReturn => {
    */
   const checkIdeaNdaAttestation = useCallback(
     async (userAddress: string, ideaId: string): Promise<boolean> => {
-      if (!networkInfo?.attestationVault || !walletState.publicClient || !ideaId) {
-        return false;
-      }
-
-      try {
-        // Convert ideaId to bytes32 format
-        const ideaIdBytes32 = ideaId.startsWith('0x') 
-          ? ideaId 
-          : `0x${ideaId.padStart(64, '0')}`;
-
-        const result = await readContract(walletState.publicClient, {
-          address: networkInfo.attestationVault as `0x${string}`,
-          abi: AttestationVaultABI,
-          functionName: 'hasUserAttestedToIdeaNda',
-          args: [userAddress as `0x${string}`, ideaIdBytes32 as `0x${string}`],
-        });
-
-        return Boolean(result);
-      } catch (error) {
-        console.error('Error checking idea NDA attestation:', error);
+      if (!vaultAddress) {
         return false;
       }
+      return readIdeaNdaAttestation(publicClient, vaultAddress, userAddress, ideaId);
     },
-    [networkInfo?.attestationVault, walletState.publicClient]
+    [vaultAddress]
   );
 
   /**
@@ -167,12 +85,8 @@ export const useAttestationVault = (): UseAttestationVaultReturn => {
       try {
         const levels: NDAAthestationLevel[] = [NDAAthestationLevel.NONE];
 
-        // Check each attestation type
-        const [hasPlatformNda, hasIdeatorTerms, hasBothPlatform] = await Promise.all([
-          checkPlatformNdaAttestation(userAddress),
-          checkIdeatorTermsAttestation(userAddress),
-          checkBothPlatformAttestations(userAddress),
-        ]);
+        const { hasPlatformNda, hasIdeatorTerms, hasBothPlatform } =
+          await checkPlatformAttestations(userAddress);
 
         if (hasPlatformNda) {
           levels.push(NDAAthestationLevel.PLATFORM_NDA);
@@ -196,7 +110,7 @@ export const useAttestationVault = (): UseAttestationVaultReturn => {
         return [NDAAthestationLevel.NONE];
       }
     },
-    [checkPlatformNdaAttestation, checkIdeatorTermsAttestation, checkBothPlatformAttestations]
+    [checkPlatformAttestations]
   );
 
   /**
@@ -281,4 +195,4 @@ export const useAttestationVault = (): UseAttestationVaultReturn => {
     clearError,
     refreshAttestations,
   };
-}; 
\ No newline at end of file
+};
@@ -10,6 +10,7 @@
 
 // Main Components
 export { default as AccessGate } from './AccessGate';
+export { default as ProtectedContent } from './ProtectedContent';
 
 // Access Control Components
 export { default as AccessRequiredPrompt } from './components/AccessControl/AccessRequiredPrompt';
@@ -79,11 +79,14 @@ export interface AccessGateProps {
 }
 
 export interface ProtectedContentProps {
-  children: React.ReactNode;
+  // Rendered behind the access gate when there is no content to decrypt (or no key yet)
+  children?: React.ReactNode;
   requiredAccess: NDAAthestationLevel | NDAAthestationLevel[];
   ideaId?: string;
-  encryptedContent?: boolean;
-  decryptionKey?: string;
+  // Ciphertext produced by encryptIdeaContent
+  encryptedContent?: string;
+  // Base64 content key released by /api/ideas/[id]/content-key
+  decryptionKey?: string | null;
   className?: string;
 }
 
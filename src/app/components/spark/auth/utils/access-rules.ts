@@ -35,7 +35,7 @@ export const ACCESS_CONTROL_RULES: Record<NDAAthestationLevel, AccessControlRule
       'Notification settings'
     ],
     requirement: 'Sign Platform NDA to access',
-    contractMethod: 'hasAttestedToPlatformNda',
+    contractMethod: 'hasUserAttested',
     icon: '📝',
     color: 'bg-blue-100 text-blue-800'
   },
@@ -51,7 +51,7 @@ export const ACCESS_CONTROL_RULES: Record<NDAAthestationLevel, AccessControlRule
       'Revenue tracking'
     ],
     requirement: 'Sign Ideator Terms Agreement to submit ideas',
-    contractMethod: 'hasAttestedToIdeatorTerms',
+    contractMethod: 'hasUserAttested',
     icon: '💡',
     color: 'bg-green-100 text-green-800'
   },
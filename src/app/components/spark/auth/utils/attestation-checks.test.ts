@@ -0,0 +1,232 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { type Address, type Hex } from 'viem';
+import {
+  type AttestationClient,
+  checkIdeaNdaAttestation,
+  checkPlatformAttestations,
+  toBytes32IdeaId,
+} from './attestation-checks';
+
+const PLATFORM_NDA_TYPE_ID = `0x${'a1'.repeat(32)}` as Hex;
+const PLATFORM_IDEATOR_TERMS_TYPE_ID = `0x${'b2'.repeat(32)}` as Hex;
+const USER = '0x00000000000000000000000000000000000000Ab';
+
+interface ReadCall {
+  address: Address;
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+type ReadHandler = (call: ReadCall) => unknown;
+
+// The result caches are module-wide, so every test uses its own vault address
+let vaultCounter = 0;
+const nextVaultAddress = () =>
+  `0x${(++vaultCounter).toString(16).padStart(40, '0')}` as Address;
+
+/**
+ * A public client whose reads are answered by `handlers`, keyed by function name
+ */
+const createMockClient = (handlers: Record<string, ReadHandler>) => {
+  const calls: ReadCall[] = [];
+  const client = {
+    readContract: async (call: ReadCall) => {
+      calls.push(call);
+      const handler = handlers[call.functionName];
+      if (!handler) {
+        throw new Error(`Unexpected read of ${call.functionName}`);
+      }
+      return handler(call);
+    },
+  } as unknown as AttestationClient;
+
+  const callsTo = (functionName: string) =>
+    calls.filter((call) => call.functionName === functionName);
+
+  return { client, calls, callsTo };
+};
+
+const typeIdHandlers: Record<string, ReadHandler> = {
+  PLATFORM_NDA_TYPE: () => PLATFORM_NDA_TYPE_ID,
+  PLATFORM_IDEATOR_TERMS_TYPE: () => PLATFORM_IDEATOR_TERMS_TYPE_ID,
+};
+
+describe('checkPlatformAttestations', () => {
+  it('checks each platform agreement against the type IDs read from the vault', async () => {
+    const vault = nextVaultAddress();
+    const { client, callsTo } = createMockClient({
+      ...typeIdHandlers,
+      hasUserAttested: ({ args }) => args?.[1] === PLATFORM_NDA_TYPE_ID,
+      hasAttestedToBothPlatformAgreementTypes: () => false,
+    });
+
+    const result = await checkPlatformAttestations(client, vault, USER);
+
+    assert.deepEqual(result, {
+      hasPlatformNda: true,
+      hasIdeatorTerms: false,
+      hasBothPlatform: false,
+    });
+    assert.deepEqual(
+      callsTo('hasUserAttested').map(({ address, args }) => ({ address, args })),
+      [
+        { address: vault, args: [USER.toLowerCase(), PLATFORM_NDA_TYPE_ID] },
+        { address: vault, args: [USER.toLowerCase(), PLATFORM_IDEATOR_TERMS_TYPE_ID] },
+      ]
+    );
+    assert.deepEqual(callsTo('hasAttestedToBothPlatformAgreementTypes')[0].args, [
+      USER.toLowerCase(),
+    ]);
+  });
+
+  it('reads the type IDs only once per vault', async () => {
+    const vault = nextVaultAddress();
+    const { client, callsTo } = createMockClient({
+      ...typeIdHandlers,
+      hasUserAttested: () => false,
+      hasAttestedToBothPlatformAgreementTypes: () => false,
+    });
+
+    await checkPlatformAttestations(client, vault, USER);
+    await checkPlatformAttestations(client, vault, USER);
+
+    assert.equal(callsTo('PLATFORM_NDA_TYPE').length, 1);
+    assert.equal(callsTo('PLATFORM_IDEATOR_TERMS_TYPE').length, 1);
+  });
+
+  it('retries the type ID lookup after a failed read', async () => {
+    const vault = nextVaultAddress();
+    let failTypeIdRead = true;
+    const { client, callsTo } = createMockClient({
+      ...typeIdHandlers,
+      PLATFORM_NDA_TYPE: () => {
+        if (failTypeIdRead) {
+          throw new Error('RPC unavailable');
+        }
+        return PLATFORM_NDA_TYPE_ID;
+      },
+      hasUserAttested: () => true,
+      hasAttestedToBothPlatformAgreementTypes: () => true,
+    });
+
+    await assert.rejects(checkPlatformAttestations(client, vault, USER), /RPC unavailable/);
+
+    failTypeIdRead = false;
+    const result = await checkPlatformAttestations(client, vault, USER);
+
+    assert.equal(result.hasPlatformNda, true);
+    assert.equal(callsTo('PLATFORM_NDA_TYPE').length, 2);
+  });
+
+  it('serves positive results from the cache', async () => {
+    const vault = nextVaultAddress();
+    const { client, callsTo } = createMockClient({
+      ...typeIdHandlers,
+      hasUserAttested: () => true,
+      hasAttestedToBothPlatformAgreementTypes: () => true,
+    });
+
+    await checkPlatformAttestations(client, vault, USER);
+    // The cache key ignores the casing of the user address
+    const result = await checkPlatformAttestations(client, vault, USER.toUpperCase().replace('0X', '0x'));
+
+    assert.deepEqual(result, {
+      hasPlatformNda: true,
+      hasIdeatorTerms: true,
+      hasBothPlatform: true,
+    });
+    assert.equal(callsTo('hasUserAttested').length, 2);
+    assert.equal(callsTo('hasAttestedToBothPlatformAgreementTypes').length, 1);
+  });
+
+  it('does not cache negative results, so a new attestation is picked up', async () => {
+    const vault = nextVaultAddress();
+    let hasAttested = false;
+    const { client, callsTo } = createMockClient({
+      ...typeIdHandlers,
+      hasUserAttested: () => hasAttested,
+      hasAttestedToBothPlatformAgreementTypes: () => hasAttested,
+    });
+
+    const before = await checkPlatformAttestations(client, vault, USER);
+    hasAttested = true;
+    const after = await checkPlatformAttestations(client, vault, USER);
+
+    assert.equal(before.hasPlatformNda, false);
+    assert.equal(after.hasPlatformNda, true);
+    assert.equal(callsTo('hasUserAttested').length, 4);
+  });
+
+  it('keeps cached results separate per vault', async () => {
+    const firstVault = nextVaultAddress();
+    const secondVault = nextVaultAddress();
+    const { client, callsTo } = createMockClient({
+      ...typeIdHandlers,
+      hasUserAttested: ({ address }) => address === firstVault,
+      hasAttestedToBothPlatformAgreementTypes: () => false,
+    });
+
+    const first = await checkPlatformAttestations(client, firstVault, USER);
+    const second = await checkPlatformAttestations(client, secondVault, USER);
+
+    assert.equal(first.hasPlatformNda, true);
+    assert.equal(second.hasPlatformNda, false);
+    assert.equal(callsTo('hasUserAttested').length, 4);
+  });
+});
+
+describe('checkIdeaNdaAttestation', () => {
+  it('pads numeric idea IDs to bytes32', () => {
+    assert.equal(toBytes32IdeaId('2a'), `0x${'0'.repeat(62)}2a`);
+    assert.equal(toBytes32IdeaId(PLATFORM_NDA_TYPE_ID), PLATFORM_NDA_TYPE_ID);
+  });
+
+  it('checks the idea NDA with the bytes32 idea ID and caches a positive result', async () => {
+    const vault = nextVaultAddress();
+    const ideaId = `0x${'c3'.repeat(32)}`;
+    const { client, callsTo } = createMockClient({
+      hasUserAttestedToIdeaNda: () => true,
+    });
+
+    assert.equal(await checkIdeaNdaAttestation(client, vault, USER, ideaId), true);
+    assert.equal(await checkIdeaNdaAttestation(client, vault, USER, ideaId.toUpperCase().replace('0X', '0x')), true);
+
+    const reads = callsTo('hasUserAttestedToIdeaNda');
+    assert.equal(reads.length, 1);
+    assert.deepEqual(reads[0].args, [USER.toLowerCase(), ideaId]);
+  });
+
+  it('returns false without reading when no idea ID is given', async () => {
+    const { client, calls } = createMockClient({});
+
+    assert.equal(await checkIdeaNdaAttestation(client, nextVaultAddress(), USER, ''), false);
+    assert.equal(calls.length, 0);
+  });
+
+  it('returns false on a failed read and retries on the next check', async () => {
+    const vault = nextVaultAddress();
+    const ideaId = `0x${'d4'.repeat(32)}`;
+    let failRead = true;
+    const { client, callsTo } = createMockClient({
+      hasUserAttestedToIdeaNda: () => {
+        if (failRead) {
+          throw new Error('RPC unavailable');
+        }
+        return true;
+      },
+    });
+
+    const originalConsoleError = console.error;
+    console.error = () => undefined;
+    try {
+      assert.equal(await checkIdeaNdaAttestation(client, vault, USER, ideaId), false);
+    } finally {
+      console.error = originalConsoleError;
+    }
+
+    failRead = false;
+    assert.equal(await checkIdeaNdaAttestation(client, vault, USER, ideaId), true);
+    assert.equal(callsTo('hasUserAttestedToIdeaNda').length, 2);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Spark Platform - Attestation Checks
+ *
+ * Reads NDA attestations from the AttestationVault contract. The public client is passed in so
+ * the checks can run against any client exposing `readContract`.
+ */
+
+import { type Abi, type Address, type Hex, type PublicClient } from 'viem';
+import { fetchAgreementTypeIds } from '@/app/constants/eip712';
+import AttestationVaultABIFile from '@/app/abi/AttestationVault.json';
+
+const AttestationVaultABI = AttestationVaultABIFile as Abi;
+
+export type AttestationClient = Pick<PublicClient, 'readContract'>;
+
+type AttestationCheck = 'platformNda' | 'ideatorTerms' | 'bothPlatform' | 'ideaNda';
+
+// `${vault}:${user}:${check}` or `${vault}:${user}:ideaNda:${ideaId}`
+type AttestationCacheKey = `${string}:${string}:${AttestationCheck}` | `${string}:${string}:ideaNda:${string}`;
+
+// The vault has no way to revoke an attestation, so positive results stay valid for the
+// session. Negative results are not cached so a fresh signature is picked up immediately.
+const attestationResultCache = new Map<AttestationCacheKey, true>();
+
+export const toBytes32IdeaId = (ideaId: string): Hex =>
+  (ideaId.startsWith('0x') ? ideaId : `0x${ideaId.padStart(64, '0')}`) as Hex;
+
+/**
+ * Reads a boolean attestation check, serving positive results from the cache
+ */
+const readAttestation = async (
+  client: AttestationClient,
+  vaultAddress: Address,
+  cacheKey: AttestationCacheKey,
+  functionName: string,
+  args: readonly unknown[]
+): Promise<boolean> => {
+  if (attestationResultCache.has(cacheKey)) {
+    return true;
+  }
+
+  const result = (await client.readContract({
+    address: vaultAddress,
+    abi: AttestationVaultABI,
+    functionName,
+    args,
+  })) as boolean;
+
+  if (result) {
+    attestationResultCache.set(cacheKey, true);
+  }
+  return result;
+};
+
+/**
+ * Check which platform agreements the user has attested to, using the agreement type IDs
+ * defined on the vault
+ */
+export const checkPlatformAttestations = async (
+  client: AttestationClient,
+  vaultAddress: Address,
+  userAddress: string
+) => {
+  const user = userAddress.toLowerCase() as Address;
+  const keyPrefix = `${vaultAddress.toLowerCase()}:${user}` as const;
+  const typeIds = await fetchAgreementTypeIds(client, vaultAddress);
+
+  const [hasPlatformNda, hasIdeatorTerms, hasBothPlatform] = await Promise.all([
+    readAttestation(client, vaultAddress, `${keyPrefix}:platformNda`, 'hasUserAttested', [
+      user,
+      typeIds.PLATFORM_NDA,
+    ]),
+    readAttestation(client, vaultAddress, `${keyPrefix}:ideatorTerms`, 'hasUserAttested', [
+      user,
+      typeIds.PLATFORM_IDEATOR_TERMS,
+    ]),
+    readAttestation(
+      client,
+      vaultAddress,
+      `${keyPrefix}:bothPlatform`,
+      'hasAttestedToBothPlatformAgreementTypes',
+      [user]
+    ),
+  ]);
+
+  return { hasPlatformNda, hasIdeatorTerms, hasBothPlatform };
+};
+
+/**
+ * Check if user has attested to idea-specific NDA
+ */
+export const checkIdeaNdaAttestation = async (
+  client: AttestationClient,
+  vaultAddress: Address,
+  userAddress: string,
+  ideaId: string
+): Promise<boolean> => {
+  if (!ideaId) {
+    return false;
+  }
+
+  const user = userAddress.toLowerCase() as Address;
+  const ideaIdBytes32 = toBytes32IdeaId(ideaId);
+
+  try {
+    return await readAttestation(
+      client,
+      vaultAddress,
+      `${vaultAddress.toLowerCase()}:${user}:ideaNda:${ideaIdBytes32.toLowerCase()}`,
+      'hasUserAttestedToIdeaNda',
+      [user, ideaIdBytes32]
+    );
+  } catch (error) {
+    console.error('Error checking idea NDA attestation:', error);
+    return false;
+  }
+};
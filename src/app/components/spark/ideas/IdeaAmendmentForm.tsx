@@ -0,0 +1,318 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import type { Abi, Hex } from 'viem';
+import { publicClient } from '@/app/config/viem';
+import { useWallet } from '@/app/context/WalletContext';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { useNotification } from '@/app/context/NotificationContext';
+import sparkIdeaRegistryAbi from '@/app/abi/SparkIdeaRegistry.json';
+import {
+  PATENT_STATUS_OPTIONS,
+  computeIdeaContentHash,
+  type AmendableIdeaField,
+} from '@/app/utils/ideaUtils';
+
+const registryAbi = sparkIdeaRegistryAbi as Abi;
+
+export interface AmendableIdea {
+  id: number;
+  title: string;
+  description: string;
+  problem_statement?: string;
+  solution?: string;
+  target_audience?: string;
+  impact?: string;
+  required_resources?: string;
+  patent_status?: string;
+  technical_readiness_level?: number;
+  attachments?: { description?: string };
+  submitter_wallet_address: string;
+  onchain_idea_id?: string;
+  content_hash?: string;
+  attachment_hashes?: string[];
+}
+
+interface IdeaAmendmentFormProps {
+  idea: AmendableIdea;
+  onAmended: (idea: AmendableIdea) => void;
+}
+
+type AmendmentValues = Record<AmendableIdeaField, string>;
+
+const textFields: { name: Exclude<AmendableIdeaField, 'patent_status' | 'technical_readiness_level'>; label: string; rows: number }[] = [
+  { name: 'title', label: 'Title', rows: 1 },
+  { name: 'description', label: 'Description', rows: 5 },
+  { name: 'problem_statement', label: 'Problem Statement', rows: 4 },
+  { name: 'solution', label: 'Proposed Solution', rows: 4 },
+  { name: 'target_audience', label: 'Target Audience/Field', rows: 2 },
+  { name: 'impact', label: 'Potential Impact/Advantages', rows: 4 },
+  { name: 'required_resources', label: 'Required Resources', rows: 3 },
+];
+
+const toFormValues = (idea: AmendableIdea): AmendmentValues => ({
+  title: idea.title ?? '',
+  description: idea.description ?? '',
+  problem_statement: idea.problem_statement ?? '',
+  solution: idea.solution ?? '',
+  target_audience: idea.target_audience ?? '',
+  impact: idea.impact ?? '',
+  required_resources: idea.required_resources ?? '',
+  patent_status: idea.patent_status ?? PATENT_STATUS_OPTIONS[0],
+  technical_readiness_level: String(idea.technical_readiness_level ?? 1),
+});
+
+const inputStyle =
+  'mt-1 block w-full rounded-md border border-slate-600 bg-slate-700 px-3 py-2 text-sm text-white shadow-sm placeholder-slate-400 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500';
+
+/**
+ * Lets the ideator amend an idea while SparkIdeaRegistry still allows modifications.
+ * The new content hash is registered with modifyIdeaDetails before the revision is stored.
+ */
+export const IdeaAmendmentForm: React.FC<IdeaAmendmentFormProps> = ({ idea, onAmended }) => {
+  const { state, writeContractGeneric, waitForTransactionGeneric } = useWallet();
+  const networkInfo = useNetworkInfo();
+  const { addNotification } = useNotification();
+
+  const [canModify, setCanModify] = useState<boolean | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [values, setValues] = useState<AmendmentValues>(() => toFormValues(idea));
+  const [stage, setStage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const registryAddress = networkInfo?.sparkIdeaRegistry;
+  const onchainIdeaId = idea.onchain_idea_id as Hex | undefined;
+
+  const fetchCanModify = useCallback(async () => {
+    if (!registryAddress || !onchainIdeaId) return;
+    try {
+      const result = (await publicClient.readContract({
+        address: registryAddress,
+        abi: registryAbi,
+        functionName: 'canIdeaBeModified',
+        args: [onchainIdeaId],
+      })) as boolean;
+      setCanModify(result);
+    } catch (err) {
+      console.error('Error checking whether the idea can be modified:', err);
+      setCanModify(false);
+    }
+  }, [registryAddress, onchainIdeaId]);
+
+  useEffect(() => {
+    fetchCanModify();
+  }, [fetchCanModify]);
+
+  useEffect(() => {
+    setValues(toFormValues(idea));
+  }, [idea]);
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setValues((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!registryAddress || !onchainIdeaId || !state.address) return;
+
+    setError(null);
+    const contentHash = computeIdeaContentHash({
+      title: values.title,
+      description: values.description,
+      problem_statement: values.problem_statement,
+      solution: values.solution,
+      target_audience: values.target_audience,
+      impact: values.impact,
+      required_resources: values.required_resources || null,
+      attachments_description: idea.attachments?.description ?? null,
+      patent_status: values.patent_status,
+      technical_readiness_level: Number.parseInt(values.technical_readiness_level, 10),
+      submitter_wallet_address: idea.submitter_wallet_address,
+      attachment_hashes: idea.attachment_hashes ?? [],
+    });
+
+    if (contentHash === idea.content_hash) {
+      setError('No changes to submit.');
+      return;
+    }
+
+    try {
+      setStage('Registering amendment on-chain...');
+      const txHash = await writeContractGeneric({
+        address: registryAddress,
+        abi: registryAbi,
+        functionName: 'modifyIdeaDetails',
+        args: [onchainIdeaId, contentHash],
+      });
+      if (!txHash) {
+        setError('The amendment transaction was rejected or failed to submit.');
+        return;
+      }
+
+      setStage('Waiting for confirmation...');
+      const receipt = await waitForTransactionGeneric({ hash: txHash });
+      if (!receipt || receipt.status !== 'success') {
+        setError('The amendment transaction did not succeed. Please try again.');
+        return;
+      }
+
+      setStage('Saving revision...');
+      const response = await fetch(`/api/ideas/${idea.id}/revisions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-User-Address': state.address,
+        },
+        body: JSON.stringify({
+          ...values,
+          technical_readiness_level: Number.parseInt(values.technical_readiness_level, 10),
+          onchain_tx_hash: txHash,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save the amended idea.');
+      }
+
+      addNotification(`Idea amended (revision ${result.revisionNumber}).`, 'success');
+      setIsEditing(false);
+      onAmended({ ...idea, ...result.idea, attachment_hashes: idea.attachment_hashes });
+      await fetchCanModify();
+    } catch (err) {
+      console.error('Error amending idea:', err);
+      setError(err instanceof Error ? err.message : 'Failed to amend idea.');
+    } finally {
+      setStage(null);
+    }
+  };
+
+  if (!onchainIdeaId) return null;
+
+  if (canModify === null) {
+    return <p className="text-sm text-slate-400">Checking whether this idea can be amended...</p>;
+  }
+
+  if (!canModify) {
+    return (
+      <p className="text-sm text-slate-400">
+        This idea can no longer be amended. It has been finalized or has reached the modification
+        limit.
+      </p>
+    );
+  }
+
+  if (!isEditing) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsEditing(true)}
+        className="rounded bg-blue-600 px-6 py-2.5 text-xs font-medium uppercase text-white shadow-md transition duration-150 ease-in-out hover:bg-blue-700"
+      >
+        Amend Idea
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {textFields.map((field) => (
+        <div key={field.name}>
+          <label htmlFor={`amend-${field.name}`} className="mb-1 block text-sm font-medium text-slate-400">
+            {field.label}
+          </label>
+          {field.rows === 1 ? (
+            <input
+              id={`amend-${field.name}`}
+              name={field.name}
+              value={values[field.name]}
+              onChange={handleChange}
+              className={inputStyle}
+              required
+            />
+          ) : (
+            <textarea
+              id={`amend-${field.name}`}
+              name={field.name}
+              rows={field.rows}
+              value={values[field.name]}
+              onChange={handleChange}
+              className={inputStyle}
+              required={field.name !== 'required_resources'}
+            />
+          )}
+        </div>
+      ))}
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="amend-patent_status" className="mb-1 block text-sm font-medium text-slate-400">
+            Patent Status
+          </label>
+          <select
+            id="amend-patent_status"
+            name="patent_status"
+            value={values.patent_status}
+            onChange={handleChange}
+            className={inputStyle}
+          >
+            {PATENT_STATUS_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label
+            htmlFor="amend-technical_readiness_level"
+            className="mb-1 block text-sm font-medium text-slate-400"
+          >
+            Technical Readiness Level
+          </label>
+          <select
+            id="amend-technical_readiness_level"
+            name="technical_readiness_level"
+            value={values.technical_readiness_level}
+            onChange={handleChange}
+            className={inputStyle}
+          >
+            {Array.from({ length: 9 }, (_, i) => String(i + 1)).map((level) => (
+              <option key={level} value={level}>
+                TRL {level}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={!!stage}
+          className="rounded bg-blue-600 px-6 py-2.5 text-xs font-medium uppercase text-white shadow-md transition duration-150 ease-in-out hover:bg-blue-700 disabled:opacity-50"
+        >
+          {stage || 'Submit Amendment'}
+        </button>
+        <button
+          type="button"
+          disabled={!!stage}
+          onClick={() => {
+            setValues(toFormValues(idea));
+            setError(null);
+            setIsEditing(false);
+          }}
+          className="rounded bg-slate-600 px-6 py-2.5 text-xs font-medium uppercase text-white shadow-md transition duration-150 ease-in-out hover:bg-slate-700 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default IdeaAmendmentForm;
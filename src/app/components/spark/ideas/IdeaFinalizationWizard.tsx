@@ -0,0 +1,308 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import type { Hex } from 'viem';
+import { useIdeaFinalization } from '@/app/components/hooks/UseIdeaFinalization';
+import { computeNdaHash, generateIdeaNdaDocument } from '@/app/utils/ideaUtils';
+
+interface IdeaFinalizationWizardProps {
+  ideaId: Hex;
+  title: string;
+}
+
+type StepStatus = 'complete' | 'current' | 'blocked';
+
+const inputStyle =
+  'mt-1 block w-full rounded-md border border-slate-600 bg-slate-700 px-3 py-2 text-sm text-white shadow-sm placeholder-slate-400 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500';
+const actionButtonStyle =
+  'rounded bg-blue-600 px-4 py-2 text-xs font-medium uppercase text-white shadow-md transition duration-150 ease-in-out hover:bg-blue-700 disabled:opacity-50';
+
+const StepHeader: React.FC<{ index: number; title: string; status: StepStatus }> = ({
+  index,
+  title,
+  status,
+}) => (
+  <div className="flex items-center gap-3">
+    <span
+      className={`flex h-6 w-6 items-center justify-center rounded-full text-xs font-bold ${
+        status === 'complete'
+          ? 'bg-green-500 text-white'
+          : status === 'current'
+            ? 'bg-sky-500 text-white'
+            : 'bg-slate-600 text-slate-300'
+      }`}
+    >
+      {status === 'complete' ? '✓' : index}
+    </span>
+    <h3 className={`text-sm font-semibold ${status === 'blocked' ? 'text-slate-500' : 'text-slate-200'}`}>
+      {title}
+    </h3>
+  </div>
+);
+
+/**
+ * Guides an approved idea through finalization: the ideator finalizes the content, then the
+ * idea-specific NDA is generated from the finalized record and registered on SparkIdeaRegistry
+ * and AttestationVault, and the license URI and provisional patent ID are attached.
+ */
+export const IdeaFinalizationWizard: React.FC<IdeaFinalizationWizardProps> = ({ ideaId, title }) => {
+  const {
+    ideator,
+    isApproved,
+    isFinalized,
+    finalContentHash,
+    finalizedAt,
+    registryNdaHash,
+    vaultNdaHash,
+    licenseUri,
+    provisionalPatentId,
+    isIdeator,
+    isAdmin,
+    isLoading,
+    pendingAction,
+    error,
+    finalizeIdea,
+    registerNdaHash,
+    setLicenseUri,
+    setProvisionalPatentId,
+  } = useIdeaFinalization(ideaId);
+
+  const [confirmedFinalize, setConfirmedFinalize] = useState(false);
+  const [showNda, setShowNda] = useState(false);
+  const [licenseUriInput, setLicenseUriInput] = useState('');
+  const [patentIdInput, setPatentIdInput] = useState('');
+
+  const ndaDocument = useMemo(
+    () =>
+      isFinalized && ideator && finalContentHash && finalizedAt
+        ? generateIdeaNdaDocument({
+            onchainIdeaId: ideaId,
+            title,
+            ideator,
+            finalContentHash,
+            finalizedAt,
+          })
+        : null,
+    [isFinalized, ideator, finalContentHash, finalizedAt, ideaId, title]
+  );
+  const ndaHash = useMemo(() => (ndaDocument ? computeNdaHash(ndaDocument) : null), [ndaDocument]);
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-400">Loading finalization status...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-400">{error}</p>;
+  }
+
+  if (!isApproved && !isFinalized) {
+    return (
+      <p className="text-sm text-slate-400">
+        Finalization becomes available once the reviewers have approved this idea on-chain.
+      </p>
+    );
+  }
+
+  const isBusy = pendingAction !== null;
+  const registryNdaDone = !!ndaHash && registryNdaHash?.toLowerCase() === ndaHash.toLowerCase();
+  const vaultNdaDone = !!ndaHash && vaultNdaHash?.toLowerCase() === ndaHash.toLowerCase();
+  const isUrl = /^(https?|ipfs):\/\/\S+$/.test(licenseUriInput.trim());
+
+  return (
+    <div className="space-y-6">
+      {isFinalized && (
+        <div className="rounded-md border border-green-700 bg-green-900/30 p-4">
+          <p className="text-sm font-semibold text-green-300">Idea Finalized</p>
+          {finalizedAt && (
+            <p className="text-xs text-slate-300">
+              Finalized on {new Date(finalizedAt * 1000).toLocaleString()}
+            </p>
+          )}
+          {finalContentHash && (
+            <p className="mt-1 break-all font-mono text-xs text-slate-400">{finalContentHash}</p>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <StepHeader index={1} title="Finalize idea" status={isFinalized ? 'complete' : 'current'} />
+        {!isFinalized &&
+          (isIdeator ? (
+            <div className="ml-9 space-y-2">
+              <label className="flex items-start gap-2 text-xs text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={confirmedFinalize}
+                  onChange={(e) => setConfirmedFinalize(e.target.checked)}
+                  className="mt-0.5"
+                />
+                I understand that a finalized idea can no longer be amended.
+              </label>
+              <button
+                type="button"
+                onClick={finalizeIdea}
+                disabled={!confirmedFinalize || isBusy}
+                className={actionButtonStyle}
+              >
+                {pendingAction === 'finalize' ? 'Finalizing...' : 'Finalize Idea'}
+              </button>
+            </div>
+          ) : (
+            <p className="ml-9 text-xs text-slate-400">Waiting for the ideator to finalize the idea.</p>
+          ))}
+      </div>
+
+      <div className="space-y-2">
+        <StepHeader
+          index={2}
+          title="Generate idea NDA"
+          status={ndaHash ? 'complete' : 'blocked'}
+        />
+        {ndaDocument && ndaHash && (
+          <div className="ml-9 space-y-2">
+            <p className="text-xs text-slate-400">NDA hash:</p>
+            <p className="break-all font-mono text-xs text-slate-200">{ndaHash}</p>
+            <button
+              type="button"
+              onClick={() => setShowNda((show) => !show)}
+              className="text-xs text-sky-400 hover:text-sky-300"
+            >
+              {showNda ? 'Hide NDA' : 'Preview NDA'}
+            </button>
+            {showNda && (
+              <pre className="max-h-64 overflow-y-auto whitespace-pre-wrap rounded-md bg-slate-900 p-3 text-xs text-slate-300">
+                {ndaDocument}
+              </pre>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <StepHeader
+          index={3}
+          title="Register NDA hash on SparkIdeaRegistry"
+          status={registryNdaDone ? 'complete' : ndaHash ? 'current' : 'blocked'}
+        />
+        {ndaHash && !registryNdaDone && (
+          <div className="ml-9">
+            {registryNdaHash && (
+              <p className="mb-2 text-xs text-orange-400">
+                A different NDA hash is registered: {registryNdaHash}
+              </p>
+            )}
+            {isAdmin ? (
+              <button
+                type="button"
+                onClick={() => registerNdaHash('registry', ndaHash)}
+                disabled={isBusy}
+                className={actionButtonStyle}
+              >
+                {pendingAction === 'registryNda' ? 'Registering...' : 'Register on Registry'}
+              </button>
+            ) : (
+              <p className="text-xs text-slate-400">Waiting for a platform admin to register the NDA hash.</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <StepHeader
+          index={4}
+          title="Register NDA hash on AttestationVault"
+          status={vaultNdaDone ? 'complete' : ndaHash ? 'current' : 'blocked'}
+        />
+        {ndaHash && !vaultNdaDone && (
+          <div className="ml-9">
+            {vaultNdaHash && (
+              <p className="mb-2 text-xs text-orange-400">
+                A different NDA hash is registered: {vaultNdaHash}
+              </p>
+            )}
+            {isAdmin ? (
+              <button
+                type="button"
+                onClick={() => registerNdaHash('vault', ndaHash)}
+                disabled={isBusy}
+                className={actionButtonStyle}
+              >
+                {pendingAction === 'vaultNda' ? 'Registering...' : 'Register on Vault'}
+              </button>
+            ) : (
+              <p className="text-xs text-slate-400">Waiting for a platform admin to register the NDA hash.</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <StepHeader
+          index={5}
+          title="Attach license URI"
+          status={licenseUri ? 'complete' : isFinalized ? 'current' : 'blocked'}
+        />
+        <div className="ml-9">
+          {licenseUri ? (
+            <p className="break-all text-xs text-slate-300">{licenseUri}</p>
+          ) : isFinalized && isAdmin ? (
+            <div className="flex gap-2">
+              <input
+                value={licenseUriInput}
+                onChange={(e) => setLicenseUriInput(e.target.value)}
+                placeholder="ipfs://... or https://..."
+                className={inputStyle}
+              />
+              <button
+                type="button"
+                onClick={() => setLicenseUri(licenseUriInput.trim())}
+                disabled={!isUrl || isBusy}
+                className={actionButtonStyle}
+              >
+                {pendingAction === 'licenseUri' ? 'Saving...' : 'Set'}
+              </button>
+            </div>
+          ) : (
+            isFinalized && (
+              <p className="text-xs text-slate-400">Waiting for a platform admin to attach the license.</p>
+            )
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <StepHeader
+          index={6}
+          title="Provisional patent ID (optional)"
+          status={provisionalPatentId ? 'complete' : isFinalized ? 'current' : 'blocked'}
+        />
+        <div className="ml-9">
+          {provisionalPatentId ? (
+            <p className="text-xs text-slate-300">{provisionalPatentId}</p>
+          ) : isFinalized && (isIdeator || isAdmin) ? (
+            <div className="flex gap-2">
+              <input
+                value={patentIdInput}
+                onChange={(e) => setPatentIdInput(e.target.value)}
+                placeholder="e.g. US 63/123,456"
+                className={inputStyle}
+              />
+              <button
+                type="button"
+                onClick={() => setProvisionalPatentId(patentIdInput.trim())}
+                disabled={!patentIdInput.trim() || isBusy}
+                className={actionButtonStyle}
+              >
+                {pendingAction === 'patentId' ? 'Saving...' : 'Set'}
+              </button>
+            </div>
+          ) : (
+            isFinalized && <p className="text-xs text-slate-400">No provisional patent ID recorded.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IdeaFinalizationWizard;
@@ -0,0 +1,110 @@
+'use client';
+
+import React from 'react';
+import type { IdeaLifecycle } from '@/app/components/hooks/UseIdeaLifecycle';
+import { getOnchainApprovalStatusLabel } from '@/app/utils/ideaUtils';
+
+interface IdeaLifecycleTimelineProps {
+  submissionDate: string;
+  reviewStatus: string;
+  lifecycle?: IdeaLifecycle;
+}
+
+interface LifecycleStage {
+  label: string;
+  detail?: string;
+  reached: boolean;
+}
+
+const formatTimestamp = (seconds: number) =>
+  new Date(seconds * 1000).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+// Index of ONCHAIN_APPROVAL_STATUS_LABELS' 'Approved' entry
+const APPROVED_STATUS = 2;
+
+/**
+ * Horizontal timeline of an idea's lifecycle, from submission through review, finalization,
+ * IP-NFT minting and licensing.
+ */
+export const IdeaLifecycleTimeline: React.FC<IdeaLifecycleTimelineProps> = ({
+  submissionDate,
+  reviewStatus,
+  lifecycle,
+}) => {
+  const stages: LifecycleStage[] = [
+    {
+      label: 'Submitted',
+      detail: lifecycle
+        ? formatTimestamp(lifecycle.submittedAt)
+        : new Date(submissionDate).toLocaleDateString('en-US'),
+      reached: true,
+    },
+    {
+      label: 'Amended',
+      detail: lifecycle?.modificationCount
+        ? `${lifecycle.modificationCount}x${lifecycle.lastModifiedAt ? `, ${formatTimestamp(lifecycle.lastModifiedAt)}` : ''}`
+        : undefined,
+      reached: !!lifecycle?.modificationCount,
+    },
+    {
+      label: 'Reviewed',
+      detail: lifecycle
+        ? `${getOnchainApprovalStatusLabel(lifecycle.approvalStatus)} (${lifecycle.approvalCount} approvals)`
+        : reviewStatus,
+      reached: lifecycle?.approvalStatus === APPROVED_STATUS,
+    },
+    {
+      label: 'Finalized',
+      detail: lifecycle?.finalizedAt ? formatTimestamp(lifecycle.finalizedAt) : undefined,
+      reached: !!lifecycle?.isFinalized,
+    },
+    {
+      label: 'IP-NFT Minted',
+      detail:
+        lifecycle?.ipNftId !== null && lifecycle?.ipNftId !== undefined
+          ? `#${lifecycle.ipNftId.toString()}${lifecycle.ipNftMintedAt ? `, ${formatTimestamp(lifecycle.ipNftMintedAt)}` : ''}`
+          : undefined,
+      reached: lifecycle?.ipNftId !== null && lifecycle?.ipNftId !== undefined,
+    },
+    {
+      label: 'Licensed',
+      detail: lifecycle?.licenseCount
+        ? `${lifecycle.licenseCount} license${lifecycle.licenseCount === 1 ? '' : 's'}`
+        : undefined,
+      reached: !!lifecycle?.licenseCount,
+    },
+  ];
+
+  return (
+    <ol className="grid grid-cols-3 gap-y-4 sm:grid-cols-6">
+      {stages.map((stage, index) => (
+        <li key={stage.label} className="relative flex flex-col items-center text-center">
+          {index > 0 && (
+            <span
+              className={`absolute right-1/2 top-2 hidden h-0.5 w-full sm:block ${
+                stage.reached ? 'bg-sky-500' : 'bg-slate-600'
+              }`}
+            />
+          )}
+          <span
+            className={`relative z-10 h-4 w-4 rounded-full border-2 ${
+              stage.reached ? 'border-sky-400 bg-sky-500' : 'border-slate-500 bg-slate-800'
+            }`}
+          />
+          <span
+            className={`mt-2 text-xs font-semibold ${stage.reached ? 'text-slate-100' : 'text-slate-500'}`}
+          >
+            {stage.label}
+          </span>
+          {stage.detail && <span className="text-[11px] text-slate-400">{stage.detail}</span>}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default IdeaLifecycleTimeline;
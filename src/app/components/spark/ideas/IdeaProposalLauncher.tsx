@@ -0,0 +1,295 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { type Hex, isAddress, parseUnits } from 'viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { type IpNftAction, useSparkBridge } from '@/app/components/hooks/UseSparkBridge';
+import {
+  encodeFundAndMintIpNftParams,
+  encodeMintIpNftParams,
+} from '@/app/components/governance/EncodeActionParams';
+
+interface IdeaProposalLauncherProps {
+  ideaId: Hex;
+}
+
+// Action factory names of the IP-NFT actions the launcher can encode parameters for
+const ipNftActionLabels: Record<string, string> = {
+  MintIPNFT: 'Mint IP-NFT',
+  FundAndMintIPNFT: 'Fund and Mint IP-NFT',
+};
+
+const getActionLabel = (ipNftActions: IpNftAction[], actionType: bigint) => {
+  const action = ipNftActions.find((ipNftAction) => ipNftAction.actionType === actionType);
+  return action ? ipNftActionLabels[action.name] ?? action.name : `Action type ${actionType.toString()}`;
+};
+
+const inputStyle =
+  'mt-1 block w-full rounded-md border border-slate-600 bg-slate-700 px-3 py-2 text-sm text-white shadow-sm placeholder-slate-400 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500';
+const labelStyle = 'block text-xs font-medium text-slate-300';
+const actionButtonStyle =
+  'rounded bg-blue-600 px-4 py-2 text-xs font-medium uppercase text-white shadow-md transition duration-150 ease-in-out hover:bg-blue-700 disabled:opacity-50';
+
+/**
+ * Launches a research governance proposal for an approved idea through the SparkBridge, with the
+ * action parameters pre-filled from the idea, and links to the proposals launched for it.
+ */
+export const IdeaProposalLauncher: React.FC<IdeaProposalLauncherProps> = ({ ideaId }) => {
+  const networkInfo = useNetworkInfo();
+  const {
+    ideator,
+    provisionalPatentId,
+    copyleftLicenseURI,
+    isApproved,
+    isLauncher,
+    isIdeator,
+    isSetupValid,
+    missingSetup,
+    ipNftActions,
+    launchedProposals,
+    isLoading,
+    isLaunching,
+    error,
+    launchProposal,
+  } = useSparkBridge(ideaId);
+
+  const [actionName, setActionName] = useState('');
+  const [targetWallet, setTargetWallet] = useState('');
+  const [amountUsdc, setAmountUsdc] = useState('');
+  const [amountSci, setAmountSci] = useState('');
+  const [patentIdentifier, setPatentIdentifier] = useState('');
+  const [researchAgreementURI, setResearchAgreementURI] = useState('');
+  const [licenseUri, setLicenseUri] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTargetWallet(ideator ?? '');
+    setPatentIdentifier(provisionalPatentId);
+    setLicenseUri(copyleftLicenseURI);
+  }, [ideator, provisionalPatentId, copyleftLicenseURI]);
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-400">Loading proposal launcher...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-400">{error}</p>;
+  }
+
+  // The bridge only launches the IP-NFT action types it has been configured with
+  const actionOptions = ipNftActions.filter(
+    (action) => action.enabled && action.name in ipNftActionLabels
+  );
+  const selectedAction =
+    actionOptions.find((action) => action.name === actionName) ?? actionOptions[0];
+  const isFunded = selectedAction?.name === 'FundAndMintIPNFT';
+
+  const encodeActionParams = (): Hex => {
+    const mintParams = {
+      sparkIpNft: networkInfo?.sparkIpNft as Hex,
+      copyleftIpPool: networkInfo?.copyleftIpPool as Hex,
+      patentIdentifier: patentIdentifier.trim(),
+      copyleftLicenseURI: licenseUri.trim(),
+      researchAgreementURI: researchAgreementURI.trim(),
+      ideator: ideator as Hex,
+      ideaId,
+      governorExecutor: networkInfo?.governorExecutor as Hex,
+    };
+
+    if (!isFunded) {
+      return encodeMintIpNftParams(mintParams);
+    }
+    return encodeFundAndMintIpNftParams({
+      ...mintParams,
+      researchFundingWallet: networkInfo?.researchFundingWallet as Hex,
+      targetWallet: targetWallet.trim() as Hex,
+      amountUsdc: parseUnits(amountUsdc || '0', 6),
+      amountSci: parseUnits(amountSci || '0', 18),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedAction) {
+      return;
+    }
+    if (isFunded) {
+      if (!isAddress(targetWallet.trim())) {
+        setFormError('Enter a valid target wallet address.');
+        return;
+      }
+      if (!Number(amountUsdc) && !Number(amountSci)) {
+        setFormError('Enter a USDC or SCI amount.');
+        return;
+      }
+    }
+    if (!patentIdentifier.trim() || !licenseUri.trim()) {
+      setFormError('A patent identifier and copyleft license URI are required to mint an IP-NFT.');
+      return;
+    }
+    setFormError(null);
+
+    await launchProposal(selectedAction.actionType, encodeActionParams());
+  };
+
+  return (
+    <div className="space-y-4">
+      {launchedProposals.length > 0 && (
+        <ul className="space-y-2 text-xs">
+          {launchedProposals.map((proposal) => (
+            <li key={proposal.transactionHash} className="flex items-center justify-between gap-2">
+              <Link
+                href={`/governance/proposals/${proposal.proposalId.toString()}`}
+                className="text-sky-400 hover:text-sky-300"
+              >
+                Proposal #{proposal.proposalId.toString()}
+              </Link>
+              <span className="text-slate-400">
+                {getActionLabel(ipNftActions, proposal.actionType)}{' '}
+                by {proposal.launcher.slice(0, 6)}...{proposal.launcher.slice(-4)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!isApproved ? (
+        <p className="text-sm text-slate-400">
+          A governance proposal can be launched once the reviewers have approved this idea on-chain.
+        </p>
+      ) : !isLauncher && !isIdeator ? (
+        <p className="text-sm text-slate-400">
+          Only proposal launchers and the ideator can launch a governance proposal for this idea.
+        </p>
+      ) : !isSetupValid ? (
+        <div className="text-sm text-orange-400">
+          <p>The SparkBridge is not ready to launch proposals:</p>
+          <ul className="ml-4 list-disc text-xs">
+            {missingSetup.map((item) => (
+              <li key={item}>{item}</li>
+            ))}
+          </ul>
+        </div>
+      ) : actionOptions.length === 0 ? (
+        <p className="text-sm text-orange-400">
+          No IP-NFT action types are enabled for the SparkBridge on the action factory.
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-3" noValidate>
+          <div>
+            <label htmlFor="launch-action-type" className={labelStyle}>
+              Proposal action
+            </label>
+            <select
+              id="launch-action-type"
+              value={selectedAction.name}
+              onChange={(e) => setActionName(e.target.value)}
+              className={inputStyle}
+            >
+              {actionOptions.map((action) => (
+                <option key={action.actionType.toString()} value={action.name}>
+                  {ipNftActionLabels[action.name]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {isFunded && (
+            <>
+              <div>
+                <label htmlFor="launch-target-wallet" className={labelStyle}>
+                  Target wallet
+                </label>
+                <input
+                  id="launch-target-wallet"
+                  type="text"
+                  value={targetWallet}
+                  onChange={(e) => setTargetWallet(e.target.value)}
+                  placeholder="0x..."
+                  className={inputStyle}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label htmlFor="launch-amount-usdc" className={labelStyle}>
+                    USDC
+                  </label>
+                  <input
+                    id="launch-amount-usdc"
+                    type="text"
+                    inputMode="decimal"
+                    value={amountUsdc}
+                    onChange={(e) => /^\d*\.?\d*$/.test(e.target.value) && setAmountUsdc(e.target.value)}
+                    placeholder="0"
+                    className={inputStyle}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="launch-amount-sci" className={labelStyle}>
+                    SCI
+                  </label>
+                  <input
+                    id="launch-amount-sci"
+                    type="text"
+                    inputMode="decimal"
+                    value={amountSci}
+                    onChange={(e) => /^\d*\.?\d*$/.test(e.target.value) && setAmountSci(e.target.value)}
+                    placeholder="0"
+                    className={inputStyle}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+
+          <div>
+            <label htmlFor="launch-patent-identifier" className={labelStyle}>
+              Patent identifier
+            </label>
+            <input
+              id="launch-patent-identifier"
+              type="text"
+              value={patentIdentifier}
+              onChange={(e) => setPatentIdentifier(e.target.value)}
+              className={inputStyle}
+            />
+          </div>
+          <div>
+            <label htmlFor="launch-research-agreement" className={labelStyle}>
+              Research agreement URI (optional)
+            </label>
+            <input
+              id="launch-research-agreement"
+              type="text"
+              value={researchAgreementURI}
+              onChange={(e) => setResearchAgreementURI(e.target.value)}
+              placeholder="ipfs://..."
+              className={inputStyle}
+            />
+          </div>
+          <div>
+            <label htmlFor="launch-license-uri" className={labelStyle}>
+              Copyleft license URI
+            </label>
+            <input
+              id="launch-license-uri"
+              type="text"
+              value={licenseUri}
+              onChange={(e) => setLicenseUri(e.target.value)}
+              placeholder="ipfs://..."
+              className={inputStyle}
+            />
+          </div>
+
+          {formError && <p className="text-xs text-red-400">{formError}</p>}
+          <button type="submit" disabled={isLaunching} className={actionButtonStyle}>
+            {isLaunching ? 'Launching...' : 'Launch Proposal'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default IdeaProposalLauncher;
@@ -0,0 +1,294 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Abi, Hex } from 'viem';
+import DiffMatchPatch from 'diff-match-patch';
+import { publicClient } from '@/app/config/viem';
+import { useWallet } from '@/app/context/WalletContext';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import sparkIdeaRegistryAbi from '@/app/abi/SparkIdeaRegistry.json';
+import { useIdeaContentKey } from '@/app/components/hooks/UseIdeaContentKey';
+import { AMENDABLE_IDEA_FIELDS, type AmendableIdeaField } from '@/app/utils/ideaUtils';
+import {
+  CONFIDENTIAL_IDEA_FIELDS,
+  type ConfidentialIdeaField,
+  decryptConfidentialFields,
+} from '@/app/utils/ideaEncryption';
+
+const registryAbi = sparkIdeaRegistryAbi as Abi;
+
+export interface IdeaRevision extends Record<AmendableIdeaField, string | number | null> {
+  revision_number: number;
+  content_hash: string | null;
+  onchain_tx_hash: string | null;
+  modified_by: string;
+  created_at: string;
+}
+
+interface OnchainModification {
+  previousIpfsHash: string;
+  newIpfsHash: string;
+  timestamp: bigint;
+  modificationNumber: bigint;
+}
+
+interface IdeaRevisionHistoryProps {
+  ideaId: number;
+  onchainIdeaId?: string;
+  // Bumped by the parent after an amendment so the history is reloaded
+  refreshKey?: number;
+}
+
+const fieldLabels: Record<AmendableIdeaField, string> = {
+  title: 'Title',
+  description: 'Description',
+  problem_statement: 'Problem Statement',
+  solution: 'Proposed Solution',
+  target_audience: 'Target Audience/Field',
+  impact: 'Potential Impact/Advantages',
+  required_resources: 'Required Resources',
+  patent_status: 'Patent Status',
+  technical_readiness_level: 'Technical Readiness Level',
+};
+
+const dmp = new DiffMatchPatch();
+
+const toText = (value: string | number | null | undefined) =>
+  value === null || value === undefined ? '' : String(value);
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * Renders a side-by-side diff of one field: removed text is highlighted on the left,
+ * inserted text on the right.
+ */
+const FieldDiff: React.FC<{ label: string; before: string; after: string }> = ({
+  label,
+  before,
+  after,
+}) => {
+  const diffs = useMemo(() => {
+    const result = dmp.diff_main(before, after);
+    dmp.diff_cleanupSemantic(result);
+    return result as [number, string][];
+  }, [before, after]);
+
+  return (
+    <div className="mb-4">
+      <p className="mb-1 text-sm font-medium text-slate-400">{label}</p>
+      <div className="grid grid-cols-1 gap-2 md:grid-cols-2">
+        <div className="whitespace-pre-wrap break-words rounded-md bg-slate-900 p-3 text-sm text-slate-300">
+          {diffs
+            .filter(([op]) => op !== DiffMatchPatch.DIFF_INSERT)
+            .map(([op, text], index) =>
+              op === DiffMatchPatch.DIFF_DELETE ? (
+                <span key={index} className="bg-red-900 text-red-200 line-through">
+                  {text}
+                </span>
+              ) : (
+                <span key={index}>{text}</span>
+              )
+            )}
+        </div>
+        <div className="whitespace-pre-wrap break-words rounded-md bg-slate-900 p-3 text-sm text-slate-300">
+          {diffs
+            .filter(([op]) => op !== DiffMatchPatch.DIFF_DELETE)
+            .map(([op, text], index) =>
+              op === DiffMatchPatch.DIFF_INSERT ? (
+                <span key={index} className="bg-green-900 text-green-200">
+                  {text}
+                </span>
+              ) : (
+                <span key={index}>{text}</span>
+              )
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Timeline of an idea's stored revisions. Each revision is checked against the hash recorded in
+ * SparkIdeaRegistry's modification history, and selecting one shows what changed from the
+ * previous version.
+ */
+export const IdeaRevisionHistory: React.FC<IdeaRevisionHistoryProps> = ({
+  ideaId,
+  onchainIdeaId,
+  refreshKey = 0,
+}) => {
+  const { state } = useWallet();
+  const networkInfo = useNetworkInfo();
+  const [revisions, setRevisions] = useState<IdeaRevision[]>([]);
+  const [onchainHashes, setOnchainHashes] = useState<Map<number, string>>(new Map());
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { contentKey, isLoading: isContentKeyLoading } = useIdeaContentKey(ideaId);
+
+  const registryAddress = networkInfo?.sparkIdeaRegistry;
+
+  const fetchHistory = useCallback(async () => {
+    if (!state.address || isContentKeyLoading) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/ideas/${ideaId}/revisions`, {
+        headers: { 'X-User-Address': state.address },
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to fetch revisions');
+      }
+      // Confidential fields stay encrypted (and out of the diff) for viewers without the key
+      const fetched: IdeaRevision[] = contentKey
+        ? await Promise.all(
+            (result.revisions as IdeaRevision[]).map((revision) =>
+              decryptConfidentialFields(revision, contentKey)
+            )
+          )
+        : result.revisions;
+      setRevisions(fetched);
+      setSelectedRevision(fetched.length > 1 ? fetched[fetched.length - 1].revision_number : null);
+
+      if (registryAddress && onchainIdeaId) {
+        const history = (await publicClient.readContract({
+          address: registryAddress,
+          abi: registryAbi,
+          functionName: 'getIdeaModificationHistory',
+          args: [onchainIdeaId as Hex],
+        })) as OnchainModification[];
+
+        const hashes = new Map<number, string>();
+        for (const modification of history) {
+          const number = Number(modification.modificationNumber);
+          hashes.set(number, modification.newIpfsHash);
+          if (number === 1) hashes.set(0, modification.previousIpfsHash);
+        }
+        setOnchainHashes(hashes);
+      }
+    } catch (err) {
+      console.error('Error fetching idea revisions:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch revisions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ideaId, onchainIdeaId, registryAddress, state.address, contentKey, isContentKeyLoading]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory, refreshKey]);
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-400">Loading revision history...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-400">{error}</p>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-slate-400">This idea has not been amended since submission.</p>;
+  }
+
+  const selectedIndex = revisions.findIndex((r) => r.revision_number === selectedRevision);
+  const current = selectedIndex > 0 ? revisions[selectedIndex] : null;
+  const previous = selectedIndex > 0 ? revisions[selectedIndex - 1] : null;
+  const changedFields =
+    current && previous
+      ? AMENDABLE_IDEA_FIELDS.filter(
+          (field) =>
+            (contentKey || !CONFIDENTIAL_IDEA_FIELDS.includes(field as ConfidentialIdeaField)) &&
+            toText(current[field]) !== toText(previous[field])
+        )
+      : [];
+
+  return (
+    <div className="space-y-6">
+      <ol className="relative border-l border-slate-600">
+        {revisions.map((revision) => {
+          const onchainHash = onchainHashes.get(revision.revision_number);
+          const isVerified = !!onchainHash && onchainHash === revision.content_hash;
+          const isSelected = revision.revision_number === selectedRevision;
+          return (
+            <li key={revision.revision_number} className="mb-4 ml-4">
+              <div
+                className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-slate-800 ${
+                  isSelected ? 'bg-sky-400' : 'bg-slate-500'
+                }`}
+              />
+              <button
+                type="button"
+                disabled={revision.revision_number === 0}
+                onClick={() => setSelectedRevision(revision.revision_number)}
+                className="text-left disabled:cursor-default"
+              >
+                <p className={`text-sm font-semibold ${isSelected ? 'text-sky-400' : 'text-slate-200'}`}>
+                  {revision.revision_number === 0
+                    ? 'Original submission'
+                    : `Revision ${revision.revision_number}`}
+                </p>
+                <p className="text-xs text-slate-400">{formatDate(revision.created_at)}</p>
+              </button>
+              <div className="mt-1 flex flex-wrap items-center gap-2">
+                {onchainHashes.size > 0 &&
+                  (isVerified ? (
+                    <span className="rounded-full bg-green-100 px-2 py-0.5 text-xs font-semibold text-green-800">
+                      Hash verified on-chain
+                    </span>
+                  ) : (
+                    <span className="rounded-full bg-red-100 px-2 py-0.5 text-xs font-semibold text-red-800">
+                      Hash mismatch
+                    </span>
+                  ))}
+                {revision.content_hash && (
+                  <span className="break-all font-mono text-xs text-slate-500">
+                    {revision.content_hash}
+                  </span>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {current && previous && (
+        <div>
+          <h3 className="mb-3 text-lg font-semibold text-slate-200">
+            {previous.revision_number === 0 ? 'Original' : `Revision ${previous.revision_number}`}
+            {' → '}
+            Revision {current.revision_number}
+          </h3>
+          {changedFields.length === 0 ? (
+            <p className="text-sm text-slate-400">No field changes in this revision.</p>
+          ) : (
+            changedFields.map((field) => (
+              <FieldDiff
+                key={field}
+                label={fieldLabels[field]}
+                before={toText(previous[field])}
+                after={toText(current[field])}
+              />
+            ))
+          )}
+          {!contentKey && (
+            <p className="mt-2 text-xs text-slate-500">
+              Confidential fields are hidden until the idea&apos;s confidential details are decrypted.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IdeaRevisionHistory;
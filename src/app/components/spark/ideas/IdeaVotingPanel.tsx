@@ -0,0 +1,132 @@
+'use client';
+
+import React from 'react';
+import type { Hex } from 'viem';
+import { useWallet } from '@/app/context/WalletContext';
+import { useIdeaReviewVotes } from '@/app/components/hooks/UseIdeaReviewVotes';
+import { getOnchainApprovalStatusLabel } from '@/app/utils/ideaUtils';
+
+interface IdeaVotingPanelProps {
+  ideaId: Hex;
+}
+
+const shortenAddress = (address: string) =>
+  `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+export const IdeaVotingPanel: React.FC<IdeaVotingPanelProps> = ({ ideaId }) => {
+  const { state } = useWallet();
+  const {
+    reviewerVotes,
+    approvalCount,
+    totalReviewers,
+    thresholdPercent,
+    requiredApprovals,
+    isApproved,
+    approvalStatus,
+    isReviewer,
+    isLoading,
+    isVoting,
+    error,
+    castVote,
+  } = useIdeaReviewVotes(ideaId);
+
+  const currentUserVote = reviewerVotes.find(
+    (vote) => vote.reviewer.toLowerCase() === state.address?.toLowerCase()
+  );
+  const progressPercent =
+    requiredApprovals > 0 ? Math.min(100, (approvalCount / requiredApprovals) * 100) : 0;
+  const canVote = isReviewer && !currentUserVote?.hasVoted && !isApproved;
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-400">Loading on-chain votes...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-400">{error}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-400">On-chain Status:</p>
+        <span
+          className={`rounded-full px-2 py-0.5 text-xs font-semibold ${
+            isApproved ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'
+          }`}
+        >
+          {isApproved ? 'Approved by Reviewers' : getOnchainApprovalStatusLabel(approvalStatus)}
+        </span>
+      </div>
+
+      <div>
+        <div className="mb-1 flex justify-between text-sm text-slate-300">
+          <span>
+            {approvalCount} / {requiredApprovals} approvals
+          </span>
+          <span className="text-slate-400">
+            {thresholdPercent}% of {totalReviewers} reviewers
+          </span>
+        </div>
+        <div className="h-2 w-full rounded-full bg-slate-700">
+          <div
+            className={`h-2 rounded-full transition-all duration-300 ${
+              isApproved ? 'bg-green-500' : 'bg-sky-500'
+            }`}
+            style={{ width: `${progressPercent}%` }}
+          />
+        </div>
+      </div>
+
+      <ul className="divide-y divide-slate-700 rounded-md border border-slate-700">
+        {reviewerVotes.length === 0 && (
+          <li className="px-3 py-2 text-sm text-slate-400">No reviewers registered.</li>
+        )}
+        {reviewerVotes.map((vote) => (
+          <li key={vote.reviewer} className="flex items-center justify-between px-3 py-2 text-sm">
+            <span className="font-mono text-slate-300" title={vote.reviewer}>
+              {shortenAddress(vote.reviewer)}
+              {vote.reviewer.toLowerCase() === state.address?.toLowerCase() && (
+                <span className="ml-1 text-xs text-sky-400">(you)</span>
+              )}
+            </span>
+            {!vote.hasVoted ? (
+              <span className="text-xs text-slate-500">Not voted</span>
+            ) : vote.support ? (
+              <span className="text-xs font-semibold text-green-400">Approve</span>
+            ) : (
+              <span className="text-xs font-semibold text-red-400">Reject</span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canVote && (
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={() => castVote(true)}
+            disabled={isVoting}
+            className="flex-1 rounded bg-green-600 px-4 py-2 text-xs font-medium uppercase text-white shadow-md transition duration-150 ease-in-out hover:bg-green-700 disabled:opacity-50"
+          >
+            {isVoting ? 'Voting...' : 'Approve'}
+          </button>
+          <button
+            type="button"
+            onClick={() => castVote(false)}
+            disabled={isVoting}
+            className="flex-1 rounded bg-red-600 px-4 py-2 text-xs font-medium uppercase text-white shadow-md transition duration-150 ease-in-out hover:bg-red-700 disabled:opacity-50"
+          >
+            {isVoting ? 'Voting...' : 'Reject'}
+          </button>
+        </div>
+      )}
+      {isReviewer && currentUserVote?.hasVoted && (
+        <p className="text-xs text-slate-400">
+          You voted to {currentUserVote.support ? 'approve' : 'reject'} this idea.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default IdeaVotingPanel;
@@ -0,0 +1,12 @@
+/**
+ * Spark Platform - Idea Management
+ *
+ * Components for reviewing and managing ideas registered on SparkIdeaRegistry.
+ */
+
+export { default as IdeaVotingPanel } from './IdeaVotingPanel';
+export { default as IdeaAmendmentForm } from './IdeaAmendmentForm';
+export { default as IdeaRevisionHistory } from './IdeaRevisionHistory';
+export { default as IdeaFinalizationWizard } from './IdeaFinalizationWizard';
+export { default as IdeaLifecycleTimeline } from './IdeaLifecycleTimeline';
+export { default as IdeaProposalLauncher } from './IdeaProposalLauncher';
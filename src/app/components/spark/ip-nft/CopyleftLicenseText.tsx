@@ -0,0 +1,70 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { fetchIpfsText, resolveIpfsUri } from '@/app/utils/ipfsUtils';
+
+interface CopyleftLicenseTextProps {
+  licenseUri: string;
+}
+
+/**
+ * Shows the full text of a copyleft license stored on IPFS, with a link to the source.
+ */
+export const CopyleftLicenseText: React.FC<CopyleftLicenseTextProps> = ({ licenseUri }) => {
+  const [text, setText] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!licenseUri) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetchIpfsText(licenseUri)
+      .then((result) => {
+        if (!cancelled) setText(result);
+      })
+      .catch((err) => {
+        console.error('Error fetching copyleft license:', err);
+        if (!cancelled) setError('Failed to load the license text.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [licenseUri]);
+
+  if (!licenseUri) {
+    return <p className="text-sm text-slate-400">No copyleft license has been set for the pool.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <a
+        href={resolveIpfsUri(licenseUri)}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="break-all text-xs text-sky-400 hover:text-sky-300"
+      >
+        {licenseUri}
+      </a>
+      {isLoading ? (
+        <p className="text-sm text-slate-400">Loading license...</p>
+      ) : error ? (
+        <p className="text-sm text-red-400">{error}</p>
+      ) : (
+        text && (
+          <pre className="max-h-96 overflow-y-auto whitespace-pre-wrap rounded-md bg-slate-900 p-4 text-xs text-slate-300">
+            {text}
+          </pre>
+        )
+      )}
+    </div>
+  );
+};
+
+export default CopyleftLicenseText;
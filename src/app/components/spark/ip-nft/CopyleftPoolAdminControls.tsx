@@ -0,0 +1,133 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { type Address, isAddress } from 'viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { type PoolAction } from '@/app/components/hooks/UseCopyleftPool';
+
+interface CopyleftPoolAdminControlsProps {
+  licenseUri: string;
+  pooledTokenIds: bigint[];
+  pendingAction: PoolAction | null;
+  setPoolLicenseUri: (licenseUri: string) => Promise<boolean>;
+  transferFromPool: (tokenContract: Address, tokenId: bigint, recipient: Address) => Promise<boolean>;
+}
+
+const inputStyle =
+  'mt-1 block w-full rounded-md border border-slate-600 bg-slate-700 px-3 py-2 text-sm text-white shadow-sm placeholder-slate-400 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500';
+const actionButtonStyle =
+  'rounded bg-blue-600 px-4 py-2 text-xs font-medium uppercase text-white shadow-md transition duration-150 ease-in-out hover:bg-blue-700 disabled:opacity-50';
+
+/**
+ * Pool admin controls for replacing the pool's copyleft license and releasing an IP-NFT
+ * from the pool.
+ */
+export const CopyleftPoolAdminControls: React.FC<CopyleftPoolAdminControlsProps> = ({
+  licenseUri,
+  pooledTokenIds,
+  pendingAction,
+  setPoolLicenseUri,
+  transferFromPool,
+}) => {
+  const networkInfo = useNetworkInfo();
+  const [newLicenseUri, setNewLicenseUri] = useState(licenseUri);
+  const [tokenId, setTokenId] = useState('');
+  const [recipient, setRecipient] = useState('');
+  const [recipientError, setRecipientError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setNewLicenseUri(licenseUri);
+  }, [licenseUri]);
+
+  const handleLicenseSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await setPoolLicenseUri(newLicenseUri.trim());
+  };
+
+  const handleTransferSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!networkInfo?.sparkIpNft || !tokenId) return;
+    if (!isAddress(recipient.trim())) {
+      setRecipientError('Enter a valid recipient address.');
+      return;
+    }
+    setRecipientError(null);
+
+    const success = await transferFromPool(networkInfo.sparkIpNft, BigInt(tokenId), recipient.trim() as Address);
+    if (success) {
+      setTokenId('');
+      setRecipient('');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleLicenseSubmit} className="space-y-2">
+        <label htmlFor="pool-license-uri" className="block text-xs font-medium text-slate-300">
+          Pool copyleft license URI
+        </label>
+        <input
+          id="pool-license-uri"
+          type="text"
+          value={newLicenseUri}
+          onChange={(e) => setNewLicenseUri(e.target.value)}
+          placeholder="ipfs://..."
+          className={inputStyle}
+        />
+        <button
+          type="submit"
+          disabled={pendingAction !== null || !newLicenseUri.trim() || newLicenseUri.trim() === licenseUri}
+          className={actionButtonStyle}
+        >
+          {pendingAction === 'licenseUri' ? 'Updating...' : 'Update License'}
+        </button>
+      </form>
+
+      <form onSubmit={handleTransferSubmit} className="space-y-2" noValidate>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="pool-transfer-token" className="block text-xs font-medium text-slate-300">
+              IP-NFT
+            </label>
+            <select
+              id="pool-transfer-token"
+              value={tokenId}
+              onChange={(e) => setTokenId(e.target.value)}
+              className={inputStyle}
+            >
+              <option value="">Select a pooled IP-NFT</option>
+              {pooledTokenIds.map((id) => (
+                <option key={id.toString()} value={id.toString()}>
+                  #{id.toString()}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="pool-transfer-recipient" className="block text-xs font-medium text-slate-300">
+              Recipient
+            </label>
+            <input
+              id="pool-transfer-recipient"
+              type="text"
+              value={recipient}
+              onChange={(e) => setRecipient(e.target.value)}
+              placeholder="0x..."
+              className={inputStyle}
+            />
+            {recipientError && <p className="mt-1 text-xs text-red-400">{recipientError}</p>}
+          </div>
+        </div>
+        <button
+          type="submit"
+          disabled={pendingAction !== null || !tokenId || !recipient.trim()}
+          className={actionButtonStyle}
+        >
+          {pendingAction === 'transfer' ? 'Transferring...' : 'Transfer Out of Pool'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default CopyleftPoolAdminControls;
@@ -0,0 +1,207 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useWallet } from '@/app/context/WalletContext';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { useExpiredLicenseProcessing } from '@/app/components/hooks/UseExpiredLicenseProcessing';
+
+const actionButtonStyle =
+  'rounded bg-blue-600 px-4 py-2 text-xs font-medium uppercase text-white shadow-md transition duration-150 ease-in-out hover:bg-blue-700 disabled:opacity-50';
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Keeper console for licenses past their expiry buffer. Any wallet can process them and is
+ * paid in PO for doing so.
+ */
+export const ExpiredLicenseProcessor: React.FC = () => {
+  const { state } = useWallet();
+  const networkInfo = useNetworkInfo();
+  const { expiredLicenses, settings, report, isLoading, isProcessing, error, processLicenses, refresh } =
+    useExpiredLicenseProcessing();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Select everything found by each scan
+  useEffect(() => {
+    setSelectedIds(new Set(expiredLicenses.map((license) => license.licenseId.toString())));
+  }, [expiredLicenses]);
+
+  const selectedLicenses = expiredLicenses.filter((license) => selectedIds.has(license.licenseId.toString()));
+  const batchSize = settings ? Number(settings.maxBatchSize) : 0;
+  const batchCount = batchSize > 0 ? Math.ceil(selectedLicenses.length / batchSize) : 0;
+  // Assumes the reward is paid per processed license; the report shows what was actually paid
+  const estimatedReward = settings ? settings.poRewardAmount * BigInt(selectedLicenses.length) : BigInt(0);
+
+  const toggleLicense = (licenseId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(licenseId)) {
+        next.delete(licenseId);
+      } else {
+        next.add(licenseId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(
+      selectedLicenses.length === expiredLicenses.length
+        ? new Set()
+        : new Set(expiredLicenses.map((license) => license.licenseId.toString()))
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <dl className="grid grid-cols-2 gap-4 text-sm sm:grid-cols-4">
+        <div>
+          <dt className="font-medium text-slate-500">Expired licenses</dt>
+          <dd className="text-slate-200">{isLoading ? '...' : expiredLicenses.length}</dd>
+        </div>
+        <div>
+          <dt className="font-medium text-slate-500">Expiry buffer</dt>
+          <dd className="text-slate-200">
+            {settings ? `${(Number(settings.expiryBufferTime) / 3600).toLocaleString()} hours` : '...'}
+          </dd>
+        </div>
+        <div>
+          <dt className="font-medium text-slate-500">Max batch size</dt>
+          <dd className="text-slate-200">{settings ? settings.maxBatchSize.toString() : '...'}</dd>
+        </div>
+        <div>
+          <dt className="font-medium text-slate-500">PO reward per license</dt>
+          <dd className="text-slate-200">{settings ? `${settings.poRewardAmount.toString()} PO` : '...'}</dd>
+        </div>
+      </dl>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-sm text-slate-400">Scanning licenses...</p>
+      ) : expiredLicenses.length === 0 ? (
+        <p className="text-sm text-slate-400">No licenses are waiting to be processed.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-left text-xs">
+            <thead className="border-b border-slate-700 text-slate-500">
+              <tr>
+                <th className="py-2 pr-4">
+                  <input
+                    type="checkbox"
+                    checked={selectedLicenses.length === expiredLicenses.length}
+                    onChange={toggleAll}
+                    disabled={isProcessing}
+                    aria-label="Select all expired licenses"
+                  />
+                </th>
+                <th className="py-2 pr-4">License</th>
+                <th className="py-2 pr-4">IP-NFT</th>
+                <th className="py-2 pr-4">Licensee</th>
+                <th className="py-2">Expired</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700 text-slate-300">
+              {expiredLicenses.map((license) => {
+                const id = license.licenseId.toString();
+                return (
+                  <tr key={id}>
+                    <td className="py-2 pr-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(id)}
+                        onChange={() => toggleLicense(id)}
+                        disabled={isProcessing}
+                        aria-label={`Select license #${id}`}
+                      />
+                    </td>
+                    <td className="py-2 pr-4">#{id}</td>
+                    <td className="py-2 pr-4">
+                      <Link
+                        href={`/ip-portfolio/${license.ipNftId.toString()}`}
+                        className="text-sky-400 hover:text-sky-300"
+                      >
+                        #{license.ipNftId.toString()}
+                      </Link>
+                    </td>
+                    <td className="py-2 pr-4 font-mono">{shortAddress(license.licensee)}</td>
+                    <td className="py-2">{new Date(license.expiresAt * 1000).toLocaleString()}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4">
+        <button
+          type="button"
+          onClick={() => processLicenses(selectedLicenses.map((license) => license.licenseId))}
+          disabled={!state.address || isProcessing || isLoading || selectedLicenses.length === 0}
+          className={actionButtonStyle}
+        >
+          {isProcessing ? 'Processing...' : `Process ${selectedLicenses.length} License${selectedLicenses.length === 1 ? '' : 's'}`}
+        </button>
+        <button
+          type="button"
+          onClick={refresh}
+          disabled={isProcessing || isLoading}
+          className="text-xs text-slate-400 hover:text-slate-200 disabled:opacity-50"
+        >
+          Rescan
+        </button>
+        {selectedLicenses.length > 0 && (
+          <p className="text-xs text-slate-400">
+            {batchCount} transaction{batchCount === 1 ? '' : 's'} &middot; estimated reward{' '}
+            {estimatedReward.toString()} PO
+          </p>
+        )}
+      </div>
+      {!state.address && <p className="text-xs text-slate-500">Connect your wallet to process licenses.</p>}
+
+      {report && (
+        <div className="rounded-md border border-slate-700 p-4">
+          <h3 className="mb-2 text-sm font-semibold text-slate-200">Results</h3>
+          <p className="text-sm text-slate-300">
+            Processed {report.processedCount.toString()} license{report.processedCount === BigInt(1) ? '' : 's'} and
+            earned {report.totalReward.toString()} PO in {report.transactionHashes.length} transaction
+            {report.transactionHashes.length === 1 ? '' : 's'}.
+          </p>
+          {report.processed.length > 0 && (
+            <ul className="mt-2 divide-y divide-slate-700 text-xs text-slate-400">
+              {report.processed.map(({ licenseId, licensee }) => (
+                <li key={licenseId.toString()} className="py-1">
+                  License #{licenseId.toString()} &middot; {shortAddress(licensee)}
+                </li>
+              ))}
+            </ul>
+          )}
+          {report.unprocessedLicenseIds.length > 0 && (
+            <p className="mt-2 text-xs text-red-400">
+              Not processed: {report.unprocessedLicenseIds.map((id) => `#${id.toString()}`).join(', ')}
+            </p>
+          )}
+          {networkInfo?.explorerLink && report.transactionHashes.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-3 text-xs">
+              {report.transactionHashes.map((hash, index) => (
+                <a
+                  key={hash}
+                  href={`${networkInfo.explorerLink}/tx/${hash}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sky-400 hover:text-sky-300"
+                >
+                  Batch {index + 1}
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExpiredLicenseProcessor;
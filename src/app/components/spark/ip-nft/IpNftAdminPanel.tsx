@@ -0,0 +1,705 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { type Address, formatEther, formatUnits, isAddress, parseUnits } from 'viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { ModalAdminConfirmation, type AdminChange } from '@/app/components/modals/ModalAdminConfirmation';
+import { type IpNft } from '@/app/components/hooks/UseIpNftPortfolio';
+import { type LicenseTermsLimits } from '@/app/components/hooks/UseIpNftLicenseTerms';
+import {
+  type AdminEvent,
+  type AdminSetting,
+  type IpNftAdminSettings,
+} from '@/app/components/hooks/UseIpNftAdmin';
+
+interface IpNftAdminPanelProps {
+  settings: IpNftAdminSettings;
+  history: AdminEvent[];
+  ipNfts: IpNft[];
+  pendingAction: AdminSetting | null;
+  pause: (reason: string) => Promise<boolean>;
+  unpause: () => Promise<boolean>;
+  setExpiryBufferTime: (bufferTime: bigint) => Promise<boolean>;
+  setLicenseTermsLimits: (limits: LicenseTermsLimits) => Promise<boolean>;
+  setLicenseProcessingReward: (amount: bigint) => Promise<boolean>;
+  setPoTokenContract: (address: Address) => Promise<boolean>;
+  setLicenseNftContract: (address: Address) => Promise<boolean>;
+  setLicenseSciLocker: (address: Address) => Promise<boolean>;
+  updatePatentIdentifier: (tokenId: bigint, patentIdentifier: string) => Promise<boolean>;
+  transferAdmin: (newAdmin: Address) => Promise<boolean>;
+}
+
+interface PendingConfirmation {
+  title: string;
+  changes: AdminChange[];
+  submit: () => Promise<boolean>;
+}
+
+interface LimitsFormValues {
+  minFee: string;
+  maxFee: string;
+  minPeriod: string;
+  maxPeriod: string;
+  minSci: string;
+  maxSci: string;
+}
+
+const inputStyle =
+  'mt-1 block w-full rounded-md border border-slate-600 bg-slate-700 px-3 py-2 text-sm text-white shadow-sm placeholder-slate-400 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500';
+const labelStyle = 'block text-xs font-medium text-slate-300';
+const actionButtonStyle =
+  'rounded bg-blue-600 px-4 py-2 text-xs font-medium uppercase text-white shadow-md transition duration-150 ease-in-out hover:bg-blue-700 disabled:opacity-50';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const formatUsdc = (amount: bigint) => `$${Number(formatUnits(amount, 6)).toLocaleString()}`;
+const formatSci = (amount: bigint) => `${Number(formatEther(amount)).toLocaleString()} SCI`;
+const formatDuration = (seconds: bigint) => `${seconds.toString()} seconds (${(Number(seconds) / 3600).toFixed(2)} hours)`;
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const parseAmount = (value: string, decimals: number): bigint | null => {
+  const amount = value.trim();
+  if (!/^\d+(\.\d+)?$/.test(amount)) return null;
+  return parseUnits(amount, decimals);
+};
+
+const toLimitsFormValues = (limits: LicenseTermsLimits): LimitsFormValues => ({
+  minFee: formatUnits(limits.minFeePerPeriodUSD, 6),
+  maxFee: formatUnits(limits.maxFeePerPeriodUSD, 6),
+  minPeriod: limits.minPeriodLengthInDays.toString(),
+  maxPeriod: limits.maxPeriodLengthInDays.toString(),
+  minSci: formatEther(limits.minSciAmountToLock),
+  maxSci: formatEther(limits.maxSciAmountToLock),
+});
+
+const describeLimits = (limits: LicenseTermsLimits) =>
+  `${formatUsdc(limits.minFeePerPeriodUSD)}-${formatUsdc(limits.maxFeePerPeriodUSD)} per period, ` +
+  `${limits.minPeriodLengthInDays.toString()}-${limits.maxPeriodLengthInDays.toString()} days, ` +
+  `${formatSci(limits.minSciAmountToLock)}-${formatSci(limits.maxSciAmountToLock)} locked`;
+
+const describeEvent = (event: AdminEvent): string => {
+  const args = event.args;
+  const address = (key: string) => shortAddress(String(args[key] ?? ZERO_ADDRESS));
+  const amount = (key: string) => String(args[key] ?? '');
+
+  switch (event.eventName) {
+    case 'ContractPaused':
+      return `Paused by ${address('admin')}${args.reason ? `: ${String(args.reason)}` : ''}`;
+    case 'ContractUnpaused':
+      return `Unpaused by ${address('admin')}`;
+    case 'ExpiryBufferTimeUpdated':
+      return `Buffer changed from ${amount('oldBufferTime')}s to ${amount('newBufferTime')}s`;
+    case 'LicenseTermsLimitsUpdated':
+      return `Limits set to ${describeLimits(args as unknown as LicenseTermsLimits)}`;
+    case 'LicenseProcessingRewardUpdated':
+      return `Reward changed from ${amount('oldReward')} to ${amount('newReward')} PO`;
+    case 'POTokenRewardAmountUpdated':
+      return `PO reward amount changed from ${amount('oldAmount')} to ${amount('newAmount')}`;
+    case 'POTokenContractUpdated':
+    case 'PoTokenUpdated':
+    case 'LicenseNFTContractUpdated':
+    case 'LicenseSciLockerUpdated':
+      return `Contract changed from ${address('oldContract')} to ${address('newContract')}`;
+    case 'PatentIdentifierUpdated':
+      return `IP-NFT #${amount('tokenId')}: "${String(args.oldIdentifier ?? '')}" to "${String(args.newIdentifier ?? '')}"`;
+    case 'AdminTransferInitiated':
+      return `Transfer from ${address('currentAdmin')} to ${address('newAdmin')} initiated`;
+    case 'AdminTransferAccepted':
+      return `${address('newAdmin')} accepted the admin role from ${address('oldAdmin')}`;
+    default:
+      return event.eventName;
+  }
+};
+
+interface SettingCardProps {
+  title: string;
+  current: React.ReactNode;
+  events: AdminEvent[];
+  children: React.ReactNode;
+}
+
+const SettingCard: React.FC<SettingCardProps> = ({ title, current, events, children }) => {
+  const networkInfo = useNetworkInfo();
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-700 p-4">
+      <div>
+        <h3 className="text-lg font-semibold text-white">{title}</h3>
+        <div className="text-sm text-slate-300">{current}</div>
+      </div>
+      {children}
+      {events.length > 0 && (
+        <ul className="divide-y divide-slate-700 text-xs">
+          {events.map((event, index) => (
+            <li
+              key={`${event.transactionHash}-${event.eventName}-${index}`}
+              className="flex flex-wrap items-center justify-between gap-2 py-2"
+            >
+              <span className="break-all text-slate-300">{describeEvent(event)}</span>
+              <span className="text-slate-500">
+                {event.timestamp ? new Date(event.timestamp * 1000).toLocaleString() : ''}
+                {networkInfo?.explorerLink && (
+                  <a
+                    href={`${networkInfo.explorerLink}/tx/${event.transactionHash}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="ml-2 text-sky-400 hover:text-sky-300"
+                  >
+                    View
+                  </a>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Admin controls for the SparkIPNFT contract. Every change is confirmed before it is submitted,
+ * and each setting lists the events that changed it, newest first.
+ */
+export const IpNftAdminPanel: React.FC<IpNftAdminPanelProps> = ({
+  settings,
+  history,
+  ipNfts,
+  pendingAction,
+  pause,
+  unpause,
+  setExpiryBufferTime,
+  setLicenseTermsLimits,
+  setLicenseProcessingReward,
+  setPoTokenContract,
+  setLicenseNftContract,
+  setLicenseSciLocker,
+  updatePatentIdentifier,
+  transferAdmin,
+}) => {
+  const [confirmation, setConfirmation] = useState<PendingConfirmation | null>(null);
+  const [pauseReason, setPauseReason] = useState('');
+  const [bufferTime, setBufferTime] = useState('');
+  const [limitsForm, setLimitsForm] = useState<LimitsFormValues>(toLimitsFormValues(settings.termsLimits));
+  const [processingReward, setProcessingReward] = useState('');
+  const [poToken, setPoToken] = useState('');
+  const [licenseNft, setLicenseNft] = useState('');
+  const [sciLocker, setSciLocker] = useState('');
+  const [patentTokenId, setPatentTokenId] = useState('');
+  const [patentIdentifier, setPatentIdentifier] = useState('');
+  const [newAdmin, setNewAdmin] = useState('');
+  const [formErrors, setFormErrors] = useState<Partial<Record<AdminSetting, string>>>({});
+
+  useEffect(() => {
+    setLimitsForm(toLimitsFormValues(settings.termsLimits));
+  }, [settings.termsLimits]);
+
+  const eventsFor = (setting: AdminSetting) => history.filter((event) => event.setting === setting);
+  const selectedIpNft = ipNfts.find((ipNft) => ipNft.tokenId.toString() === patentTokenId);
+  const isBusy = pendingAction !== null;
+
+  const setFormError = (setting: AdminSetting, message: string | null) =>
+    setFormErrors((prev) => ({ ...prev, [setting]: message ?? undefined }));
+
+  const confirm = (pending: PendingConfirmation) => setConfirmation(pending);
+
+  const handleConfirm = async () => {
+    if (!confirmation) return;
+    const success = await confirmation.submit();
+    if (success) {
+      setConfirmation(null);
+    }
+  };
+
+  const reviewAddressChange = (
+    setting: AdminSetting,
+    title: string,
+    current: Address,
+    value: string,
+    submit: (address: Address) => Promise<boolean>,
+    reset: () => void
+  ) => {
+    const address = value.trim();
+    if (!isAddress(address) || address === ZERO_ADDRESS) {
+      setFormError(setting, 'Enter a valid, non-zero contract address.');
+      return;
+    }
+    setFormError(setting, null);
+    confirm({
+      title,
+      changes: [{ label: 'Contract address', current, proposed: address }],
+      submit: async () => {
+        const success = await submit(address as Address);
+        if (success) reset();
+        return success;
+      },
+    });
+  };
+
+  const handlePauseSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (settings.paused) {
+      confirm({
+        title: 'Unpause SparkIPNFT',
+        changes: [{ label: 'Contract status', current: 'Paused', proposed: 'Active' }],
+        submit: unpause,
+      });
+      return;
+    }
+    if (!pauseReason.trim()) {
+      setFormError('pause', 'Give a reason for pausing the contract.');
+      return;
+    }
+    setFormError('pause', null);
+    confirm({
+      title: 'Pause SparkIPNFT',
+      changes: [
+        { label: 'Contract status', current: 'Active', proposed: 'Paused' },
+        { label: 'Reason', current: '-', proposed: pauseReason.trim() },
+      ],
+      submit: async () => {
+        const success = await pause(pauseReason.trim());
+        if (success) setPauseReason('');
+        return success;
+      },
+    });
+  };
+
+  const handleBufferSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^\d+$/.test(bufferTime.trim())) {
+      setFormError('expiryBuffer', 'Enter the buffer as a whole number of seconds.');
+      return;
+    }
+    const value = BigInt(bufferTime.trim());
+    setFormError('expiryBuffer', null);
+    confirm({
+      title: 'Update Expiry Buffer Time',
+      changes: [
+        { label: 'Expiry buffer', current: formatDuration(settings.expiryBufferTime), proposed: formatDuration(value) },
+      ],
+      submit: async () => {
+        const success = await setExpiryBufferTime(value);
+        if (success) setBufferTime('');
+        return success;
+      },
+    });
+  };
+
+  const handleLimitsSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const minFee = parseAmount(limitsForm.minFee, 6);
+    const maxFee = parseAmount(limitsForm.maxFee, 6);
+    const minPeriod = parseAmount(limitsForm.minPeriod, 0);
+    const maxPeriod = parseAmount(limitsForm.maxPeriod, 0);
+    const minSci = parseAmount(limitsForm.minSci, 18);
+    const maxSci = parseAmount(limitsForm.maxSci, 18);
+    if (
+      minFee === null ||
+      maxFee === null ||
+      minPeriod === null ||
+      maxPeriod === null ||
+      minSci === null ||
+      maxSci === null
+    ) {
+      setFormError('termsLimits', 'Enter every limit as a positive number; period lengths are whole days.');
+      return;
+    }
+    if (minFee > maxFee || minPeriod > maxPeriod || minSci > maxSci) {
+      setFormError('termsLimits', 'Each minimum must not exceed its maximum.');
+      return;
+    }
+    setFormError('termsLimits', null);
+
+    const limits: LicenseTermsLimits = {
+      minFeePerPeriodUSD: minFee,
+      maxFeePerPeriodUSD: maxFee,
+      minPeriodLengthInDays: minPeriod,
+      maxPeriodLengthInDays: maxPeriod,
+      minSciAmountToLock: minSci,
+      maxSciAmountToLock: maxSci,
+    };
+    const current = settings.termsLimits;
+    confirm({
+      title: 'Update License Terms Limits',
+      changes: [
+        {
+          label: 'Fee per period',
+          current: `${formatUsdc(current.minFeePerPeriodUSD)} - ${formatUsdc(current.maxFeePerPeriodUSD)}`,
+          proposed: `${formatUsdc(minFee)} - ${formatUsdc(maxFee)}`,
+        },
+        {
+          label: 'Period length',
+          current: `${current.minPeriodLengthInDays.toString()} - ${current.maxPeriodLengthInDays.toString()} days`,
+          proposed: `${minPeriod.toString()} - ${maxPeriod.toString()} days`,
+        },
+        {
+          label: 'SCI to lock',
+          current: `${formatSci(current.minSciAmountToLock)} - ${formatSci(current.maxSciAmountToLock)}`,
+          proposed: `${formatSci(minSci)} - ${formatSci(maxSci)}`,
+        },
+      ],
+      submit: () => setLicenseTermsLimits(limits),
+    });
+  };
+
+  const handleRewardSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^\d+$/.test(processingReward.trim())) {
+      setFormError('processingReward', 'Enter the reward as a whole number of PO.');
+      return;
+    }
+    const value = BigInt(processingReward.trim());
+    setFormError('processingReward', null);
+    confirm({
+      title: 'Update License Processing Reward',
+      changes: [
+        {
+          label: 'PO per processed license',
+          current: settings.processingReward.toString(),
+          proposed: value.toString(),
+        },
+      ],
+      submit: async () => {
+        const success = await setLicenseProcessingReward(value);
+        if (success) setProcessingReward('');
+        return success;
+      },
+    });
+  };
+
+  const handlePatentSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedIpNft) {
+      setFormError('patentIdentifier', 'Select an IP-NFT.');
+      return;
+    }
+    if (!patentIdentifier.trim() || patentIdentifier.trim() === selectedIpNft.patentIdentifier) {
+      setFormError('patentIdentifier', 'Enter a new patent identifier.');
+      return;
+    }
+    setFormError('patentIdentifier', null);
+    confirm({
+      title: `Update Patent Identifier of IP-NFT #${selectedIpNft.tokenId.toString()}`,
+      changes: [
+        {
+          label: 'Patent identifier',
+          current: selectedIpNft.patentIdentifier || '-',
+          proposed: patentIdentifier.trim(),
+        },
+      ],
+      submit: async () => {
+        const success = await updatePatentIdentifier(selectedIpNft.tokenId, patentIdentifier.trim());
+        if (success) setPatentIdentifier('');
+        return success;
+      },
+    });
+  };
+
+  const handleAdminSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const address = newAdmin.trim();
+    if (!isAddress(address) || address === ZERO_ADDRESS) {
+      setFormError('admin', 'Enter a valid, non-zero address.');
+      return;
+    }
+    if (address.toLowerCase() === settings.admin.toLowerCase()) {
+      setFormError('admin', 'This address is already the admin.');
+      return;
+    }
+    setFormError('admin', null);
+    confirm({
+      title: 'Transfer Admin Role',
+      changes: [{ label: 'Pending admin', current: settings.pendingAdmin, proposed: address }],
+      submit: async () => {
+        const success = await transferAdmin(address as Address);
+        if (success) setNewAdmin('');
+        return success;
+      },
+    });
+  };
+
+  const renderError = (setting: AdminSetting) =>
+    formErrors[setting] && <p className="text-xs text-red-400">{formErrors[setting]}</p>;
+
+  const limitInput = (key: keyof LimitsFormValues, label: string) => (
+    <div>
+      <label htmlFor={`admin-limit-${key}`} className={labelStyle}>
+        {label}
+      </label>
+      <input
+        id={`admin-limit-${key}`}
+        type="text"
+        inputMode="decimal"
+        value={limitsForm[key]}
+        onChange={(e) =>
+          /^\d*\.?\d*$/.test(e.target.value) && setLimitsForm((prev) => ({ ...prev, [key]: e.target.value }))
+        }
+        className={inputStyle}
+      />
+    </div>
+  );
+
+  const addressCard = (
+    setting: AdminSetting,
+    title: string,
+    current: Address,
+    value: string,
+    setValue: (value: string) => void,
+    submit: (address: Address) => Promise<boolean>
+  ) => (
+    <SettingCard
+      title={title}
+      current={<span className="break-all font-mono">{current}</span>}
+      events={eventsFor(setting)}
+    >
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          reviewAddressChange(setting, `Update ${title}`, current, value, submit, () => setValue(''));
+        }}
+        className="space-y-2"
+        noValidate
+      >
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder="0x..."
+          aria-label={`New ${title} address`}
+          className={inputStyle}
+        />
+        {renderError(setting)}
+        <button type="submit" disabled={isBusy || !value.trim()} className={actionButtonStyle}>
+          {pendingAction === setting ? 'Updating...' : 'Review Change'}
+        </button>
+      </form>
+    </SettingCard>
+  );
+
+  return (
+    <div className="space-y-4">
+      <SettingCard
+        title="Contract Status"
+        current={
+          settings.paused ? (
+            <span className="text-orange-400">Paused</span>
+          ) : (
+            <span className="text-green-400">Active</span>
+          )
+        }
+        events={eventsFor('pause')}
+      >
+        <form onSubmit={handlePauseSubmit} className="space-y-2" noValidate>
+          {!settings.paused && (
+            <div>
+              <label htmlFor="admin-pause-reason" className={labelStyle}>
+                Reason
+              </label>
+              <input
+                id="admin-pause-reason"
+                type="text"
+                value={pauseReason}
+                onChange={(e) => setPauseReason(e.target.value)}
+                className={inputStyle}
+              />
+            </div>
+          )}
+          {renderError('pause')}
+          <button type="submit" disabled={isBusy} className={actionButtonStyle}>
+            {pendingAction === 'pause' ? 'Submitting...' : settings.paused ? 'Unpause' : 'Pause'}
+          </button>
+        </form>
+      </SettingCard>
+
+      <SettingCard
+        title="Expiry Buffer Time"
+        current={`Licenses can be processed ${formatDuration(settings.expiryBufferTime)} after they expire.`}
+        events={eventsFor('expiryBuffer')}
+      >
+        <form onSubmit={handleBufferSubmit} className="space-y-2" noValidate>
+          <label htmlFor="admin-expiry-buffer" className={labelStyle}>
+            New buffer (seconds)
+          </label>
+          <input
+            id="admin-expiry-buffer"
+            type="text"
+            inputMode="numeric"
+            value={bufferTime}
+            onChange={(e) => /^\d*$/.test(e.target.value) && setBufferTime(e.target.value)}
+            placeholder={settings.expiryBufferTime.toString()}
+            className={inputStyle}
+          />
+          {renderError('expiryBuffer')}
+          <button type="submit" disabled={isBusy || !bufferTime} className={actionButtonStyle}>
+            {pendingAction === 'expiryBuffer' ? 'Updating...' : 'Review Change'}
+          </button>
+        </form>
+      </SettingCard>
+
+      <SettingCard
+        title="License Terms Limits"
+        current={describeLimits(settings.termsLimits)}
+        events={eventsFor('termsLimits')}
+      >
+        <form onSubmit={handleLimitsSubmit} className="space-y-2" noValidate>
+          <div className="grid grid-cols-2 gap-2">
+            {limitInput('minFee', 'Min fee per period (USDC)')}
+            {limitInput('maxFee', 'Max fee per period (USDC)')}
+            {limitInput('minPeriod', 'Min period (days)')}
+            {limitInput('maxPeriod', 'Max period (days)')}
+            {limitInput('minSci', 'Min SCI to lock')}
+            {limitInput('maxSci', 'Max SCI to lock')}
+          </div>
+          {renderError('termsLimits')}
+          <button type="submit" disabled={isBusy} className={actionButtonStyle}>
+            {pendingAction === 'termsLimits' ? 'Updating...' : 'Review Change'}
+          </button>
+        </form>
+      </SettingCard>
+
+      <SettingCard
+        title="License Processing Reward"
+        current={`${settings.processingReward.toString()} PO per processed license`}
+        events={eventsFor('processingReward')}
+      >
+        <form onSubmit={handleRewardSubmit} className="space-y-2" noValidate>
+          <label htmlFor="admin-processing-reward" className={labelStyle}>
+            New reward (PO)
+          </label>
+          <input
+            id="admin-processing-reward"
+            type="text"
+            inputMode="numeric"
+            value={processingReward}
+            onChange={(e) => /^\d*$/.test(e.target.value) && setProcessingReward(e.target.value)}
+            placeholder={settings.processingReward.toString()}
+            className={inputStyle}
+          />
+          {renderError('processingReward')}
+          <button type="submit" disabled={isBusy || !processingReward} className={actionButtonStyle}>
+            {pendingAction === 'processingReward' ? 'Updating...' : 'Review Change'}
+          </button>
+        </form>
+      </SettingCard>
+
+      {addressCard('poToken', 'PO Token Contract', settings.poTokenAddress, poToken, setPoToken, setPoTokenContract)}
+      {addressCard(
+        'licenseNft',
+        'LicenseNFT Contract',
+        settings.licenseNftAddress,
+        licenseNft,
+        setLicenseNft,
+        setLicenseNftContract
+      )}
+      {addressCard(
+        'sciLocker',
+        'License SCI Locker',
+        settings.sciLockerAddress,
+        sciLocker,
+        setSciLocker,
+        setLicenseSciLocker
+      )}
+
+      <SettingCard
+        title="Patent Identifiers"
+        current={
+          selectedIpNft
+            ? `IP-NFT #${selectedIpNft.tokenId.toString()}: ${selectedIpNft.patentIdentifier || '-'}`
+            : 'Select an IP-NFT to correct its patent identifier.'
+        }
+        events={eventsFor('patentIdentifier')}
+      >
+        <form onSubmit={handlePatentSubmit} className="space-y-2" noValidate>
+          <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+            <div>
+              <label htmlFor="admin-patent-token" className={labelStyle}>
+                IP-NFT
+              </label>
+              <select
+                id="admin-patent-token"
+                value={patentTokenId}
+                onChange={(e) => setPatentTokenId(e.target.value)}
+                className={inputStyle}
+              >
+                <option value="">Select an IP-NFT</option>
+                {ipNfts.map((ipNft) => (
+                  <option key={ipNft.tokenId.toString()} value={ipNft.tokenId.toString()}>
+                    #{ipNft.tokenId.toString()}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="admin-patent-identifier" className={labelStyle}>
+                New patent identifier
+              </label>
+              <input
+                id="admin-patent-identifier"
+                type="text"
+                value={patentIdentifier}
+                onChange={(e) => setPatentIdentifier(e.target.value)}
+                className={inputStyle}
+              />
+            </div>
+          </div>
+          {renderError('patentIdentifier')}
+          <button
+            type="submit"
+            disabled={isBusy || !patentTokenId || !patentIdentifier.trim()}
+            className={actionButtonStyle}
+          >
+            {pendingAction === 'patentIdentifier' ? 'Updating...' : 'Review Change'}
+          </button>
+        </form>
+      </SettingCard>
+
+      <SettingCard
+        title="Admin"
+        current={
+          <>
+            <p className="break-all font-mono">{settings.admin}</p>
+            {settings.pendingAdmin !== ZERO_ADDRESS && (
+              <p className="text-xs text-orange-400">
+                Waiting for {settings.pendingAdmin} to accept the admin role.
+              </p>
+            )}
+          </>
+        }
+        events={eventsFor('admin')}
+      >
+        <form onSubmit={handleAdminSubmit} className="space-y-2" noValidate>
+          <label htmlFor="admin-new-admin" className={labelStyle}>
+            New admin
+          </label>
+          <input
+            id="admin-new-admin"
+            type="text"
+            value={newAdmin}
+            onChange={(e) => setNewAdmin(e.target.value)}
+            placeholder="0x..."
+            className={inputStyle}
+          />
+          <p className="text-xs text-slate-400">
+            The new admin takes over only after accepting the role from their own wallet.
+          </p>
+          {renderError('admin')}
+          <button type="submit" disabled={isBusy || !newAdmin.trim()} className={actionButtonStyle}>
+            {pendingAction === 'admin' ? 'Submitting...' : 'Review Transfer'}
+          </button>
+        </form>
+      </SettingCard>
+
+      <ModalAdminConfirmation
+        isOpen={confirmation !== null}
+        onClose={() => setConfirmation(null)}
+        onConfirm={handleConfirm}
+        isLoading={isBusy}
+        title={confirmation?.title ?? ''}
+        changes={confirmation?.changes ?? []}
+      />
+    </div>
+  );
+};
+
+export default IpNftAdminPanel;
@@ -0,0 +1,138 @@
+'use client';
+
+import React from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import type { IpNft } from '@/app/components/hooks/UseIpNftPortfolio';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { resolveIpfsUri } from '@/app/utils/ipfsUtils';
+
+interface IpNftCardProps {
+  ipNft: IpNft;
+  viewerAddress?: string;
+}
+
+const shortenHex = (value: string) => `${value.slice(0, 6)}...${value.slice(-4)}`;
+
+const formatTimestamp = (seconds: number) =>
+  new Date(seconds * 1000).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+const UriLink: React.FC<{ uri: string }> = ({ uri }) =>
+  uri ? (
+    <a
+      href={resolveIpfsUri(uri)}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="break-all text-sky-400 hover:text-sky-300"
+    >
+      {uri.length > 48 ? `${uri.slice(0, 32)}...${uri.slice(-12)}` : uri}
+    </a>
+  ) : (
+    <span className="italic text-slate-500">Not set</span>
+  );
+
+/**
+ * Summary card of a SparkIPNFT: token metadata, the patent and agreements it represents,
+ * the Spark idea it was minted from and where the token currently sits.
+ */
+export const IpNftCard: React.FC<IpNftCardProps> = ({ ipNft, viewerAddress }) => {
+  const networkInfo = useNetworkInfo();
+  const viewer = viewerAddress?.toLowerCase();
+  const isOwner = !!viewer && ipNft.owner.toLowerCase() === viewer;
+  const isCreator = !!viewer && ipNft.originalCreator.toLowerCase() === viewer;
+  const imageUrl = ipNft.metadata?.image ? resolveIpfsUri(ipNft.metadata.image) : '';
+  const explorerLink = networkInfo?.explorerLink;
+
+  return (
+    <div className="flex flex-col rounded-lg border border-slate-700 border-t-4 border-t-sky-500 bg-slate-800 p-6 shadow-xl">
+      <div className="mb-4 flex items-start gap-4">
+        {imageUrl && (
+          <Image
+            src={imageUrl}
+            alt={ipNft.metadata?.name ?? `IP-NFT #${ipNft.tokenId.toString()}`}
+            width={64}
+            height={64}
+            unoptimized
+            className="h-16 w-16 rounded-md object-cover"
+          />
+        )}
+        <div className="min-w-0">
+          <h2 className="text-lg font-semibold text-sky-400">
+            <Link href={`/ip-portfolio/${ipNft.tokenId.toString()}`} className="hover:text-sky-300">
+              {ipNft.metadata?.name ?? `IP-NFT #${ipNft.tokenId.toString()}`}
+            </Link>
+          </h2>
+          <div className="mt-1 flex flex-wrap gap-2 text-xs">
+            <span className="rounded-full bg-slate-700 px-2 py-0.5 text-slate-300">
+              #{ipNft.tokenId.toString()}
+            </span>
+            {ipNft.isInCopyleftPool && (
+              <span className="rounded-full bg-emerald-900 px-2 py-0.5 text-emerald-300">Copyleft pool</span>
+            )}
+            {isOwner && <span className="rounded-full bg-sky-900 px-2 py-0.5 text-sky-300">Owned by you</span>}
+          </div>
+        </div>
+      </div>
+
+      {ipNft.metadata?.description && (
+        <p className="mb-4 text-sm text-slate-200 line-clamp-3 whitespace-pre-wrap">{ipNft.metadata.description}</p>
+      )}
+
+      <dl className="flex-1 space-y-2 text-sm">
+        <div>
+          <dt className="font-medium text-slate-500">Patent identifier</dt>
+          <dd className="break-all text-slate-200">{ipNft.patentIdentifier || 'None'}</dd>
+        </div>
+        <div>
+          <dt className="font-medium text-slate-500">Research agreement</dt>
+          <dd>
+            <UriLink uri={ipNft.researchAgreementURI} />
+          </dd>
+        </div>
+        <div>
+          <dt className="font-medium text-slate-500">Copyleft license</dt>
+          <dd>
+            <UriLink uri={ipNft.copyleftLicenseURI} />
+          </dd>
+        </div>
+        <div>
+          <dt className="font-medium text-slate-500">Spark idea</dt>
+          <dd className="text-slate-200" title={ipNft.sparkIdeaId}>
+            {shortenHex(ipNft.sparkIdeaId)}
+            {isCreator && (
+              <Link href="/my-ideas" className="ml-2 text-xs text-sky-400 hover:text-sky-300">
+                View in My Ideas
+              </Link>
+            )}
+          </dd>
+        </div>
+        <div>
+          <dt className="font-medium text-slate-500">Owner</dt>
+          <dd className="text-slate-200" title={ipNft.owner}>
+            {ipNft.isInCopyleftPool ? 'Copyleft IP Pool' : shortenHex(ipNft.owner)}
+          </dd>
+        </div>
+      </dl>
+
+      <div className="mt-4 flex items-center justify-between text-xs text-slate-500">
+        <span>Minted {formatTimestamp(ipNft.createdAt)}</span>
+        {explorerLink && ipNft.mintTransactionHash && (
+          <a
+            href={`${explorerLink}/tx/${ipNft.mintTransactionHash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sky-400 hover:text-sky-300"
+          >
+            Mint transaction
+          </a>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IpNftCard;
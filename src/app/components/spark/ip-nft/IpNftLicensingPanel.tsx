@@ -0,0 +1,87 @@
+'use client';
+
+import React, { useState } from 'react';
+import { formatEther, formatUnits } from 'viem';
+import { useWallet } from '@/app/context/WalletContext';
+import { useLicenseeLicenses } from '@/app/components/hooks/UseLicenseeLicenses';
+import ModalLicenseCheckout from '@/app/components/modals/ModalLicenseCheckout';
+
+interface IpNftLicensingPanelProps {
+  ipNftId: bigint;
+}
+
+const actionButtonStyle =
+  'rounded bg-blue-600 px-4 py-2 text-xs font-medium uppercase text-white shadow-md transition duration-150 ease-in-out hover:bg-blue-700 disabled:opacity-50';
+
+/**
+ * Lets the connected wallet license an IP-NFT and renew the licenses it already holds on it.
+ */
+export const IpNftLicensingPanel: React.FC<IpNftLicensingPanelProps> = ({ ipNftId }) => {
+  const { state } = useWallet();
+  const { licenses, isLoading, refresh } = useLicenseeLicenses(state.address);
+  // null: closed, 'new': license request, otherwise the license being renewed
+  const [checkout, setCheckout] = useState<'new' | bigint | null>(null);
+
+  const ipNftLicenses = licenses.filter((license) => license.ipNftId === ipNftId);
+
+  return (
+    <div className="space-y-4">
+      <button
+        type="button"
+        onClick={() => setCheckout('new')}
+        disabled={!state.address}
+        className={actionButtonStyle}
+      >
+        Request License
+      </button>
+      {!state.address && <p className="text-xs text-slate-500">Connect your wallet to request a license.</p>}
+
+      {isLoading ? (
+        <p className="text-sm text-slate-400">Loading your licenses...</p>
+      ) : (
+        ipNftLicenses.length > 0 && (
+          <div>
+            <h3 className="mb-2 text-sm font-semibold text-slate-200">Your licenses</h3>
+            <ul className="divide-y divide-slate-700 text-xs">
+              {ipNftLicenses.map((license) => (
+                <li key={license.licenseId.toString()} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                  <span className="text-slate-300">
+                    License #{license.licenseId.toString()}
+                    <span className={`ml-2 ${license.isActive ? 'text-green-400' : 'text-slate-500'}`}>
+                      {license.isActive ? 'Active' : 'Expired'}
+                    </span>
+                  </span>
+                  <span className="text-slate-400">
+                    Until {new Date(license.expiresAt * 1000).toLocaleDateString()} &middot;{' '}
+                    {Number(formatUnits(license.usdcFeePaid, 6)).toLocaleString()} USDC paid &middot;{' '}
+                    {Number(formatEther(license.sciAmountLocked)).toLocaleString()} SCI locked
+                  </span>
+                  {license.isActive && (
+                    <button
+                      type="button"
+                      onClick={() => setCheckout(license.licenseId)}
+                      className="text-sky-400 hover:text-sky-300"
+                    >
+                      Renew
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )
+      )}
+
+      {checkout !== null && (
+        <ModalLicenseCheckout
+          handler={() => setCheckout(null)}
+          ipNftId={ipNftId}
+          licenseNftId={checkout === 'new' ? undefined : checkout}
+          onComplete={refresh}
+        />
+      )}
+    </div>
+  );
+};
+
+export default IpNftLicensingPanel;
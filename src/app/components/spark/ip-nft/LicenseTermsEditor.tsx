@@ -0,0 +1,252 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { type Address, formatEther, formatUnits, parseUnits } from 'viem';
+import {
+  useIpNftLicenseTerms,
+  type LicenseTerms,
+  type LicenseTermsLimits,
+} from '@/app/components/hooks/UseIpNftLicenseTerms';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+
+interface LicenseTermsEditorProps {
+  ipNftId: bigint;
+  owner: Address;
+}
+
+interface TermsFormValues {
+  feePerPeriodUSD: string;
+  periodLengthInDays: string;
+  sciAmountToLock: string;
+}
+
+type TermsFormErrors = Partial<Record<keyof TermsFormValues, string>>;
+
+const inputStyle =
+  'mt-1 block w-full rounded-md border border-slate-600 bg-slate-700 px-3 py-2 text-sm text-white shadow-sm placeholder-slate-400 focus:border-sky-500 focus:outline-none focus:ring-1 focus:ring-sky-500';
+const actionButtonStyle =
+  'rounded bg-blue-600 px-4 py-2 text-xs font-medium uppercase text-white shadow-md transition duration-150 ease-in-out hover:bg-blue-700 disabled:opacity-50';
+
+const formatUsdc = (amount: bigint) => `$${Number(formatUnits(amount, 6)).toLocaleString()}`;
+const formatSci = (amount: bigint) => `${Number(formatEther(amount)).toLocaleString()} SCI`;
+
+const toFormValues = (terms: LicenseTerms | null): TermsFormValues =>
+  terms?.termsSet
+    ? {
+        feePerPeriodUSD: formatUnits(terms.feePerPeriodUSD, 6),
+        periodLengthInDays: terms.periodLengthInDays.toString(),
+        sciAmountToLock: formatEther(terms.sciAmountToLock),
+      }
+    : { feePerPeriodUSD: '', periodLengthInDays: '', sciAmountToLock: '' };
+
+// Parses a decimal amount into base units, or returns null when it is not a valid amount
+const parseAmount = (value: string, decimals: number): bigint | null => {
+  const amount = value.trim();
+  if (!/^\d+(\.\d+)?$/.test(amount)) return null;
+  return parseUnits(amount, decimals);
+};
+
+/**
+ * Mirrors the contract's range checks so out-of-range terms are rejected before a
+ * transaction is sent.
+ */
+const validateTerms = (values: TermsFormValues, limits: LicenseTermsLimits) => {
+  const errors: TermsFormErrors = {};
+
+  const fee = parseAmount(values.feePerPeriodUSD, 6);
+  if (fee === null) {
+    errors.feePerPeriodUSD = 'Enter a valid USD amount.';
+  } else if (fee < limits.minFeePerPeriodUSD || fee > limits.maxFeePerPeriodUSD) {
+    errors.feePerPeriodUSD = `Fee must be between ${formatUsdc(limits.minFeePerPeriodUSD)} and ${formatUsdc(limits.maxFeePerPeriodUSD)}.`;
+  }
+
+  const period = /^\d+$/.test(values.periodLengthInDays.trim())
+    ? BigInt(values.periodLengthInDays.trim())
+    : null;
+  if (period === null) {
+    errors.periodLengthInDays = 'Enter a whole number of days.';
+  } else if (period < limits.minPeriodLengthInDays || period > limits.maxPeriodLengthInDays) {
+    errors.periodLengthInDays = `Period must be between ${limits.minPeriodLengthInDays} and ${limits.maxPeriodLengthInDays} days.`;
+  }
+
+  const sciAmount = parseAmount(values.sciAmountToLock, 18);
+  if (sciAmount === null) {
+    errors.sciAmountToLock = 'Enter a valid SCI amount.';
+  } else if (sciAmount < limits.minSciAmountToLock || sciAmount > limits.maxSciAmountToLock) {
+    errors.sciAmountToLock = `SCI lock must be between ${formatSci(limits.minSciAmountToLock)} and ${formatSci(limits.maxSciAmountToLock)}.`;
+  }
+
+  return {
+    errors,
+    parsed:
+      fee !== null && period !== null && sciAmount !== null && Object.keys(errors).length === 0
+        ? { fee, period, sciAmount }
+        : null,
+  };
+};
+
+/**
+ * Shows the license terms of an IP-NFT and their change log. The token owner and
+ * LICENSE_ADMIN_ROLE holders can edit the terms within the contract's global limits.
+ */
+export const LicenseTermsEditor: React.FC<LicenseTermsEditorProps> = ({ ipNftId, owner }) => {
+  const { terms, limits, history, canManage, isLoading, isSubmitting, error, setLicenseTerms } =
+    useIpNftLicenseTerms(ipNftId, owner);
+  const networkInfo = useNetworkInfo();
+  const [isEditing, setIsEditing] = useState(false);
+  const [values, setValues] = useState<TermsFormValues>(toFormValues(null));
+  const [errors, setErrors] = useState<TermsFormErrors>({});
+
+  useEffect(() => {
+    setValues(toFormValues(terms));
+  }, [terms]);
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-400">Loading license terms...</p>;
+  }
+
+  if (error || !terms || !limits) {
+    return <p className="text-sm text-red-400">{error ?? 'License terms are unavailable.'}</p>;
+  }
+
+  const handleChange = (field: keyof TermsFormValues, value: string) => {
+    setValues((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { errors: validationErrors, parsed } = validateTerms(values, limits);
+    setErrors(validationErrors);
+    if (!parsed) return;
+
+    if (await setLicenseTerms(parsed.fee, parsed.period, parsed.sciAmount)) {
+      setIsEditing(false);
+    }
+  };
+
+  const fields: { field: keyof TermsFormValues; label: string; hint: string; step: string }[] = [
+    {
+      field: 'feePerPeriodUSD',
+      label: 'Fee per period (USD)',
+      hint: `${formatUsdc(limits.minFeePerPeriodUSD)} - ${formatUsdc(limits.maxFeePerPeriodUSD)}`,
+      step: '0.000001',
+    },
+    {
+      field: 'periodLengthInDays',
+      label: 'Period length (days)',
+      hint: `${limits.minPeriodLengthInDays} - ${limits.maxPeriodLengthInDays} days`,
+      step: '1',
+    },
+    {
+      field: 'sciAmountToLock',
+      label: 'SCI to lock',
+      hint: `${formatSci(limits.minSciAmountToLock)} - ${formatSci(limits.maxSciAmountToLock)}`,
+      step: 'any',
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {terms.termsSet ? (
+        <dl className="grid grid-cols-1 gap-4 text-sm sm:grid-cols-3">
+          <div>
+            <dt className="font-medium text-slate-500">Fee per period</dt>
+            <dd className="text-slate-200">{formatUsdc(terms.feePerPeriodUSD)} USDC</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-slate-500">Period length</dt>
+            <dd className="text-slate-200">{terms.periodLengthInDays.toString()} days</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-slate-500">SCI to lock</dt>
+            <dd className="text-slate-200">{formatSci(terms.sciAmountToLock)}</dd>
+          </div>
+        </dl>
+      ) : (
+        <p className="text-sm text-slate-400">License terms have not been set for this IP-NFT yet.</p>
+      )}
+
+      {canManage &&
+        (isEditing ? (
+          <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              {fields.map(({ field, label, hint, step }) => (
+                <div key={field}>
+                  <label htmlFor={`license-${field}`} className="block text-xs font-medium text-slate-300">
+                    {label}
+                  </label>
+                  <input
+                    id={`license-${field}`}
+                    type="number"
+                    min="0"
+                    step={step}
+                    value={values[field]}
+                    onChange={(e) => handleChange(field, e.target.value)}
+                    className={inputStyle}
+                  />
+                  <p className={`mt-1 text-xs ${errors[field] ? 'text-red-400' : 'text-slate-500'}`}>
+                    {errors[field] ?? hint}
+                  </p>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button type="submit" disabled={isSubmitting} className={actionButtonStyle}>
+                {isSubmitting ? 'Submitting...' : terms.termsSet ? 'Update Terms' : 'Set Terms'}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setIsEditing(false);
+                  setValues(toFormValues(terms));
+                  setErrors({});
+                }}
+                disabled={isSubmitting}
+                className="text-xs text-slate-400 hover:text-slate-200"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button type="button" onClick={() => setIsEditing(true)} className={actionButtonStyle}>
+            {terms.termsSet ? 'Edit Terms' : 'Set Terms'}
+          </button>
+        ))}
+
+      <div>
+        <h3 className="mb-2 text-sm font-semibold text-slate-200">Change log</h3>
+        {history.length === 0 ? (
+          <p className="text-xs text-slate-500">No license terms have been recorded on-chain.</p>
+        ) : (
+          <ul className="divide-y divide-slate-700 text-xs">
+            {history.map((change) => (
+              <li key={change.transactionHash} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                <span className="text-slate-300">
+                  {formatUsdc(change.feePerPeriodUSD)} / {change.periodLengthInDays.toString()} days,{' '}
+                  {formatSci(change.sciAmountToLock)} locked
+                </span>
+                <span className="text-slate-500">
+                  {change.timestamp ? new Date(change.timestamp * 1000).toLocaleString() : ''}
+                  {networkInfo?.explorerLink && (
+                    <a
+                      href={`${networkInfo.explorerLink}/tx/${change.transactionHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="ml-2 text-sky-400 hover:text-sky-300"
+                    >
+                      View
+                    </a>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LicenseTermsEditor;
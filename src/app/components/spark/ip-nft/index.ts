@@ -0,0 +1,13 @@
+/**
+ * Spark Platform - IP-NFTs
+ *
+ * Components for browsing SparkIPNFTs and the licenses issued on them.
+ */
+
+export { default as IpNftCard } from './IpNftCard';
+export { default as LicenseTermsEditor } from './LicenseTermsEditor';
+export { default as IpNftLicensingPanel } from './IpNftLicensingPanel';
+export { default as ExpiredLicenseProcessor } from './ExpiredLicenseProcessor';
+export { default as CopyleftLicenseText } from './CopyleftLicenseText';
+export { default as CopyleftPoolAdminControls } from './CopyleftPoolAdminControls';
+export { default as IpNftAdminPanel } from './IpNftAdminPanel';
@@ -5,14 +5,22 @@
  * in the Spark NDA attestation system.
  */
 
+import { type Abi, type PublicClient } from 'viem';
+import attestationVaultJson from '@/app/abi/AttestationVault.json';
+
+const attestationVaultAbi = attestationVaultJson as Abi;
+
 // EIP712 Domain Information
 export const EIP712_DOMAIN_NAME_SPARK_USER_AGREEMENTS = 'Spark User Agreements';
 export const EIP712_DOMAIN_VERSION_SPARK_USER_AGREEMENTS = '1';
 
-// Agreement Type Hash Constants (these should match the contract constants)
-// These will be fetched from the AttestationVault contract dynamically
-export const PLATFORM_NDA_TYPE_HASH_BYTES32 = '0x86e6fc6e1b76c8767c48b5f5a1b6a0a3b1e2c8b0e5f5a1b6a0a3b1e2c8b0e5f5'; // Placeholder - will be fetched from contract
-export const PLATFORM_IDEATOR_TERMS_TYPE_HASH_BYTES32 = '0x27e9fc6e1b76c8767c48b5f5a1b6a0a3b1e2c8b0e5f5a1b6a0a3b1e2c8b0e5f6'; // Placeholder - will be fetched from contract
+// AttestationVault constants holding the agreement type ID of each platform-wide agreement
+export const AGREEMENT_TYPE_ID_FUNCTIONS = {
+  PLATFORM_NDA: 'PLATFORM_NDA_TYPE',
+  PLATFORM_IDEATOR_TERMS: 'PLATFORM_IDEATOR_TERMS_TYPE'
+} as const;
+
+export type PlatformAgreementType = keyof typeof AGREEMENT_TYPE_ID_FUNCTIONS;
 
 // EIP712 Type Definitions
 export const EIP712_TYPES = {
@@ -63,46 +71,42 @@ export const createSparkEIP712Domain = (
   verifyingContract
 });
 
-// Helper function to get agreement type hash by name
-export const getAgreementTypeHash = (agreementType: string): `0x${string}` | null => {
-  switch (agreementType) {
-    case 'PLATFORM_NDA':
-      return PLATFORM_NDA_TYPE_HASH_BYTES32 as `0x${string}`;
-    case 'PLATFORM_IDEATOR_TERMS':
-      return PLATFORM_IDEATOR_TERMS_TYPE_HASH_BYTES32 as `0x${string}`;
-    default:
-      return null;
-  }
-};
+export type AgreementTypeIds = Record<PlatformAgreementType, `0x${string}`>;
 
-// Contract interface for attestation vault
-interface AttestationVaultContract {
-  PLATFORM_NDA_TYPE?: () => Promise<string>;
-  IDEATOR_TERMS_TYPE?: () => Promise<string>;
-  [key: string]: unknown;
-}
+// Type IDs are immutable contract constants, so they are fetched once per vault
+const agreementTypeIdsCache = new Map<string, Promise<AgreementTypeIds>>();
 
-// Contract constants fetching function
-export const fetchContractConstants = async (
-  attestationVaultContract: AttestationVaultContract
-): Promise<{
-  platformNdaTypeHash: `0x${string}`;
-  ideatorTermsTypeHash: `0x${string}`;
-}> => {
-  try {
-    // These should be called from the actual contract when available
-    const platformNdaTypeHash = await attestationVaultContract.PLATFORM_NDA_TYPE?.() || PLATFORM_NDA_TYPE_HASH_BYTES32;
-    const ideatorTermsTypeHash = await attestationVaultContract.IDEATOR_TERMS_TYPE?.() || PLATFORM_IDEATOR_TERMS_TYPE_HASH_BYTES32;
-    
-    return {
-      platformNdaTypeHash: platformNdaTypeHash as `0x${string}`,
-      ideatorTermsTypeHash: ideatorTermsTypeHash as `0x${string}`
-    };
-  } catch (error) {
-    console.warn('Failed to fetch contract constants, using defaults:', error);
-    return {
-      platformNdaTypeHash: PLATFORM_NDA_TYPE_HASH_BYTES32 as `0x${string}`,
-      ideatorTermsTypeHash: PLATFORM_IDEATOR_TERMS_TYPE_HASH_BYTES32 as `0x${string}`
-    };
+/**
+ * Reads the platform agreement type IDs from the AttestationVault contract.
+ * These are the `agreementTypeId` values users sign over and attest to.
+ */
+export const fetchAgreementTypeIds = (
+  client: Pick<PublicClient, 'readContract'>,
+  attestationVaultAddress: `0x${string}`
+): Promise<AgreementTypeIds> => {
+  const cacheKey = attestationVaultAddress.toLowerCase();
+  const cached = agreementTypeIdsCache.get(cacheKey);
+  if (cached) {
+    return cached;
   }
-}; 
\ No newline at end of file
+
+  const readTypeId = (functionName: string) =>
+    client.readContract({
+      address: attestationVaultAddress,
+      abi: attestationVaultAbi,
+      functionName,
+    }) as Promise<`0x${string}`>;
+
+  const request = Promise.all([
+    readTypeId(AGREEMENT_TYPE_ID_FUNCTIONS.PLATFORM_NDA),
+    readTypeId(AGREEMENT_TYPE_ID_FUNCTIONS.PLATFORM_IDEATOR_TERMS)
+  ]).then(([platformNda, ideatorTerms]) => ({
+    PLATFORM_NDA: platformNda,
+    PLATFORM_IDEATOR_TERMS: ideatorTerms
+  }));
+
+  // Failed reads are not cached so the next call retries
+  request.catch(() => agreementTypeIdsCache.delete(cacheKey));
+  agreementTypeIdsCache.set(cacheKey, request);
+  return request;
+};
@@ -5,11 +5,15 @@ import { CompleteProposalType } from '@/app/utils/interfaces';
 import { getProposal } from '@/app/components/governance/GetProposal';
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 import { getAllProposals } from '@/app/components/governance/GetAllProposals';
+import { getOperationsProposal } from '@/app/components/governance/GetOperationsProposal';
+import { getOperationsProposalIndex } from '@/app/components/governance/GetOperationsProposalIndex';
+import { getGovernorOperationsAddress } from '@/app/components/governance/GetGovernorOperationsAddress';
 import { useGovernance } from './GovernanceContext';
 import { useNetworkInfo } from './NetworkInfoContext';
 import govResAbi from '@/app/abi/GovernorResearch.json';
+import govOpsAbi from '@/app/abi/GovernorOperations.json';
 import { publicClient } from '@/app/config/viem';
-import { Abi, decodeEventLog } from 'viem';
+import { Abi, Address, decodeEventLog } from 'viem';
 
 const LOCAL_STORAGE_CACHE_KEY_RES_BASE = 'poscidondao_research_proposals_cache';
 
@@ -55,17 +59,26 @@ type ParameterHistoryMap = {
   [governorAndParam: string]: ParameterChangeHistoryEntry[];
 };
 
+export type ProposalsType = 'research' | 'operations';
+
+interface RefreshResult {
+  success: boolean;
+  reason?: string;
+  timeLeft?: number;
+}
+
 interface ProposalsContextType {
   researchProposals: CompleteProposalType[] | null;
+  operationsProposals: CompleteProposalType[] | null;
+  governorOperations: Address | undefined;
   isLoading: boolean;
+  isLoadingOperations: boolean;
   error: string | null;
-  refreshProposals: () => Promise<{
-    success: boolean;
-    reason?: string;
-    timeLeft?: number;
-  }>;
+  refreshProposals: () => Promise<RefreshResult>;
+  refreshOperationsProposals: () => Promise<RefreshResult>;
   getProposalByIndex: (index: number) => CompleteProposalType | undefined;
   fetchSingleProposal: (index: number, forceFresh?: boolean) => Promise<CompleteProposalType | undefined>;
+  fetchSingleOperationsProposal: (index: number, forceFresh?: boolean) => Promise<CompleteProposalType | undefined>;
   getFilteredProposals: (
     page?: number,
     pageSize?: number,
@@ -74,7 +87,8 @@ interface ProposalsContextType {
     typeFilter?: string,
     startDate?: string | null,
     endDate?: string | null,
-    contentSearchTerm?: string | null
+    contentSearchTerm?: string | null,
+    type?: ProposalsType
   ) => {
     proposals: CompleteProposalType[] | null;
     totalPages: number;
@@ -93,7 +107,10 @@ const ProposalsContext = createContext<ProposalsContextType | undefined>(undefin
 
 export function ProposalsProvider({ children }: { children: ReactNode }) {
   const [researchProposals, setResearchProposals] = useState<CompleteProposalType[] | null>(null);
+  const [operationsProposals, setOperationsProposals] = useState<CompleteProposalType[] | null>(null);
+  const [governorOperations, setGovernorOperations] = useState<Address>();
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isLoadingOperations, setIsLoadingOperations] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [parameterUpdateEvents, setParameterUpdateEvents] = useState<ParameterUpdateEventsMap>({});
   const [parameterHistory, setParameterHistory] = useState<ParameterHistoryMap>({});
@@ -104,14 +121,18 @@ export function ProposalsProvider({ children }: { children: ReactNode }) {
   // Track initialization status and last refresh times
   const [initializedIndices, setInitializedIndices] = useState<{
     research: number | null;
+    operations: number | null;
   }>({
     research: null,
+    operations: null,
   });
 
   const [lastRefreshTimestamp, setLastRefreshTimestamp] = useState<{
     research: number | null;
+    operations: number | null;
   }>({
     research: null,
+    operations: null,
   });
 
   // Track if proposals need to be invalidated when contract addresses change
@@ -320,6 +341,57 @@ export function ProposalsProvider({ children }: { children: ReactNode }) {
     }
   }, [networkInfo, getProposalByIndex]);
 
+  const fetchSingleOperationsProposal = useCallback(async (index: number, forceFresh: boolean = false) => {
+    if (!forceFresh) {
+      const existing = operationsProposals?.find(proposal => proposal.index === index);
+      if (existing) {
+        console.log(`📋 FRONTEND: Using existing operations proposal ${index} from state`);
+        return existing;
+      }
+    }
+
+    try {
+      console.log(`🔄 FRONTEND: Fetching operations proposal ${index} from blockchain`);
+      const proposal = await getOperationsProposal(index);
+
+      setOperationsProposals(prev => {
+        if (!prev) return [proposal];
+        const updated = prev.filter(p => p.index !== proposal.index);
+        return [...updated, proposal].sort((a, b) => b.index - a.index);
+      });
+
+      return proposal;
+    } catch (error) {
+      console.error(`Error fetching operations proposal ${index}:`, error);
+      return undefined;
+    }
+  }, [operationsProposals]);
+
+  // Operations proposals are few enough to load the whole list at once
+  const fetchOperationsProposals = useCallback(async () => {
+    setIsLoadingOperations(true);
+    try {
+      const proposalCount = await getOperationsProposalIndex();
+      const results = await Promise.allSettled(
+        Array.from({ length: proposalCount }, (_, index) => getOperationsProposal(index))
+      );
+
+      const proposals = results
+        .filter((result): result is PromiseFulfilledResult<CompleteProposalType> => result.status === 'fulfilled')
+        .map(result => result.value)
+        .sort((a, b) => b.index - a.index);
+
+      setOperationsProposals(proposals);
+      setInitializedIndices(prev => ({ ...prev, operations: proposalCount }));
+      console.log(`✅ FRONTEND: Loaded ${proposals.length} Operations proposals`);
+    } catch (error) {
+      console.error('Error fetching Operations proposals:', error);
+      setError(`Failed to load operations proposals: ${error.message}`);
+    } finally {
+      setIsLoadingOperations(false);
+    }
+  }, []);
+
   const getFilteredProposals = useCallback((
     page: number = 1,
     pageSize: number = 5,
@@ -328,13 +400,15 @@ export function ProposalsProvider({ children }: { children: ReactNode }) {
     typeFilter: string = 'all',
     startDate?: string | null,
     endDate?: string | null,
-    contentSearchTerm?: string | null
+    contentSearchTerm?: string | null,
+    type: ProposalsType = 'research'
   ) => {
-    const allProposals = researchProposals;
+    const allProposals = type === 'operations' ? operationsProposals : researchProposals;
+    const label = type === 'operations' ? 'Operations' : 'Research';
     
     // Return early with clear error state if no proposals are available
     if (!allProposals) {
-      console.log(`⚠️ FRONTEND: No Research proposals available for filtering`);
+      console.log(`⚠️ FRONTEND: No ${label} proposals available for filtering`);
       return { proposals: null, totalPages: 0 };
     }
 
@@ -342,7 +416,7 @@ export function ProposalsProvider({ children }: { children: ReactNode }) {
     let filtered = [...allProposals];
     
     // Log the initial count for debugging
-    console.log(`🔍 FRONTEND: Filtering ${filtered.length} Research proposals`);
+    console.log(`🔍 FRONTEND: Filtering ${filtered.length} ${label} proposals`);
 
     // Search by index - direct match
     if (searchIndex && searchIndex.trim() !== '') {
@@ -455,7 +529,7 @@ export function ProposalsProvider({ children }: { children: ReactNode }) {
     console.log(`📋 FRONTEND: Returning ${paginatedProposals.length} proposals for page ${validatedPage}/${totalPages}`);
 
     return { proposals: paginatedProposals, totalPages };
-  }, [researchProposals]);
+  }, [researchProposals, operationsProposals]);
 
   const refreshProposals = useCallback(async () => {
     // Check if we're already loading
@@ -511,6 +585,113 @@ export function ProposalsProvider({ children }: { children: ReactNode }) {
     }
   }, [fetchSingleProposal, lastRefreshTimestamp, isLoading]);
 
+  const refreshOperationsProposals = useCallback(async () => {
+    if (isLoadingOperations) {
+      return { success: false, reason: 'Already loading proposals' };
+    }
+
+    const lastRefresh = lastRefreshTimestamp.operations;
+    if (lastRefresh && (Date.now() - lastRefresh) < REFRESH_COOLDOWN) {
+      const timeLeftSeconds = Math.ceil((REFRESH_COOLDOWN - (Date.now() - lastRefresh)) / 1000);
+      console.log(`⏳ FRONTEND: Refresh cooldown active for Operations proposals. Please wait ${timeLeftSeconds} seconds.`);
+      return {
+        success: false,
+        reason: 'cooldown',
+        timeLeft: timeLeftSeconds
+      };
+    }
+
+    try {
+      await fetch('/api/invalidate-cache', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'operations' }),
+      });
+    } catch (invalidationError) {
+      console.warn('Server-side cache invalidation failed:', invalidationError);
+    }
+
+    await fetchOperationsProposals();
+    setLastRefreshTimestamp(prev => ({
+      ...prev,
+      operations: Date.now()
+    }));
+    return { success: true };
+  }, [fetchOperationsProposals, lastRefreshTimestamp, isLoadingOperations]);
+
+  // Resolve the operations governor once, then load its proposals
+  useEffect(() => {
+    if (!networkInfo?.sciManager) return;
+
+    let isMounted = true;
+    getGovernorOperationsAddress().then(address => {
+      if (isMounted && address) setGovernorOperations(address);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [networkInfo?.sciManager]);
+
+  useEffect(() => {
+    if (governorOperations && initializedIndices.operations === null) {
+      fetchOperationsProposals();
+    }
+  }, [governorOperations, initializedIndices.operations, fetchOperationsProposals]);
+
+  // Invalidate the server cache of operations proposals touched by on-chain events
+  useEffect(() => {
+    if (!governorOperations) return;
+
+    let invalidationTimeout: NodeJS.Timeout | undefined;
+    const unwatch = publicClient.watchContractEvent({
+      address: governorOperations,
+      abi: govOpsAbi as Abi,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      onLogs: (logs: any[]) => {
+        const uniqueIndices = new Set(
+          logs.map(log => {
+            try {
+              const decoded = decodeEventLog({
+                abi: govOpsAbi as Abi,
+                data: log.data,
+                topics: log.topics,
+              }) as unknown as { args: { index?: bigint } };
+              return decoded.args?.index !== undefined ? Number(decoded.args.index) : null;
+            } catch (error) {
+              console.error('Error decoding operations event log:', error);
+              return null;
+            }
+          }).filter((index): index is number => index !== null)
+        );
+
+        if (invalidationTimeout) clearTimeout(invalidationTimeout);
+        invalidationTimeout = setTimeout(async () => {
+          try {
+            await Promise.all(Array.from(uniqueIndices).map(index =>
+              fetch('/api/invalidate-cache', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                  type: 'operations',
+                  targetIndex: index
+                }),
+              })
+            ));
+            console.log(`✅ FRONTEND: Server-side cache invalidated for ${uniqueIndices.size} operations proposals after blockchain event`);
+          } catch (error) {
+            console.warn('Error invalidating operations cache after event:', error);
+          }
+        }, 1000);
+      },
+    });
+
+    return () => {
+      if (invalidationTimeout) clearTimeout(invalidationTimeout);
+      unwatch();
+    };
+  }, [governorOperations]);
+
   // Check for contract address changes and clear proposals if needed
   useEffect(() => {
     if (!networkInfo?.governorResearch) return;
@@ -881,11 +1062,16 @@ export function ProposalsProvider({ children }: { children: ReactNode }) {
 
   const value = {
     researchProposals,
+    operationsProposals,
+    governorOperations,
     isLoading,
+    isLoadingOperations,
     error,
     refreshProposals,
+    refreshOperationsProposals,
     getProposalByIndex,
     fetchSingleProposal,
+    fetchSingleOperationsProposal,
     getFilteredProposals,
     clearProposals: clearProposalsAndCache,
     parameterUpdateEvents,
@@ -69,7 +69,8 @@ interface WalletContextState {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   generateSignInMessage: (
     address: Address | undefined,
-    chainId: number | undefined
+    chainId: number | undefined,
+    nonce?: string
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
   ) => any;
   signMessage: (message: string) => Promise<`0x${string}` | null>;
@@ -877,8 +878,9 @@ export const WalletProvider: React.FC<any> = ({ children }) => {
   };
 
   const generateSignInMessage = useCallback(
-    (address, chainId) => {
-      const nonce = generateNonce();
+    (address, chainId, serverNonce?: string) => {
+      // Signed API requests carry a nonce issued by /api/auth/nonce
+      const nonce = serverNonce ?? generateNonce();
       const baseUri = `${window.location.protocol}//${window.location.host}`;
 
       const network = networkMap[chainId] || `Chain ID: ${chainId}`;
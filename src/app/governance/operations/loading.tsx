@@ -0,0 +1,6 @@
+import Loading from '@/app/components/general/Loading';
+export default function LoadingScreen() {
+  return (
+      <Loading />
+  );
+}
@@ -0,0 +1,46 @@
+import { Proposals } from '@/app/components/governance/Proposals';
+import ProposeOperations from '@/app/components/governance/ProposeOperations';
+import { Metadata, Viewport } from 'next';
+
+const url = new URL('https://protocol.poscidondao.com/governance/operations');
+
+export const viewport: Viewport = {
+  width: 'device-width',
+  initialScale: 1.0,
+};
+
+export const metadata: Metadata = {
+  metadataBase: url,
+  title: 'PoSciDonDAO | Operations Governance',
+  description: `Proposals for the operations of PoSciDonDAO can be created by SCI lockers and decided by standard or quadratic voting`,
+  alternates: {
+    canonical: url,
+  },
+  robots: 'index, follow',
+};
+
+export default function OperationsGovernance() {
+  return (
+    <div className="min-h-screen bg-seaBlue-1100 text-white">
+      <main className="mx-auto max-w-7xl px-6 py-8">
+        <h1 className="mb-4 text-center text-2xl font-bold">
+          Operations Governance
+        </h1>
+        <div className="container mx-auto flex max-w-4xl flex-col gap-8 px-4 py-8">
+          <div className="flex flex-col gap-8">
+            <div className="flex flex-col gap-6">
+              <div className="flex flex-col gap-3">
+                <Proposals type="operations" />
+              </div>
+            </div>
+            <div className="flex flex-col gap-6">
+              <div className="flex flex-col gap-3">
+                <ProposeOperations />
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Address, type Abi, zeroAddress } from 'viem';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { useProposals } from '@/app/context/ProposalsContext';
+import { useNotification } from '@/app/context/NotificationContext';
+import { CustomError } from '@/app/utils/rpcErrorInterfaces';
+import { publicClient } from '@/app/config/viem';
+import OperationsProposalPage from '@/app/components/governance/OperationsProposalPage';
+import Modal from '@/app/components/modals/Modal';
+import ModalOperationsVoting from '@/app/components/modals/ModalOperationsVoting';
+import Loading from '@/app/components/general/Loading';
+import ErrorDisplay from '@/app/components/general/ErrorDisplay';
+import useCancelProposal from '@/app/components/hooks/UseCancelProposal';
+import useScheduleProposal from '@/app/components/hooks/UseScheduleProposal';
+import useCompleteProposal from '@/app/components/hooks/UseCompleteProposal';
+import { useOperationsProposal } from '@/app/components/hooks/UseOperationsProposal';
+import govOpsAbi from '@/app/abi/GovernorOperations.json';
+import govExecAbi from '@/app/abi/GovernorExecutor.json';
+
+type Props = {
+  params: {
+    index: string;
+  };
+};
+
+export default function ClientOperationsProposalPage({ params }: Props) {
+  const proposalIndex = Number(params.index);
+  const networkInfo = useNetworkInfo();
+  const { addNotification } = useNotification();
+  const { governorOperations, isLoadingOperations, fetchSingleOperationsProposal } =
+    useProposals();
+  const [votePreview, setVotePreview] = useState(false);
+  const [scheduledTime, setScheduledTime] = useState(0);
+
+  const {
+    proposal,
+    userVoteData,
+    currentTimestamp,
+    votingStart,
+    votingRights,
+    eligibleToVote,
+    votingRightsThresholdReached,
+    timeLeftToChangeVote,
+    isLoading: isLoadingVotingState,
+    pendingAction,
+    error,
+    transactionHash,
+    vote,
+    execute,
+    refresh,
+  } = useOperationsProposal(proposalIndex);
+
+  const handleError = useMemo(
+    () => (message: string) => {
+      addNotification(message, 'error');
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    []
+  );
+
+  const handleRpcError = useMemo(
+    () => (errorObj: CustomError) => {
+      if (errorObj?.shortMessage) {
+        addNotification(errorObj.shortMessage, 'error');
+      }
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    []
+  );
+
+  const refreshProposalData = useCallback(() => {
+    setTimeout(() => {
+      fetchSingleOperationsProposal(proposalIndex, true);
+      refresh();
+    }, 2000);
+  }, [proposalIndex, fetchSingleOperationsProposal, refresh]);
+
+  const {
+    scheduleProposal,
+    schedulingTransactionHash,
+    schedulingInitiated,
+    setSchedulingInitiated,
+    isLoadingScheduling,
+  } = useScheduleProposal(
+    proposalIndex,
+    govOpsAbi as Abi,
+    governorOperations || zeroAddress,
+    handleRpcError,
+    handleError,
+    undefined, // onOptimisticUpdate
+    refreshProposalData
+  );
+
+  const {
+    completeProposal,
+    completionTransactionHash,
+    completionInitiated,
+    setCompletionInitiated,
+    isLoadingCompletion,
+  } = useCompleteProposal(
+    proposalIndex,
+    govOpsAbi as Abi,
+    governorOperations || zeroAddress,
+    handleRpcError,
+    handleError,
+    undefined, // onOptimisticUpdate
+    refreshProposalData
+  );
+
+  const {
+    cancelProposal,
+    cancellationTransactionHash,
+    cancellationInitiated,
+    setCancellationInitiated,
+    isLoadingCancellation,
+  } = useCancelProposal(
+    proposalIndex,
+    govOpsAbi as Abi,
+    governorOperations || zeroAddress,
+    handleRpcError,
+    handleError,
+    undefined, // onOptimisticUpdate
+    refreshProposalData
+  );
+
+  // Scheduled actions can only be executed once the executor's delay has passed
+  useEffect(() => {
+    if (
+      proposal?.status !== 'scheduled' ||
+      !proposal.executable ||
+      !networkInfo?.governorExecutor
+    ) {
+      return;
+    }
+
+    publicClient
+      .readContract({
+        address: networkInfo.governorExecutor as Address,
+        abi: govExecAbi as Abi,
+        functionName: 'scheduledTime',
+        args: [proposal.action as Address],
+      })
+      .then((time) => setScheduledTime(Number(time as bigint)))
+      .catch((err) => console.error('Error fetching scheduled time:', err));
+  }, [proposal?.status, proposal?.executable, proposal?.action, networkInfo?.governorExecutor]);
+
+  const loadingActionLabel = isLoadingScheduling
+    ? 'Scheduling proposal...'
+    : pendingAction === 'execute'
+      ? 'Executing proposal...'
+      : isLoadingCompletion
+        ? 'Completing proposal...'
+        : isLoadingCancellation
+          ? 'Canceling proposal...'
+          : 'Confirm transaction in your wallet';
+
+  if (!proposal) {
+    return isLoadingOperations || !governorOperations ? (
+      <Loading />
+    ) : (
+      <div className="mx-auto max-w-3xl px-4 py-16">
+        <ErrorDisplay error={error || `Operations proposal ${proposalIndex} could not be found.`} />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <OperationsProposalPage
+        proposal={proposal}
+        currentTimestamp={currentTimestamp}
+        votingStart={votingStart}
+        scheduledTime={scheduledTime}
+        eligibleToVote={eligibleToVote}
+        isLoadingAction={
+          isLoadingScheduling ||
+          isLoadingCompletion ||
+          isLoadingCancellation ||
+          pendingAction === 'execute'
+        }
+        loadingActionLabel={loadingActionLabel}
+        onVote={() => setVotePreview(true)}
+        onSchedule={scheduleProposal}
+        onExecute={execute}
+        onComplete={completeProposal}
+        onCancel={cancelProposal}
+      />
+      {votePreview && (
+        <div className="z-10">
+          <ModalOperationsVoting
+            handler={setVotePreview}
+            index={proposalIndex}
+            quadraticVoting={proposal.quadraticVoting}
+            votingRights={votingRights}
+            eligibleToVote={eligibleToVote}
+            votingRightsThresholdReached={votingRightsThresholdReached}
+            timeLeftToChangeVote={timeLeftToChangeVote}
+            userVoteData={userVoteData}
+            isLoadingEligibility={isLoadingVotingState}
+            isVoting={pendingAction === 'vote'}
+            transactionHash={transactionHash}
+            vote={vote}
+          />
+        </div>
+      )}
+      {schedulingInitiated && (
+        <div className="z-10">
+          <Modal
+            transactionHash={schedulingTransactionHash}
+            handler={setSchedulingInitiated}
+            title={`OP-${proposalIndex} has successfully passed!`}
+            subtitle={
+              proposal.action !== zeroAddress
+                ? 'Awaiting execution by DAO...'
+                : 'Awaiting completion by DAO...'
+            }
+          >
+            <div></div>
+          </Modal>
+        </div>
+      )}
+      {completionInitiated && (
+        <div className="z-10">
+          <Modal
+            transactionHash={completionTransactionHash}
+            handler={setCompletionInitiated}
+            title={`OP-${proposalIndex} has been completed!`}
+            subtitle={''}
+          >
+            <div></div>
+          </Modal>
+        </div>
+      )}
+      {cancellationInitiated && (
+        <div className="z-10">
+          <Modal
+            transactionHash={cancellationTransactionHash}
+            handler={setCancellationInitiated}
+            title={`OP-${proposalIndex} has been canceled!`}
+            subtitle={''}
+          >
+            <div></div>
+          </Modal>
+        </div>
+      )}
+    </div>
+  );
+}
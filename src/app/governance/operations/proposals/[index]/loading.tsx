@@ -0,0 +1,4 @@
+import Loading from '@/app/components/general/Loading';
+export default function LoadingScreen() {
+  return <Loading />;
+}
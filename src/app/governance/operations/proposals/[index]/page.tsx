@@ -0,0 +1,14 @@
+import { Metadata } from 'next';
+import { use } from 'react';
+import ClientOperationsProposalPage from './ClientOperationsProposalPage';
+
+export const metadata: Metadata = {
+  title: 'Operations Proposal Details | PoSciDonDAO',
+  description: 'View and interact with operations proposals',
+};
+
+export default function Page({ params }) {
+  // Unwrap params using React.use()
+  const unwrappedParams = use(Promise.resolve(params));
+  return <ClientOperationsProposalPage params={unwrappedParams} />;
+}
\ No newline at end of file
@@ -566,6 +566,7 @@ export default function ClientResearchProposalPage({ params }: Props) {
               votesFor={proposal.votesFor}
               votesTotal={proposal.votesTotal}
               executionOption={proposal.executionOption}
+              licenseRevocation={proposal.licenseRevocation}
               quadraticVoting={proposal.quadraticVoting}
               currentTimestamp={currentTimestamp}
               executionTransactionHash={proposal.executionTxHash}
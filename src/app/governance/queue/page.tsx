@@ -0,0 +1,34 @@
+import ExecutorQueue from '@/app/components/governance/ExecutorQueue';
+import { Metadata, Viewport } from 'next';
+
+const url = new URL('https://protocol.poscidondao.com/governance/queue');
+
+export const viewport: Viewport = {
+  width: 'device-width',
+  initialScale: 1.0,
+};
+
+export const metadata: Metadata = {
+  metadataBase: url,
+  title: 'PoSciDonDAO | Execution Queue',
+  description: `Actions of passed research and operations proposals waiting in the GovernorExecutor timelock`,
+  alternates: {
+    canonical: url,
+  },
+  robots: 'index, follow',
+};
+
+export default function ExecutionQueue() {
+  return (
+    <div className="min-h-screen bg-seaBlue-1100 text-white">
+      <main className="mx-auto max-w-7xl px-6 py-8">
+        <h1 className="mb-4 text-center text-2xl font-bold">
+          Execution Queue
+        </h1>
+        <div className="container mx-auto flex max-w-4xl flex-col gap-8 px-4 py-8">
+          <ExecutorQueue />
+        </div>
+      </main>
+    </div>
+  );
+}
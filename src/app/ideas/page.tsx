@@ -0,0 +1,364 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import { useWallet } from '@/app/context/WalletContext';
+import { Pagination } from '@/app/components/general/Pagination';
+import {
+    AccessRequiredPrompt,
+    NDAAthestationLevel,
+    ProtectedContent,
+    getAccessLevelDisplayName,
+    useAttestationVault,
+} from '@/app/components/spark/auth';
+import { useIdeaContentKey } from '@/app/components/hooks/UseIdeaContentKey';
+import { PATENT_STATUS_OPTIONS, PUBLIC_IDEA_STATUSES } from '@/app/utils/ideaUtils';
+
+type DiscoveryAccessLevel = 'none' | 'platform_nda' | 'idea_specific_nda';
+
+// Fields beyond the public summary are only present when the viewer's attestations allow it
+interface DiscoveredIdea {
+    id: number;
+    title: string;
+    status: string;
+    submission_date: string;
+    target_audience?: string;
+    technical_readiness_level?: number;
+    patent_status?: string;
+    onchain_idea_id?: string;
+    description?: string;
+    impact?: string;
+    problem_statement?: string;
+    solution?: string;
+    required_resources?: string;
+    access_level: DiscoveryAccessLevel;
+}
+
+const IDEAS_PER_PAGE = 12;
+
+const sortOptions = [
+    { value: 'newest', label: 'Newest first' },
+    { value: 'oldest', label: 'Oldest first' },
+    { value: 'trl_desc', label: 'TRL (high to low)' },
+    { value: 'trl_asc', label: 'TRL (low to high)' },
+    { value: 'title', label: 'Title (A-Z)' },
+];
+
+const trlOptions = Array.from({ length: 9 }, (_, i) => (i + 1).toString());
+
+const selectStyle = "rounded-md border border-slate-600 bg-slate-700 px-3 py-2 text-sm text-white focus:border-sky-500 focus:outline-none";
+
+const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+const LockedField = ({ message }: { message: string }) => (
+    <p className="text-sm italic text-slate-500">🔒 {message}</p>
+);
+
+const confidentialFieldLabels = [
+    { field: 'problem_statement', label: 'Problem' },
+    { field: 'solution', label: 'Solution' },
+    { field: 'required_resources', label: 'Resources' },
+] as const;
+
+// Confidential fields arrive encrypted and are decrypted with the idea's content key
+const ConfidentialIdeaDetails = ({ idea }: { idea: DiscoveredIdea }) => {
+    const { contentKey, isLoading, error, unlock } = useIdeaContentKey(idea.id);
+
+    if (isLoading) {
+        return <p className="text-sm text-slate-400">Decrypting details...</p>;
+    }
+
+    if (!contentKey) {
+        return (
+            <div>
+                <LockedField message="Sign with your wallet to decrypt the full details." />
+                <button
+                    type="button"
+                    onClick={unlock}
+                    className="mt-1 text-xs text-sky-400 hover:text-sky-300"
+                >
+                    Decrypt details
+                </button>
+                {error && <p className="mt-1 text-xs text-red-400">{error}</p>}
+            </div>
+        );
+    }
+
+    return (
+        <>
+            {confidentialFieldLabels.map(({ field, label }) => idea[field] && (
+                <div key={field} className="text-sm text-slate-300">
+                    <span className="font-medium text-slate-500">{label}: </span>
+                    <ProtectedContent
+                        requiredAccess={NDAAthestationLevel.IDEA_SPECIFIC_NDA}
+                        ideaId={idea.onchain_idea_id}
+                        encryptedContent={idea[field]}
+                        decryptionKey={contentKey}
+                        className="inline whitespace-pre-wrap"
+                    />
+                </div>
+            ))}
+        </>
+    );
+};
+
+export default function IdeasExplorerPage() {
+    const { state } = useWallet();
+    const { refreshAttestations } = useAttestationVault();
+
+    const [ideas, setIdeas] = useState<DiscoveredIdea[]>([]);
+    const [currentPage, setCurrentPage] = useState(1);
+    const [totalPages, setTotalPages] = useState(1);
+    const [totalIdeas, setTotalIdeas] = useState(0);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [userLevels, setUserLevels] = useState<NDAAthestationLevel[]>([NDAAthestationLevel.NONE]);
+    const [promptIdeaId, setPromptIdeaId] = useState<string | null>(null);
+    const [showPlatformPrompt, setShowPlatformPrompt] = useState(false);
+
+    const [trlFilter, setTrlFilter] = useState('');
+    const [patentFilter, setPatentFilter] = useState('');
+    const [statusFilter, setStatusFilter] = useState('');
+    const [audienceInput, setAudienceInput] = useState('');
+    const [audienceFilter, setAudienceFilter] = useState('');
+    const [sort, setSort] = useState('newest');
+
+    // Debounce the free-text audience filter so every keystroke doesn't hit the API
+    useEffect(() => {
+        const timeout = setTimeout(() => {
+            setAudienceFilter(audienceInput.trim());
+            setCurrentPage(1);
+        }, 400);
+        return () => clearTimeout(timeout);
+    }, [audienceInput]);
+
+    const loadUserLevels = useCallback(async () => {
+        if (!state.address) {
+            setUserLevels([NDAAthestationLevel.NONE]);
+            return;
+        }
+        setUserLevels(await refreshAttestations(state.address));
+    }, [state.address, refreshAttestations]);
+
+    useEffect(() => {
+        loadUserLevels();
+    }, [loadUserLevels]);
+
+    const fetchIdeas = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const query = new URLSearchParams({
+                page: String(currentPage),
+                limit: String(IDEAS_PER_PAGE),
+                sort,
+            });
+            if (trlFilter) query.set('trl', trlFilter);
+            if (patentFilter) query.set('patent_status', patentFilter);
+            if (statusFilter) query.set('status', statusFilter);
+            if (audienceFilter) query.set('target_audience', audienceFilter);
+
+            const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+            if (state.address && state.isVerified) {
+                headers['X-User-Address'] = state.address;
+            }
+
+            const response = await fetch(`/api/ideas/discover?${query.toString()}`, { headers });
+            if (!response.ok) {
+                const errorData = await response.json();
+                throw new Error(errorData.error || `Failed to fetch ideas. Status: ${response.status}`);
+            }
+            const data = await response.json();
+            setIdeas(data.ideas || []);
+            setTotalPages(data.pagination?.totalPages || 1);
+            setTotalIdeas(data.pagination?.total || 0);
+        } catch (err) {
+            console.error("Error fetching ideas in IdeasExplorerPage:", err);
+            setError((err as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [currentPage, sort, trlFilter, patentFilter, statusFilter, audienceFilter, state.address, state.isVerified]);
+
+    useEffect(() => {
+        fetchIdeas();
+    }, [fetchIdeas]);
+
+    const handleAttestationSuccess = () => {
+        setPromptIdeaId(null);
+        setShowPlatformPrompt(false);
+        loadUserLevels();
+        fetchIdeas();
+    };
+
+    const hasPlatformNda = userLevels.includes(NDAAthestationLevel.PLATFORM_NDA);
+    const highestLevel = userLevels[userLevels.length - 1] ?? NDAAthestationLevel.NONE;
+
+    return (
+        <div className="container mx-auto px-4 py-8 text-white">
+            <h1 className="text-3xl font-bold mb-2 text-center">Explore Ideas</h1>
+            <p className="mb-8 text-center text-sm text-slate-400">
+                Your access level: <span className="font-semibold text-slate-200">{getAccessLevelDisplayName(highestLevel)}</span>
+            </p>
+
+            {!hasPlatformNda && (
+                <div className="mb-6 rounded-lg border border-sky-700 bg-slate-800 p-4 text-sm text-slate-300">
+                    {!state.address
+                        ? 'Connect and verify your wallet, then sign the Platform NDA to read idea descriptions.'
+                        : 'Sign the Platform NDA to read idea descriptions and impact statements.'}
+                    {state.address && (
+                        <button
+                            type="button"
+                            onClick={() => setShowPlatformPrompt((show) => !show)}
+                            className="ml-2 text-sky-400 hover:text-sky-300"
+                        >
+                            {showPlatformPrompt ? 'Hide' : 'Sign now'}
+                        </button>
+                    )}
+                    {showPlatformPrompt && (
+                        <AccessRequiredPrompt
+                            requiredLevel={NDAAthestationLevel.PLATFORM_NDA}
+                            onSuccess={handleAttestationSuccess}
+                            currentUserAddress={state.address || undefined}
+                            className="mt-4"
+                        />
+                    )}
+                </div>
+            )}
+
+            <div className="mb-6 grid grid-cols-1 gap-3 sm:grid-cols-2 lg:grid-cols-5">
+                <input
+                    value={audienceInput}
+                    onChange={(e) => setAudienceInput(e.target.value)}
+                    placeholder="Target audience / field"
+                    className={selectStyle}
+                    aria-label="Target audience"
+                />
+                <select
+                    value={trlFilter}
+                    onChange={(e) => { setTrlFilter(e.target.value); setCurrentPage(1); }}
+                    className={selectStyle}
+                    aria-label="Technical readiness level"
+                >
+                    <option value="">All TRLs</option>
+                    {trlOptions.map(trl => <option key={trl} value={trl}>TRL {trl}</option>)}
+                </select>
+                <select
+                    value={patentFilter}
+                    onChange={(e) => { setPatentFilter(e.target.value); setCurrentPage(1); }}
+                    className={selectStyle}
+                    aria-label="Patent status"
+                >
+                    <option value="">All patent statuses</option>
+                    {PATENT_STATUS_OPTIONS.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                </select>
+                <select
+                    value={statusFilter}
+                    onChange={(e) => { setStatusFilter(e.target.value); setCurrentPage(1); }}
+                    className={selectStyle}
+                    aria-label="Review status"
+                >
+                    <option value="">All statuses</option>
+                    {PUBLIC_IDEA_STATUSES.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                </select>
+                <select
+                    value={sort}
+                    onChange={(e) => { setSort(e.target.value); setCurrentPage(1); }}
+                    className={selectStyle}
+                    aria-label="Sort by"
+                >
+                    {sortOptions.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                </select>
+            </div>
+
+            {isLoading ? (
+                <p className="text-center text-slate-400">Loading ideas...</p>
+            ) : error ? (
+                <div className="bg-seaBlue-900/50 border border-fieryRed p-4 rounded-md text-fieryRed text-center">
+                    <p>{error}</p>
+                </div>
+            ) : ideas.length === 0 ? (
+                <div className="text-center p-6 bg-slate-800 rounded-lg shadow-xl">
+                    <p className="text-slate-300">No ideas match these filters.</p>
+                </div>
+            ) : (
+                <>
+                    <p className="mb-4 text-sm text-slate-400">{totalIdeas} idea{totalIdeas === 1 ? '' : 's'} found</p>
+                    <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+                        {ideas.map((idea) => (
+                            <div key={idea.id} className="flex flex-col bg-slate-800 p-6 rounded-lg shadow-xl border border-slate-700 border-t-4 border-t-sky-500">
+                                <h2 className="mb-2 text-lg font-semibold text-sky-400">{idea.title}</h2>
+                                <div className="mb-4 flex flex-wrap gap-2 text-xs">
+                                    <span className="rounded-full bg-slate-700 px-2 py-0.5 text-slate-300">{idea.status}</span>
+                                    {idea.technical_readiness_level && (
+                                        <span className="rounded-full bg-slate-700 px-2 py-0.5 text-slate-300">TRL {idea.technical_readiness_level}</span>
+                                    )}
+                                    {idea.patent_status && (
+                                        <span className="rounded-full bg-slate-700 px-2 py-0.5 text-slate-300">{idea.patent_status}</span>
+                                    )}
+                                </div>
+                                {idea.target_audience && (
+                                    <p className="mb-3 text-sm text-slate-300">
+                                        <span className="font-medium text-slate-500">Field: </span>{idea.target_audience}
+                                    </p>
+                                )}
+
+                                <div className="flex-1 space-y-3">
+                                    {idea.access_level === 'none' ? (
+                                        <LockedField message="Description available after signing the Platform NDA." />
+                                    ) : (
+                                        <>
+                                            <p className="text-sm text-slate-200 line-clamp-4 whitespace-pre-wrap">{idea.description}</p>
+                                            {idea.impact && (
+                                                <p className="text-sm text-slate-300">
+                                                    <span className="font-medium text-slate-500">Impact: </span>{idea.impact}
+                                                </p>
+                                            )}
+                                        </>
+                                    )}
+
+                                    {idea.access_level === 'idea_specific_nda' ? (
+                                        <ConfidentialIdeaDetails idea={idea} />
+                                    ) : idea.access_level === 'platform_nda' && idea.onchain_idea_id && (
+                                        <div>
+                                            <LockedField message="Full details require this idea's NDA." />
+                                            <button
+                                                type="button"
+                                                onClick={() => setPromptIdeaId(promptIdeaId === idea.onchain_idea_id ? null : idea.onchain_idea_id!)}
+                                                className="mt-1 text-xs text-sky-400 hover:text-sky-300"
+                                            >
+                                                {promptIdeaId === idea.onchain_idea_id ? 'Cancel' : 'Sign idea NDA'}
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+
+                                {promptIdeaId && promptIdeaId === idea.onchain_idea_id && (
+                                    <AccessRequiredPrompt
+                                        requiredLevel={NDAAthestationLevel.IDEA_SPECIFIC_NDA}
+                                        ideaId={idea.onchain_idea_id}
+                                        ideaTitle={idea.title}
+                                        onSuccess={handleAttestationSuccess}
+                                        currentUserAddress={state.address || undefined}
+                                        className="mt-4"
+                                    />
+                                )}
+
+                                <p className="mt-4 text-xs text-slate-500">Submitted {formatDate(idea.submission_date)}</p>
+                            </div>
+                        ))}
+                    </div>
+                    {totalPages > 1 && (
+                        <div className="mt-8">
+                            <Pagination
+                                currentPage={currentPage}
+                                totalPages={totalPages}
+                                onPageChange={setCurrentPage}
+                            />
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { useWallet } from '@/app/context/WalletContext';
+import { IpNftCard, IpNftLicensingPanel, LicenseTermsEditor } from '@/app/components/spark/ip-nft';
+import { useIpNft } from '@/app/components/hooks/UseIpNftPortfolio';
+
+export default function IpNftDetailPage() {
+    const params = useParams();
+    const id = params?.id as string;
+    const tokenId = /^\d+$/.test(id ?? '') ? BigInt(id) : undefined;
+
+    const { state } = useWallet();
+    const { ipNft, isLoading, error } = useIpNft(tokenId);
+
+    const sectionStyle = "bg-slate-800 p-6 rounded-lg shadow-xl mb-6";
+    const headingStyle = "text-2xl font-semibold text-sky-400 mb-4";
+
+    const backLink = (
+        <Link href="/ip-portfolio" className="mt-4 inline-block text-sky-400 hover:text-sky-300">
+            &larr; Back to Portfolio
+        </Link>
+    );
+
+    if (tokenId === undefined) {
+        return (
+            <div className="container mx-auto px-4 py-8 text-center text-white">
+                <p>Invalid IP-NFT ID.</p>
+                {backLink}
+            </div>
+        );
+    }
+
+    if (isLoading) {
+        return <div className="container mx-auto px-4 py-8 text-center text-white"><p>Loading IP-NFT...</p></div>;
+    }
+
+    if (error) {
+        return (
+            <div className="container mx-auto px-4 py-8 text-center text-red-400">
+                <h1 className="text-2xl font-bold mb-4">Error Fetching IP-NFT</h1>
+                <p className="bg-red-900 p-4 rounded-md">{error}</p>
+                {backLink}
+            </div>
+        );
+    }
+
+    if (!ipNft) {
+        return (
+            <div className="container mx-auto px-4 py-8 text-center text-white">
+                <p>IP-NFT #{id} has not been minted.</p>
+                {backLink}
+            </div>
+        );
+    }
+
+    return (
+        <div className="container mx-auto px-4 py-8 text-white">
+            <div className="mb-6">
+                <Link href="/ip-portfolio" className="text-sky-400 hover:text-sky-300">
+                    &larr; Back to Portfolio
+                </Link>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div>
+                    <IpNftCard ipNft={ipNft} viewerAddress={state.address || undefined} />
+                </div>
+                <div className="md:col-span-2">
+                    <div className={sectionStyle}>
+                        <h2 className={headingStyle}>License Terms</h2>
+                        <LicenseTermsEditor ipNftId={ipNft.tokenId} owner={ipNft.owner} />
+                    </div>
+                    <div className={sectionStyle}>
+                        <h2 className={headingStyle}>Licensing</h2>
+                        <IpNftLicensingPanel ipNftId={ipNft.tokenId} />
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
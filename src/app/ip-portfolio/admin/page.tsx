@@ -0,0 +1,99 @@
+"use client";
+
+import Link from 'next/link';
+import { useWallet } from '@/app/context/WalletContext';
+import { IpNftAdminPanel } from '@/app/components/spark/ip-nft';
+import { useIpNftPortfolio } from '@/app/components/hooks/UseIpNftPortfolio';
+import { useIpNftAdmin } from '@/app/components/hooks/UseIpNftAdmin';
+
+export default function IpNftAdminPage() {
+    const { state } = useWallet();
+    const { ipNfts } = useIpNftPortfolio();
+    const {
+        settings,
+        history,
+        isAdmin,
+        isPendingAdmin,
+        isLoading,
+        pendingAction,
+        error,
+        pause,
+        unpause,
+        setExpiryBufferTime,
+        setLicenseTermsLimits,
+        setLicenseProcessingReward,
+        setPoTokenContract,
+        setLicenseNftContract,
+        setLicenseSciLocker,
+        updatePatentIdentifier,
+        transferAdmin,
+        acceptAdmin,
+    } = useIpNftAdmin();
+
+    const sectionStyle = "bg-slate-800 p-6 rounded-lg shadow-xl mb-6";
+    const headingStyle = "text-2xl font-semibold text-sky-400 mb-4";
+    const actionButtonStyle =
+        "rounded bg-blue-600 px-4 py-2 text-xs font-medium uppercase text-white shadow-md transition duration-150 ease-in-out hover:bg-blue-700 disabled:opacity-50";
+
+    return (
+        <div className="container mx-auto px-4 py-8 text-white">
+            <div className="mb-6">
+                <Link href="/ip-portfolio" className="text-sky-400 hover:text-sky-300">
+                    &larr; Back to Portfolio
+                </Link>
+            </div>
+
+            <h1 className="text-3xl font-bold mb-2 text-center">IP-NFT Administration</h1>
+            <p className="mb-8 text-center text-sm text-slate-400">
+                Settings of the SparkIPNFT contract and the history of changes made to them.
+            </p>
+
+            {error && (
+                <div className="mb-6 bg-seaBlue-900/50 border border-fieryRed p-4 rounded-md text-fieryRed text-center">
+                    <p>{error}</p>
+                </div>
+            )}
+
+            {isLoading ? (
+                <p className="text-center text-sm text-slate-400">Loading admin settings...</p>
+            ) : !state.isConnected ? (
+                <p className="text-center text-sm text-slate-400">Connect your wallet to manage the IP-NFT contract.</p>
+            ) : isPendingAdmin ? (
+                <div className={sectionStyle}>
+                    <h2 className={headingStyle}>Pending Admin Transfer</h2>
+                    <p className="mb-4 text-sm text-slate-300">
+                        The current admin has nominated your wallet as the new SparkIPNFT admin. Accept the role to take over.
+                    </p>
+                    <button
+                        onClick={acceptAdmin}
+                        disabled={pendingAction !== null}
+                        className={actionButtonStyle}
+                    >
+                        {pendingAction === 'admin' ? 'Accepting...' : 'Accept Admin Role'}
+                    </button>
+                </div>
+            ) : !isAdmin || !settings ? (
+                <p className="text-center text-sm text-slate-400">Only the SparkIPNFT admin can access these settings.</p>
+            ) : (
+                <div className={sectionStyle}>
+                    <IpNftAdminPanel
+                        settings={settings}
+                        history={history}
+                        ipNfts={ipNfts}
+                        pendingAction={pendingAction}
+                        pause={pause}
+                        unpause={unpause}
+                        setExpiryBufferTime={setExpiryBufferTime}
+                        setLicenseTermsLimits={setLicenseTermsLimits}
+                        setLicenseProcessingReward={setLicenseProcessingReward}
+                        setPoTokenContract={setPoTokenContract}
+                        setLicenseNftContract={setLicenseNftContract}
+                        setLicenseSciLocker={setLicenseSciLocker}
+                        updatePatentIdentifier={updatePatentIdentifier}
+                        transferAdmin={transferAdmin}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import Link from 'next/link';
+import { ExpiredLicenseProcessor } from '@/app/components/spark/ip-nft';
+
+export default function LicenseKeeperPage() {
+    return (
+        <div className="container mx-auto px-4 py-8 text-white">
+            <div className="mb-6">
+                <Link href="/ip-portfolio" className="text-sky-400 hover:text-sky-300">
+                    &larr; Back to Portfolio
+                </Link>
+            </div>
+
+            <h1 className="text-3xl font-bold mb-2 text-center">Expired License Processing</h1>
+            <p className="mb-8 text-center text-sm text-slate-400">
+                Licenses stay active on-chain until someone processes them after their expiry buffer. Process them here to earn PO.
+            </p>
+
+            <div className="bg-slate-800 p-6 rounded-lg shadow-xl">
+                <ExpiredLicenseProcessor />
+            </div>
+        </div>
+    );
+}
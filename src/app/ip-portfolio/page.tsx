@@ -1,10 +1,122 @@
+"use client";
+
+import { useState, useMemo } from 'react';
+import Link from 'next/link';
+import { useWallet } from '@/app/context/WalletContext';
+import { Pagination } from '@/app/components/general/Pagination';
+import { IpNftCard } from '@/app/components/spark/ip-nft';
+import { useIpNftPortfolio } from '@/app/components/hooks/UseIpNftPortfolio';
+
+const IP_NFTS_PER_PAGE = 9;
+
+type PortfolioFilter = 'all' | 'owned' | 'created' | 'pool';
+
+const filterOptions: { value: PortfolioFilter; label: string }[] = [
+    { value: 'all', label: 'All IP-NFTs' },
+    { value: 'owned', label: 'Owned by me' },
+    { value: 'created', label: 'Created by me' },
+    { value: 'pool', label: 'In copyleft pool' },
+];
+
+const selectStyle = "rounded-md border border-slate-600 bg-slate-700 px-3 py-2 text-sm text-white focus:border-sky-500 focus:outline-none";
+
 export default function IPPortfolioPage() {
-  return (
-    <div className="container mx-auto px-4 py-8 text-white">
-      <h1 className="text-3xl font-bold text-seaBlue-600 mb-6">Spark IP-NFT Portfolio & Licensing</h1>
-      <p className="text-lg">Users will be able to view minted Spark IP-NFTs, and owners (or DAO admins) can manage licensing terms. This page will also serve as the hub for requesting or renewing licenses for IP-NFTs.</p>
-      <p className="mt-4">Key functionalities will include: listing IP-NFTs, displaying details, setting license terms (for admins/owners), requesting licenses (handling USDC/SCI transactions), and renewing licenses.</p>
-      {/* TODO: Implement IP-NFT listing, detail view, license term management, and license request/renewal workflows interacting with SparkIPNFT, LicenseNFT, and LicenseSCILocker contracts. */}
-    </div>
-  );
-} 
\ No newline at end of file
+    const [filter, setFilter] = useState<PortfolioFilter>('all');
+    const [currentPage, setCurrentPage] = useState(1);
+    const { ipNfts, isLoading, error } = useIpNftPortfolio();
+    const { state } = useWallet();
+
+    const viewer = state.address?.toLowerCase();
+
+    const filteredIpNfts = useMemo(() => {
+        switch (filter) {
+            case 'owned':
+                return ipNfts.filter((ipNft) => !!viewer && ipNft.owner.toLowerCase() === viewer);
+            case 'created':
+                return ipNfts.filter((ipNft) => !!viewer && ipNft.originalCreator.toLowerCase() === viewer);
+            case 'pool':
+                return ipNfts.filter((ipNft) => ipNft.isInCopyleftPool);
+            default:
+                return ipNfts;
+        }
+    }, [ipNfts, filter, viewer]);
+
+    const totalPages = Math.max(1, Math.ceil(filteredIpNfts.length / IP_NFTS_PER_PAGE));
+    const pageIpNfts = filteredIpNfts.slice(
+        (currentPage - 1) * IP_NFTS_PER_PAGE,
+        currentPage * IP_NFTS_PER_PAGE
+    );
+
+    return (
+        <div className="container mx-auto px-4 py-8 text-white">
+            <h1 className="text-3xl font-bold mb-2 text-center">Spark IP-NFT Portfolio</h1>
+            <p className="mb-8 text-center text-sm text-slate-400">
+                IP-NFTs minted from finalized Spark ideas, with their patents, research agreements and current holders.
+            </p>
+
+            <div className="mb-6 flex items-center justify-between gap-4">
+                <div className="flex gap-4">
+                    <Link href="/ip-portfolio/pool" className="text-sm text-sky-400 hover:text-sky-300">
+                        Copyleft pool
+                    </Link>
+                    <Link href="/ip-portfolio/keeper" className="text-sm text-sky-400 hover:text-sky-300">
+                        Process expired licenses
+                    </Link>
+                    <Link href="/ip-portfolio/admin" className="text-sm text-sky-400 hover:text-sky-300">
+                        Admin
+                    </Link>
+                </div>
+                <select
+                    value={filter}
+                    onChange={(e) => { setFilter(e.target.value as PortfolioFilter); setCurrentPage(1); }}
+                    className={selectStyle}
+                    aria-label="Filter IP-NFTs"
+                >
+                    {filterOptions.map(opt => (
+                        <option key={opt.value} value={opt.value} disabled={opt.value !== 'all' && opt.value !== 'pool' && !viewer}>
+                            {opt.label}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {isLoading ? (
+                <p className="text-center text-slate-400">Loading IP-NFTs...</p>
+            ) : error ? (
+                <div className="bg-seaBlue-900/50 border border-fieryRed p-4 rounded-md text-fieryRed text-center">
+                    <p>{error}</p>
+                </div>
+            ) : filteredIpNfts.length === 0 ? (
+                <div className="text-center p-6 bg-slate-800 rounded-lg shadow-xl">
+                    <p className="text-slate-300">
+                        {ipNfts.length === 0 ? 'No IP-NFTs have been minted yet.' : 'No IP-NFTs match this filter.'}
+                    </p>
+                </div>
+            ) : (
+                <>
+                    <p className="mb-4 text-sm text-slate-400">
+                        {filteredIpNfts.length} IP-NFT{filteredIpNfts.length === 1 ? '' : 's'} found
+                    </p>
+                    <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+                        {pageIpNfts.map((ipNft) => (
+                            <IpNftCard
+                                key={ipNft.tokenId.toString()}
+                                ipNft={ipNft}
+                                viewerAddress={state.address || undefined}
+                            />
+                        ))}
+                    </div>
+                    {totalPages > 1 && (
+                        <div className="mt-8">
+                            <Pagination
+                                currentPage={currentPage}
+                                totalPages={totalPages}
+                                onPageChange={setCurrentPage}
+                            />
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import Link from 'next/link';
+import { useWallet } from '@/app/context/WalletContext';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { CopyleftLicenseText, CopyleftPoolAdminControls, IpNftCard } from '@/app/components/spark/ip-nft';
+import { useIpNftPortfolio } from '@/app/components/hooks/UseIpNftPortfolio';
+import { useCopyleftPool, type PoolEventType } from '@/app/components/hooks/UseCopyleftPool';
+
+const eventLabels: Record<PoolEventType, { label: string; style: string }> = {
+    added: { label: 'Added', style: 'text-green-400' },
+    removed: { label: 'Removed', style: 'text-yellow-400' },
+    transferred: { label: 'Transferred out', style: 'text-red-400' },
+};
+
+export default function CopyleftPoolPage() {
+    const { state } = useWallet();
+    const networkInfo = useNetworkInfo();
+    const { ipNfts, isLoading: isPortfolioLoading, error: portfolioError } = useIpNftPortfolio();
+    const {
+        licenseUri,
+        totalPooled,
+        history,
+        isAdmin,
+        isLoading,
+        pendingAction,
+        error,
+        setPoolLicenseUri,
+        transferFromPool,
+    } = useCopyleftPool();
+
+    const pooledIpNfts = ipNfts.filter((ipNft) => ipNft.isInCopyleftPool);
+
+    const sectionStyle = "bg-slate-800 p-6 rounded-lg shadow-xl mb-6";
+    const headingStyle = "text-2xl font-semibold text-sky-400 mb-4";
+
+    return (
+        <div className="container mx-auto px-4 py-8 text-white">
+            <div className="mb-6">
+                <Link href="/ip-portfolio" className="text-sky-400 hover:text-sky-300">
+                    &larr; Back to Portfolio
+                </Link>
+            </div>
+
+            <h1 className="text-3xl font-bold mb-2 text-center">Copyleft IP Pool</h1>
+            <p className="mb-8 text-center text-sm text-slate-400">
+                IP-NFTs held by the copyleft pool are available to everyone under the pool&apos;s copyleft license.
+            </p>
+
+            {error && (
+                <div className="mb-6 bg-seaBlue-900/50 border border-fieryRed p-4 rounded-md text-fieryRed text-center">
+                    <p>{error}</p>
+                </div>
+            )}
+
+            <div className={sectionStyle}>
+                <h2 className={headingStyle}>Copyleft License</h2>
+                {isLoading ? (
+                    <p className="text-sm text-slate-400">Loading pool...</p>
+                ) : (
+                    <CopyleftLicenseText licenseUri={licenseUri} />
+                )}
+            </div>
+
+            <div className={sectionStyle}>
+                <h2 className={headingStyle}>
+                    Pooled IP-NFTs{!isLoading && ` (${totalPooled.toString()})`}
+                </h2>
+                {isPortfolioLoading ? (
+                    <p className="text-sm text-slate-400">Loading IP-NFTs...</p>
+                ) : portfolioError ? (
+                    <p className="text-sm text-red-400">{portfolioError}</p>
+                ) : pooledIpNfts.length === 0 ? (
+                    <p className="text-sm text-slate-400">The pool does not hold any IP-NFTs yet.</p>
+                ) : (
+                    <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
+                        {pooledIpNfts.map((ipNft) => (
+                            <IpNftCard
+                                key={ipNft.tokenId.toString()}
+                                ipNft={ipNft}
+                                viewerAddress={state.address || undefined}
+                            />
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className={sectionStyle}>
+                <h2 className={headingStyle}>Pool History</h2>
+                {isLoading ? (
+                    <p className="text-sm text-slate-400">Loading history...</p>
+                ) : history.length === 0 ? (
+                    <p className="text-sm text-slate-400">No IP-NFTs have entered or left the pool.</p>
+                ) : (
+                    <ul className="divide-y divide-slate-700 text-xs">
+                        {history.map((event) => {
+                            const isSparkIpNft = event.nftContract.toLowerCase() === networkInfo?.sparkIpNft?.toLowerCase();
+                            return (
+                                <li
+                                    key={`${event.transactionHash}-${event.type}-${event.tokenId.toString()}`}
+                                    className="flex flex-wrap items-center justify-between gap-2 py-2"
+                                >
+                                    <span className="text-slate-300">
+                                        <span className={`mr-2 font-semibold ${eventLabels[event.type].style}`}>
+                                            {eventLabels[event.type].label}
+                                        </span>
+                                        {isSparkIpNft ? (
+                                            <Link
+                                                href={`/ip-portfolio/${event.tokenId.toString()}`}
+                                                className="text-sky-400 hover:text-sky-300"
+                                            >
+                                                IP-NFT #{event.tokenId.toString()}
+                                            </Link>
+                                        ) : (
+                                            `${event.nftContract.slice(0, 6)}...${event.nftContract.slice(-4)} #${event.tokenId.toString()}`
+                                        )}
+                                        {' '}{event.type === 'added' ? 'from' : 'to'}{' '}
+                                        <span className="font-mono">
+                                            {event.account.slice(0, 6)}...{event.account.slice(-4)}
+                                        </span>
+                                    </span>
+                                    <span className="text-slate-500">
+                                        {event.timestamp ? new Date(event.timestamp * 1000).toLocaleString() : ''}
+                                        {networkInfo?.explorerLink && (
+                                            <a
+                                                href={`${networkInfo.explorerLink}/tx/${event.transactionHash}`}
+                                                target="_blank"
+                                                rel="noopener noreferrer"
+                                                className="ml-2 text-sky-400 hover:text-sky-300"
+                                            >
+                                                View
+                                            </a>
+                                        )}
+                                    </span>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+
+            {isAdmin && (
+                <div className={sectionStyle}>
+                    <h2 className={headingStyle}>Pool Administration</h2>
+                    <CopyleftPoolAdminControls
+                        licenseUri={licenseUri}
+                        pooledTokenIds={pooledIpNfts.map((ipNft) => ipNft.tokenId)}
+                        pendingAction={pendingAction}
+                        setPoolLicenseUri={setPoolLicenseUri}
+                        transferFromPool={transferFromPool}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
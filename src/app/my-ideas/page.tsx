@@ -0,0 +1,201 @@
+"use client";
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useWallet } from '@/app/context/WalletContext';
+import { Pagination } from '@/app/components/general/Pagination';
+import { AccessGate, NDAAthestationLevel } from '@/app/components/spark/auth';
+import { IdeaLifecycleTimeline } from '@/app/components/spark/ideas';
+import { useIdeaLifecycle } from '@/app/components/hooks/UseIdeaLifecycle';
+
+interface Idea {
+    id: number;
+    title: string;
+    submission_date: string;
+    status: string;
+    committee_feedback?: string;
+    onchain_idea_id?: string;
+}
+
+const IDEAS_PER_PAGE = 10;
+
+const statusBadgeBaseStyle = "px-2 py-0.5 inline-flex text-xs leading-5 font-semibold rounded-full";
+
+const getStatusBadgeStyle = (status: string) => {
+    switch (status.toLowerCase()) {
+        case 'pending review':
+            return `${statusBadgeBaseStyle} bg-yellow-100 text-yellow-800`;
+        case 'under review':
+            return `${statusBadgeBaseStyle} bg-blue-100 text-blue-800`;
+        case 'approved':
+            return `${statusBadgeBaseStyle} bg-green-100 text-green-800`;
+        case 'rejected':
+            return `${statusBadgeBaseStyle} bg-red-100 text-red-800`;
+        case 'needs more info':
+            return `${statusBadgeBaseStyle} bg-purple-100 text-purple-800`;
+        default:
+            return `${statusBadgeBaseStyle} bg-gray-100 text-gray-800`;
+    }
+};
+
+function MyIdeasDashboard() {
+    const [ideas, setIdeas] = useState<Idea[]>([]);
+    const [currentPage, setCurrentPage] = useState(1);
+    const [totalPages, setTotalPages] = useState(1);
+    const [totalIdeas, setTotalIdeas] = useState(0);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const wallet = useWallet();
+
+    const onchainIdeaIds = ideas
+        .map((idea) => idea.onchain_idea_id)
+        .filter((id): id is string => !!id);
+    const { lifecycles, isLoading: isLifecycleLoading, error: lifecycleError } = useIdeaLifecycle(onchainIdeaIds);
+
+    useEffect(() => {
+        const fetchIdeas = async () => {
+            setIsLoading(true);
+            setError(null);
+
+            if (!wallet.state.isConnected || !wallet.state.address || !wallet.state.isVerified) {
+                setError('Authentication required. Please ensure your wallet is connected and verified.');
+                setIsLoading(false);
+                return;
+            }
+
+            try {
+                const query = new URLSearchParams({
+                    page: String(currentPage),
+                    limit: String(IDEAS_PER_PAGE),
+                    mine: 'true',
+                });
+                const response = await fetch(`/api/ideas?${query.toString()}`, {
+                    method: 'GET',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'X-User-Address': wallet.state.address,
+                    },
+                });
+                if (!response.ok) {
+                    const errorData = await response.json();
+                    throw new Error(errorData.error || `Failed to fetch ideas. Status: ${response.status}`);
+                }
+                const data = await response.json();
+                setIdeas(data.ideas || []);
+                setTotalPages(data.pagination?.totalPages || 1);
+                setTotalIdeas(data.pagination?.total || 0);
+            } catch (err) {
+                console.error("Error fetching ideas in MyIdeasPage:", err);
+                setError((err as Error).message);
+            } finally {
+                setIsLoading(false);
+            }
+        };
+        fetchIdeas();
+    }, [wallet.state.isConnected, wallet.state.address, wallet.state.isVerified, currentPage]);
+
+    if (isLoading) {
+        return (
+            <div className="container mx-auto px-4 py-8 text-center text-white">
+                <p>Loading your ideas...</p>
+            </div>
+        );
+    }
+
+    if (error) {
+        return (
+            <div className="container mx-auto px-4 py-8 text-center text-white">
+                <h1 className="text-2xl font-bold mb-4 text-fieryRed">Error Fetching Ideas</h1>
+                <div className="bg-seaBlue-900/50 border border-fieryRed p-4 rounded-md text-fieryRed">
+                    <p>{error}</p>
+                </div>
+            </div>
+        );
+    }
+
+    const lifecycleValues = Object.values(lifecycles);
+    const finalizedCount = lifecycleValues.filter((l) => l.isFinalized).length;
+    const ipNftCount = lifecycleValues.filter((l) => l.ipNftId !== null).length;
+    const licenseCount = lifecycleValues.reduce((sum, l) => sum + l.licenseCount, 0);
+
+    return (
+        <div className="container mx-auto px-4 py-8 text-white">
+            <div className="mb-8 flex flex-col items-center justify-between gap-4 sm:flex-row">
+                <h1 className="text-3xl font-bold">My Ideas</h1>
+                <Link href="/submit-idea" className="px-6 py-2.5 bg-blue-600 text-white font-medium text-xs uppercase rounded shadow-md hover:bg-blue-700 transition duration-150 ease-in-out">
+                    Submit New Idea
+                </Link>
+            </div>
+
+            <div className="mb-8 grid grid-cols-2 gap-4 sm:grid-cols-4">
+                {[
+                    { label: 'Submitted', value: totalIdeas },
+                    { label: 'Finalized (this page)', value: finalizedCount },
+                    { label: 'IP-NFTs (this page)', value: ipNftCount },
+                    { label: 'Licenses Issued (this page)', value: licenseCount },
+                ].map((stat) => (
+                    <div key={stat.label} className="rounded-lg bg-slate-800 p-4 text-center shadow-xl">
+                        <p className="text-2xl font-bold text-sky-400">{stat.value}</p>
+                        <p className="text-xs text-slate-400">{stat.label}</p>
+                    </div>
+                ))}
+            </div>
+
+            {lifecycleError && <p className="mb-4 text-sm text-red-400">{lifecycleError}</p>}
+
+            {ideas.length === 0 ? (
+                <div className="text-center p-6 bg-slate-800 rounded-lg shadow-xl">
+                    <p className="text-slate-300">You have not submitted any ideas yet.</p>
+                </div>
+            ) : (
+                <div className="space-y-6">
+                    {ideas.map((idea) => {
+                        const lifecycle = idea.onchain_idea_id ? lifecycles[idea.onchain_idea_id.toLowerCase()] : undefined;
+                        return (
+                            <div key={idea.id} className="bg-slate-800 p-6 rounded-lg shadow-xl border border-slate-700 border-l-4 border-l-sky-500">
+                                <div className="flex justify-between items-start mb-3">
+                                    <Link href={`/review-ideas/${idea.id}`} className="text-xl font-semibold text-sky-400 hover:text-sky-300">
+                                        {idea.title}
+                                    </Link>
+                                    <span className={getStatusBadgeStyle(idea.status)}>{idea.status}</span>
+                                </div>
+                                {idea.committee_feedback && (
+                                    <div className="mb-4">
+                                        <p className="text-sm font-medium text-slate-500">Committee Feedback:</p>
+                                        <p className="text-sm text-slate-300 whitespace-pre-wrap">{idea.committee_feedback}</p>
+                                    </div>
+                                )}
+                                {!idea.onchain_idea_id ? (
+                                    <p className="text-sm text-slate-400">This idea is not registered on-chain.</p>
+                                ) : isLifecycleLoading && !lifecycle ? (
+                                    <p className="text-sm text-slate-400">Loading on-chain status...</p>
+                                ) : (
+                                    <IdeaLifecycleTimeline
+                                        submissionDate={idea.submission_date}
+                                        reviewStatus={idea.status}
+                                        lifecycle={lifecycle}
+                                    />
+                                )}
+                            </div>
+                        );
+                    })}
+                    {totalPages > 1 && (
+                        <Pagination
+                            currentPage={currentPage}
+                            totalPages={totalPages}
+                            onPageChange={setCurrentPage}
+                        />
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default function MyIdeasPage() {
+    return (
+        <AccessGate requiredAccess={NDAAthestationLevel.IDEATOR_TERMS}>
+            <MyIdeasDashboard />
+        </AccessGate>
+    );
+}
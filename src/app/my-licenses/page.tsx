@@ -0,0 +1,169 @@
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { formatEther, formatUnits } from 'viem';
+import { useWallet } from '@/app/context/WalletContext';
+import { useLicenseeLicenses, type License } from '@/app/components/hooks/UseLicenseeLicenses';
+import ModalLicenseCheckout from '@/app/components/modals/ModalLicenseCheckout';
+import UnixTimestampCountdown from '@/app/components/general/UnixTimestampCountdown';
+
+const actionButtonStyle = "rounded bg-blue-600 px-4 py-2 text-xs font-medium uppercase text-white shadow-md transition duration-150 ease-in-out hover:bg-blue-700 disabled:opacity-50";
+
+const statusBadgeBaseStyle = "px-2 py-0.5 inline-flex text-xs leading-5 font-semibold rounded-full";
+
+const formatSci = (amount: bigint) => Number(formatEther(amount)).toLocaleString();
+
+export default function MyLicensesPage() {
+    const { state } = useWallet();
+    const {
+        licenses,
+        totalLockedSci,
+        isLoading,
+        unlockingLicenseId,
+        error,
+        unlockSci,
+        refresh,
+    } = useLicenseeLicenses(state.address);
+    const [renewing, setRenewing] = useState<License | null>(null);
+
+    const now = Math.floor(Date.now() / 1000);
+    const activeCount = licenses.filter((license) => license.isActive).length;
+    const unlockableSci = licenses
+        .filter((license) => license.isLocked && !license.isActive && license.unlockAt <= now)
+        .reduce((sum, license) => sum + license.lockedSci, BigInt(0));
+
+    if (!state.isConnected || !state.address) {
+        return (
+            <div className="container mx-auto px-4 py-8 text-center text-white">
+                <p>Connect your wallet to view your licenses.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="container mx-auto px-4 py-8 text-white">
+            <div className="mb-8 flex flex-col items-center justify-between gap-4 sm:flex-row">
+                <h1 className="text-3xl font-bold">My Licenses</h1>
+                <Link href="/ip-portfolio" className="px-6 py-2.5 bg-blue-600 text-white font-medium text-xs uppercase rounded shadow-md hover:bg-blue-700 transition duration-150 ease-in-out">
+                    Browse IP-NFTs
+                </Link>
+            </div>
+
+            <div className="mb-8 grid grid-cols-2 gap-4 sm:grid-cols-4">
+                {[
+                    { label: 'Licenses Held', value: licenses.length.toString() },
+                    { label: 'Active', value: activeCount.toString() },
+                    { label: 'SCI Locked', value: formatSci(totalLockedSci) },
+                    { label: 'SCI Unlockable', value: formatSci(unlockableSci) },
+                ].map((stat) => (
+                    <div key={stat.label} className="rounded-lg bg-slate-800 p-4 text-center shadow-xl">
+                        <p className="text-2xl font-bold text-sky-400">{stat.value}</p>
+                        <p className="text-xs text-slate-400">{stat.label}</p>
+                    </div>
+                ))}
+            </div>
+
+            {isLoading ? (
+                <p className="text-center text-slate-400">Loading your licenses...</p>
+            ) : error ? (
+                <div className="bg-seaBlue-900/50 border border-fieryRed p-4 rounded-md text-fieryRed text-center">
+                    <p>{error}</p>
+                </div>
+            ) : licenses.length === 0 ? (
+                <div className="text-center p-6 bg-slate-800 rounded-lg shadow-xl">
+                    <p className="text-slate-300">You do not hold any licenses yet.</p>
+                </div>
+            ) : (
+                <div className="space-y-6">
+                    {licenses.map((license) => {
+                        const canUnlock = license.isLocked && !license.isActive && license.unlockAt <= now;
+                        return (
+                            <div
+                                key={license.licenseId.toString()}
+                                className={`bg-slate-800 p-6 rounded-lg shadow-xl border border-slate-700 border-l-4 ${license.isActive ? 'border-l-sky-500' : 'border-l-slate-500'}`}
+                            >
+                                <div className="flex justify-between items-start mb-3">
+                                    <div>
+                                        <h2 className="text-xl font-semibold text-slate-100">
+                                            License #{license.licenseId.toString()}
+                                        </h2>
+                                        <Link
+                                            href={`/ip-portfolio/${license.ipNftId.toString()}`}
+                                            className="text-sm text-sky-400 hover:text-sky-300"
+                                        >
+                                            IP-NFT #{license.ipNftId.toString()}
+                                        </Link>
+                                    </div>
+                                    <span className={`${statusBadgeBaseStyle} ${license.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                                        {license.isActive ? 'Active' : 'Expired'}
+                                    </span>
+                                </div>
+
+                                <div className="mb-4 grid grid-cols-1 gap-2 text-sm sm:grid-cols-3">
+                                    <div>
+                                        <p className="font-medium text-slate-500">Expires</p>
+                                        <p className="text-slate-300">{new Date(license.expiresAt * 1000).toLocaleString()}</p>
+                                        {license.isActive && (
+                                            // UnixTimestampCountdown takes milliseconds
+                                            <UnixTimestampCountdown
+                                                endTimestamp={license.expiresAt * 1000}
+                                                className="text-xs text-sky-400"
+                                            />
+                                        )}
+                                    </div>
+                                    <div>
+                                        <p className="font-medium text-slate-500">SCI Locked</p>
+                                        <p className="text-slate-300">
+                                            {license.isLocked ? `${formatSci(license.lockedSci)} SCI` : 'Unlocked'}
+                                        </p>
+                                        {license.isLocked && (
+                                            <p className="text-xs text-slate-400">
+                                                Unlockable from {new Date(license.unlockAt * 1000).toLocaleString()}
+                                            </p>
+                                        )}
+                                    </div>
+                                    <div>
+                                        <p className="font-medium text-slate-500">USDC Paid</p>
+                                        <p className="text-slate-300">{Number(formatUnits(license.usdcFeePaid, 6)).toLocaleString()} USDC</p>
+                                    </div>
+                                </div>
+
+                                <div className="flex flex-wrap gap-3">
+                                    {license.isActive && (
+                                        <button
+                                            type="button"
+                                            onClick={() => setRenewing(license)}
+                                            className={actionButtonStyle}
+                                        >
+                                            Renew
+                                        </button>
+                                    )}
+                                    {canUnlock && (
+                                        <button
+                                            type="button"
+                                            onClick={() => unlockSci(license.licenseId)}
+                                            disabled={unlockingLicenseId !== null}
+                                            className={actionButtonStyle}
+                                        >
+                                            {unlockingLicenseId === license.licenseId ? 'Unlocking...' : 'Unlock SCI'}
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            {renewing && (
+                <ModalLicenseCheckout
+                    handler={() => setRenewing(null)}
+                    ipNftId={renewing.ipNftId}
+                    licenseNftId={renewing.licenseId}
+                    onComplete={refresh}
+                />
+            )}
+        </div>
+    );
+}
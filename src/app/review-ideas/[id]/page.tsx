@@ -5,6 +5,17 @@ import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { useWallet } from '@/app/context/WalletContext';
 import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import {
+    IdeaAmendmentForm,
+    IdeaFinalizationWizard,
+    IdeaProposalLauncher,
+    IdeaRevisionHistory,
+    IdeaVotingPanel,
+} from '@/app/components/spark/ideas';
+import { NDAAthestationLevel, ProtectedContent } from '@/app/components/spark/auth';
+import { useIdeaContentKey } from '@/app/components/hooks/UseIdeaContentKey';
+import { decryptConfidentialFields } from '@/app/utils/ideaEncryption';
+import { createSignedRequest, type SignedRequest } from '@/app/utils/signedRequests';
 
 // Re-using the Idea interface from the list page, ensure all fields are covered
 interface Idea {
@@ -24,6 +35,9 @@ interface Idea {
     patent_status?: string;
     technical_readiness_level?: number;
     contact_email?: string;
+    onchain_idea_id?: string;
+    content_hash?: string;
+    attachment_hashes?: string[];
 }
 
 // For formatting dates and addresses (can be moved to a utils file later)
@@ -65,6 +79,23 @@ export default function IdeaDetailPage() {
     const [isUpdating, setIsUpdating] = useState(false);
     const [updateError, setUpdateError] = useState<string | null>(null);
     const [updateSuccess, setUpdateSuccess] = useState<string | null>(null);
+    const [revisionRefreshKey, setRevisionRefreshKey] = useState(0);
+    // Confidential fields are stored encrypted and decrypted here once the content key is released
+    const {
+        contentKey,
+        isLoading: isContentKeyLoading,
+        error: contentKeyError,
+        unlock: unlockContent,
+    } = useIdeaContentKey(idea?.id);
+    const [decryptedIdea, setDecryptedIdea] = useState<Idea | null>(null);
+
+    useEffect(() => {
+        setDecryptedIdea(null);
+        if (!idea || !contentKey) return;
+        decryptConfidentialFields(idea, contentKey)
+            .then(setDecryptedIdea)
+            .catch((err) => console.error("Error decrypting idea details:", err));
+    }, [idea, contentKey]);
 
     useEffect(() => {
         // If wallet is not connected (no address), set auth error and stop.
@@ -138,21 +169,19 @@ export default function IdeaDetailPage() {
         setUpdateError(null);
         setUpdateSuccess(null);
 
-        let signature: string | null = null;
+        let signature: string;
+        let signedMessage: SignedRequest['signedMessage'];
         try {
-            const siweMessage = generateSignInMessage(state.address, currentChainId);
-            if (!siweMessage) {
-                throw new Error("Failed to generate sign-in message.");
-            }
-            signature = await signMessage(siweMessage);
-
-            if (!signature) {
-                throw new Error("Failed to sign message. Update cancelled. The signature request might have been rejected or timed out.");
-            }
+            ({ signature, signedMessage } = await createSignedRequest(
+                state.address,
+                currentChainId,
+                generateSignInMessage,
+                signMessage
+            ));
         } catch (signError: unknown) {
             console.error("Error signing message:", signError);
             const errorMessage = signError instanceof Error ? signError.message : "An unknown error occurred during signing.";
-            setUpdateError(`Failed to sign message: ${errorMessage}`);
+            setUpdateError(`Failed to sign message: ${errorMessage} Update cancelled.`);
             setIsUpdating(false);
             return;
         }
@@ -168,6 +197,7 @@ export default function IdeaDetailPage() {
                 body: JSON.stringify({
                     status: currentStatus,
                     committee_feedback: feedbackText,
+                    signedMessage,
                 }),
             });
 
@@ -179,7 +209,7 @@ export default function IdeaDetailPage() {
 
             setUpdateSuccess("Idea updated successfully!");
             if (result.idea) {
-                setIdea(result.idea);
+                setIdea({ ...result.idea, attachment_hashes: idea.attachment_hashes });
                 setCurrentStatus(result.idea.status || '');
                 setFeedbackText(result.idea.committee_feedback || '');
             }
@@ -226,6 +256,8 @@ export default function IdeaDetailPage() {
         );
     }
 
+    const isSubmitter = idea.submitter_wallet_address.toLowerCase() === state.address?.toLowerCase();
+
     return (
         <div className="container mx-auto px-4 py-8 text-white">
             <div className="mb-6">
@@ -243,13 +275,49 @@ export default function IdeaDetailPage() {
                     <div className="space-y-4">
                         <div><p className={labelStyle}>ID:</p><p className={valueStyle}>{idea.id}</p></div>
                         <div><p className={labelStyle}>Full Description:</p><p className={`${valueStyle} whitespace-pre-wrap`}>{idea.description}</p></div>
-                        {idea.problem_statement && <div><p className={labelStyle}>Problem Statement:</p><p className={`${valueStyle} whitespace-pre-wrap`}>{idea.problem_statement}</p></div>}
-                        {idea.solution && <div><p className={labelStyle}>Proposed Solution:</p><p className={`${valueStyle} whitespace-pre-wrap`}>{idea.solution}</p></div>}
+                        {contentKey ? (
+                            <>
+                                {idea.problem_statement && <div><p className={labelStyle}>Problem Statement:</p><ProtectedContent requiredAccess={NDAAthestationLevel.IDEA_SPECIFIC_NDA} ideaId={idea.onchain_idea_id} encryptedContent={idea.problem_statement} decryptionKey={contentKey} className={`${valueStyle} whitespace-pre-wrap`} /></div>}
+                                {idea.solution && <div><p className={labelStyle}>Proposed Solution:</p><ProtectedContent requiredAccess={NDAAthestationLevel.IDEA_SPECIFIC_NDA} ideaId={idea.onchain_idea_id} encryptedContent={idea.solution} decryptionKey={contentKey} className={`${valueStyle} whitespace-pre-wrap`} /></div>}
+                            </>
+                        ) : isContentKeyLoading ? (
+                            <p className="text-sm text-slate-400">Loading confidential details...</p>
+                        ) : (
+                            <div>
+                                <p className="text-sm text-slate-400">The problem statement, solution and required resources are encrypted. Sign with your wallet to decrypt them.</p>
+                                <button type="button" onClick={unlockContent} className="mt-1 text-sm text-sky-400 hover:text-sky-300">
+                                    Decrypt confidential details
+                                </button>
+                                {contentKeyError && <p className="mt-1 text-sm text-red-400">{contentKeyError}</p>}
+                            </div>
+                        )}
                         {idea.target_audience && <div><p className={labelStyle}>Target Audience/Field:</p><p className={valueStyle}>{idea.target_audience}</p></div>}
                         {idea.impact && <div><p className={labelStyle}>Potential Impact/Advantages:</p><p className={`${valueStyle} whitespace-pre-wrap`}>{idea.impact}</p></div>}
-                        {idea.required_resources && <div><p className={labelStyle}>Required Resources:</p><p className={`${valueStyle} whitespace-pre-wrap`}>{idea.required_resources}</p></div>}
+                        {contentKey && idea.required_resources && <div><p className={labelStyle}>Required Resources:</p><ProtectedContent requiredAccess={NDAAthestationLevel.IDEA_SPECIFIC_NDA} ideaId={idea.onchain_idea_id} encryptedContent={idea.required_resources} decryptionKey={contentKey} className={`${valueStyle} whitespace-pre-wrap`} /></div>}
                         {idea.attachments?.description && <div><p className={labelStyle}>Attachments Description:</p><p className={`${valueStyle} whitespace-pre-wrap`}>{idea.attachments.description}</p></div>}
                     </div>
+
+                    {isSubmitter && idea.onchain_idea_id && decryptedIdea && (
+                        <div className="mt-8 border-t border-slate-700 pt-6">
+                            <h2 className={headingStyle}>Amend Idea</h2>
+                            <IdeaAmendmentForm
+                                idea={decryptedIdea}
+                                onAmended={(amended) => {
+                                    setIdea(amended as Idea);
+                                    setRevisionRefreshKey((key) => key + 1);
+                                }}
+                            />
+                        </div>
+                    )}
+
+                    <div className="mt-8 border-t border-slate-700 pt-6">
+                        <h2 className={headingStyle}>Modification History</h2>
+                        <IdeaRevisionHistory
+                            ideaId={idea.id}
+                            onchainIdeaId={idea.onchain_idea_id}
+                            refreshKey={revisionRefreshKey}
+                        />
+                    </div>
                 </div>
 
                 <div className={`md:col-span-1 space-y-6`}>
@@ -260,8 +328,34 @@ export default function IdeaDetailPage() {
                         {idea.contact_email && <div><p className={labelStyle}>Contact Email:</p><p className={valueStyle}>{idea.contact_email}</p></div>}
                         <div><p className={labelStyle}>Patent Status:</p><p className={valueStyle}>{idea.patent_status || 'N/A'}</p></div>
                         <div><p className={labelStyle}>Technical Readiness Level (TRL):</p><p className={valueStyle}>{idea.technical_readiness_level ? `TRL ${idea.technical_readiness_level}` : 'N/A'}</p></div>
+                        <div><p className={labelStyle}>On-chain Idea ID:</p><p className={`${valueStyle} break-all font-mono text-sm`}>{idea.onchain_idea_id || 'Not registered'}</p></div>
+                        {idea.content_hash && <div><p className={labelStyle}>Content Hash:</p><p className={`${valueStyle} break-all font-mono text-sm`}>{idea.content_hash}</p></div>}
                     </div>
 
+                    {idea.onchain_idea_id && (
+                        <div className={sectionStyle}>
+                            <h2 className={headingStyle}>On-chain Review Votes</h2>
+                            <IdeaVotingPanel ideaId={idea.onchain_idea_id as `0x${string}`} />
+                        </div>
+                    )}
+
+                    {idea.onchain_idea_id && (
+                        <div className={sectionStyle}>
+                            <h2 className={headingStyle}>Finalization</h2>
+                            <IdeaFinalizationWizard
+                                ideaId={idea.onchain_idea_id as `0x${string}`}
+                                title={idea.title}
+                            />
+                        </div>
+                    )}
+
+                    {idea.onchain_idea_id && (
+                        <div className={sectionStyle}>
+                            <h2 className={headingStyle}>Governance Proposal</h2>
+                            <IdeaProposalLauncher ideaId={idea.onchain_idea_id as `0x${string}`} />
+                        </div>
+                    )}
+
                     <div className={sectionStyle}>
                         <h2 className={headingStyle}>Review Status & Feedback</h2>
                         <div><p className={labelStyle}>Current Status:</p><p className={`${valueStyle} font-semibold`}>{idea.status}</p></div>
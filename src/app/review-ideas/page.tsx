@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useWallet } from '@/app/context/WalletContext';
+import { Pagination } from '@/app/components/general/Pagination';
 
 interface Idea {
     id: number;
@@ -23,8 +24,22 @@ interface Idea {
     contact_email?: string;
 }
 
+const statusFilterOptions = [
+    'All',
+    'Pending Review',
+    'Under Review',
+    'Needs More Info',
+    'Approved',
+    'Rejected'
+];
+
+const IDEAS_PER_PAGE = 10;
+
 export default function ReviewIdeasPage() {
     const [ideas, setIdeas] = useState<Idea[]>([]);
+    const [currentPage, setCurrentPage] = useState(1);
+    const [totalPages, setTotalPages] = useState(1);
+    const [statusFilter, setStatusFilter] = useState('All');
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const wallet = useWallet();
@@ -43,7 +58,14 @@ export default function ReviewIdeasPage() {
             console.log(`ReviewIdeasPage: Wallet connected. Address: ${wallet.state.address}, Verified: ${wallet.state.isVerified}`);
 
             try {
-                const response = await fetch('/api/ideas', {
+                const query = new URLSearchParams({
+                    page: String(currentPage),
+                    limit: String(IDEAS_PER_PAGE),
+                });
+                if (statusFilter !== 'All') {
+                    query.set('status', statusFilter);
+                }
+                const response = await fetch(`/api/ideas?${query.toString()}`, {
                     method: 'GET',
                     headers: {
                         'Content-Type': 'application/json',
@@ -57,6 +79,7 @@ export default function ReviewIdeasPage() {
                 }
                 const data = await response.json();
                 setIdeas(data.ideas || []);
+                setTotalPages(data.pagination?.totalPages || 1);
             } catch (err) {
                 console.error("Error fetching ideas in ReviewIdeasPage:", err);
                 setError((err as Error).message);
@@ -68,7 +91,7 @@ export default function ReviewIdeasPage() {
         // useEffect will re-run if the wallet state dependencies change.
         fetchIdeas(); 
 
-    }, [wallet.state.isConnected, wallet.state.address, wallet.state.isVerified]);
+    }, [wallet.state.isConnected, wallet.state.address, wallet.state.isVerified, currentPage, statusFilter]);
 
     const formatDate = (dateString: string) => {
         return new Date(dateString).toLocaleDateString('en-US', {
@@ -124,9 +147,26 @@ export default function ReviewIdeasPage() {
         <div className="container mx-auto px-4 py-8 text-white">
             <h1 className="text-3xl font-bold mb-8 text-center">Review Submitted Ideas</h1>
 
+            <div className="mb-6 flex justify-end">
+                <label htmlFor="statusFilter" className="mr-2 self-center text-sm text-slate-400">Status:</label>
+                <select
+                    id="statusFilter"
+                    value={statusFilter}
+                    onChange={(e) => {
+                        setStatusFilter(e.target.value);
+                        setCurrentPage(1);
+                    }}
+                    className="rounded-md border border-slate-600 bg-slate-700 px-3 py-2 text-sm text-white focus:border-sky-500 focus:outline-none"
+                >
+                    {statusFilterOptions.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                </select>
+            </div>
+
             {ideas.length === 0 ? (
                 <div className="text-center p-6 bg-slate-800 rounded-lg shadow-xl">
-                    <p className="text-slate-300">No ideas have been submitted yet.</p>
+                    <p className="text-slate-300">
+                        {statusFilter === 'All' ? 'No ideas have been submitted yet.' : `No ideas with status "${statusFilter}".`}
+                    </p>
                 </div>
             ) : (
                 <div className="space-y-6">
@@ -155,6 +195,13 @@ export default function ReviewIdeasPage() {
                             </a>
                         </Link>
                     ))}
+                    {totalPages > 1 && (
+                        <Pagination
+                            currentPage={currentPage}
+                            totalPages={totalPages}
+                            onPageChange={setCurrentPage}
+                        />
+                    )}
                 </div>
             )}
         </div>
@@ -1,7 +1,11 @@
 'use client';
 
 import { useState, type FormEvent, type ChangeEvent, useEffect, useRef } from 'react';
+import { parseEventLogs, type Abi, type Hex } from 'viem';
 import { useWallet } from '@/app/context/WalletContext';
+import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import sparkIdeaRegistryAbi from '@/app/abi/SparkIdeaRegistry.json';
+import { PATENT_STATUS_OPTIONS, computeIdeaContentHash, hashAttachment } from '@/app/utils/ideaUtils';
 import { ArrowRight, ChevronLeft, ChevronRight } from 'lucide-react';
 import InfoToolTip from '@/app/components/general/InfoToolTip';
 import SuccessModal from '@/app/components/modals/ModalSubmission';
@@ -38,15 +42,7 @@ const initialFormData: IdeaFormData = {
   contact_email: '',
 };
 
-const patentStatusOptions = [
-  'Not Filed',
-  'Prior Art Search Done',
-  'Provisional Filed',
-  'Drafting Full Patent',
-  'Full Patent Filed',
-  'Patented',
-  'Other',
-];
+const patentStatusOptions = [...PATENT_STATUS_OPTIONS];
 
 const trlOptions = Array.from({ length: 9 }, (_, i) => (i + 1).toString());
 
@@ -229,12 +225,14 @@ const LOCAL_STORAGE_KEY = 'ideaFormDataDraft';
 interface SubmittedIdeaDetails {
   title: string;
   id: string | number;
+  onchainIdeaId?: string;
 }
 
 export default function SubmitIdeaPage() {
   const [formData, setFormData] = useState<IdeaFormData>(initialFormData);
   const [currentStep, setCurrentStep] = useState(0); // 0-indexed for formSteps array
   const [isLoading, setIsLoading] = useState(false);
+  const [submissionStage, setSubmissionStage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [stepErrors, setStepErrors] = useState<
     Partial<Record<keyof IdeaFormData, string>>
@@ -242,6 +240,7 @@ export default function SubmitIdeaPage() {
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [submittedIdeaDetails, setSubmittedIdeaDetails] = useState<SubmittedIdeaDetails | null>(null);
   const wallet = useWallet();
+  const networkInfo = useNetworkInfo();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Load from local storage on mount
@@ -410,6 +409,11 @@ export default function SubmitIdeaPage() {
       return;
     }
 
+    if (!networkInfo?.sparkIdeaRegistry) {
+      setError('Network information is still loading. Please try again in a moment.');
+      return;
+    }
+
     setIsLoading(true);
 
     // Ensure TRL is correctly formatted if it was displayed as "TRL X"
@@ -460,9 +464,68 @@ export default function SubmitIdeaPage() {
     }
 
     try {
+      // Register a hash of the idea on-chain first, giving the ideator a timestamped priority record.
+      setSubmissionStage('Hashing idea...');
+      const attachmentHashes = await Promise.all(
+        (formData.attachmentFiles || []).map(hashAttachment)
+      );
+      const contentHash = computeIdeaContentHash({
+        title: formData.title,
+        description: formData.description,
+        problem_statement: formData.problem_statement,
+        solution: formData.solution,
+        target_audience: formData.target_audience,
+        impact: formData.impact,
+        required_resources: formData.required_resources,
+        attachments_description: formData.attachments_description || null,
+        patent_status: formData.patent_status,
+        technical_readiness_level: Number.parseInt(trlValue, 10),
+        submitter_wallet_address: wallet.state.address,
+        attachment_hashes: attachmentHashes,
+      });
+
+      setSubmissionStage('Registering on-chain...');
+      const txHash = await wallet.writeContractGeneric({
+        address: networkInfo.sparkIdeaRegistry,
+        abi: sparkIdeaRegistryAbi as Abi,
+        functionName: 'submitIdea',
+        args: [contentHash],
+      });
+      if (!txHash) {
+        setError(
+          'On-chain registration failed or was rejected. Make sure you have signed the Platform NDA and Ideator Terms.'
+        );
+        return;
+      }
+
+      setSubmissionStage('Waiting for confirmation...');
+      const receipt = await wallet.waitForTransactionGeneric({ hash: txHash });
+      if (!receipt || receipt.status !== 'success') {
+        setError('The on-chain registration transaction did not succeed. Please try again.');
+        return;
+      }
+
+      const [submittedEvent] = parseEventLogs({
+        abi: sparkIdeaRegistryAbi as Abi,
+        logs: receipt.logs,
+        eventName: 'IdeaSubmitted',
+      });
+      const onchainIdeaId = (submittedEvent?.args as { ideaId?: Hex } | undefined)?.ideaId;
+      if (!onchainIdeaId) {
+        setError('Could not find the IdeaSubmitted event in the transaction receipt.');
+        return;
+      }
+
+      dataToSend.append('onchain_idea_id', onchainIdeaId);
+      dataToSend.append('onchain_tx_hash', txHash);
+
+      setSubmissionStage('Saving submission...');
       const response = await fetch('/api/ideas', {
         method: 'POST',
         // Content-Type header is automatically set by the browser for FormData
+        headers: {
+          'X-User-Address': wallet.state.address,
+        },
         body: dataToSend,
       });
 
@@ -471,7 +534,11 @@ export default function SubmitIdeaPage() {
       if (!response.ok) {
         setError(result.error || 'Failed to submit idea. Please try again.');
       } else {
-        setSubmittedIdeaDetails({ title: result.idea.title, id: result.idea.id });
+        setSubmittedIdeaDetails({
+          title: result.idea.title,
+          id: result.idea.id,
+          onchainIdeaId: result.idea.onchain_idea_id,
+        });
         setShowSuccessModal(true);
       }
     } catch (err) {
@@ -479,8 +546,10 @@ export default function SubmitIdeaPage() {
       setError(
         'An unexpected error occurred. Please check the console and try again.'
       );
+    } finally {
+      setSubmissionStage(null);
+      setIsLoading(false);
     }
-    setIsLoading(false);
   };
 
   const handleCloseSuccessModal = () => {
@@ -711,7 +780,7 @@ export default function SubmitIdeaPage() {
                     className={buttonStylePrimary}
                   >
                     <span className="relative z-10 flex items-center">
-                      {isLoading ? 'Submitting...' : 'Submit Idea'}
+                      {isLoading ? submissionStage || 'Submitting...' : 'Submit Idea'}
                       <ArrowRight className="ml-2 h-5 w-5 transition-transform duration-300 group-hover:translate-x-1" />
                     </span>
                     <span className="absolute inset-0 origin-left scale-x-0 transform bg-gradient-to-r from-orange-500 to-orange-400 transition-transform duration-500 group-hover:scale-x-100"></span>
@@ -728,6 +797,7 @@ export default function SubmitIdeaPage() {
           onClose={handleCloseSuccessModal}
           title={submittedIdeaDetails.title}
           ideaId={submittedIdeaDetails.id}
+          onchainIdeaId={submittedIdeaDetails.onchainIdeaId}
         />
       )}
     </div>
@@ -1,13 +1,15 @@
 'use client';
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import TransactionHistory from '../components/general/TransactionHistory';
 import donationAbi from '@/app/abi/Donation.json';
 import sciManagerAbi from '@/app/abi/SciManager.json';
 import govResAbi from '@/app/abi/GovernorResearch.json';
+import govOpsAbi from '@/app/abi/GovernorOperations.json';
 import attestationVaultAbi from '@/app/abi/AttestationVault.json';
 import poToSciExchangeAbi from '@/app/abi/PoToSciExchange.json';
 import { useNetworkInfo } from '@/app/context/NetworkInfoContext';
+import { getGovernorOperationsAddress } from '../components/governance/GetGovernorOperationsAddress';
 
 interface ContractEventPair {
   address: string | undefined;
@@ -19,6 +21,11 @@ interface ContractEventPair {
 export default function Locking() {
 
   const networkInfo = useNetworkInfo();
+  const [governorOperations, setGovernorOperations] = useState<string>();
+
+  useEffect(() => {
+    getGovernorOperationsAddress().then(setGovernorOperations);
+  }, []);
 
   const contracts: ContractEventPair[] = [
     {
@@ -46,6 +53,16 @@ export default function Locking() {
       abi: govResAbi,
       event: 'Voted(uint256,address,bool,uint256)',
     },
+    {
+      address: governorOperations,
+      abi: govOpsAbi,
+      event: 'Proposed(uint256,address,string,uint256,uint256,address,bool,bool)',
+    },
+    {
+      address: governorOperations,
+      abi: govOpsAbi,
+      event: 'Voted(uint256,address,bool,uint256)',
+    },
     {
       address: networkInfo?.poToSciExchange,
       abi: poToSciExchangeAbi,
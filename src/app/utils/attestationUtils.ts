@@ -0,0 +1,295 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { type Abi, type Address, type Hex, keccak256, parseEventLogs, zeroHash } from 'viem';
+import { submitterPool } from '@/app/db/db';
+import { getNetworkInfo } from '@/app/utils/serverConfig';
+import { getCustomPublicClient } from '@/app/config/viem';
+import { verifyTypedDataSignature } from '@/app/utils/signatureVerification';
+import { getDocusignApiClient, getDocuSignClasses } from '@/app/utils/docusignClient';
+import {
+  EIP712_TYPES,
+  type PlatformAgreementType,
+  createSparkEIP712Domain,
+  fetchAgreementTypeIds,
+} from '@/app/constants/eip712';
+import attestationVaultJson from '@/app/abi/AttestationVault.json';
+
+const attestationVaultAbi = attestationVaultJson as Abi;
+
+const DOCUSIGN_ACCOUNT_ID = process.env.DOCUSIGN_ACCOUNT_ID;
+
+const ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
+const BYTES32_REGEX = /^0x[a-fA-F0-9]{64}$/;
+const SIGNATURE_REGEX = /^0x[a-fA-F0-9]+$/;
+const TX_HASH_REGEX = BYTES32_REGEX;
+
+export type AttestationAgreementType = PlatformAgreementType | 'IDEA_NDA';
+
+// Envelope custom fields set by /api/docusign/create-embedded-envelope
+export const ENVELOPE_AGREEMENT_TYPE_FIELD = 'agreementType';
+export const ENVELOPE_IDEA_ID_FIELD = 'ideaId';
+
+interface AttestationRequestBody {
+  walletAddress?: string;
+  envelopeId?: string;
+  userSignedDocumentHash?: string;
+  signature?: string;
+  transactionHash?: string;
+  ideaId?: string;
+}
+
+interface DocumentAttestedArgs {
+  user: Address;
+  agreementTypeId: Hex;
+  userSignedDocumentHash: Hex;
+}
+
+interface IdeaNdaAttestedArgs {
+  user: Address;
+  ideaId: Hex;
+  userSignedDocumentHash: Hex;
+}
+
+class AttestationRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Hashes the combined PDF of a DocuSign envelope. This is the `userSignedDocumentHash` users sign
+ * over and attest to on-chain.
+ */
+export async function getEnvelopeDocumentHash(envelopeId: string): Promise<Hex> {
+  const apiClient = await getDocusignApiClient();
+  const { EnvelopesApi } = await getDocuSignClasses();
+  const envelopesApi = new EnvelopesApi(apiClient);
+
+  // The SDK returns the PDF as a binary-encoded string
+  const document: string | Uint8Array = await envelopesApi.getDocument(
+    DOCUSIGN_ACCOUNT_ID!,
+    envelopeId,
+    'combined',
+    {}
+  );
+  const bytes = typeof document === 'string' ? Buffer.from(document, 'binary') : document;
+  return keccak256(new Uint8Array(bytes));
+}
+
+/**
+ * Confirms that the envelope is completed and was signed by `walletAddress`, whose address
+ * prefixes the embedded signer's clientUserId.
+ */
+async function assertEnvelopeCompletedBy(envelopeId: string, walletAddress: string) {
+  const apiClient = await getDocusignApiClient();
+  const { EnvelopesApi } = await getDocuSignClasses();
+  const envelopesApi = new EnvelopesApi(apiClient);
+
+  const envelope = await envelopesApi.getEnvelope(DOCUSIGN_ACCOUNT_ID!, envelopeId);
+  if (!envelope) {
+    throw new AttestationRequestError('Envelope not found', 404);
+  }
+  if (envelope.status !== 'completed') {
+    throw new AttestationRequestError('DocuSign envelope has not been completed', 400);
+  }
+
+  const recipients = await envelopesApi.listRecipients(DOCUSIGN_ACCOUNT_ID!, envelopeId);
+  const signedByWallet = (recipients.signers ?? []).some(
+    (signer) =>
+      signer.status === 'completed' &&
+      signer.clientUserId?.toLowerCase().startsWith(`${walletAddress}_`)
+  );
+  if (!signedByWallet) {
+    throw new AttestationRequestError('Envelope was not signed by this wallet', 403);
+  }
+}
+
+/**
+ * Confirms that the envelope was created for `agreementType` (and, for idea NDAs, for `ideaId`),
+ * so an envelope signed for one agreement cannot be attested as another.
+ */
+async function assertEnvelopeIsForAgreement(
+  envelopeId: string,
+  agreementType: AttestationAgreementType,
+  ideaId: string | undefined
+) {
+  const apiClient = await getDocusignApiClient();
+  const { EnvelopesApi } = await getDocuSignClasses();
+  const envelopesApi = new EnvelopesApi(apiClient);
+
+  const customFields = await envelopesApi.listCustomFields(DOCUSIGN_ACCOUNT_ID!, envelopeId);
+  const fieldValue = (name: string) =>
+    (customFields?.textCustomFields ?? []).find(
+      (field: { name?: string; value?: string }) => field.name === name
+    )?.value;
+
+  if (fieldValue(ENVELOPE_AGREEMENT_TYPE_FIELD) !== agreementType) {
+    throw new AttestationRequestError('Envelope was not issued for this agreement', 400);
+  }
+  if (
+    agreementType === 'IDEA_NDA' &&
+    fieldValue(ENVELOPE_IDEA_ID_FIELD)?.toLowerCase() !== ideaId!.toLowerCase()
+  ) {
+    throw new AttestationRequestError('Envelope was not issued for this idea', 400);
+  }
+}
+
+/**
+ * Handles a POST to one of the /api/attestation/* routes.
+ *
+ * AttestationVault requires the EIP-712 signer to be the transaction sender, so attestations
+ * cannot be relayed: the user submits `attestToSignedDocument` / `attestToIdeaNda` and the
+ * server then verifies the signature, the completed DocuSign envelope and the emitted event
+ * before recording the attestation.
+ */
+export async function handleAttestationRequest(
+  request: NextRequest,
+  agreementType: AttestationAgreementType
+) {
+  let body: AttestationRequestBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { envelopeId, userSignedDocumentHash, signature, transactionHash, ideaId } = body;
+  const walletAddress = body.walletAddress?.toLowerCase();
+
+  if (!walletAddress || !ADDRESS_REGEX.test(walletAddress)) {
+    return NextResponse.json({ error: 'Invalid wallet address' }, { status: 400 });
+  }
+  if (!envelopeId || typeof envelopeId !== 'string') {
+    return NextResponse.json({ error: 'Missing envelopeId' }, { status: 400 });
+  }
+  if (!userSignedDocumentHash || !BYTES32_REGEX.test(userSignedDocumentHash)) {
+    return NextResponse.json({ error: 'Invalid userSignedDocumentHash' }, { status: 400 });
+  }
+  if (!signature || !SIGNATURE_REGEX.test(signature)) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 400 });
+  }
+  if (!transactionHash || !TX_HASH_REGEX.test(transactionHash)) {
+    return NextResponse.json({ error: 'Invalid transactionHash' }, { status: 400 });
+  }
+  if (agreementType === 'IDEA_NDA' && (!ideaId || !BYTES32_REGEX.test(ideaId))) {
+    return NextResponse.json({ error: 'Invalid ideaId' }, { status: 400 });
+  }
+
+  try {
+    const existing = await submitterPool.query(
+      'SELECT wallet_address FROM attestations WHERE envelope_id = $1',
+      [envelopeId]
+    );
+    if (existing.rows.length > 0) {
+      return NextResponse.json(
+        { error: 'This envelope has already been used for an attestation' },
+        { status: 409 }
+      );
+    }
+
+    const networkInfo = await getNetworkInfo();
+    const publicClient = await getCustomPublicClient();
+    const vaultAddress = networkInfo.attestationVault as Address;
+
+    // 1. EIP-712 signature over the document hash
+    const domain = createSparkEIP712Domain(networkInfo.chainId, vaultAddress);
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { EIP712Domain, ...types } = EIP712_TYPES;
+    let agreementTypeId: Hex | null = null;
+    let isValidSignature: boolean;
+    if (agreementType === 'IDEA_NDA') {
+      isValidSignature = await verifyTypedDataSignature(
+        domain,
+        { SparkIdeaNdaAttestation: types.SparkIdeaNdaAttestation },
+        'SparkIdeaNdaAttestation',
+        { userSignedDocumentHash, ideaId },
+        signature as Hex,
+        walletAddress as Address
+      );
+    } else {
+      agreementTypeId = (await fetchAgreementTypeIds(publicClient, vaultAddress))[agreementType];
+      isValidSignature = await verifyTypedDataSignature(
+        domain,
+        { SparkUserDocumentAttestation: types.SparkUserDocumentAttestation },
+        'SparkUserDocumentAttestation',
+        { userSignedDocumentHash, agreementTypeId },
+        signature as Hex,
+        walletAddress as Address
+      );
+    }
+    if (!isValidSignature) {
+      return NextResponse.json({ error: 'Signature verification failed' }, { status: 401 });
+    }
+
+    // 2. Completed DocuSign envelope for this agreement whose document matches the signed hash
+    await assertEnvelopeCompletedBy(envelopeId, walletAddress);
+    await assertEnvelopeIsForAgreement(envelopeId, agreementType, ideaId);
+    const documentHash = await getEnvelopeDocumentHash(envelopeId);
+    if (documentHash.toLowerCase() !== userSignedDocumentHash.toLowerCase()) {
+      return NextResponse.json(
+        { error: 'Signed document hash does not match the DocuSign document' },
+        { status: 400 }
+      );
+    }
+
+    // 3. On-chain attestation event from the submitted transaction
+    const receipt = await publicClient.getTransactionReceipt({ hash: transactionHash as Hex });
+    if (receipt.status !== 'success') {
+      return NextResponse.json({ error: 'Attestation transaction reverted' }, { status: 400 });
+    }
+    const attestedLogs = parseEventLogs({
+      abi: attestationVaultAbi,
+      logs: receipt.logs.filter((log) => log.address.toLowerCase() === vaultAddress.toLowerCase()),
+      eventName: agreementType === 'IDEA_NDA' ? 'IdeaNdaAttested' : 'DocumentAttested',
+    });
+    const isAttestedOnchain = attestedLogs.some((log) => {
+      if (agreementType === 'IDEA_NDA') {
+        const args = log.args as unknown as IdeaNdaAttestedArgs;
+        return (
+          args.user.toLowerCase() === walletAddress &&
+          args.ideaId.toLowerCase() === ideaId!.toLowerCase() &&
+          args.userSignedDocumentHash.toLowerCase() === userSignedDocumentHash.toLowerCase()
+        );
+      }
+      const args = log.args as unknown as DocumentAttestedArgs;
+      return (
+        args.user.toLowerCase() === walletAddress &&
+        args.agreementTypeId.toLowerCase() === agreementTypeId!.toLowerCase() &&
+        args.userSignedDocumentHash.toLowerCase() === userSignedDocumentHash.toLowerCase()
+      );
+    });
+    if (!isAttestedOnchain) {
+      return NextResponse.json(
+        { error: 'Transaction does not contain a matching attestation' },
+        { status: 400 }
+      );
+    }
+
+    await submitterPool.query(
+      `INSERT INTO attestations
+         (wallet_address, agreement_type, agreement_type_id, idea_id, envelope_id,
+          document_hash, eth_signature, transaction_hash, status, attested_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'confirmed', NOW())`,
+      [
+        walletAddress,
+        agreementType,
+        agreementTypeId ?? zeroHash,
+        agreementType === 'IDEA_NDA' ? ideaId!.toLowerCase() : null,
+        envelopeId,
+        documentHash,
+        signature,
+        transactionHash,
+      ]
+    );
+
+    return NextResponse.json({ status: 'success', transactionHash, documentHash });
+  } catch (error) {
+    if (error instanceof AttestationRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`[Attestation API] Error recording ${agreementType} attestation:`, error);
+    return NextResponse.json({ error: 'Failed to record attestation' }, { status: 500 });
+  }
+}
@@ -1,9 +1,20 @@
 import { NextRequest } from 'next/server';
+import { Address, Hex, zeroAddress } from 'viem';
 import { reviewerPool } from '@/app/db/db'; // Path to your database pool for the 'signatures' table
+import { getNetworkInfo } from '@/app/utils/serverConfig';
+import { getCustomPublicClient } from '@/app/config/viem';
+import { verifyTypedDataSignature } from '@/app/utils/signatureVerification';
+import { consumeRequestNonce } from '@/app/utils/requestNonces';
+import sparkIdeaRegistryAbi from '@/app/abi/SparkIdeaRegistry.json';
+import attestationVaultAbi from '@/app/abi/AttestationVault.json';
 
 // Define how long a "session" (based on the last signature verification) is valid.
 const AUTH_SESSION_DURATION_HOURS = 24; // Consider making this an environment variable
 
+// EIP-712 domain of the SignIn message built by WalletContext.generateSignInMessage
+const SIGN_IN_DOMAIN_NAME = 'Poscidon Protocol';
+const SIGN_IN_DOMAIN_VERSION = '1';
+
 /**
  * Verifies if the requesting address has a recent valid signature record in the database.
  * Expects the client to send the address in the 'X-User-Address' header.
@@ -60,4 +71,182 @@ export async function getVerifiedRequesterAddress(request: NextRequest): Promise
         console.error('[AuthUtils] Auth: Error in getVerifiedRequesterAddress while querying database:', error);
         return null; // Ensure null is returned on error to deny access
     }
-} 
\ No newline at end of file
+}
+
+/**
+ * Checks whether an address may review ideas: either the platform admin or a holder
+ * of REVIEWER_ROLE on the SparkIdeaRegistry contract.
+ *
+ * @param address - The wallet address to check.
+ * @returns True if the address is a reviewer, false otherwise (including on RPC errors).
+ */
+export async function isIdeaReviewer(address: string): Promise<boolean> {
+    try {
+        const networkInfo = await getNetworkInfo();
+        if (address.toLowerCase() === networkInfo.admin.toLowerCase()) {
+            return true;
+        }
+
+        const customPublicClient = await getCustomPublicClient();
+        const reviewerRole = await customPublicClient.readContract({
+            address: networkInfo.sparkIdeaRegistry as Address,
+            abi: sparkIdeaRegistryAbi,
+            functionName: 'REVIEWER_ROLE',
+        }) as Hex;
+
+        return await customPublicClient.readContract({
+            address: networkInfo.sparkIdeaRegistry as Address,
+            abi: sparkIdeaRegistryAbi,
+            functionName: 'hasRole',
+            args: [reviewerRole, address as Address],
+        }) as boolean;
+    } catch (error) {
+        console.error(`[AuthUtils] Error checking reviewer role for ${address}:`, error);
+        return false;
+    }
+}
+
+/**
+ * Checks whether an address has attested to the Platform NDA on the AttestationVault.
+ *
+ * @param address - The wallet address to check.
+ * @returns True if a valid Platform NDA attestation exists, false otherwise (including on RPC errors).
+ */
+export async function hasPlatformNdaAttestation(address: string): Promise<boolean> {
+    try {
+        const networkInfo = await getNetworkInfo();
+        const customPublicClient = await getCustomPublicClient();
+        const platformNdaType = await customPublicClient.readContract({
+            address: networkInfo.attestationVault as Address,
+            abi: attestationVaultAbi,
+            functionName: 'PLATFORM_NDA_TYPE',
+        }) as Hex;
+
+        return await customPublicClient.readContract({
+            address: networkInfo.attestationVault as Address,
+            abi: attestationVaultAbi,
+            functionName: 'hasUserAttested',
+            args: [address as Address, platformNdaType],
+        }) as boolean;
+    } catch (error) {
+        console.error(`[AuthUtils] Error checking Platform NDA attestation for ${address}:`, error);
+        return false;
+    }
+}
+
+/**
+ * Returns the subset of on-chain idea IDs whose idea-specific NDA the address has attested to.
+ *
+ * @param address - The wallet address to check.
+ * @param onchainIdeaIds - bytes32 idea IDs from SparkIdeaRegistry.
+ * @returns The lowercased idea IDs with a valid attestation. Ideas that fail to load are left out.
+ */
+export async function getAttestedIdeaNdaIds(address: string, onchainIdeaIds: string[]): Promise<Set<string>> {
+    const attested = new Set<string>();
+    if (onchainIdeaIds.length === 0) return attested;
+
+    const networkInfo = await getNetworkInfo();
+    const customPublicClient = await getCustomPublicClient();
+    await Promise.all(
+        onchainIdeaIds.map(async (ideaId) => {
+            try {
+                const hasAttested = await customPublicClient.readContract({
+                    address: networkInfo.attestationVault as Address,
+                    abi: attestationVaultAbi,
+                    functionName: 'hasUserAttestedToIdeaNda',
+                    args: [address as Address, ideaId as Hex],
+                }) as boolean;
+                if (hasAttested) attested.add(ideaId.toLowerCase());
+            } catch (error) {
+                console.error(`[AuthUtils] Error checking idea NDA attestation for ${address} on ${ideaId}:`, error);
+            }
+        })
+    );
+    return attested;
+}
+
+export interface SignedRequestMessage {
+    domain: { name: string; version: string; chainId: string | number };
+    message: {
+        URL: string;
+        network: string;
+        account: string;
+        chainId: string | number;
+        issued: string;
+        nonce: string;
+    };
+}
+
+/**
+ * Verifies a SignIn typed-data signature (as produced by WalletContext.signMessage) that
+ * authorizes a state-changing request. The domain must be the platform's own on the
+ * configured chain, and the nonce must have been issued to `address` by /api/auth/nonce;
+ * it is consumed here, so each signature authorizes a single request within the nonce TTL.
+ *
+ * @param address - The address claimed in the 'x-eth-address' header.
+ * @param signature - The signature from the 'x-eth-signature' header.
+ * @param signedMessage - The serialized message that was signed.
+ * @returns True if the signature was produced by `address` over `signedMessage`.
+ */
+export async function verifySignedRequest(
+    address: string,
+    signature: string,
+    signedMessage: SignedRequestMessage | undefined
+): Promise<boolean> {
+    if (!signedMessage?.domain || !signedMessage?.message) {
+        console.warn('[AuthUtils] Signed request is missing the signed message payload.');
+        return false;
+    }
+
+    if (signedMessage.message.account?.toLowerCase() !== address.toLowerCase()) {
+        console.warn(`[AuthUtils] Signed message account ${signedMessage.message.account} does not match ${address}.`);
+        return false;
+    }
+
+    const { chainId } = await getNetworkInfo();
+    if (
+        signedMessage.domain.name !== SIGN_IN_DOMAIN_NAME ||
+        signedMessage.domain.version !== SIGN_IN_DOMAIN_VERSION ||
+        String(signedMessage.domain.chainId) !== String(chainId) ||
+        String(signedMessage.message.chainId) !== String(chainId)
+    ) {
+        console.warn('[AuthUtils] Signed message domain does not match this platform and chain.', signedMessage.domain);
+        return false;
+    }
+
+    const isValid = await verifyTypedDataSignature(
+        {
+            name: SIGN_IN_DOMAIN_NAME,
+            version: SIGN_IN_DOMAIN_VERSION,
+            chainId: BigInt(chainId),
+            verifyingContract: zeroAddress,
+        },
+        {
+            SignIn: [
+                { name: 'URL', type: 'string' },
+                { name: 'network', type: 'string' },
+                { name: 'account', type: 'address' },
+                { name: 'chainId', type: 'uint256' },
+                { name: 'issued', type: 'string' },
+                { name: 'nonce', type: 'string' },
+            ],
+        },
+        'SignIn',
+        {
+            ...signedMessage.message,
+            chainId: BigInt(chainId),
+        },
+        signature as Hex,
+        address as Address
+    );
+    if (!isValid) {
+        return false;
+    }
+
+    // Only consumed after the signature checks out, so a forged request cannot burn a nonce
+    if (!(await consumeRequestNonce(signedMessage.message.nonce, address))) {
+        console.warn(`[AuthUtils] Signed message nonce was not issued to ${address}, has expired or was already used.`);
+        return false;
+    }
+    return true;
+}
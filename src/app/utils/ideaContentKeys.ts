@@ -0,0 +1,111 @@
+import type { VercelPoolClient } from '@vercel/postgres';
+import {
+  CONFIDENTIAL_IDEA_FIELDS,
+  decryptIdeaContent,
+  encryptConfidentialFields,
+  encryptIdeaAttachment,
+  encryptIdeaContent,
+  generateIdeaContentKey,
+  isEncryptedIdeaAttachment,
+} from '@/app/utils/ideaEncryption';
+
+/**
+ * Per-idea content keys. Each idea's confidential fields and attachments are encrypted with its own key,
+ * which is stored in ideas.content_key_wrapped encrypted under IDEA_CONTENT_ENCRYPTION_KEY.
+ * A database dump alone therefore does not reveal idea content.
+ */
+
+const getMasterKey = () => {
+  const masterKey = process.env.IDEA_CONTENT_ENCRYPTION_KEY;
+  if (!masterKey) {
+    throw new Error('IDEA_CONTENT_ENCRYPTION_KEY environment variable is not set.');
+  }
+  return masterKey;
+};
+
+export const wrapIdeaContentKey = (contentKey: string) => encryptIdeaContent(contentKey, getMasterKey());
+
+export const unwrapIdeaContentKey = (wrappedKey: string) => decryptIdeaContent(wrappedKey, getMasterKey());
+
+/**
+ * Creates a content key and its wrapped form for a new idea.
+ */
+export async function createIdeaContentKey(): Promise<{ contentKey: string; wrappedKey: string }> {
+  const contentKey = generateIdeaContentKey();
+  return { contentKey, wrappedKey: await wrapIdeaContentKey(contentKey) };
+}
+
+/**
+ * Returns the content key of an idea. Ideas stored before encryption was introduced are
+ * encrypted by scripts/encrypt-legacy-ideas.js; any still missed get a key on first use, and
+ * their plaintext fields, revisions and attachments are encrypted with it.
+ * Must run inside a transaction on `client`.
+ */
+export async function getOrCreateIdeaContentKey(
+  client: VercelPoolClient,
+  ideaId: number
+): Promise<string | null> {
+  const confidentialColumns = CONFIDENTIAL_IDEA_FIELDS.join(', ');
+  const ideaResult = await client.query(
+    `SELECT content_key_wrapped, ${confidentialColumns} FROM ideas WHERE id = $1 FOR UPDATE`,
+    [ideaId]
+  );
+  const idea = ideaResult.rows[0];
+  if (!idea) {
+    return null;
+  }
+  if (idea.content_key_wrapped) {
+    return unwrapIdeaContentKey(idea.content_key_wrapped);
+  }
+
+  const { contentKey, wrappedKey } = await createIdeaContentKey();
+
+  const encryptedIdea = await encryptConfidentialFields(idea, contentKey);
+  await client.query(
+    `UPDATE ideas
+     SET problem_statement = $1, solution = $2, required_resources = $3, content_key_wrapped = $4
+     WHERE id = $5`,
+    [
+      encryptedIdea.problem_statement,
+      encryptedIdea.solution,
+      encryptedIdea.required_resources,
+      wrappedKey,
+      ideaId,
+    ]
+  );
+
+  const revisionsResult = await client.query(
+    `SELECT revision_number, ${confidentialColumns} FROM idea_revisions WHERE idea_id = $1`,
+    [ideaId]
+  );
+  for (const revision of revisionsResult.rows) {
+    const encryptedRevision = await encryptConfidentialFields(revision, contentKey);
+    await client.query(
+      `UPDATE idea_revisions
+       SET problem_statement = $1, solution = $2, required_resources = $3
+       WHERE idea_id = $4 AND revision_number = $5`,
+      [
+        encryptedRevision.problem_statement,
+        encryptedRevision.solution,
+        encryptedRevision.required_resources,
+        ideaId,
+        revision.revision_number,
+      ]
+    );
+  }
+
+  const attachmentsResult = await client.query(
+    'SELECT id, content FROM idea_attachments WHERE idea_id = $1',
+    [ideaId]
+  );
+  for (const attachment of attachmentsResult.rows) {
+    if (isEncryptedIdeaAttachment(attachment.content)) continue;
+    await client.query('UPDATE idea_attachments SET content = $1 WHERE id = $2', [
+      Buffer.from(await encryptIdeaAttachment(attachment.content, contentKey)),
+      attachment.id,
+    ]);
+  }
+
+  console.log(`[Ideas API] Encrypted confidential content of idea ${ideaId}.`);
+  return contentKey;
+}
@@ -0,0 +1,128 @@
+/**
+ * AES-256-GCM encryption of confidential idea fields and attachments through WebCrypto, so the
+ * same code encrypts on the server when an idea is stored and decrypts in the browser once a
+ * viewer has been given the idea's content key.
+ */
+
+// Fields revealed only to wallets that attested to the idea's NDA. The title is the public
+// summary, and description and impact are shown to every Platform NDA holder in discovery; the
+// content key is only released per idea NDA, so those fields stay plaintext and are protected
+// by the server-side access checks instead.
+export const CONFIDENTIAL_IDEA_FIELDS = ['problem_statement', 'solution', 'required_resources'] as const;
+
+export type ConfidentialIdeaField = (typeof CONFIDENTIAL_IDEA_FIELDS)[number];
+
+type ConfidentialIdeaRecord = Partial<Record<ConfidentialIdeaField, unknown>>;
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+const importContentKey = (keyBase64: string) =>
+  crypto.subtle.importKey('raw', fromBase64(keyBase64), 'AES-GCM', false, ['encrypt', 'decrypt']);
+
+/**
+ * Ideas stored before encryption was introduced hold plaintext, which is passed through as-is.
+ */
+export const isEncryptedIdeaContent = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+
+export const generateIdeaContentKey = (): string =>
+  toBase64(crypto.getRandomValues(new Uint8Array(KEY_LENGTH)));
+
+export const encryptIdeaContent = async (plaintext: string, keyBase64: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await importContentKey(keyBase64),
+    new TextEncoder().encode(plaintext)
+  );
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+};
+
+export const decryptIdeaContent = async (value: string, keyBase64: string): Promise<string> => {
+  if (!isEncryptedIdeaContent(value)) {
+    return value;
+  }
+  const [iv, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    await importContentKey(keyBase64),
+    fromBase64(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+};
+
+// Attachments are stored as bytes: the prefix, the IV and the ciphertext
+const ENCRYPTED_ATTACHMENT_PREFIX = new TextEncoder().encode(ENCRYPTED_PREFIX);
+
+/**
+ * Attachments uploaded before encryption was introduced hold the plain file bytes.
+ */
+export const isEncryptedIdeaAttachment = (content: Uint8Array) =>
+  content.length > ENCRYPTED_ATTACHMENT_PREFIX.length + IV_LENGTH &&
+  ENCRYPTED_ATTACHMENT_PREFIX.every((byte, index) => content[index] === byte);
+
+export const encryptIdeaAttachment = async (content: Uint8Array, keyBase64: string): Promise<Uint8Array> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await importContentKey(keyBase64), new Uint8Array(content))
+  );
+  const encrypted = new Uint8Array(ENCRYPTED_ATTACHMENT_PREFIX.length + IV_LENGTH + ciphertext.length);
+  encrypted.set(ENCRYPTED_ATTACHMENT_PREFIX);
+  encrypted.set(iv, ENCRYPTED_ATTACHMENT_PREFIX.length);
+  encrypted.set(ciphertext, ENCRYPTED_ATTACHMENT_PREFIX.length + IV_LENGTH);
+  return encrypted;
+};
+
+export const decryptIdeaAttachment = async (content: Uint8Array, keyBase64: string): Promise<Uint8Array> => {
+  if (!isEncryptedIdeaAttachment(content)) {
+    return content;
+  }
+  const ivStart = ENCRYPTED_ATTACHMENT_PREFIX.length;
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: content.slice(ivStart, ivStart + IV_LENGTH) },
+    await importContentKey(keyBase64),
+    content.slice(ivStart + IV_LENGTH)
+  );
+  return new Uint8Array(plaintext);
+};
+
+const mapConfidentialFields = async <T extends ConfidentialIdeaRecord>(
+  record: T,
+  transform: (value: string) => Promise<string>
+): Promise<T> => {
+  const result = { ...record };
+  for (const field of CONFIDENTIAL_IDEA_FIELDS) {
+    const value = record[field];
+    if (typeof value === 'string' && value) {
+      result[field] = (await transform(value)) as T[ConfidentialIdeaField];
+    }
+  }
+  return result;
+};
+
+/**
+ * Returns a copy of `record` with its confidential fields encrypted. Already encrypted
+ * values are left untouched.
+ */
+export const encryptConfidentialFields = <T extends ConfidentialIdeaRecord>(record: T, keyBase64: string) =>
+  mapConfidentialFields(record, (value) =>
+    isEncryptedIdeaContent(value) ? Promise.resolve(value) : encryptIdeaContent(value, keyBase64)
+  );
+
+/**
+ * Returns a copy of `record` with its confidential fields decrypted.
+ */
+export const decryptConfidentialFields = <T extends ConfidentialIdeaRecord>(record: T, keyBase64: string) =>
+  mapConfidentialFields(record, (value) => decryptIdeaContent(value, keyBase64));
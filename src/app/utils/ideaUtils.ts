@@ -0,0 +1,207 @@
+/**
+ * Shared helpers for the idea submission and review API routes.
+ */
+import { keccak256, stringToBytes, type Hex } from 'viem';
+
+export const IDEA_STATUSES = [
+  'Pending Review',
+  'Under Review',
+  'Needs More Info',
+  'Approved',
+  'Rejected',
+] as const;
+
+export type IdeaStatus = (typeof IDEA_STATUSES)[number];
+
+export const DEFAULT_IDEA_STATUS: IdeaStatus = 'Pending Review';
+
+// Statuses listed in public discovery. Finalization is recorded on-chain and leaves an idea
+// Approved, so this covers finalized ideas too.
+export const PUBLIC_IDEA_STATUSES: readonly IdeaStatus[] = ['Approved'];
+
+// Allowed review status transitions. Keeping the current status is always allowed so
+// reviewers can update committee feedback on its own.
+const STATUS_TRANSITIONS: Record<IdeaStatus, IdeaStatus[]> = {
+  'Pending Review': ['Under Review', 'Needs More Info', 'Rejected'],
+  'Under Review': ['Needs More Info', 'Approved', 'Rejected'],
+  'Needs More Info': ['Under Review', 'Rejected'],
+  Approved: [],
+  Rejected: ['Under Review'],
+};
+
+export const isIdeaStatus = (value: unknown): value is IdeaStatus =>
+  typeof value === 'string' && (IDEA_STATUSES as readonly string[]).includes(value);
+
+export const isValidStatusTransition = (from: IdeaStatus, to: IdeaStatus): boolean =>
+  from === to || STATUS_TRANSITIONS[from].includes(to);
+
+// Columns returned to clients. Internal DocuSign bookkeeping columns are left out.
+export const IDEA_COLUMNS = `
+  id,
+  title,
+  description,
+  problem_statement,
+  solution,
+  target_audience,
+  impact,
+  required_resources,
+  submitter_wallet_address,
+  submission_date,
+  status,
+  committee_feedback,
+  attachments,
+  patent_status,
+  technical_readiness_level,
+  contact_email,
+  onchain_idea_id,
+  content_hash
+`;
+
+export const parseIdeaId = (rawId: string): number | null => {
+  const id = Number(rawId);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+export const IDEA_PAGE_SIZE_DEFAULT = 20;
+export const IDEA_PAGE_SIZE_MAX = 100;
+
+/**
+ * Parses `page` and `limit` search params into a bounded, 1-based page and a row offset.
+ */
+export const parsePagination = (searchParams: URLSearchParams) => {
+  const rawPage = Number.parseInt(searchParams.get('page') ?? '1', 10);
+  const rawLimit = Number.parseInt(
+    searchParams.get('limit') ?? String(IDEA_PAGE_SIZE_DEFAULT),
+    10
+  );
+
+  const page = Number.isNaN(rawPage) || rawPage < 1 ? 1 : rawPage;
+  const limit =
+    Number.isNaN(rawLimit) || rawLimit < 1
+      ? IDEA_PAGE_SIZE_DEFAULT
+      : Math.min(rawLimit, IDEA_PAGE_SIZE_MAX);
+
+  return { page, limit, offset: (page - 1) * limit };
+};
+
+/**
+ * The idea content that is hashed and registered on-chain through SparkIdeaRegistry.submitIdea.
+ * Contact details are deliberately excluded so the public record carries no personal data.
+ */
+export interface IdeaContent {
+  title: string;
+  description: string;
+  problem_statement: string;
+  solution: string;
+  target_audience: string;
+  impact: string;
+  required_resources: string | null;
+  attachments_description: string | null;
+  patent_status: string;
+  technical_readiness_level: number;
+  submitter_wallet_address: string;
+  attachment_hashes: string[];
+}
+
+/**
+ * Computes the keccak256 content hash of an idea. Client and server must produce the same
+ * value for the same submission, so keys are serialized in a fixed order and text is trimmed.
+ */
+export const computeIdeaContentHash = (content: IdeaContent): Hex =>
+  keccak256(
+    stringToBytes(
+      JSON.stringify([
+        content.title.trim(),
+        content.description.trim(),
+        content.problem_statement.trim(),
+        content.solution.trim(),
+        content.target_audience.trim(),
+        content.impact.trim(),
+        content.required_resources?.trim() || null,
+        content.attachments_description?.trim() || null,
+        content.patent_status.trim(),
+        content.technical_readiness_level,
+        content.submitter_wallet_address.toLowerCase(),
+        content.attachment_hashes,
+      ])
+    )
+  );
+
+export const hashAttachment = async (file: Blob): Promise<Hex> =>
+  keccak256(new Uint8Array(await file.arrayBuffer()));
+
+// Labels for SparkIdeaRegistry's on-chain approval status enum, indexed by its uint8 value.
+export const ONCHAIN_APPROVAL_STATUS_LABELS = ['Draft', 'Pending', 'Approved', 'Rejected'] as const;
+
+export const getOnchainApprovalStatusLabel = (status: number | bigint): string =>
+  ONCHAIN_APPROVAL_STATUS_LABELS[Number(status)] ?? 'Unknown';
+
+// Idea fields an ideator may change through SparkIdeaRegistry.modifyIdeaDetails.
+export const AMENDABLE_IDEA_FIELDS = [
+  'title',
+  'description',
+  'problem_statement',
+  'solution',
+  'target_audience',
+  'impact',
+  'required_resources',
+  'patent_status',
+  'technical_readiness_level',
+] as const;
+
+export type AmendableIdeaField = (typeof AMENDABLE_IDEA_FIELDS)[number];
+
+export const PATENT_STATUS_OPTIONS = [
+  'Not Filed',
+  'Prior Art Search Done',
+  'Provisional Filed',
+  'Drafting Full Patent',
+  'Full Patent Filed',
+  'Patented',
+  'Other',
+] as const;
+
+export interface IdeaNdaParams {
+  onchainIdeaId: string;
+  title: string;
+  ideator: string;
+  finalContentHash: string;
+  finalizedAt: number; // unix seconds, taken from the IdeaFinalized event
+}
+
+/**
+ * Builds the idea-specific NDA from the finalized on-chain record. Every input comes from the
+ * chain or the finalized content, so anyone can regenerate the document and check its hash.
+ */
+export const generateIdeaNdaDocument = (params: IdeaNdaParams): string =>
+  [
+    'IDEA-SPECIFIC NON-DISCLOSURE AGREEMENT',
+    '',
+    `Idea ID: ${params.onchainIdeaId.toLowerCase()}`,
+    `Idea Title: ${params.title.trim()}`,
+    `Ideator: ${params.ideator.toLowerCase()}`,
+    `Finalized Content Hash: ${params.finalContentHash}`,
+    `Finalized At: ${new Date(params.finalizedAt * 1000).toISOString()}`,
+    '',
+    'This Idea-Specific Non-Disclosure Agreement ("Agreement") is entered into between the ideator',
+    'named above, PoSciDonDAO and any party accessing the confidential information of the idea',
+    'identified above.',
+    '',
+    '1. CONFIDENTIAL INFORMATION',
+    'All content of the finalized idea matching the content hash above, including its description,',
+    'problem statement, proposed solution, attachments, data and any later disclosures about it.',
+    '',
+    '2. PURPOSE',
+    'Confidential information may only be used for evaluation, due diligence, funding decisions,',
+    'licensing and platform governance related to this idea.',
+    '',
+    '3. OBLIGATIONS',
+    'The receiving party shall keep the information strictly confidential, shall not reproduce or',
+    'share it, shall not use it for competing research or patent filings, and shall destroy it on request.',
+    '',
+    '4. TERM',
+    'This Agreement takes effect on signature and on-chain attestation through the AttestationVault',
+    'and its obligations survive the end of access to the idea.',
+  ].join('\n');
+
+export const computeNdaHash = (document: string): Hex => keccak256(stringToBytes(document));
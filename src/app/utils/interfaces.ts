@@ -12,6 +12,19 @@ export enum ExecutionOptions {
   Election,
   Impeachment,
   ParameterChange,
+  MintIPNFT,
+  FundAndMintIPNFT,
+  RevokeLicense,
+}
+
+// Stored with RevokeLicense proposals; ids are decimal strings as they round-trip through IPFS
+export interface LicenseRevocation {
+  ipNftId: string;
+  licenseNftId: string;
+  grounds: string;
+  // Not stored: the license the proposal's action params revoke, set when the proposal is
+  // loaded. Null if the params could not be read.
+  actionLicenseNftId?: string | null;
 }
 
 export interface ProposalSubType {
@@ -21,6 +34,7 @@ export interface ProposalSubType {
   action: string;
   executionOption: string;
   quadraticVoting: boolean;
+  licenseRevocation?: LicenseRevocation;
 }
 
 export interface ProposalFromSmartContractType {
@@ -115,6 +129,7 @@ export type CompleteProposalType = {
   executionTxHash: string;
   quorumSnapshot: string;
   proposer: string;
+  licenseRevocation?: LicenseRevocation;
 };
 
 export type Comment = {
@@ -246,6 +261,16 @@ export interface UserVoteDataGovRes {
   previousVoteAmount: number;
 }
 
+export interface UserVoteDataGovOps {
+  type: 'operations';
+  voted: boolean;
+  initialVoteTimestamp: number;
+  previousSupport: boolean;
+  previousVoteAmount: number;
+  poClaimed: boolean;
+  votingStreakAtVote: number;
+}
+
 export const PROPOSAL_STATUSES = {
   ACTIVE: 'Active',
   SCHEDULED: 'Scheduled',
@@ -266,6 +291,47 @@ export interface GovernanceResearchParameters {
   ddThreshold: string;
 }
 
+export interface GovernanceOperationsParameters {
+  proposalLifetime: string;
+  quorum: string;
+  voteLockTime: string;
+  proposeLockTime: string;
+  voteChangeTime: string;
+  voteChangeCutOff: string;
+  opThreshold: string;
+  maxVotingStreak: string;
+  votingRightsThreshold: string;
+  votingDelay: string;
+  lockedTokenMultiplierBase: string;
+  maxLockedTokenMultiplier: string;
+}
+
+export type ExecutorGovernor = 'research' | 'operations';
+
+export interface ExecutorActionParam {
+  label: string;
+  value: string;
+}
+
+export interface ExecutorQueueEntry {
+  action: string;
+  actionType: string;
+  governor: ExecutorGovernor | null;
+  proposalIndex: number | null;
+  scheduledTime: number;
+  params: ExecutorActionParam[];
+}
+
+export interface ExecutorHistoryEntry {
+  action: string;
+  actionType: string;
+  governor: ExecutorGovernor | null;
+  proposalIndex: number | null;
+  event: 'executed' | 'canceled';
+  timestamp: number;
+  transactionHash: string;
+}
+
 export interface ActionDetails {
   // ... existing code ...
 }
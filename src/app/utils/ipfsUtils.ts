@@ -0,0 +1,69 @@
+/**
+ * Helpers for resolving IPFS URIs stored on-chain (token URIs, license URIs) through the
+ * Pinata gateway, which is the IPFS origin allowed by the content security policy.
+ */
+
+export interface TokenMetadata {
+  name?: string;
+  description?: string;
+  image?: string;
+  animation_url?: string;
+  external_url?: string;
+}
+
+const IPFS_PROTOCOL = 'ipfs://';
+
+/**
+ * Converts an `ipfs://` URI or bare CID into a gateway URL. HTTP(S) and data URIs are
+ * returned unchanged.
+ */
+export const resolveIpfsUri = (uri: string): string => {
+  if (!uri) return '';
+
+  let value = uri.trim();
+  // Remove @ symbol if present at the beginning (sometimes used in URIs)
+  if (value.startsWith('@')) {
+    value = value.substring(1);
+  }
+
+  if (/^(https?:|data:)/i.test(value)) {
+    return value;
+  }
+
+  const cid = value.startsWith(IPFS_PROTOCOL)
+    ? value.substring(IPFS_PROTOCOL.length).replace(/^ipfs\//, '')
+    : value;
+  return `${process.env.NEXT_PUBLIC_PINATA_GATEWAY_URL}${cid}`;
+};
+
+/**
+ * Loads ERC-721 metadata from a token URI. Both base64/JSON data URIs and IPFS or HTTP
+ * hosted JSON are supported.
+ */
+export async function fetchTokenMetadata(tokenUri: string): Promise<TokenMetadata | null> {
+  if (!tokenUri) return null;
+
+  const url = resolveIpfsUri(tokenUri);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch token metadata: ${response.statusText}`);
+  }
+
+  const contentType = response.headers.get('content-type');
+  if (contentType && !contentType.includes('json') && !url.startsWith('data:')) {
+    // The URI points straight at a media file rather than a metadata document
+    return { image: url };
+  }
+  return (await response.json()) as TokenMetadata;
+}
+
+/**
+ * Loads a plain-text document, such as a license, from an IPFS or HTTP URI.
+ */
+export async function fetchIpfsText(uri: string): Promise<string> {
+  const response = await fetch(resolveIpfsUri(uri));
+  if (!response.ok) {
+    throw new Error(`Failed to fetch document: ${response.statusText}`);
+  }
+  return response.text();
+}
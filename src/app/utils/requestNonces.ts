@@ -0,0 +1,42 @@
+import { Redis } from '@upstash/redis';
+import { randomBytes } from 'crypto';
+
+const isMainnet = process.env.NEXT_PUBLIC_NETWORK_ENV === 'mainnet';
+
+const redis = new Redis({
+  url: isMainnet ? process.env.UPSTASH_REDIS_REST_URL! : process.env.UPSTASH_REDIS_REST_URL_DEV!,
+  token: isMainnet ? process.env.UPSTASH_REDIS_REST_TOKEN! : process.env.UPSTASH_REDIS_REST_TOKEN_DEV!,
+});
+
+// A signed request has to be made within this window after its nonce was issued
+export const REQUEST_NONCE_TTL_SECONDS = 300;
+
+const nonceKey = (nonce: string) => `request-nonce:${nonce}`;
+
+/**
+ * Issues a single-use nonce for a signed request by `address`.
+ *
+ * @param address - The wallet address that will sign the request.
+ * @returns The nonce to include in the SignIn message.
+ */
+export async function issueRequestNonce(address: string): Promise<string> {
+  const nonce = `0x${randomBytes(16).toString('hex')}`;
+  await redis.set(nonceKey(nonce), address.toLowerCase(), { ex: REQUEST_NONCE_TTL_SECONDS });
+  return nonce;
+}
+
+/**
+ * Consumes a nonce issued by issueRequestNonce. A nonce can be consumed once, only by the
+ * address it was issued to and only before it expires.
+ *
+ * @param nonce - The nonce from the signed message.
+ * @param address - The address that signed the message.
+ * @returns True if the nonce was valid for `address`.
+ */
+export async function consumeRequestNonce(nonce: string, address: string): Promise<boolean> {
+  if (!/^0x[a-f0-9]{32}$/.test(nonce)) {
+    return false;
+  }
+  const issuedTo = await redis.getdel<string>(nonceKey(nonce));
+  return issuedTo === address.toLowerCase();
+}
@@ -0,0 +1,54 @@
+import { Address } from 'viem';
+
+export interface SignedRequest {
+  signature: string;
+  // The exact message that was signed, with BigInts sent as strings
+  signedMessage: { domain: object; message: object };
+}
+
+/**
+ * Signs a SignIn message over a server-issued nonce, for API routes that check the
+ * request with verifySignedRequest. Send the signature in the 'x-eth-signature' header.
+ *
+ * @param address - The connected wallet address.
+ * @param chainId - The chain the wallet is connected to.
+ * @param generateSignInMessage - WalletContext.generateSignInMessage.
+ * @param signMessage - WalletContext.signMessage.
+ * @returns The signature and the signed message.
+ * @throws If no nonce could be obtained or the user rejected the signature.
+ */
+export async function createSignedRequest(
+  address: Address,
+  chainId: number,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  generateSignInMessage: (address: Address, chainId: number, nonce: string) => any,
+  signMessage: (message: string) => Promise<`0x${string}` | null>
+): Promise<SignedRequest> {
+  const nonceResponse = await fetch('/api/auth/nonce', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ address }),
+  });
+  if (!nonceResponse.ok) {
+    throw new Error('Failed to obtain a signing nonce.');
+  }
+  const { nonce } = await nonceResponse.json();
+
+  const siweMessage = generateSignInMessage(address, chainId, nonce);
+  if (!siweMessage) {
+    throw new Error('Failed to generate sign-in message.');
+  }
+
+  const signature = await signMessage(siweMessage);
+  if (!signature) {
+    throw new Error('The signature request was rejected or timed out.');
+  }
+
+  return {
+    signature,
+    signedMessage: {
+      domain: { ...siweMessage.domain, chainId: siweMessage.domain.chainId.toString() },
+      message: { ...siweMessage.message, chainId: siweMessage.message.chainId.toString() },
+    },
+  };
+}